@@ -0,0 +1 @@
+import{r as m,u as p,j as e,a as h,c as v,R as N}from"./utils-CYH9lgI0.js";import{i as y}from"./theme-AVM5alPP.js";const n="https://via.placeholder.com/800x600/e0e0e0/666666?text=Property",u=t=>t.from&&t.until?`${t.from} – ${t.until}`:t.from?`From ${t.from}`:t.until?`Until ${t.until}`:"Not specified",k=()=>{const{accommodation:t}=p(),[o,g]=m.useState(0),[a,b]=m.useState(!1);if(!t||!t.photos)return e.jsx("div",{className:"w-full p-10 text-center text-muted-foreground",children:"Property details are not available"});const i=t.photos.length>0?t.photos:[{url:n,thumbnailUrl:n}],c=i[Math.min(o,i.length-1)],d=t.facilities.reduce((s,l)=>{var x;return(s[x=l.category]||(s[x]=[])).push(l.name),s},{}),r=Object.keys(d),j=a?r:r.slice(0,3);return e.jsxs("div",{className:"w-full h-full overflow-y-auto bg-transparent p-4 space-y-6 text-foreground",children:[e.jsxs("section",{children:[e.jsx("figure",{className:"relative w-full h-[280px] overflow-hidden bg-gray-100 dark:bg-gray-700 rounded-3xl",children:e.jsx("img",{alt:c.caption||t.name,className:"w-full h-full object-cover block",src:c.url,onError:s=>{s.target.src=n}})}),i.length>1&&e.jsx("div",{className:"flex gap-2 overflow-x-auto scrollbar-none mt-2 p-1",children:i.map((s,l)=>e.jsx("button",{onClick:()=>g(l),className:h("flex-shrink-0 w-16 h-16 rounded-xl overflow-hidden border-2 transition-all duration-200",l===o?"border-[#003b95] dark:border-blue-500":"border-transparent opacity-70 hover:opacity-100"),"aria-label":`Show photo ${l+1}`,children:e.jsx("img",{alt:"",className:"w-full h-full object-cover",src:s.thumbnailUrl,loading:"lazy"})},`${s.url}-${l}`))})]}),e.jsxs("section",{className:"flex justify-between items-start gap-4",children:[e.jsxs("div",{children:[e.jsx("h2",{className:"text-xl font-semibold leading-snug",children:t.name}),e.jsx("div",{className:"text-sm text-muted-foreground mt-1",children:[t.location.address,t.location.city,t.location.country].filter(Boolean).join(", ")})]}),e.jsxs("div",{className:"flex-shrink-0 text-right",children:[e.jsx("span",{className:"inline-flex items-center justify-center min-w-[40px] h-8 px-2 rounded-md text-[15px] font-bold bg-[#003b95] text-white dark:bg-blue-600",children:t.reviews.score.toFixed(1)}),e.jsxs("div",{className:"text-xs text-muted-foreground mt-1",children:[t.reviews.scoreWord," · ",t.reviews.count.toLocaleString()," reviews"]})]})]}),t.description&&e.jsx("section",{children:e.jsx("p",{className:"text-sm leading-relaxed",children:t.description})}),t.reviews.breakdown.length>0&&e.jsxs("section",{children:[e.jsx("h3",{className:"text-base font-semibold mb-3",children:"Guest reviews"}),e.jsx("div",{className:"grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2",children:t.reviews.breakdown.map(s=>e.jsxs("div",{children:[e.jsxs("div",{className:"flex justify-between text-sm",children:[e.jsx("span",{children:s.category}),e.jsx("span",{className:"font-semibold",children:s.score.toFixed(1)})]}),e.jsx("div",{className:"h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden mt-1",children:e.jsx("div",{className:"h-full rounded-full bg-[#003b95] dark:bg-blue-500",style:{width:`${Math.min(100,s.score*10)}%`}})})]},s.category))})]}),t.roomTypes.length>0&&e.jsxs("section",{children:[e.jsx("h3",{className:"text-base font-semibold mb-3",children:"Room types"}),e.jsx("div",{className:"space-y-3",children:t.roomTypes.map(s=>e.jsxs("div",{className:"flex gap-3 rounded-2xl border border-gray-200 dark:border-gray-700 p-3",children:[s.photos[0]&&e.jsx("img",{alt:s.name,className:"w-20 h-20 rounded-xl object-cover flex-shrink-0",src:s.photos[0],loading:"lazy"}),e.jsxs("div",{className:"min-w-0",children:[e.jsx("div",{className:"text-sm font-semibold",children:s.name}),s.bedConfiguration&&e.jsx("div",{className:"text-xs text-muted-foreground mt-0.5",children:s.bedConfiguration}),e.jsx("div",{className:"text-xs text-muted-foreground mt-0.5",children:[s.maxOccupancy?`Sleeps ${s.maxOccupancy}`:null,s.sizeSqm?`${s.sizeSqm} m²`:null].filter(Boolean).join(" · ")}),s.facilities.length>0&&e.jsx("div",{className:"text-xs text-muted-foreground mt-1 line-clamp-2",children:s.facilities.join(" · ")})]})]},s.id))})]}),r.length>0&&e.jsxs("section",{children:[e.jsx("h3",{className:"text-base font-semibold mb-3",children:"Facilities"}),e.jsx("div",{className:"space-y-3",children:j.map(s=>e.jsxs("div",{children:[e.jsx("div",{className:"text-sm font-semibold mb-1",children:s}),e.jsx("div",{className:"flex flex-wrap gap-1.5",children:d[s].map(l=>e.jsx("span",{className:"text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-muted-foreground",children:l},l))})]},s))}),r.length>3&&e.jsx("button",{onClick:()=>b(!a),className:"mt-3 text-sm font-semibold text-[#003b95] dark:text-blue-400 hover:underline",children:a?"Show fewer facilities":`Show all ${t.facilities.length} facilities`})]}),e.jsxs("section",{children:[e.jsx("h3",{className:"text-base font-semibold mb-3",children:"House rules"}),e.jsxs("dl",{className:"text-sm space-y-2",children:[e.jsxs("div",{className:"flex gap-4",children:[e.jsx("dt",{className:"w-32 flex-shrink-0 font-semibold",children:"Check-in"}),e.jsx("dd",{className:"text-muted-foreground",children:u(t.policies.checkIn)})]}),e.jsxs("div",{className:"flex gap-4",children:[e.jsx("dt",{className:"w-32 flex-shrink-0 font-semibold",children:"Check-out"}),e.jsx("dd",{className:"text-muted-foreground",children:u(t.policies.checkOut)})]}),t.policies.items.map(s=>e.jsxs("div",{className:"flex gap-4",children:[e.jsx("dt",{className:"w-32 flex-shrink-0 font-semibold",children:s.title}),e.jsx("dd",{className:"text-muted-foreground",children:s.text})]},`${s.type}-${s.title}`))]})]}),t.url&&e.jsx("button",{onClick:()=>{var s;return(s=window.openai)==null?void 0:s.openExternal({href:t.url})},className:h("w-full bg-gray-900 text-white border-none rounded-3xl py-2.5 px-4","text-sm font-semibold cursor-pointer transition-colors duration-200","hover:bg-gray-800","dark:bg-white dark:text-gray-900 dark:hover:bg-gray-100"),children:"Book on Booking.com"})]})};y();const f=document.getElementById("root");f&&v.createRoot(f).render(e.jsx(N.StrictMode,{children:e.jsx(k,{})}));
@@ -1,40 +0,0 @@
-(function(){const t=document.createElement("link").relList;if(t&&t.supports&&t.supports("modulepreload"))return;for(const l of document.querySelectorAll('link[rel="modulepreload"]'))r(l);new MutationObserver(l=>{for(const o of l)if(o.type==="childList")for(const i of o.addedNodes)i.tagName==="LINK"&&i.rel==="modulepreload"&&r(i)}).observe(document,{childList:!0,subtree:!0});function n(l){const o={};return l.integrity&&(o.integrity=l.integrity),l.referrerPolicy&&(o.referrerPolicy=l.referrerPolicy),l.crossOrigin==="use-credentials"?o.credentials="include":l.crossOrigin==="anonymous"?o.credentials="omit":o.credentials="same-origin",o}function r(l){if(l.ep)return;l.ep=!0;const o=n(l);fetch(l.href,o)}})();function Ec(e){return e&&e.__esModule&&Object.prototype.hasOwnProperty.call(e,"default")?e.default:e}var is={exports:{}},hl={},us={exports:{}},R={};/**
- * @license React
- * react.production.min.js
- *
- * Copyright (c) Facebook, Inc. and its affiliates.
- *
- * This source code is licensed under the MIT license found in the
- * LICENSE file in the root directory of this source tree.
- */var ur=Symbol.for("react.element"),zc=Symbol.for("react.portal"),Nc=Symbol.for("react.fragment"),_c=Symbol.for("react.strict_mode"),Pc=Symbol.for("react.profiler"),Lc=Symbol.for("react.provider"),jc=Symbol.for("react.context"),Mc=Symbol.for("react.forward_ref"),Tc=Symbol.for("react.suspense"),Rc=Symbol.for("react.memo"),Ic=Symbol.for("react.lazy"),Ki=Symbol.iterator;function Oc(e){return e===null||typeof e!="object"?null:(e=Ki&&e[Ki]||e["@@iterator"],typeof e=="function"?e:null)}var ss={isMounted:function(){return!1},enqueueForceUpdate:function(){},enqueueReplaceState:function(){},enqueueSetState:function(){}},as=Object.assign,cs={};function gn(e,t,n){this.props=e,this.context=t,this.refs=cs,this.updater=n||ss}gn.prototype.isReactComponent={};gn.prototype.setState=function(e,t){if(typeof e!="object"&&typeof e!="function"&&e!=null)throw Error("setState(...): takes an object of state variables to update or a function which returns an object of state variables.");this.updater.enqueueSetState(this,e,t,"setState")};gn.prototype.forceUpdate=function(e){this.updater.enqueueForceUpdate(this,e,"forceUpdate")};function fs(){}fs.prototype=gn.prototype;function qo(e,t,n){this.props=e,this.context=t,this.refs=cs,this.updater=n||ss}var bo=qo.prototype=new fs;bo.constructor=qo;as(bo,gn.prototype);bo.isPureReactComponent=!0;var Yi=Array.isArray,ds=Object.prototype.hasOwnProperty,ei={current:null},ps={key:!0,ref:!0,__self:!0,__source:!0};function hs(e,t,n){var r,l={},o=null,i=null;if(t!=null)for(r in t.ref!==void 0&&(i=t.ref),t.key!==void 0&&(o=""+t.key),t)ds.call(t,r)&&!ps.hasOwnProperty(r)&&(l[r]=t[r]);var u=arguments.length-2;if(u===1)l.children=n;else if(1<u){for(var s=Array(u),f=0;f<u;f++)s[f]=arguments[f+2];l.children=s}if(e&&e.defaultProps)for(r in u=e.defaultProps,u)l[r]===void 0&&(l[r]=u[r]);return{$$typeof:ur,type:e,key:o,ref:i,props:l,_owner:ei.current}}function Fc(e,t){return{$$typeof:ur,type:e.type,key:t,ref:e.ref,props:e.props,_owner:e._owner}}function ti(e){return typeof e=="object"&&e!==null&&e.$$typeof===ur}function Dc(e){var t={"=":"=0",":":"=2"};return"$"+e.replace(/[=:]/g,function(n){return t[n]})}var Xi=/\/+/g;function Ml(e,t){return typeof e=="object"&&e!==null&&e.key!=null?Dc(""+e.key):t.toString(36)}function Tr(e,t,n,r,l){var o=typeof e;(o==="undefined"||o==="boolean")&&(e=null);var i=!1;if(e===null)i=!0;else switch(o){case"string":case"number":i=!0;break;case"object":switch(e.$$typeof){case ur:case zc:i=!0}}if(i)return i=e,l=l(i),e=r===""?"."+Ml(i,0):r,Yi(l)?(n="",e!=null&&(n=e.replace(Xi,"$&/")+"/"),Tr(l,t,n,"",function(f){return f})):l!=null&&(ti(l)&&(l=Fc(l,n+(!l.key||i&&i.key===l.key?"":(""+l.key).replace(Xi,"$&/")+"/")+e)),t.push(l)),1;if(i=0,r=r===""?".":r+":",Yi(e))for(var u=0;u<e.length;u++){o=e[u];var s=r+Ml(o,u);i+=Tr(o,t,n,s,l)}else if(s=Oc(e),typeof s=="function")for(e=s.call(e),u=0;!(o=e.next()).done;)o=o.value,s=r+Ml(o,u++),i+=Tr(o,t,n,s,l);else if(o==="object")throw t=String(e),Error("Objects are not valid as a React child (found: "+(t==="[object Object]"?"object with keys {"+Object.keys(e).join(", ")+"}":t)+"). If you meant to render a collection of children, use an array instead.");return i}function mr(e,t,n){if(e==null)return e;var r=[],l=0;return Tr(e,r,"","",function(o){return t.call(n,o,l++)}),r}function Vc(e){if(e._status===-1){var t=e._result;t=t(),t.then(function(n){(e._status===0||e._status===-1)&&(e._status=1,e._result=n)},function(n){(e._status===0||e._status===-1)&&(e._status=2,e._result=n)}),e._status===-1&&(e._status=0,e._result=t)}if(e._status===1)return e._result.default;throw e._result}var fe={current:null},Rr={transition:null},Bc={ReactCurrentDispatcher:fe,ReactCurrentBatchConfig:Rr,ReactCurrentOwner:ei};function ms(){throw Error("act(...) is not supported in production builds of React.")}R.Children={map:mr,forEach:function(e,t,n){mr(e,function(){t.apply(this,arguments)},n)},count:function(e){var t=0;return mr(e,function(){t++}),t},toArray:function(e){return mr(e,function(t){return t})||[]},only:function(e){if(!ti(e))throw Error("React.Children.only expected to receive a single React element child.");return e}};R.Component=gn;R.Fragment=Nc;R.Profiler=Pc;R.PureComponent=qo;R.StrictMode=_c;R.Suspense=Tc;R.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED=Bc;R.act=ms;R.cloneElement=function(e,t,n){if(e==null)throw Error("React.cloneElement(...): The argument must be a React element, but you passed "+e+".");var r=as({},e.props),l=e.key,o=e.ref,i=e._owner;if(t!=null){if(t.ref!==void 0&&(o=t.ref,i=ei.current),t.key!==void 0&&(l=""+t.key),e.type&&e.type.defaultProps)var u=e.type.defaultProps;for(s in t)ds.call(t,s)&&!ps.hasOwnProperty(s)&&(r[s]=t[s]===void 0&&u!==void 0?u[s]:t[s])}var s=arguments.length-2;if(s===1)r.children=n;else if(1<s){u=Array(s);for(var f=0;f<s;f++)u[f]=arguments[f+2];r.children=u}return{$$typeof:ur,type:e.type,key:l,ref:o,props:r,_owner:i}};R.createContext=function(e){return e={$$typeof:jc,_currentValue:e,_currentValue2:e,_threadCount:0,Provider:null,Consumer:null,_defaultValue:null,_globalName:null},e.Provider={$$typeof:Lc,_context:e},e.Consumer=e};R.createElement=hs;R.createFactory=function(e){var t=hs.bind(null,e);return t.type=e,t};R.createRef=function(){return{current:null}};R.forwardRef=function(e){return{$$typeof:Mc,render:e}};R.isValidElement=ti;R.lazy=function(e){return{$$typeof:Ic,_payload:{_status:-1,_result:e},_init:Vc}};R.memo=function(e,t){return{$$typeof:Rc,type:e,compare:t===void 0?null:t}};R.startTransition=function(e){var t=Rr.transition;Rr.transition={};try{e()}finally{Rr.transition=t}};R.unstable_act=ms;R.useCallback=function(e,t){return fe.current.useCallback(e,t)};R.useContext=function(e){return fe.current.useContext(e)};R.useDebugValue=function(){};R.useDeferredValue=function(e){return fe.current.useDeferredValue(e)};R.useEffect=function(e,t){return fe.current.useEffect(e,t)};R.useId=function(){return fe.current.useId()};R.useImperativeHandle=function(e,t,n){return fe.current.useImperativeHandle(e,t,n)};R.useInsertionEffect=function(e,t){return fe.current.useInsertionEffect(e,t)};R.useLayoutEffect=function(e,t){return fe.current.useLayoutEffect(e,t)};R.useMemo=function(e,t){return fe.current.useMemo(e,t)};R.useReducer=function(e,t,n){return fe.current.useReducer(e,t,n)};R.useRef=function(e){return fe.current.useRef(e)};R.useState=function(e){return fe.current.useState(e)};R.useSyncExternalStore=function(e,t,n){return fe.current.useSyncExternalStore(e,t,n)};R.useTransition=function(){return fe.current.useTransition()};R.version="18.3.1";us.exports=R;var st=us.exports;const Ip=Ec(st);/**
- * @license React
- * react-jsx-runtime.production.min.js
- *
- * Copyright (c) Facebook, Inc. and its affiliates.
- *
- * This source code is licensed under the MIT license found in the
- * LICENSE file in the root directory of this source tree.
- */var Hc=st,Ac=Symbol.for("react.element"),Uc=Symbol.for("react.fragment"),$c=Object.prototype.hasOwnProperty,Wc=Hc.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED.ReactCurrentOwner,Qc={key:!0,ref:!0,__self:!0,__source:!0};function vs(e,t,n){var r,l={},o=null,i=null;n!==void 0&&(o=""+n),t.key!==void 0&&(o=""+t.key),t.ref!==void 0&&(i=t.ref);for(r in t)$c.call(t,r)&&!Qc.hasOwnProperty(r)&&(l[r]=t[r]);if(e&&e.defaultProps)for(r in t=e.defaultProps,t)l[r]===void 0&&(l[r]=t[r]);return{$$typeof:Ac,type:e,key:o,ref:i,props:l,_owner:Wc.current}}hl.Fragment=Uc;hl.jsx=vs;hl.jsxs=vs;is.exports=hl;var g=is.exports,Zi={},gs={exports:{}},Se={},ys={exports:{}},ws={};/**
- * @license React
- * scheduler.production.min.js
- *
- * Copyright (c) Facebook, Inc. and its affiliates.
- *
- * This source code is licensed under the MIT license found in the
- * LICENSE file in the root directory of this source tree.
- */(function(e){function t(C,L){var j=C.length;C.push(L);e:for(;0<j;){var O=j-1>>>1,q=C[O];if(0<l(q,L))C[O]=L,C[j]=q,j=O;else break e}}function n(C){return C.length===0?null:C[0]}function r(C){if(C.length===0)return null;var L=C[0],j=C.pop();if(j!==L){C[0]=j;e:for(var O=0,q=C.length,pr=q>>>1;O<pr;){var zt=2*(O+1)-1,jl=C[zt],Nt=zt+1,hr=C[Nt];if(0>l(jl,j))Nt<q&&0>l(hr,jl)?(C[O]=hr,C[Nt]=j,O=Nt):(C[O]=jl,C[zt]=j,O=zt);else if(Nt<q&&0>l(hr,j))C[O]=hr,C[Nt]=j,O=Nt;else break e}}return L}function l(C,L){var j=C.sortIndex-L.sortIndex;return j!==0?j:C.id-L.id}if(typeof performance=="object"&&typeof performance.now=="function"){var o=performance;e.unstable_now=function(){return o.now()}}else{var i=Date,u=i.now();e.unstable_now=function(){return i.now()-u}}var s=[],f=[],v=1,h=null,p=3,k=!1,m=!1,w=!1,P=typeof setTimeout=="function"?setTimeout:null,c=typeof clearTimeout=="function"?clearTimeout:null,a=typeof setImmediate<"u"?setImmediate:null;typeof navigator<"u"&&navigator.scheduling!==void 0&&navigator.scheduling.isInputPending!==void 0&&navigator.scheduling.isInputPending.bind(navigator.scheduling);function d(C){for(var L=n(f);L!==null;){if(L.callback===null)r(f);else if(L.startTime<=C)r(f),L.sortIndex=L.expirationTime,t(s,L);else break;L=n(f)}}function y(C){if(w=!1,d(C),!m)if(n(s)!==null)m=!0,et(S);else{var L=n(f);L!==null&&At(y,L.startTime-C)}}function S(C,L){m=!1,w&&(w=!1,c(_),_=-1),k=!0;var j=p;try{for(d(L),h=n(s);h!==null&&(!(h.expirationTime>L)||C&&!se());){var O=h.callback;if(typeof O=="function"){h.callback=null,p=h.priorityLevel;var q=O(h.expirationTime<=L);L=e.unstable_now(),typeof q=="function"?h.callback=q:h===n(s)&&r(s),d(L)}else r(s);h=n(s)}if(h!==null)var pr=!0;else{var zt=n(f);zt!==null&&At(y,zt.startTime-L),pr=!1}return pr}finally{h=null,p=j,k=!1}}var z=!1,N=null,_=-1,B=5,T=-1;function se(){return!(e.unstable_now()-T<B)}function F(){if(N!==null){var C=e.unstable_now();T=C;var L=!0;try{L=N(!0,C)}finally{L?be():(z=!1,N=null)}}else z=!1}var be;if(typeof a=="function")be=function(){a(F)};else if(typeof MessageChannel<"u"){var Et=new MessageChannel,dr=Et.port2;Et.port1.onmessage=F,be=function(){dr.postMessage(null)}}else be=function(){P(F,0)};function et(C){N=C,z||(z=!0,be())}function At(C,L){_=P(function(){C(e.unstable_now())},L)}e.unstable_IdlePriority=5,e.unstable_ImmediatePriority=1,e.unstable_LowPriority=4,e.unstable_NormalPriority=3,e.unstable_Profiling=null,e.unstable_UserBlockingPriority=2,e.unstable_cancelCallback=function(C){C.callback=null},e.unstable_continueExecution=function(){m||k||(m=!0,et(S))},e.unstable_forceFrameRate=function(C){0>C||125<C?console.error("forceFrameRate takes a positive int between 0 and 125, forcing frame rates higher than 125 fps is not supported"):B=0<C?Math.floor(1e3/C):5},e.unstable_getCurrentPriorityLevel=function(){return p},e.unstable_getFirstCallbackNode=function(){return n(s)},e.unstable_next=function(C){switch(p){case 1:case 2:case 3:var L=3;break;default:L=p}var j=p;p=L;try{return C()}finally{p=j}},e.unstable_pauseExecution=function(){},e.unstable_requestPaint=function(){},e.unstable_runWithPriority=function(C,L){switch(C){case 1:case 2:case 3:case 4:case 5:break;default:C=3}var j=p;p=C;try{return L()}finally{p=j}},e.unstable_scheduleCallback=function(C,L,j){var O=e.unstable_now();switch(typeof j=="object"&&j!==null?(j=j.delay,j=typeof j=="number"&&0<j?O+j:O):j=O,C){case 1:var q=-1;break;case 2:q=250;break;case 5:q=1073741823;break;case 4:q=1e4;break;default:q=5e3}return q=j+q,C={id:v++,callback:L,priorityLevel:C,startTime:j,expirationTime:q,sortIndex:-1},j>O?(C.sortIndex=j,t(f,C),n(s)===null&&C===n(f)&&(w?(c(_),_=-1):w=!0,At(y,j-O))):(C.sortIndex=q,t(s,C),m||k||(m=!0,et(S))),C},e.unstable_shouldYield=se,e.unstable_wrapCallback=function(C){var L=p;return function(){var j=p;p=L;try{return C.apply(this,arguments)}finally{p=j}}}})(ws);ys.exports=ws;var Gc=ys.exports;/**
- * @license React
- * react-dom.production.min.js
- *
- * Copyright (c) Facebook, Inc. and its affiliates.
- *
- * This source code is licensed under the MIT license found in the
- * LICENSE file in the root directory of this source tree.
- */var Kc=st,ke=Gc;function x(e){for(var t="https://reactjs.org/docs/error-decoder.html?invariant="+e,n=1;n<arguments.length;n++)t+="&args[]="+encodeURIComponent(arguments[n]);return"Minified React error #"+e+"; visit "+t+" for the full message or use the non-minified dev environment for full errors and additional helpful warnings."}var xs=new Set,Wn={};function Bt(e,t){cn(e,t),cn(e+"Capture",t)}function cn(e,t){for(Wn[e]=t,e=0;e<t.length;e++)xs.add(t[e])}var Ye=!(typeof window>"u"||typeof window.document>"u"||typeof window.document.createElement>"u"),lo=Object.prototype.hasOwnProperty,Yc=/^[:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD][:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\-.0-9\u00B7\u0300-\u036F\u203F-\u2040]*$/,Ji={},qi={};function Xc(e){return lo.call(qi,e)?!0:lo.call(Ji,e)?!1:Yc.test(e)?qi[e]=!0:(Ji[e]=!0,!1)}function Zc(e,t,n,r){if(n!==null&&n.type===0)return!1;switch(typeof t){case"function":case"symbol":return!0;case"boolean":return r?!1:n!==null?!n.acceptsBooleans:(e=e.toLowerCase().slice(0,5),e!=="data-"&&e!=="aria-");default:return!1}}function Jc(e,t,n,r){if(t===null||typeof t>"u"||Zc(e,t,n,r))return!0;if(r)return!1;if(n!==null)switch(n.type){case 3:return!t;case 4:return t===!1;case 5:return isNaN(t);case 6:return isNaN(t)||1>t}return!1}function de(e,t,n,r,l,o,i){this.acceptsBooleans=t===2||t===3||t===4,this.attributeName=r,this.attributeNamespace=l,this.mustUseProperty=n,this.propertyName=e,this.type=t,this.sanitizeURL=o,this.removeEmptyString=i}var re={};"children dangerouslySetInnerHTML defaultValue defaultChecked innerHTML suppressContentEditableWarning suppressHydrationWarning style".split(" ").forEach(function(e){re[e]=new de(e,0,!1,e,null,!1,!1)});[["acceptCharset","accept-charset"],["className","class"],["htmlFor","for"],["httpEquiv","http-equiv"]].forEach(function(e){var t=e[0];re[t]=new de(t,1,!1,e[1],null,!1,!1)});["contentEditable","draggable","spellCheck","value"].forEach(function(e){re[e]=new de(e,2,!1,e.toLowerCase(),null,!1,!1)});["autoReverse","externalResourcesRequired","focusable","preserveAlpha"].forEach(function(e){re[e]=new de(e,2,!1,e,null,!1,!1)});"allowFullScreen async autoFocus autoPlay controls default defer disabled disablePictureInPicture disableRemotePlayback formNoValidate hidden loop noModule noValidate open playsInline readOnly required reversed scoped seamless itemScope".split(" ").forEach(function(e){re[e]=new de(e,3,!1,e.toLowerCase(),null,!1,!1)});["checked","multiple","muted","selected"].forEach(function(e){re[e]=new de(e,3,!0,e,null,!1,!1)});["capture","download"].forEach(function(e){re[e]=new de(e,4,!1,e,null,!1,!1)});["cols","rows","size","span"].forEach(function(e){re[e]=new de(e,6,!1,e,null,!1,!1)});["rowSpan","start"].forEach(function(e){re[e]=new de(e,5,!1,e.toLowerCase(),null,!1,!1)});var ni=/[\-:]([a-z])/g;function ri(e){return e[1].toUpperCase()}"accent-height alignment-baseline arabic-form baseline-shift cap-height clip-path clip-rule color-interpolation color-interpolation-filters color-profile color-rendering dominant-baseline enable-background fill-opacity fill-rule flood-color flood-opacity font-family font-size font-size-adjust font-stretch font-style font-variant font-weight glyph-name glyph-orientation-horizontal glyph-orientation-vertical horiz-adv-x horiz-origin-x image-rendering letter-spacing lighting-color marker-end marker-mid marker-start overline-position overline-thickness paint-order panose-1 pointer-events rendering-intent shape-rendering stop-color stop-opacity strikethrough-position strikethrough-thickness stroke-dasharray stroke-dashoffset stroke-linecap stroke-linejoin stroke-miterlimit stroke-opacity stroke-width text-anchor text-decoration text-rendering underline-position underline-thickness unicode-bidi unicode-range units-per-em v-alphabetic v-hanging v-ideographic v-mathematical vector-effect vert-adv-y vert-origin-x vert-origin-y word-spacing writing-mode xmlns:xlink x-height".split(" ").forEach(function(e){var t=e.replace(ni,ri);re[t]=new de(t,1,!1,e,null,!1,!1)});"xlink:actuate xlink:arcrole xlink:role xlink:show xlink:title xlink:type".split(" ").forEach(function(e){var t=e.replace(ni,ri);re[t]=new de(t,1,!1,e,"http://www.w3.org/1999/xlink",!1,!1)});["xml:base","xml:lang","xml:space"].forEach(function(e){var t=e.replace(ni,ri);re[t]=new de(t,1,!1,e,"http://www.w3.org/XML/1998/namespace",!1,!1)});["tabIndex","crossOrigin"].forEach(function(e){re[e]=new de(e,1,!1,e.toLowerCase(),null,!1,!1)});re.xlinkHref=new de("xlinkHref",1,!1,"xlink:href","http://www.w3.org/1999/xlink",!0,!1);["src","href","action","formAction"].forEach(function(e){re[e]=new de(e,1,!1,e.toLowerCase(),null,!0,!0)});function li(e,t,n,r){var l=re.hasOwnProperty(t)?re[t]:null;(l!==null?l.type!==0:r||!(2<t.length)||t[0]!=="o"&&t[0]!=="O"||t[1]!=="n"&&t[1]!=="N")&&(Jc(t,n,l,r)&&(n=null),r||l===null?Xc(t)&&(n===null?e.removeAttribute(t):e.setAttribute(t,""+n)):l.mustUseProperty?e[l.propertyName]=n===null?l.type===3?!1:"":n:(t=l.attributeName,r=l.attributeNamespace,n===null?e.removeAttribute(t):(l=l.type,n=l===3||l===4&&n===!0?"":""+n,r?e.setAttributeNS(r,t,n):e.setAttribute(t,n))))}var qe=Kc.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED,vr=Symbol.for("react.element"),Wt=Symbol.for("react.portal"),Qt=Symbol.for("react.fragment"),oi=Symbol.for("react.strict_mode"),oo=Symbol.for("react.profiler"),ks=Symbol.for("react.provider"),Ss=Symbol.for("react.context"),ii=Symbol.for("react.forward_ref"),io=Symbol.for("react.suspense"),uo=Symbol.for("react.suspense_list"),ui=Symbol.for("react.memo"),lt=Symbol.for("react.lazy"),Cs=Symbol.for("react.offscreen"),bi=Symbol.iterator;function kn(e){return e===null||typeof e!="object"?null:(e=bi&&e[bi]||e["@@iterator"],typeof e=="function"?e:null)}var G=Object.assign,Tl;function Mn(e){if(Tl===void 0)try{throw Error()}catch(n){var t=n.stack.trim().match(/\n( *(at )?)/);Tl=t&&t[1]||""}return`
-`+Tl+e}var Rl=!1;function Il(e,t){if(!e||Rl)return"";Rl=!0;var n=Error.prepareStackTrace;Error.prepareStackTrace=void 0;try{if(t)if(t=function(){throw Error()},Object.defineProperty(t.prototype,"props",{set:function(){throw Error()}}),typeof Reflect=="object"&&Reflect.construct){try{Reflect.construct(t,[])}catch(f){var r=f}Reflect.construct(e,[],t)}else{try{t.call()}catch(f){r=f}e.call(t.prototype)}else{try{throw Error()}catch(f){r=f}e()}}catch(f){if(f&&r&&typeof f.stack=="string"){for(var l=f.stack.split(`
-`),o=r.stack.split(`
-`),i=l.length-1,u=o.length-1;1<=i&&0<=u&&l[i]!==o[u];)u--;for(;1<=i&&0<=u;i--,u--)if(l[i]!==o[u]){if(i!==1||u!==1)do if(i--,u--,0>u||l[i]!==o[u]){var s=`
-`+l[i].replace(" at new "," at ");return e.displayName&&s.includes("<anonymous>")&&(s=s.replace("<anonymous>",e.displayName)),s}while(1<=i&&0<=u);break}}}finally{Rl=!1,Error.prepareStackTrace=n}return(e=e?e.displayName||e.name:"")?Mn(e):""}function qc(e){switch(e.tag){case 5:return Mn(e.type);case 16:return Mn("Lazy");case 13:return Mn("Suspense");case 19:return Mn("SuspenseList");case 0:case 2:case 15:return e=Il(e.type,!1),e;case 11:return e=Il(e.type.render,!1),e;case 1:return e=Il(e.type,!0),e;default:return""}}function so(e){if(e==null)return null;if(typeof e=="function")return e.displayName||e.name||null;if(typeof e=="string")return e;switch(e){case Qt:return"Fragment";case Wt:return"Portal";case oo:return"Profiler";case oi:return"StrictMode";case io:return"Suspense";case uo:return"SuspenseList"}if(typeof e=="object")switch(e.$$typeof){case Ss:return(e.displayName||"Context")+".Consumer";case ks:return(e._context.displayName||"Context")+".Provider";case ii:var t=e.render;return e=e.displayName,e||(e=t.displayName||t.name||"",e=e!==""?"ForwardRef("+e+")":"ForwardRef"),e;case ui:return t=e.displayName||null,t!==null?t:so(e.type)||"Memo";case lt:t=e._payload,e=e._init;try{return so(e(t))}catch{}}return null}function bc(e){var t=e.type;switch(e.tag){case 24:return"Cache";case 9:return(t.displayName||"Context")+".Consumer";case 10:return(t._context.displayName||"Context")+".Provider";case 18:return"DehydratedFragment";case 11:return e=t.render,e=e.displayName||e.name||"",t.displayName||(e!==""?"ForwardRef("+e+")":"ForwardRef");case 7:return"Fragment";case 5:return t;case 4:return"Portal";case 3:return"Root";case 6:return"Text";case 16:return so(t);case 8:return t===oi?"StrictMode":"Mode";case 22:return"Offscreen";case 12:return"Profiler";case 21:return"Scope";case 13:return"Suspense";case 19:return"SuspenseList";case 25:return"TracingMarker";case 1:case 0:case 17:case 2:case 14:case 15:if(typeof t=="function")return t.displayName||t.name||null;if(typeof t=="string")return t}return null}function wt(e){switch(typeof e){case"boolean":case"number":case"string":case"undefined":return e;case"object":return e;default:return""}}function Es(e){var t=e.type;return(e=e.nodeName)&&e.toLowerCase()==="input"&&(t==="checkbox"||t==="radio")}function ef(e){var t=Es(e)?"checked":"value",n=Object.getOwnPropertyDescriptor(e.constructor.prototype,t),r=""+e[t];if(!e.hasOwnProperty(t)&&typeof n<"u"&&typeof n.get=="function"&&typeof n.set=="function"){var l=n.get,o=n.set;return Object.defineProperty(e,t,{configurable:!0,get:function(){return l.call(this)},set:function(i){r=""+i,o.call(this,i)}}),Object.defineProperty(e,t,{enumerable:n.enumerable}),{getValue:function(){return r},setValue:function(i){r=""+i},stopTracking:function(){e._valueTracker=null,delete e[t]}}}}function gr(e){e._valueTracker||(e._valueTracker=ef(e))}function zs(e){if(!e)return!1;var t=e._valueTracker;if(!t)return!0;var n=t.getValue(),r="";return e&&(r=Es(e)?e.checked?"true":"false":e.value),e=r,e!==n?(t.setValue(e),!0):!1}function Wr(e){if(e=e||(typeof document<"u"?document:void 0),typeof e>"u")return null;try{return e.activeElement||e.body}catch{return e.body}}function ao(e,t){var n=t.checked;return G({},t,{defaultChecked:void 0,defaultValue:void 0,value:void 0,checked:n??e._wrapperState.initialChecked})}function eu(e,t){var n=t.defaultValue==null?"":t.defaultValue,r=t.checked!=null?t.checked:t.defaultChecked;n=wt(t.value!=null?t.value:n),e._wrapperState={initialChecked:r,initialValue:n,controlled:t.type==="checkbox"||t.type==="radio"?t.checked!=null:t.value!=null}}function Ns(e,t){t=t.checked,t!=null&&li(e,"checked",t,!1)}function co(e,t){Ns(e,t);var n=wt(t.value),r=t.type;if(n!=null)r==="number"?(n===0&&e.value===""||e.value!=n)&&(e.value=""+n):e.value!==""+n&&(e.value=""+n);else if(r==="submit"||r==="reset"){e.removeAttribute("value");return}t.hasOwnProperty("value")?fo(e,t.type,n):t.hasOwnProperty("defaultValue")&&fo(e,t.type,wt(t.defaultValue)),t.checked==null&&t.defaultChecked!=null&&(e.defaultChecked=!!t.defaultChecked)}function tu(e,t,n){if(t.hasOwnProperty("value")||t.hasOwnProperty("defaultValue")){var r=t.type;if(!(r!=="submit"&&r!=="reset"||t.value!==void 0&&t.value!==null))return;t=""+e._wrapperState.initialValue,n||t===e.value||(e.value=t),e.defaultValue=t}n=e.name,n!==""&&(e.name=""),e.defaultChecked=!!e._wrapperState.initialChecked,n!==""&&(e.name=n)}function fo(e,t,n){(t!=="number"||Wr(e.ownerDocument)!==e)&&(n==null?e.defaultValue=""+e._wrapperState.initialValue:e.defaultValue!==""+n&&(e.defaultValue=""+n))}var Tn=Array.isArray;function nn(e,t,n,r){if(e=e.options,t){t={};for(var l=0;l<n.length;l++)t["$"+n[l]]=!0;for(n=0;n<e.length;n++)l=t.hasOwnProperty("$"+e[n].value),e[n].selected!==l&&(e[n].selected=l),l&&r&&(e[n].defaultSelected=!0)}else{for(n=""+wt(n),t=null,l=0;l<e.length;l++){if(e[l].value===n){e[l].selected=!0,r&&(e[l].defaultSelected=!0);return}t!==null||e[l].disabled||(t=e[l])}t!==null&&(t.selected=!0)}}function po(e,t){if(t.dangerouslySetInnerHTML!=null)throw Error(x(91));return G({},t,{value:void 0,defaultValue:void 0,children:""+e._wrapperState.initialValue})}function nu(e,t){var n=t.value;if(n==null){if(n=t.children,t=t.defaultValue,n!=null){if(t!=null)throw Error(x(92));if(Tn(n)){if(1<n.length)throw Error(x(93));n=n[0]}t=n}t==null&&(t=""),n=t}e._wrapperState={initialValue:wt(n)}}function _s(e,t){var n=wt(t.value),r=wt(t.defaultValue);n!=null&&(n=""+n,n!==e.value&&(e.value=n),t.defaultValue==null&&e.defaultValue!==n&&(e.defaultValue=n)),r!=null&&(e.defaultValue=""+r)}function ru(e){var t=e.textContent;t===e._wrapperState.initialValue&&t!==""&&t!==null&&(e.value=t)}function Ps(e){switch(e){case"svg":return"http://www.w3.org/2000/svg";case"math":return"http://www.w3.org/1998/Math/MathML";default:return"http://www.w3.org/1999/xhtml"}}function ho(e,t){return e==null||e==="http://www.w3.org/1999/xhtml"?Ps(t):e==="http://www.w3.org/2000/svg"&&t==="foreignObject"?"http://www.w3.org/1999/xhtml":e}var yr,Ls=function(e){return typeof MSApp<"u"&&MSApp.execUnsafeLocalFunction?function(t,n,r,l){MSApp.execUnsafeLocalFunction(function(){return e(t,n,r,l)})}:e}(function(e,t){if(e.namespaceURI!=="http://www.w3.org/2000/svg"||"innerHTML"in e)e.innerHTML=t;else{for(yr=yr||document.createElement("div"),yr.innerHTML="<svg>"+t.valueOf().toString()+"</svg>",t=yr.firstChild;e.firstChild;)e.removeChild(e.firstChild);for(;t.firstChild;)e.appendChild(t.firstChild)}});function Qn(e,t){if(t){var n=e.firstChild;if(n&&n===e.lastChild&&n.nodeType===3){n.nodeValue=t;return}}e.textContent=t}var On={animationIterationCount:!0,aspectRatio:!0,borderImageOutset:!0,borderImageSlice:!0,borderImageWidth:!0,boxFlex:!0,boxFlexGroup:!0,boxOrdinalGroup:!0,columnCount:!0,columns:!0,flex:!0,flexGrow:!0,flexPositive:!0,flexShrink:!0,flexNegative:!0,flexOrder:!0,gridArea:!0,gridRow:!0,gridRowEnd:!0,gridRowSpan:!0,gridRowStart:!0,gridColumn:!0,gridColumnEnd:!0,gridColumnSpan:!0,gridColumnStart:!0,fontWeight:!0,lineClamp:!0,lineHeight:!0,opacity:!0,order:!0,orphans:!0,tabSize:!0,widows:!0,zIndex:!0,zoom:!0,fillOpacity:!0,floodOpacity:!0,stopOpacity:!0,strokeDasharray:!0,strokeDashoffset:!0,strokeMiterlimit:!0,strokeOpacity:!0,strokeWidth:!0},tf=["Webkit","ms","Moz","O"];Object.keys(On).forEach(function(e){tf.forEach(function(t){t=t+e.charAt(0).toUpperCase()+e.substring(1),On[t]=On[e]})});function js(e,t,n){return t==null||typeof t=="boolean"||t===""?"":n||typeof t!="number"||t===0||On.hasOwnProperty(e)&&On[e]?(""+t).trim():t+"px"}function Ms(e,t){e=e.style;for(var n in t)if(t.hasOwnProperty(n)){var r=n.indexOf("--")===0,l=js(n,t[n],r);n==="float"&&(n="cssFloat"),r?e.setProperty(n,l):e[n]=l}}var nf=G({menuitem:!0},{area:!0,base:!0,br:!0,col:!0,embed:!0,hr:!0,img:!0,input:!0,keygen:!0,link:!0,meta:!0,param:!0,source:!0,track:!0,wbr:!0});function mo(e,t){if(t){if(nf[e]&&(t.children!=null||t.dangerouslySetInnerHTML!=null))throw Error(x(137,e));if(t.dangerouslySetInnerHTML!=null){if(t.children!=null)throw Error(x(60));if(typeof t.dangerouslySetInnerHTML!="object"||!("__html"in t.dangerouslySetInnerHTML))throw Error(x(61))}if(t.style!=null&&typeof t.style!="object")throw Error(x(62))}}function vo(e,t){if(e.indexOf("-")===-1)return typeof t.is=="string";switch(e){case"annotation-xml":case"color-profile":case"font-face":case"font-face-src":case"font-face-uri":case"font-face-format":case"font-face-name":case"missing-glyph":return!1;default:return!0}}var go=null;function si(e){return e=e.target||e.srcElement||window,e.correspondingUseElement&&(e=e.correspondingUseElement),e.nodeType===3?e.parentNode:e}var yo=null,rn=null,ln=null;function lu(e){if(e=cr(e)){if(typeof yo!="function")throw Error(x(280));var t=e.stateNode;t&&(t=wl(t),yo(e.stateNode,e.type,t))}}function Ts(e){rn?ln?ln.push(e):ln=[e]:rn=e}function Rs(){if(rn){var e=rn,t=ln;if(ln=rn=null,lu(e),t)for(e=0;e<t.length;e++)lu(t[e])}}function Is(e,t){return e(t)}function Os(){}var Ol=!1;function Fs(e,t,n){if(Ol)return e(t,n);Ol=!0;try{return Is(e,t,n)}finally{Ol=!1,(rn!==null||ln!==null)&&(Os(),Rs())}}function Gn(e,t){var n=e.stateNode;if(n===null)return null;var r=wl(n);if(r===null)return null;n=r[t];e:switch(t){case"onClick":case"onClickCapture":case"onDoubleClick":case"onDoubleClickCapture":case"onMouseDown":case"onMouseDownCapture":case"onMouseMove":case"onMouseMoveCapture":case"onMouseUp":case"onMouseUpCapture":case"onMouseEnter":(r=!r.disabled)||(e=e.type,r=!(e==="button"||e==="input"||e==="select"||e==="textarea")),e=!r;break e;default:e=!1}if(e)return null;if(n&&typeof n!="function")throw Error(x(231,t,typeof n));return n}var wo=!1;if(Ye)try{var Sn={};Object.defineProperty(Sn,"passive",{get:function(){wo=!0}}),window.addEventListener("test",Sn,Sn),window.removeEventListener("test",Sn,Sn)}catch{wo=!1}function rf(e,t,n,r,l,o,i,u,s){var f=Array.prototype.slice.call(arguments,3);try{t.apply(n,f)}catch(v){this.onError(v)}}var Fn=!1,Qr=null,Gr=!1,xo=null,lf={onError:function(e){Fn=!0,Qr=e}};function of(e,t,n,r,l,o,i,u,s){Fn=!1,Qr=null,rf.apply(lf,arguments)}function uf(e,t,n,r,l,o,i,u,s){if(of.apply(this,arguments),Fn){if(Fn){var f=Qr;Fn=!1,Qr=null}else throw Error(x(198));Gr||(Gr=!0,xo=f)}}function Ht(e){var t=e,n=e;if(e.alternate)for(;t.return;)t=t.return;else{e=t;do t=e,t.flags&4098&&(n=t.return),e=t.return;while(e)}return t.tag===3?n:null}function Ds(e){if(e.tag===13){var t=e.memoizedState;if(t===null&&(e=e.alternate,e!==null&&(t=e.memoizedState)),t!==null)return t.dehydrated}return null}function ou(e){if(Ht(e)!==e)throw Error(x(188))}function sf(e){var t=e.alternate;if(!t){if(t=Ht(e),t===null)throw Error(x(188));return t!==e?null:e}for(var n=e,r=t;;){var l=n.return;if(l===null)break;var o=l.alternate;if(o===null){if(r=l.return,r!==null){n=r;continue}break}if(l.child===o.child){for(o=l.child;o;){if(o===n)return ou(l),e;if(o===r)return ou(l),t;o=o.sibling}throw Error(x(188))}if(n.return!==r.return)n=l,r=o;else{for(var i=!1,u=l.child;u;){if(u===n){i=!0,n=l,r=o;break}if(u===r){i=!0,r=l,n=o;break}u=u.sibling}if(!i){for(u=o.child;u;){if(u===n){i=!0,n=o,r=l;break}if(u===r){i=!0,r=o,n=l;break}u=u.sibling}if(!i)throw Error(x(189))}}if(n.alternate!==r)throw Error(x(190))}if(n.tag!==3)throw Error(x(188));return n.stateNode.current===n?e:t}function Vs(e){return e=sf(e),e!==null?Bs(e):null}function Bs(e){if(e.tag===5||e.tag===6)return e;for(e=e.child;e!==null;){var t=Bs(e);if(t!==null)return t;e=e.sibling}return null}var Hs=ke.unstable_scheduleCallback,iu=ke.unstable_cancelCallback,af=ke.unstable_shouldYield,cf=ke.unstable_requestPaint,Y=ke.unstable_now,ff=ke.unstable_getCurrentPriorityLevel,ai=ke.unstable_ImmediatePriority,As=ke.unstable_UserBlockingPriority,Kr=ke.unstable_NormalPriority,df=ke.unstable_LowPriority,Us=ke.unstable_IdlePriority,ml=null,He=null;function pf(e){if(He&&typeof He.onCommitFiberRoot=="function")try{He.onCommitFiberRoot(ml,e,void 0,(e.current.flags&128)===128)}catch{}}var Ie=Math.clz32?Math.clz32:vf,hf=Math.log,mf=Math.LN2;function vf(e){return e>>>=0,e===0?32:31-(hf(e)/mf|0)|0}var wr=64,xr=4194304;function Rn(e){switch(e&-e){case 1:return 1;case 2:return 2;case 4:return 4;case 8:return 8;case 16:return 16;case 32:return 32;case 64:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return e&4194240;case 4194304:case 8388608:case 16777216:case 33554432:case 67108864:return e&130023424;case 134217728:return 134217728;case 268435456:return 268435456;case 536870912:return 536870912;case 1073741824:return 1073741824;default:return e}}function Yr(e,t){var n=e.pendingLanes;if(n===0)return 0;var r=0,l=e.suspendedLanes,o=e.pingedLanes,i=n&268435455;if(i!==0){var u=i&~l;u!==0?r=Rn(u):(o&=i,o!==0&&(r=Rn(o)))}else i=n&~l,i!==0?r=Rn(i):o!==0&&(r=Rn(o));if(r===0)return 0;if(t!==0&&t!==r&&!(t&l)&&(l=r&-r,o=t&-t,l>=o||l===16&&(o&4194240)!==0))return t;if(r&4&&(r|=n&16),t=e.entangledLanes,t!==0)for(e=e.entanglements,t&=r;0<t;)n=31-Ie(t),l=1<<n,r|=e[n],t&=~l;return r}function gf(e,t){switch(e){case 1:case 2:case 4:return t+250;case 8:case 16:case 32:case 64:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return t+5e3;case 4194304:case 8388608:case 16777216:case 33554432:case 67108864:return-1;case 134217728:case 268435456:case 536870912:case 1073741824:return-1;default:return-1}}function yf(e,t){for(var n=e.suspendedLanes,r=e.pingedLanes,l=e.expirationTimes,o=e.pendingLanes;0<o;){var i=31-Ie(o),u=1<<i,s=l[i];s===-1?(!(u&n)||u&r)&&(l[i]=gf(u,t)):s<=t&&(e.expiredLanes|=u),o&=~u}}function ko(e){return e=e.pendingLanes&-1073741825,e!==0?e:e&1073741824?1073741824:0}function $s(){var e=wr;return wr<<=1,!(wr&4194240)&&(wr=64),e}function Fl(e){for(var t=[],n=0;31>n;n++)t.push(e);return t}function sr(e,t,n){e.pendingLanes|=t,t!==536870912&&(e.suspendedLanes=0,e.pingedLanes=0),e=e.eventTimes,t=31-Ie(t),e[t]=n}function wf(e,t){var n=e.pendingLanes&~t;e.pendingLanes=t,e.suspendedLanes=0,e.pingedLanes=0,e.expiredLanes&=t,e.mutableReadLanes&=t,e.entangledLanes&=t,t=e.entanglements;var r=e.eventTimes;for(e=e.expirationTimes;0<n;){var l=31-Ie(n),o=1<<l;t[l]=0,r[l]=-1,e[l]=-1,n&=~o}}function ci(e,t){var n=e.entangledLanes|=t;for(e=e.entanglements;n;){var r=31-Ie(n),l=1<<r;l&t|e[r]&t&&(e[r]|=t),n&=~l}}var D=0;function Ws(e){return e&=-e,1<e?4<e?e&268435455?16:536870912:4:1}var Qs,fi,Gs,Ks,Ys,So=!1,kr=[],ft=null,dt=null,pt=null,Kn=new Map,Yn=new Map,it=[],xf="mousedown mouseup touchcancel touchend touchstart auxclick dblclick pointercancel pointerdown pointerup dragend dragstart drop compositionend compositionstart keydown keypress keyup input textInput copy cut paste click change contextmenu reset submit".split(" ");function uu(e,t){switch(e){case"focusin":case"focusout":ft=null;break;case"dragenter":case"dragleave":dt=null;break;case"mouseover":case"mouseout":pt=null;break;case"pointerover":case"pointerout":Kn.delete(t.pointerId);break;case"gotpointercapture":case"lostpointercapture":Yn.delete(t.pointerId)}}function Cn(e,t,n,r,l,o){return e===null||e.nativeEvent!==o?(e={blockedOn:t,domEventName:n,eventSystemFlags:r,nativeEvent:o,targetContainers:[l]},t!==null&&(t=cr(t),t!==null&&fi(t)),e):(e.eventSystemFlags|=r,t=e.targetContainers,l!==null&&t.indexOf(l)===-1&&t.push(l),e)}function kf(e,t,n,r,l){switch(t){case"focusin":return ft=Cn(ft,e,t,n,r,l),!0;case"dragenter":return dt=Cn(dt,e,t,n,r,l),!0;case"mouseover":return pt=Cn(pt,e,t,n,r,l),!0;case"pointerover":var o=l.pointerId;return Kn.set(o,Cn(Kn.get(o)||null,e,t,n,r,l)),!0;case"gotpointercapture":return o=l.pointerId,Yn.set(o,Cn(Yn.get(o)||null,e,t,n,r,l)),!0}return!1}function Xs(e){var t=Lt(e.target);if(t!==null){var n=Ht(t);if(n!==null){if(t=n.tag,t===13){if(t=Ds(n),t!==null){e.blockedOn=t,Ys(e.priority,function(){Gs(n)});return}}else if(t===3&&n.stateNode.current.memoizedState.isDehydrated){e.blockedOn=n.tag===3?n.stateNode.containerInfo:null;return}}}e.blockedOn=null}function Ir(e){if(e.blockedOn!==null)return!1;for(var t=e.targetContainers;0<t.length;){var n=Co(e.domEventName,e.eventSystemFlags,t[0],e.nativeEvent);if(n===null){n=e.nativeEvent;var r=new n.constructor(n.type,n);go=r,n.target.dispatchEvent(r),go=null}else return t=cr(n),t!==null&&fi(t),e.blockedOn=n,!1;t.shift()}return!0}function su(e,t,n){Ir(e)&&n.delete(t)}function Sf(){So=!1,ft!==null&&Ir(ft)&&(ft=null),dt!==null&&Ir(dt)&&(dt=null),pt!==null&&Ir(pt)&&(pt=null),Kn.forEach(su),Yn.forEach(su)}function En(e,t){e.blockedOn===t&&(e.blockedOn=null,So||(So=!0,ke.unstable_scheduleCallback(ke.unstable_NormalPriority,Sf)))}function Xn(e){function t(l){return En(l,e)}if(0<kr.length){En(kr[0],e);for(var n=1;n<kr.length;n++){var r=kr[n];r.blockedOn===e&&(r.blockedOn=null)}}for(ft!==null&&En(ft,e),dt!==null&&En(dt,e),pt!==null&&En(pt,e),Kn.forEach(t),Yn.forEach(t),n=0;n<it.length;n++)r=it[n],r.blockedOn===e&&(r.blockedOn=null);for(;0<it.length&&(n=it[0],n.blockedOn===null);)Xs(n),n.blockedOn===null&&it.shift()}var on=qe.ReactCurrentBatchConfig,Xr=!0;function Cf(e,t,n,r){var l=D,o=on.transition;on.transition=null;try{D=1,di(e,t,n,r)}finally{D=l,on.transition=o}}function Ef(e,t,n,r){var l=D,o=on.transition;on.transition=null;try{D=4,di(e,t,n,r)}finally{D=l,on.transition=o}}function di(e,t,n,r){if(Xr){var l=Co(e,t,n,r);if(l===null)Gl(e,t,r,Zr,n),uu(e,r);else if(kf(l,e,t,n,r))r.stopPropagation();else if(uu(e,r),t&4&&-1<xf.indexOf(e)){for(;l!==null;){var o=cr(l);if(o!==null&&Qs(o),o=Co(e,t,n,r),o===null&&Gl(e,t,r,Zr,n),o===l)break;l=o}l!==null&&r.stopPropagation()}else Gl(e,t,r,null,n)}}var Zr=null;function Co(e,t,n,r){if(Zr=null,e=si(r),e=Lt(e),e!==null)if(t=Ht(e),t===null)e=null;else if(n=t.tag,n===13){if(e=Ds(t),e!==null)return e;e=null}else if(n===3){if(t.stateNode.current.memoizedState.isDehydrated)return t.tag===3?t.stateNode.containerInfo:null;e=null}else t!==e&&(e=null);return Zr=e,null}function Zs(e){switch(e){case"cancel":case"click":case"close":case"contextmenu":case"copy":case"cut":case"auxclick":case"dblclick":case"dragend":case"dragstart":case"drop":case"focusin":case"focusout":case"input":case"invalid":case"keydown":case"keypress":case"keyup":case"mousedown":case"mouseup":case"paste":case"pause":case"play":case"pointercancel":case"pointerdown":case"pointerup":case"ratechange":case"reset":case"resize":case"seeked":case"submit":case"touchcancel":case"touchend":case"touchstart":case"volumechange":case"change":case"selectionchange":case"textInput":case"compositionstart":case"compositionend":case"compositionupdate":case"beforeblur":case"afterblur":case"beforeinput":case"blur":case"fullscreenchange":case"focus":case"hashchange":case"popstate":case"select":case"selectstart":return 1;case"drag":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"mousemove":case"mouseout":case"mouseover":case"pointermove":case"pointerout":case"pointerover":case"scroll":case"toggle":case"touchmove":case"wheel":case"mouseenter":case"mouseleave":case"pointerenter":case"pointerleave":return 4;case"message":switch(ff()){case ai:return 1;case As:return 4;case Kr:case df:return 16;case Us:return 536870912;default:return 16}default:return 16}}var at=null,pi=null,Or=null;function Js(){if(Or)return Or;var e,t=pi,n=t.length,r,l="value"in at?at.value:at.textContent,o=l.length;for(e=0;e<n&&t[e]===l[e];e++);var i=n-e;for(r=1;r<=i&&t[n-r]===l[o-r];r++);return Or=l.slice(e,1<r?1-r:void 0)}function Fr(e){var t=e.keyCode;return"charCode"in e?(e=e.charCode,e===0&&t===13&&(e=13)):e=t,e===10&&(e=13),32<=e||e===13?e:0}function Sr(){return!0}function au(){return!1}function Ce(e){function t(n,r,l,o,i){this._reactName=n,this._targetInst=l,this.type=r,this.nativeEvent=o,this.target=i,this.currentTarget=null;for(var u in e)e.hasOwnProperty(u)&&(n=e[u],this[u]=n?n(o):o[u]);return this.isDefaultPrevented=(o.defaultPrevented!=null?o.defaultPrevented:o.returnValue===!1)?Sr:au,this.isPropagationStopped=au,this}return G(t.prototype,{preventDefault:function(){this.defaultPrevented=!0;var n=this.nativeEvent;n&&(n.preventDefault?n.preventDefault():typeof n.returnValue!="unknown"&&(n.returnValue=!1),this.isDefaultPrevented=Sr)},stopPropagation:function(){var n=this.nativeEvent;n&&(n.stopPropagation?n.stopPropagation():typeof n.cancelBubble!="unknown"&&(n.cancelBubble=!0),this.isPropagationStopped=Sr)},persist:function(){},isPersistent:Sr}),t}var yn={eventPhase:0,bubbles:0,cancelable:0,timeStamp:function(e){return e.timeStamp||Date.now()},defaultPrevented:0,isTrusted:0},hi=Ce(yn),ar=G({},yn,{view:0,detail:0}),zf=Ce(ar),Dl,Vl,zn,vl=G({},ar,{screenX:0,screenY:0,clientX:0,clientY:0,pageX:0,pageY:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,getModifierState:mi,button:0,buttons:0,relatedTarget:function(e){return e.relatedTarget===void 0?e.fromElement===e.srcElement?e.toElement:e.fromElement:e.relatedTarget},movementX:function(e){return"movementX"in e?e.movementX:(e!==zn&&(zn&&e.type==="mousemove"?(Dl=e.screenX-zn.screenX,Vl=e.screenY-zn.screenY):Vl=Dl=0,zn=e),Dl)},movementY:function(e){return"movementY"in e?e.movementY:Vl}}),cu=Ce(vl),Nf=G({},vl,{dataTransfer:0}),_f=Ce(Nf),Pf=G({},ar,{relatedTarget:0}),Bl=Ce(Pf),Lf=G({},yn,{animationName:0,elapsedTime:0,pseudoElement:0}),jf=Ce(Lf),Mf=G({},yn,{clipboardData:function(e){return"clipboardData"in e?e.clipboardData:window.clipboardData}}),Tf=Ce(Mf),Rf=G({},yn,{data:0}),fu=Ce(Rf),If={Esc:"Escape",Spacebar:" ",Left:"ArrowLeft",Up:"ArrowUp",Right:"ArrowRight",Down:"ArrowDown",Del:"Delete",Win:"OS",Menu:"ContextMenu",Apps:"ContextMenu",Scroll:"ScrollLock",MozPrintableKey:"Unidentified"},Of={8:"Backspace",9:"Tab",12:"Clear",13:"Enter",16:"Shift",17:"Control",18:"Alt",19:"Pause",20:"CapsLock",27:"Escape",32:" ",33:"PageUp",34:"PageDown",35:"End",36:"Home",37:"ArrowLeft",38:"ArrowUp",39:"ArrowRight",40:"ArrowDown",45:"Insert",46:"Delete",112:"F1",113:"F2",114:"F3",115:"F4",116:"F5",117:"F6",118:"F7",119:"F8",120:"F9",121:"F10",122:"F11",123:"F12",144:"NumLock",145:"ScrollLock",224:"Meta"},Ff={Alt:"altKey",Control:"ctrlKey",Meta:"metaKey",Shift:"shiftKey"};function Df(e){var t=this.nativeEvent;return t.getModifierState?t.getModifierState(e):(e=Ff[e])?!!t[e]:!1}function mi(){return Df}var Vf=G({},ar,{key:function(e){if(e.key){var t=If[e.key]||e.key;if(t!=="Unidentified")return t}return e.type==="keypress"?(e=Fr(e),e===13?"Enter":String.fromCharCode(e)):e.type==="keydown"||e.type==="keyup"?Of[e.keyCode]||"Unidentified":""},code:0,location:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,repeat:0,locale:0,getModifierState:mi,charCode:function(e){return e.type==="keypress"?Fr(e):0},keyCode:function(e){return e.type==="keydown"||e.type==="keyup"?e.keyCode:0},which:function(e){return e.type==="keypress"?Fr(e):e.type==="keydown"||e.type==="keyup"?e.keyCode:0}}),Bf=Ce(Vf),Hf=G({},vl,{pointerId:0,width:0,height:0,pressure:0,tangentialPressure:0,tiltX:0,tiltY:0,twist:0,pointerType:0,isPrimary:0}),du=Ce(Hf),Af=G({},ar,{touches:0,targetTouches:0,changedTouches:0,altKey:0,metaKey:0,ctrlKey:0,shiftKey:0,getModifierState:mi}),Uf=Ce(Af),$f=G({},yn,{propertyName:0,elapsedTime:0,pseudoElement:0}),Wf=Ce($f),Qf=G({},vl,{deltaX:function(e){return"deltaX"in e?e.deltaX:"wheelDeltaX"in e?-e.wheelDeltaX:0},deltaY:function(e){return"deltaY"in e?e.deltaY:"wheelDeltaY"in e?-e.wheelDeltaY:"wheelDelta"in e?-e.wheelDelta:0},deltaZ:0,deltaMode:0}),Gf=Ce(Qf),Kf=[9,13,27,32],vi=Ye&&"CompositionEvent"in window,Dn=null;Ye&&"documentMode"in document&&(Dn=document.documentMode);var Yf=Ye&&"TextEvent"in window&&!Dn,qs=Ye&&(!vi||Dn&&8<Dn&&11>=Dn),pu=" ",hu=!1;function bs(e,t){switch(e){case"keyup":return Kf.indexOf(t.keyCode)!==-1;case"keydown":return t.keyCode!==229;case"keypress":case"mousedown":case"focusout":return!0;default:return!1}}function ea(e){return e=e.detail,typeof e=="object"&&"data"in e?e.data:null}var Gt=!1;function Xf(e,t){switch(e){case"compositionend":return ea(t);case"keypress":return t.which!==32?null:(hu=!0,pu);case"textInput":return e=t.data,e===pu&&hu?null:e;default:return null}}function Zf(e,t){if(Gt)return e==="compositionend"||!vi&&bs(e,t)?(e=Js(),Or=pi=at=null,Gt=!1,e):null;switch(e){case"paste":return null;case"keypress":if(!(t.ctrlKey||t.altKey||t.metaKey)||t.ctrlKey&&t.altKey){if(t.char&&1<t.char.length)return t.char;if(t.which)return String.fromCharCode(t.which)}return null;case"compositionend":return qs&&t.locale!=="ko"?null:t.data;default:return null}}var Jf={color:!0,date:!0,datetime:!0,"datetime-local":!0,email:!0,month:!0,number:!0,password:!0,range:!0,search:!0,tel:!0,text:!0,time:!0,url:!0,week:!0};function mu(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t==="input"?!!Jf[e.type]:t==="textarea"}function ta(e,t,n,r){Ts(r),t=Jr(t,"onChange"),0<t.length&&(n=new hi("onChange","change",null,n,r),e.push({event:n,listeners:t}))}var Vn=null,Zn=null;function qf(e){da(e,0)}function gl(e){var t=Xt(e);if(zs(t))return e}function bf(e,t){if(e==="change")return t}var na=!1;if(Ye){var Hl;if(Ye){var Al="oninput"in document;if(!Al){var vu=document.createElement("div");vu.setAttribute("oninput","return;"),Al=typeof vu.oninput=="function"}Hl=Al}else Hl=!1;na=Hl&&(!document.documentMode||9<document.documentMode)}function gu(){Vn&&(Vn.detachEvent("onpropertychange",ra),Zn=Vn=null)}function ra(e){if(e.propertyName==="value"&&gl(Zn)){var t=[];ta(t,Zn,e,si(e)),Fs(qf,t)}}function ed(e,t,n){e==="focusin"?(gu(),Vn=t,Zn=n,Vn.attachEvent("onpropertychange",ra)):e==="focusout"&&gu()}function td(e){if(e==="selectionchange"||e==="keyup"||e==="keydown")return gl(Zn)}function nd(e,t){if(e==="click")return gl(t)}function rd(e,t){if(e==="input"||e==="change")return gl(t)}function ld(e,t){return e===t&&(e!==0||1/e===1/t)||e!==e&&t!==t}var Fe=typeof Object.is=="function"?Object.is:ld;function Jn(e,t){if(Fe(e,t))return!0;if(typeof e!="object"||e===null||typeof t!="object"||t===null)return!1;var n=Object.keys(e),r=Object.keys(t);if(n.length!==r.length)return!1;for(r=0;r<n.length;r++){var l=n[r];if(!lo.call(t,l)||!Fe(e[l],t[l]))return!1}return!0}function yu(e){for(;e&&e.firstChild;)e=e.firstChild;return e}function wu(e,t){var n=yu(e);e=0;for(var r;n;){if(n.nodeType===3){if(r=e+n.textContent.length,e<=t&&r>=t)return{node:n,offset:t-e};e=r}e:{for(;n;){if(n.nextSibling){n=n.nextSibling;break e}n=n.parentNode}n=void 0}n=yu(n)}}function la(e,t){return e&&t?e===t?!0:e&&e.nodeType===3?!1:t&&t.nodeType===3?la(e,t.parentNode):"contains"in e?e.contains(t):e.compareDocumentPosition?!!(e.compareDocumentPosition(t)&16):!1:!1}function oa(){for(var e=window,t=Wr();t instanceof e.HTMLIFrameElement;){try{var n=typeof t.contentWindow.location.href=="string"}catch{n=!1}if(n)e=t.contentWindow;else break;t=Wr(e.document)}return t}function gi(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t&&(t==="input"&&(e.type==="text"||e.type==="search"||e.type==="tel"||e.type==="url"||e.type==="password")||t==="textarea"||e.contentEditable==="true")}function od(e){var t=oa(),n=e.focusedElem,r=e.selectionRange;if(t!==n&&n&&n.ownerDocument&&la(n.ownerDocument.documentElement,n)){if(r!==null&&gi(n)){if(t=r.start,e=r.end,e===void 0&&(e=t),"selectionStart"in n)n.selectionStart=t,n.selectionEnd=Math.min(e,n.value.length);else if(e=(t=n.ownerDocument||document)&&t.defaultView||window,e.getSelection){e=e.getSelection();var l=n.textContent.length,o=Math.min(r.start,l);r=r.end===void 0?o:Math.min(r.end,l),!e.extend&&o>r&&(l=r,r=o,o=l),l=wu(n,o);var i=wu(n,r);l&&i&&(e.rangeCount!==1||e.anchorNode!==l.node||e.anchorOffset!==l.offset||e.focusNode!==i.node||e.focusOffset!==i.offset)&&(t=t.createRange(),t.setStart(l.node,l.offset),e.removeAllRanges(),o>r?(e.addRange(t),e.extend(i.node,i.offset)):(t.setEnd(i.node,i.offset),e.addRange(t)))}}for(t=[],e=n;e=e.parentNode;)e.nodeType===1&&t.push({element:e,left:e.scrollLeft,top:e.scrollTop});for(typeof n.focus=="function"&&n.focus(),n=0;n<t.length;n++)e=t[n],e.element.scrollLeft=e.left,e.element.scrollTop=e.top}}var id=Ye&&"documentMode"in document&&11>=document.documentMode,Kt=null,Eo=null,Bn=null,zo=!1;function xu(e,t,n){var r=n.window===n?n.document:n.nodeType===9?n:n.ownerDocument;zo||Kt==null||Kt!==Wr(r)||(r=Kt,"selectionStart"in r&&gi(r)?r={start:r.selectionStart,end:r.selectionEnd}:(r=(r.ownerDocument&&r.ownerDocument.defaultView||window).getSelection(),r={anchorNode:r.anchorNode,anchorOffset:r.anchorOffset,focusNode:r.focusNode,focusOffset:r.focusOffset}),Bn&&Jn(Bn,r)||(Bn=r,r=Jr(Eo,"onSelect"),0<r.length&&(t=new hi("onSelect","select",null,t,n),e.push({event:t,listeners:r}),t.target=Kt)))}function Cr(e,t){var n={};return n[e.toLowerCase()]=t.toLowerCase(),n["Webkit"+e]="webkit"+t,n["Moz"+e]="moz"+t,n}var Yt={animationend:Cr("Animation","AnimationEnd"),animationiteration:Cr("Animation","AnimationIteration"),animationstart:Cr("Animation","AnimationStart"),transitionend:Cr("Transition","TransitionEnd")},Ul={},ia={};Ye&&(ia=document.createElement("div").style,"AnimationEvent"in window||(delete Yt.animationend.animation,delete Yt.animationiteration.animation,delete Yt.animationstart.animation),"TransitionEvent"in window||delete Yt.transitionend.transition);function yl(e){if(Ul[e])return Ul[e];if(!Yt[e])return e;var t=Yt[e],n;for(n in t)if(t.hasOwnProperty(n)&&n in ia)return Ul[e]=t[n];return e}var ua=yl("animationend"),sa=yl("animationiteration"),aa=yl("animationstart"),ca=yl("transitionend"),fa=new Map,ku="abort auxClick cancel canPlay canPlayThrough click close contextMenu copy cut drag dragEnd dragEnter dragExit dragLeave dragOver dragStart drop durationChange emptied encrypted ended error gotPointerCapture input invalid keyDown keyPress keyUp load loadedData loadedMetadata loadStart lostPointerCapture mouseDown mouseMove mouseOut mouseOver mouseUp paste pause play playing pointerCancel pointerDown pointerMove pointerOut pointerOver pointerUp progress rateChange reset resize seeked seeking stalled submit suspend timeUpdate touchCancel touchEnd touchStart volumeChange scroll toggle touchMove waiting wheel".split(" ");function kt(e,t){fa.set(e,t),Bt(t,[e])}for(var $l=0;$l<ku.length;$l++){var Wl=ku[$l],ud=Wl.toLowerCase(),sd=Wl[0].toUpperCase()+Wl.slice(1);kt(ud,"on"+sd)}kt(ua,"onAnimationEnd");kt(sa,"onAnimationIteration");kt(aa,"onAnimationStart");kt("dblclick","onDoubleClick");kt("focusin","onFocus");kt("focusout","onBlur");kt(ca,"onTransitionEnd");cn("onMouseEnter",["mouseout","mouseover"]);cn("onMouseLeave",["mouseout","mouseover"]);cn("onPointerEnter",["pointerout","pointerover"]);cn("onPointerLeave",["pointerout","pointerover"]);Bt("onChange","change click focusin focusout input keydown keyup selectionchange".split(" "));Bt("onSelect","focusout contextmenu dragend focusin keydown keyup mousedown mouseup selectionchange".split(" "));Bt("onBeforeInput",["compositionend","keypress","textInput","paste"]);Bt("onCompositionEnd","compositionend focusout keydown keypress keyup mousedown".split(" "));Bt("onCompositionStart","compositionstart focusout keydown keypress keyup mousedown".split(" "));Bt("onCompositionUpdate","compositionupdate focusout keydown keypress keyup mousedown".split(" "));var In="abort canplay canplaythrough durationchange emptied encrypted ended error loadeddata loadedmetadata loadstart pause play playing progress ratechange resize seeked seeking stalled suspend timeupdate volumechange waiting".split(" "),ad=new Set("cancel close invalid load scroll toggle".split(" ").concat(In));function Su(e,t,n){var r=e.type||"unknown-event";e.currentTarget=n,uf(r,t,void 0,e),e.currentTarget=null}function da(e,t){t=(t&4)!==0;for(var n=0;n<e.length;n++){var r=e[n],l=r.event;r=r.listeners;e:{var o=void 0;if(t)for(var i=r.length-1;0<=i;i--){var u=r[i],s=u.instance,f=u.currentTarget;if(u=u.listener,s!==o&&l.isPropagationStopped())break e;Su(l,u,f),o=s}else for(i=0;i<r.length;i++){if(u=r[i],s=u.instance,f=u.currentTarget,u=u.listener,s!==o&&l.isPropagationStopped())break e;Su(l,u,f),o=s}}}if(Gr)throw e=xo,Gr=!1,xo=null,e}function A(e,t){var n=t[jo];n===void 0&&(n=t[jo]=new Set);var r=e+"__bubble";n.has(r)||(pa(t,e,2,!1),n.add(r))}function Ql(e,t,n){var r=0;t&&(r|=4),pa(n,e,r,t)}var Er="_reactListening"+Math.random().toString(36).slice(2);function qn(e){if(!e[Er]){e[Er]=!0,xs.forEach(function(n){n!=="selectionchange"&&(ad.has(n)||Ql(n,!1,e),Ql(n,!0,e))});var t=e.nodeType===9?e:e.ownerDocument;t===null||t[Er]||(t[Er]=!0,Ql("selectionchange",!1,t))}}function pa(e,t,n,r){switch(Zs(t)){case 1:var l=Cf;break;case 4:l=Ef;break;default:l=di}n=l.bind(null,t,n,e),l=void 0,!wo||t!=="touchstart"&&t!=="touchmove"&&t!=="wheel"||(l=!0),r?l!==void 0?e.addEventListener(t,n,{capture:!0,passive:l}):e.addEventListener(t,n,!0):l!==void 0?e.addEventListener(t,n,{passive:l}):e.addEventListener(t,n,!1)}function Gl(e,t,n,r,l){var o=r;if(!(t&1)&&!(t&2)&&r!==null)e:for(;;){if(r===null)return;var i=r.tag;if(i===3||i===4){var u=r.stateNode.containerInfo;if(u===l||u.nodeType===8&&u.parentNode===l)break;if(i===4)for(i=r.return;i!==null;){var s=i.tag;if((s===3||s===4)&&(s=i.stateNode.containerInfo,s===l||s.nodeType===8&&s.parentNode===l))return;i=i.return}for(;u!==null;){if(i=Lt(u),i===null)return;if(s=i.tag,s===5||s===6){r=o=i;continue e}u=u.parentNode}}r=r.return}Fs(function(){var f=o,v=si(n),h=[];e:{var p=fa.get(e);if(p!==void 0){var k=hi,m=e;switch(e){case"keypress":if(Fr(n)===0)break e;case"keydown":case"keyup":k=Bf;break;case"focusin":m="focus",k=Bl;break;case"focusout":m="blur",k=Bl;break;case"beforeblur":case"afterblur":k=Bl;break;case"click":if(n.button===2)break e;case"auxclick":case"dblclick":case"mousedown":case"mousemove":case"mouseup":case"mouseout":case"mouseover":case"contextmenu":k=cu;break;case"drag":case"dragend":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"dragstart":case"drop":k=_f;break;case"touchcancel":case"touchend":case"touchmove":case"touchstart":k=Uf;break;case ua:case sa:case aa:k=jf;break;case ca:k=Wf;break;case"scroll":k=zf;break;case"wheel":k=Gf;break;case"copy":case"cut":case"paste":k=Tf;break;case"gotpointercapture":case"lostpointercapture":case"pointercancel":case"pointerdown":case"pointermove":case"pointerout":case"pointerover":case"pointerup":k=du}var w=(t&4)!==0,P=!w&&e==="scroll",c=w?p!==null?p+"Capture":null:p;w=[];for(var a=f,d;a!==null;){d=a;var y=d.stateNode;if(d.tag===5&&y!==null&&(d=y,c!==null&&(y=Gn(a,c),y!=null&&w.push(bn(a,y,d)))),P)break;a=a.return}0<w.length&&(p=new k(p,m,null,n,v),h.push({event:p,listeners:w}))}}if(!(t&7)){e:{if(p=e==="mouseover"||e==="pointerover",k=e==="mouseout"||e==="pointerout",p&&n!==go&&(m=n.relatedTarget||n.fromElement)&&(Lt(m)||m[Xe]))break e;if((k||p)&&(p=v.window===v?v:(p=v.ownerDocument)?p.defaultView||p.parentWindow:window,k?(m=n.relatedTarget||n.toElement,k=f,m=m?Lt(m):null,m!==null&&(P=Ht(m),m!==P||m.tag!==5&&m.tag!==6)&&(m=null)):(k=null,m=f),k!==m)){if(w=cu,y="onMouseLeave",c="onMouseEnter",a="mouse",(e==="pointerout"||e==="pointerover")&&(w=du,y="onPointerLeave",c="onPointerEnter",a="pointer"),P=k==null?p:Xt(k),d=m==null?p:Xt(m),p=new w(y,a+"leave",k,n,v),p.target=P,p.relatedTarget=d,y=null,Lt(v)===f&&(w=new w(c,a+"enter",m,n,v),w.target=d,w.relatedTarget=P,y=w),P=y,k&&m)t:{for(w=k,c=m,a=0,d=w;d;d=Ut(d))a++;for(d=0,y=c;y;y=Ut(y))d++;for(;0<a-d;)w=Ut(w),a--;for(;0<d-a;)c=Ut(c),d--;for(;a--;){if(w===c||c!==null&&w===c.alternate)break t;w=Ut(w),c=Ut(c)}w=null}else w=null;k!==null&&Cu(h,p,k,w,!1),m!==null&&P!==null&&Cu(h,P,m,w,!0)}}e:{if(p=f?Xt(f):window,k=p.nodeName&&p.nodeName.toLowerCase(),k==="select"||k==="input"&&p.type==="file")var S=bf;else if(mu(p))if(na)S=rd;else{S=td;var z=ed}else(k=p.nodeName)&&k.toLowerCase()==="input"&&(p.type==="checkbox"||p.type==="radio")&&(S=nd);if(S&&(S=S(e,f))){ta(h,S,n,v);break e}z&&z(e,p,f),e==="focusout"&&(z=p._wrapperState)&&z.controlled&&p.type==="number"&&fo(p,"number",p.value)}switch(z=f?Xt(f):window,e){case"focusin":(mu(z)||z.contentEditable==="true")&&(Kt=z,Eo=f,Bn=null);break;case"focusout":Bn=Eo=Kt=null;break;case"mousedown":zo=!0;break;case"contextmenu":case"mouseup":case"dragend":zo=!1,xu(h,n,v);break;case"selectionchange":if(id)break;case"keydown":case"keyup":xu(h,n,v)}var N;if(vi)e:{switch(e){case"compositionstart":var _="onCompositionStart";break e;case"compositionend":_="onCompositionEnd";break e;case"compositionupdate":_="onCompositionUpdate";break e}_=void 0}else Gt?bs(e,n)&&(_="onCompositionEnd"):e==="keydown"&&n.keyCode===229&&(_="onCompositionStart");_&&(qs&&n.locale!=="ko"&&(Gt||_!=="onCompositionStart"?_==="onCompositionEnd"&&Gt&&(N=Js()):(at=v,pi="value"in at?at.value:at.textContent,Gt=!0)),z=Jr(f,_),0<z.length&&(_=new fu(_,e,null,n,v),h.push({event:_,listeners:z}),N?_.data=N:(N=ea(n),N!==null&&(_.data=N)))),(N=Yf?Xf(e,n):Zf(e,n))&&(f=Jr(f,"onBeforeInput"),0<f.length&&(v=new fu("onBeforeInput","beforeinput",null,n,v),h.push({event:v,listeners:f}),v.data=N))}da(h,t)})}function bn(e,t,n){return{instance:e,listener:t,currentTarget:n}}function Jr(e,t){for(var n=t+"Capture",r=[];e!==null;){var l=e,o=l.stateNode;l.tag===5&&o!==null&&(l=o,o=Gn(e,n),o!=null&&r.unshift(bn(e,o,l)),o=Gn(e,t),o!=null&&r.push(bn(e,o,l))),e=e.return}return r}function Ut(e){if(e===null)return null;do e=e.return;while(e&&e.tag!==5);return e||null}function Cu(e,t,n,r,l){for(var o=t._reactName,i=[];n!==null&&n!==r;){var u=n,s=u.alternate,f=u.stateNode;if(s!==null&&s===r)break;u.tag===5&&f!==null&&(u=f,l?(s=Gn(n,o),s!=null&&i.unshift(bn(n,s,u))):l||(s=Gn(n,o),s!=null&&i.push(bn(n,s,u)))),n=n.return}i.length!==0&&e.push({event:t,listeners:i})}var cd=/\r\n?/g,fd=/\u0000|\uFFFD/g;function Eu(e){return(typeof e=="string"?e:""+e).replace(cd,`
-`).replace(fd,"")}function zr(e,t,n){if(t=Eu(t),Eu(e)!==t&&n)throw Error(x(425))}function qr(){}var No=null,_o=null;function Po(e,t){return e==="textarea"||e==="noscript"||typeof t.children=="string"||typeof t.children=="number"||typeof t.dangerouslySetInnerHTML=="object"&&t.dangerouslySetInnerHTML!==null&&t.dangerouslySetInnerHTML.__html!=null}var Lo=typeof setTimeout=="function"?setTimeout:void 0,dd=typeof clearTimeout=="function"?clearTimeout:void 0,zu=typeof Promise=="function"?Promise:void 0,pd=typeof queueMicrotask=="function"?queueMicrotask:typeof zu<"u"?function(e){return zu.resolve(null).then(e).catch(hd)}:Lo;function hd(e){setTimeout(function(){throw e})}function Kl(e,t){var n=t,r=0;do{var l=n.nextSibling;if(e.removeChild(n),l&&l.nodeType===8)if(n=l.data,n==="/$"){if(r===0){e.removeChild(l),Xn(t);return}r--}else n!=="$"&&n!=="$?"&&n!=="$!"||r++;n=l}while(n);Xn(t)}function ht(e){for(;e!=null;e=e.nextSibling){var t=e.nodeType;if(t===1||t===3)break;if(t===8){if(t=e.data,t==="$"||t==="$!"||t==="$?")break;if(t==="/$")return null}}return e}function Nu(e){e=e.previousSibling;for(var t=0;e;){if(e.nodeType===8){var n=e.data;if(n==="$"||n==="$!"||n==="$?"){if(t===0)return e;t--}else n==="/$"&&t++}e=e.previousSibling}return null}var wn=Math.random().toString(36).slice(2),Be="__reactFiber$"+wn,er="__reactProps$"+wn,Xe="__reactContainer$"+wn,jo="__reactEvents$"+wn,md="__reactListeners$"+wn,vd="__reactHandles$"+wn;function Lt(e){var t=e[Be];if(t)return t;for(var n=e.parentNode;n;){if(t=n[Xe]||n[Be]){if(n=t.alternate,t.child!==null||n!==null&&n.child!==null)for(e=Nu(e);e!==null;){if(n=e[Be])return n;e=Nu(e)}return t}e=n,n=e.parentNode}return null}function cr(e){return e=e[Be]||e[Xe],!e||e.tag!==5&&e.tag!==6&&e.tag!==13&&e.tag!==3?null:e}function Xt(e){if(e.tag===5||e.tag===6)return e.stateNode;throw Error(x(33))}function wl(e){return e[er]||null}var Mo=[],Zt=-1;function St(e){return{current:e}}function U(e){0>Zt||(e.current=Mo[Zt],Mo[Zt]=null,Zt--)}function V(e,t){Zt++,Mo[Zt]=e.current,e.current=t}var xt={},ue=St(xt),me=St(!1),It=xt;function fn(e,t){var n=e.type.contextTypes;if(!n)return xt;var r=e.stateNode;if(r&&r.__reactInternalMemoizedUnmaskedChildContext===t)return r.__reactInternalMemoizedMaskedChildContext;var l={},o;for(o in n)l[o]=t[o];return r&&(e=e.stateNode,e.__reactInternalMemoizedUnmaskedChildContext=t,e.__reactInternalMemoizedMaskedChildContext=l),l}function ve(e){return e=e.childContextTypes,e!=null}function br(){U(me),U(ue)}function _u(e,t,n){if(ue.current!==xt)throw Error(x(168));V(ue,t),V(me,n)}function ha(e,t,n){var r=e.stateNode;if(t=t.childContextTypes,typeof r.getChildContext!="function")return n;r=r.getChildContext();for(var l in r)if(!(l in t))throw Error(x(108,bc(e)||"Unknown",l));return G({},n,r)}function el(e){return e=(e=e.stateNode)&&e.__reactInternalMemoizedMergedChildContext||xt,It=ue.current,V(ue,e),V(me,me.current),!0}function Pu(e,t,n){var r=e.stateNode;if(!r)throw Error(x(169));n?(e=ha(e,t,It),r.__reactInternalMemoizedMergedChildContext=e,U(me),U(ue),V(ue,e)):U(me),V(me,n)}var We=null,xl=!1,Yl=!1;function ma(e){We===null?We=[e]:We.push(e)}function gd(e){xl=!0,ma(e)}function Ct(){if(!Yl&&We!==null){Yl=!0;var e=0,t=D;try{var n=We;for(D=1;e<n.length;e++){var r=n[e];do r=r(!0);while(r!==null)}We=null,xl=!1}catch(l){throw We!==null&&(We=We.slice(e+1)),Hs(ai,Ct),l}finally{D=t,Yl=!1}}return null}var Jt=[],qt=0,tl=null,nl=0,Ee=[],ze=0,Ot=null,Qe=1,Ge="";function _t(e,t){Jt[qt++]=nl,Jt[qt++]=tl,tl=e,nl=t}function va(e,t,n){Ee[ze++]=Qe,Ee[ze++]=Ge,Ee[ze++]=Ot,Ot=e;var r=Qe;e=Ge;var l=32-Ie(r)-1;r&=~(1<<l),n+=1;var o=32-Ie(t)+l;if(30<o){var i=l-l%5;o=(r&(1<<i)-1).toString(32),r>>=i,l-=i,Qe=1<<32-Ie(t)+l|n<<l|r,Ge=o+e}else Qe=1<<o|n<<l|r,Ge=e}function yi(e){e.return!==null&&(_t(e,1),va(e,1,0))}function wi(e){for(;e===tl;)tl=Jt[--qt],Jt[qt]=null,nl=Jt[--qt],Jt[qt]=null;for(;e===Ot;)Ot=Ee[--ze],Ee[ze]=null,Ge=Ee[--ze],Ee[ze]=null,Qe=Ee[--ze],Ee[ze]=null}var xe=null,we=null,$=!1,Re=null;function ga(e,t){var n=Ne(5,null,null,0);n.elementType="DELETED",n.stateNode=t,n.return=e,t=e.deletions,t===null?(e.deletions=[n],e.flags|=16):t.push(n)}function Lu(e,t){switch(e.tag){case 5:var n=e.type;return t=t.nodeType!==1||n.toLowerCase()!==t.nodeName.toLowerCase()?null:t,t!==null?(e.stateNode=t,xe=e,we=ht(t.firstChild),!0):!1;case 6:return t=e.pendingProps===""||t.nodeType!==3?null:t,t!==null?(e.stateNode=t,xe=e,we=null,!0):!1;case 13:return t=t.nodeType!==8?null:t,t!==null?(n=Ot!==null?{id:Qe,overflow:Ge}:null,e.memoizedState={dehydrated:t,treeContext:n,retryLane:1073741824},n=Ne(18,null,null,0),n.stateNode=t,n.return=e,e.child=n,xe=e,we=null,!0):!1;default:return!1}}function To(e){return(e.mode&1)!==0&&(e.flags&128)===0}function Ro(e){if($){var t=we;if(t){var n=t;if(!Lu(e,t)){if(To(e))throw Error(x(418));t=ht(n.nextSibling);var r=xe;t&&Lu(e,t)?ga(r,n):(e.flags=e.flags&-4097|2,$=!1,xe=e)}}else{if(To(e))throw Error(x(418));e.flags=e.flags&-4097|2,$=!1,xe=e}}}function ju(e){for(e=e.return;e!==null&&e.tag!==5&&e.tag!==3&&e.tag!==13;)e=e.return;xe=e}function Nr(e){if(e!==xe)return!1;if(!$)return ju(e),$=!0,!1;var t;if((t=e.tag!==3)&&!(t=e.tag!==5)&&(t=e.type,t=t!=="head"&&t!=="body"&&!Po(e.type,e.memoizedProps)),t&&(t=we)){if(To(e))throw ya(),Error(x(418));for(;t;)ga(e,t),t=ht(t.nextSibling)}if(ju(e),e.tag===13){if(e=e.memoizedState,e=e!==null?e.dehydrated:null,!e)throw Error(x(317));e:{for(e=e.nextSibling,t=0;e;){if(e.nodeType===8){var n=e.data;if(n==="/$"){if(t===0){we=ht(e.nextSibling);break e}t--}else n!=="$"&&n!=="$!"&&n!=="$?"||t++}e=e.nextSibling}we=null}}else we=xe?ht(e.stateNode.nextSibling):null;return!0}function ya(){for(var e=we;e;)e=ht(e.nextSibling)}function dn(){we=xe=null,$=!1}function xi(e){Re===null?Re=[e]:Re.push(e)}var yd=qe.ReactCurrentBatchConfig;function Nn(e,t,n){if(e=n.ref,e!==null&&typeof e!="function"&&typeof e!="object"){if(n._owner){if(n=n._owner,n){if(n.tag!==1)throw Error(x(309));var r=n.stateNode}if(!r)throw Error(x(147,e));var l=r,o=""+e;return t!==null&&t.ref!==null&&typeof t.ref=="function"&&t.ref._stringRef===o?t.ref:(t=function(i){var u=l.refs;i===null?delete u[o]:u[o]=i},t._stringRef=o,t)}if(typeof e!="string")throw Error(x(284));if(!n._owner)throw Error(x(290,e))}return e}function _r(e,t){throw e=Object.prototype.toString.call(t),Error(x(31,e==="[object Object]"?"object with keys {"+Object.keys(t).join(", ")+"}":e))}function Mu(e){var t=e._init;return t(e._payload)}function wa(e){function t(c,a){if(e){var d=c.deletions;d===null?(c.deletions=[a],c.flags|=16):d.push(a)}}function n(c,a){if(!e)return null;for(;a!==null;)t(c,a),a=a.sibling;return null}function r(c,a){for(c=new Map;a!==null;)a.key!==null?c.set(a.key,a):c.set(a.index,a),a=a.sibling;return c}function l(c,a){return c=yt(c,a),c.index=0,c.sibling=null,c}function o(c,a,d){return c.index=d,e?(d=c.alternate,d!==null?(d=d.index,d<a?(c.flags|=2,a):d):(c.flags|=2,a)):(c.flags|=1048576,a)}function i(c){return e&&c.alternate===null&&(c.flags|=2),c}function u(c,a,d,y){return a===null||a.tag!==6?(a=to(d,c.mode,y),a.return=c,a):(a=l(a,d),a.return=c,a)}function s(c,a,d,y){var S=d.type;return S===Qt?v(c,a,d.props.children,y,d.key):a!==null&&(a.elementType===S||typeof S=="object"&&S!==null&&S.$$typeof===lt&&Mu(S)===a.type)?(y=l(a,d.props),y.ref=Nn(c,a,d),y.return=c,y):(y=$r(d.type,d.key,d.props,null,c.mode,y),y.ref=Nn(c,a,d),y.return=c,y)}function f(c,a,d,y){return a===null||a.tag!==4||a.stateNode.containerInfo!==d.containerInfo||a.stateNode.implementation!==d.implementation?(a=no(d,c.mode,y),a.return=c,a):(a=l(a,d.children||[]),a.return=c,a)}function v(c,a,d,y,S){return a===null||a.tag!==7?(a=Rt(d,c.mode,y,S),a.return=c,a):(a=l(a,d),a.return=c,a)}function h(c,a,d){if(typeof a=="string"&&a!==""||typeof a=="number")return a=to(""+a,c.mode,d),a.return=c,a;if(typeof a=="object"&&a!==null){switch(a.$$typeof){case vr:return d=$r(a.type,a.key,a.props,null,c.mode,d),d.ref=Nn(c,null,a),d.return=c,d;case Wt:return a=no(a,c.mode,d),a.return=c,a;case lt:var y=a._init;return h(c,y(a._payload),d)}if(Tn(a)||kn(a))return a=Rt(a,c.mode,d,null),a.return=c,a;_r(c,a)}return null}function p(c,a,d,y){var S=a!==null?a.key:null;if(typeof d=="string"&&d!==""||typeof d=="number")return S!==null?null:u(c,a,""+d,y);if(typeof d=="object"&&d!==null){switch(d.$$typeof){case vr:return d.key===S?s(c,a,d,y):null;case Wt:return d.key===S?f(c,a,d,y):null;case lt:return S=d._init,p(c,a,S(d._payload),y)}if(Tn(d)||kn(d))return S!==null?null:v(c,a,d,y,null);_r(c,d)}return null}function k(c,a,d,y,S){if(typeof y=="string"&&y!==""||typeof y=="number")return c=c.get(d)||null,u(a,c,""+y,S);if(typeof y=="object"&&y!==null){switch(y.$$typeof){case vr:return c=c.get(y.key===null?d:y.key)||null,s(a,c,y,S);case Wt:return c=c.get(y.key===null?d:y.key)||null,f(a,c,y,S);case lt:var z=y._init;return k(c,a,d,z(y._payload),S)}if(Tn(y)||kn(y))return c=c.get(d)||null,v(a,c,y,S,null);_r(a,y)}return null}function m(c,a,d,y){for(var S=null,z=null,N=a,_=a=0,B=null;N!==null&&_<d.length;_++){N.index>_?(B=N,N=null):B=N.sibling;var T=p(c,N,d[_],y);if(T===null){N===null&&(N=B);break}e&&N&&T.alternate===null&&t(c,N),a=o(T,a,_),z===null?S=T:z.sibling=T,z=T,N=B}if(_===d.length)return n(c,N),$&&_t(c,_),S;if(N===null){for(;_<d.length;_++)N=h(c,d[_],y),N!==null&&(a=o(N,a,_),z===null?S=N:z.sibling=N,z=N);return $&&_t(c,_),S}for(N=r(c,N);_<d.length;_++)B=k(N,c,_,d[_],y),B!==null&&(e&&B.alternate!==null&&N.delete(B.key===null?_:B.key),a=o(B,a,_),z===null?S=B:z.sibling=B,z=B);return e&&N.forEach(function(se){return t(c,se)}),$&&_t(c,_),S}function w(c,a,d,y){var S=kn(d);if(typeof S!="function")throw Error(x(150));if(d=S.call(d),d==null)throw Error(x(151));for(var z=S=null,N=a,_=a=0,B=null,T=d.next();N!==null&&!T.done;_++,T=d.next()){N.index>_?(B=N,N=null):B=N.sibling;var se=p(c,N,T.value,y);if(se===null){N===null&&(N=B);break}e&&N&&se.alternate===null&&t(c,N),a=o(se,a,_),z===null?S=se:z.sibling=se,z=se,N=B}if(T.done)return n(c,N),$&&_t(c,_),S;if(N===null){for(;!T.done;_++,T=d.next())T=h(c,T.value,y),T!==null&&(a=o(T,a,_),z===null?S=T:z.sibling=T,z=T);return $&&_t(c,_),S}for(N=r(c,N);!T.done;_++,T=d.next())T=k(N,c,_,T.value,y),T!==null&&(e&&T.alternate!==null&&N.delete(T.key===null?_:T.key),a=o(T,a,_),z===null?S=T:z.sibling=T,z=T);return e&&N.forEach(function(F){return t(c,F)}),$&&_t(c,_),S}function P(c,a,d,y){if(typeof d=="object"&&d!==null&&d.type===Qt&&d.key===null&&(d=d.props.children),typeof d=="object"&&d!==null){switch(d.$$typeof){case vr:e:{for(var S=d.key,z=a;z!==null;){if(z.key===S){if(S=d.type,S===Qt){if(z.tag===7){n(c,z.sibling),a=l(z,d.props.children),a.return=c,c=a;break e}}else if(z.elementType===S||typeof S=="object"&&S!==null&&S.$$typeof===lt&&Mu(S)===z.type){n(c,z.sibling),a=l(z,d.props),a.ref=Nn(c,z,d),a.return=c,c=a;break e}n(c,z);break}else t(c,z);z=z.sibling}d.type===Qt?(a=Rt(d.props.children,c.mode,y,d.key),a.return=c,c=a):(y=$r(d.type,d.key,d.props,null,c.mode,y),y.ref=Nn(c,a,d),y.return=c,c=y)}return i(c);case Wt:e:{for(z=d.key;a!==null;){if(a.key===z)if(a.tag===4&&a.stateNode.containerInfo===d.containerInfo&&a.stateNode.implementation===d.implementation){n(c,a.sibling),a=l(a,d.children||[]),a.return=c,c=a;break e}else{n(c,a);break}else t(c,a);a=a.sibling}a=no(d,c.mode,y),a.return=c,c=a}return i(c);case lt:return z=d._init,P(c,a,z(d._payload),y)}if(Tn(d))return m(c,a,d,y);if(kn(d))return w(c,a,d,y);_r(c,d)}return typeof d=="string"&&d!==""||typeof d=="number"?(d=""+d,a!==null&&a.tag===6?(n(c,a.sibling),a=l(a,d),a.return=c,c=a):(n(c,a),a=to(d,c.mode,y),a.return=c,c=a),i(c)):n(c,a)}return P}var pn=wa(!0),xa=wa(!1),rl=St(null),ll=null,bt=null,ki=null;function Si(){ki=bt=ll=null}function Ci(e){var t=rl.current;U(rl),e._currentValue=t}function Io(e,t,n){for(;e!==null;){var r=e.alternate;if((e.childLanes&t)!==t?(e.childLanes|=t,r!==null&&(r.childLanes|=t)):r!==null&&(r.childLanes&t)!==t&&(r.childLanes|=t),e===n)break;e=e.return}}function un(e,t){ll=e,ki=bt=null,e=e.dependencies,e!==null&&e.firstContext!==null&&(e.lanes&t&&(he=!0),e.firstContext=null)}function Pe(e){var t=e._currentValue;if(ki!==e)if(e={context:e,memoizedValue:t,next:null},bt===null){if(ll===null)throw Error(x(308));bt=e,ll.dependencies={lanes:0,firstContext:e}}else bt=bt.next=e;return t}var jt=null;function Ei(e){jt===null?jt=[e]:jt.push(e)}function ka(e,t,n,r){var l=t.interleaved;return l===null?(n.next=n,Ei(t)):(n.next=l.next,l.next=n),t.interleaved=n,Ze(e,r)}function Ze(e,t){e.lanes|=t;var n=e.alternate;for(n!==null&&(n.lanes|=t),n=e,e=e.return;e!==null;)e.childLanes|=t,n=e.alternate,n!==null&&(n.childLanes|=t),n=e,e=e.return;return n.tag===3?n.stateNode:null}var ot=!1;function zi(e){e.updateQueue={baseState:e.memoizedState,firstBaseUpdate:null,lastBaseUpdate:null,shared:{pending:null,interleaved:null,lanes:0},effects:null}}function Sa(e,t){e=e.updateQueue,t.updateQueue===e&&(t.updateQueue={baseState:e.baseState,firstBaseUpdate:e.firstBaseUpdate,lastBaseUpdate:e.lastBaseUpdate,shared:e.shared,effects:e.effects})}function Ke(e,t){return{eventTime:e,lane:t,tag:0,payload:null,callback:null,next:null}}function mt(e,t,n){var r=e.updateQueue;if(r===null)return null;if(r=r.shared,I&2){var l=r.pending;return l===null?t.next=t:(t.next=l.next,l.next=t),r.pending=t,Ze(e,n)}return l=r.interleaved,l===null?(t.next=t,Ei(r)):(t.next=l.next,l.next=t),r.interleaved=t,Ze(e,n)}function Dr(e,t,n){if(t=t.updateQueue,t!==null&&(t=t.shared,(n&4194240)!==0)){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,ci(e,n)}}function Tu(e,t){var n=e.updateQueue,r=e.alternate;if(r!==null&&(r=r.updateQueue,n===r)){var l=null,o=null;if(n=n.firstBaseUpdate,n!==null){do{var i={eventTime:n.eventTime,lane:n.lane,tag:n.tag,payload:n.payload,callback:n.callback,next:null};o===null?l=o=i:o=o.next=i,n=n.next}while(n!==null);o===null?l=o=t:o=o.next=t}else l=o=t;n={baseState:r.baseState,firstBaseUpdate:l,lastBaseUpdate:o,shared:r.shared,effects:r.effects},e.updateQueue=n;return}e=n.lastBaseUpdate,e===null?n.firstBaseUpdate=t:e.next=t,n.lastBaseUpdate=t}function ol(e,t,n,r){var l=e.updateQueue;ot=!1;var o=l.firstBaseUpdate,i=l.lastBaseUpdate,u=l.shared.pending;if(u!==null){l.shared.pending=null;var s=u,f=s.next;s.next=null,i===null?o=f:i.next=f,i=s;var v=e.alternate;v!==null&&(v=v.updateQueue,u=v.lastBaseUpdate,u!==i&&(u===null?v.firstBaseUpdate=f:u.next=f,v.lastBaseUpdate=s))}if(o!==null){var h=l.baseState;i=0,v=f=s=null,u=o;do{var p=u.lane,k=u.eventTime;if((r&p)===p){v!==null&&(v=v.next={eventTime:k,lane:0,tag:u.tag,payload:u.payload,callback:u.callback,next:null});e:{var m=e,w=u;switch(p=t,k=n,w.tag){case 1:if(m=w.payload,typeof m=="function"){h=m.call(k,h,p);break e}h=m;break e;case 3:m.flags=m.flags&-65537|128;case 0:if(m=w.payload,p=typeof m=="function"?m.call(k,h,p):m,p==null)break e;h=G({},h,p);break e;case 2:ot=!0}}u.callback!==null&&u.lane!==0&&(e.flags|=64,p=l.effects,p===null?l.effects=[u]:p.push(u))}else k={eventTime:k,lane:p,tag:u.tag,payload:u.payload,callback:u.callback,next:null},v===null?(f=v=k,s=h):v=v.next=k,i|=p;if(u=u.next,u===null){if(u=l.shared.pending,u===null)break;p=u,u=p.next,p.next=null,l.lastBaseUpdate=p,l.shared.pending=null}}while(!0);if(v===null&&(s=h),l.baseState=s,l.firstBaseUpdate=f,l.lastBaseUpdate=v,t=l.shared.interleaved,t!==null){l=t;do i|=l.lane,l=l.next;while(l!==t)}else o===null&&(l.shared.lanes=0);Dt|=i,e.lanes=i,e.memoizedState=h}}function Ru(e,t,n){if(e=t.effects,t.effects=null,e!==null)for(t=0;t<e.length;t++){var r=e[t],l=r.callback;if(l!==null){if(r.callback=null,r=n,typeof l!="function")throw Error(x(191,l));l.call(r)}}}var fr={},Ae=St(fr),tr=St(fr),nr=St(fr);function Mt(e){if(e===fr)throw Error(x(174));return e}function Ni(e,t){switch(V(nr,t),V(tr,e),V(Ae,fr),e=t.nodeType,e){case 9:case 11:t=(t=t.documentElement)?t.namespaceURI:ho(null,"");break;default:e=e===8?t.parentNode:t,t=e.namespaceURI||null,e=e.tagName,t=ho(t,e)}U(Ae),V(Ae,t)}function hn(){U(Ae),U(tr),U(nr)}function Ca(e){Mt(nr.current);var t=Mt(Ae.current),n=ho(t,e.type);t!==n&&(V(tr,e),V(Ae,n))}function _i(e){tr.current===e&&(U(Ae),U(tr))}var W=St(0);function il(e){for(var t=e;t!==null;){if(t.tag===13){var n=t.memoizedState;if(n!==null&&(n=n.dehydrated,n===null||n.data==="$?"||n.data==="$!"))return t}else if(t.tag===19&&t.memoizedProps.revealOrder!==void 0){if(t.flags&128)return t}else if(t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return null;t=t.return}t.sibling.return=t.return,t=t.sibling}return null}var Xl=[];function Pi(){for(var e=0;e<Xl.length;e++)Xl[e]._workInProgressVersionPrimary=null;Xl.length=0}var Vr=qe.ReactCurrentDispatcher,Zl=qe.ReactCurrentBatchConfig,Ft=0,Q=null,Z=null,b=null,ul=!1,Hn=!1,rr=0,wd=0;function le(){throw Error(x(321))}function Li(e,t){if(t===null)return!1;for(var n=0;n<t.length&&n<e.length;n++)if(!Fe(e[n],t[n]))return!1;return!0}function ji(e,t,n,r,l,o){if(Ft=o,Q=t,t.memoizedState=null,t.updateQueue=null,t.lanes=0,Vr.current=e===null||e.memoizedState===null?Cd:Ed,e=n(r,l),Hn){o=0;do{if(Hn=!1,rr=0,25<=o)throw Error(x(301));o+=1,b=Z=null,t.updateQueue=null,Vr.current=zd,e=n(r,l)}while(Hn)}if(Vr.current=sl,t=Z!==null&&Z.next!==null,Ft=0,b=Z=Q=null,ul=!1,t)throw Error(x(300));return e}function Mi(){var e=rr!==0;return rr=0,e}function Ve(){var e={memoizedState:null,baseState:null,baseQueue:null,queue:null,next:null};return b===null?Q.memoizedState=b=e:b=b.next=e,b}function Le(){if(Z===null){var e=Q.alternate;e=e!==null?e.memoizedState:null}else e=Z.next;var t=b===null?Q.memoizedState:b.next;if(t!==null)b=t,Z=e;else{if(e===null)throw Error(x(310));Z=e,e={memoizedState:Z.memoizedState,baseState:Z.baseState,baseQueue:Z.baseQueue,queue:Z.queue,next:null},b===null?Q.memoizedState=b=e:b=b.next=e}return b}function lr(e,t){return typeof t=="function"?t(e):t}function Jl(e){var t=Le(),n=t.queue;if(n===null)throw Error(x(311));n.lastRenderedReducer=e;var r=Z,l=r.baseQueue,o=n.pending;if(o!==null){if(l!==null){var i=l.next;l.next=o.next,o.next=i}r.baseQueue=l=o,n.pending=null}if(l!==null){o=l.next,r=r.baseState;var u=i=null,s=null,f=o;do{var v=f.lane;if((Ft&v)===v)s!==null&&(s=s.next={lane:0,action:f.action,hasEagerState:f.hasEagerState,eagerState:f.eagerState,next:null}),r=f.hasEagerState?f.eagerState:e(r,f.action);else{var h={lane:v,action:f.action,hasEagerState:f.hasEagerState,eagerState:f.eagerState,next:null};s===null?(u=s=h,i=r):s=s.next=h,Q.lanes|=v,Dt|=v}f=f.next}while(f!==null&&f!==o);s===null?i=r:s.next=u,Fe(r,t.memoizedState)||(he=!0),t.memoizedState=r,t.baseState=i,t.baseQueue=s,n.lastRenderedState=r}if(e=n.interleaved,e!==null){l=e;do o=l.lane,Q.lanes|=o,Dt|=o,l=l.next;while(l!==e)}else l===null&&(n.lanes=0);return[t.memoizedState,n.dispatch]}function ql(e){var t=Le(),n=t.queue;if(n===null)throw Error(x(311));n.lastRenderedReducer=e;var r=n.dispatch,l=n.pending,o=t.memoizedState;if(l!==null){n.pending=null;var i=l=l.next;do o=e(o,i.action),i=i.next;while(i!==l);Fe(o,t.memoizedState)||(he=!0),t.memoizedState=o,t.baseQueue===null&&(t.baseState=o),n.lastRenderedState=o}return[o,r]}function Ea(){}function za(e,t){var n=Q,r=Le(),l=t(),o=!Fe(r.memoizedState,l);if(o&&(r.memoizedState=l,he=!0),r=r.queue,Ti(Pa.bind(null,n,r,e),[e]),r.getSnapshot!==t||o||b!==null&&b.memoizedState.tag&1){if(n.flags|=2048,or(9,_a.bind(null,n,r,l,t),void 0,null),ee===null)throw Error(x(349));Ft&30||Na(n,t,l)}return l}function Na(e,t,n){e.flags|=16384,e={getSnapshot:t,value:n},t=Q.updateQueue,t===null?(t={lastEffect:null,stores:null},Q.updateQueue=t,t.stores=[e]):(n=t.stores,n===null?t.stores=[e]:n.push(e))}function _a(e,t,n,r){t.value=n,t.getSnapshot=r,La(t)&&ja(e)}function Pa(e,t,n){return n(function(){La(t)&&ja(e)})}function La(e){var t=e.getSnapshot;e=e.value;try{var n=t();return!Fe(e,n)}catch{return!0}}function ja(e){var t=Ze(e,1);t!==null&&Oe(t,e,1,-1)}function Iu(e){var t=Ve();return typeof e=="function"&&(e=e()),t.memoizedState=t.baseState=e,e={pending:null,interleaved:null,lanes:0,dispatch:null,lastRenderedReducer:lr,lastRenderedState:e},t.queue=e,e=e.dispatch=Sd.bind(null,Q,e),[t.memoizedState,e]}function or(e,t,n,r){return e={tag:e,create:t,destroy:n,deps:r,next:null},t=Q.updateQueue,t===null?(t={lastEffect:null,stores:null},Q.updateQueue=t,t.lastEffect=e.next=e):(n=t.lastEffect,n===null?t.lastEffect=e.next=e:(r=n.next,n.next=e,e.next=r,t.lastEffect=e)),e}function Ma(){return Le().memoizedState}function Br(e,t,n,r){var l=Ve();Q.flags|=e,l.memoizedState=or(1|t,n,void 0,r===void 0?null:r)}function kl(e,t,n,r){var l=Le();r=r===void 0?null:r;var o=void 0;if(Z!==null){var i=Z.memoizedState;if(o=i.destroy,r!==null&&Li(r,i.deps)){l.memoizedState=or(t,n,o,r);return}}Q.flags|=e,l.memoizedState=or(1|t,n,o,r)}function Ou(e,t){return Br(8390656,8,e,t)}function Ti(e,t){return kl(2048,8,e,t)}function Ta(e,t){return kl(4,2,e,t)}function Ra(e,t){return kl(4,4,e,t)}function Ia(e,t){if(typeof t=="function")return e=e(),t(e),function(){t(null)};if(t!=null)return e=e(),t.current=e,function(){t.current=null}}function Oa(e,t,n){return n=n!=null?n.concat([e]):null,kl(4,4,Ia.bind(null,t,e),n)}function Ri(){}function Fa(e,t){var n=Le();t=t===void 0?null:t;var r=n.memoizedState;return r!==null&&t!==null&&Li(t,r[1])?r[0]:(n.memoizedState=[e,t],e)}function Da(e,t){var n=Le();t=t===void 0?null:t;var r=n.memoizedState;return r!==null&&t!==null&&Li(t,r[1])?r[0]:(e=e(),n.memoizedState=[e,t],e)}function Va(e,t,n){return Ft&21?(Fe(n,t)||(n=$s(),Q.lanes|=n,Dt|=n,e.baseState=!0),t):(e.baseState&&(e.baseState=!1,he=!0),e.memoizedState=n)}function xd(e,t){var n=D;D=n!==0&&4>n?n:4,e(!0);var r=Zl.transition;Zl.transition={};try{e(!1),t()}finally{D=n,Zl.transition=r}}function Ba(){return Le().memoizedState}function kd(e,t,n){var r=gt(e);if(n={lane:r,action:n,hasEagerState:!1,eagerState:null,next:null},Ha(e))Aa(t,n);else if(n=ka(e,t,n,r),n!==null){var l=ce();Oe(n,e,r,l),Ua(n,t,r)}}function Sd(e,t,n){var r=gt(e),l={lane:r,action:n,hasEagerState:!1,eagerState:null,next:null};if(Ha(e))Aa(t,l);else{var o=e.alternate;if(e.lanes===0&&(o===null||o.lanes===0)&&(o=t.lastRenderedReducer,o!==null))try{var i=t.lastRenderedState,u=o(i,n);if(l.hasEagerState=!0,l.eagerState=u,Fe(u,i)){var s=t.interleaved;s===null?(l.next=l,Ei(t)):(l.next=s.next,s.next=l),t.interleaved=l;return}}catch{}finally{}n=ka(e,t,l,r),n!==null&&(l=ce(),Oe(n,e,r,l),Ua(n,t,r))}}function Ha(e){var t=e.alternate;return e===Q||t!==null&&t===Q}function Aa(e,t){Hn=ul=!0;var n=e.pending;n===null?t.next=t:(t.next=n.next,n.next=t),e.pending=t}function Ua(e,t,n){if(n&4194240){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,ci(e,n)}}var sl={readContext:Pe,useCallback:le,useContext:le,useEffect:le,useImperativeHandle:le,useInsertionEffect:le,useLayoutEffect:le,useMemo:le,useReducer:le,useRef:le,useState:le,useDebugValue:le,useDeferredValue:le,useTransition:le,useMutableSource:le,useSyncExternalStore:le,useId:le,unstable_isNewReconciler:!1},Cd={readContext:Pe,useCallback:function(e,t){return Ve().memoizedState=[e,t===void 0?null:t],e},useContext:Pe,useEffect:Ou,useImperativeHandle:function(e,t,n){return n=n!=null?n.concat([e]):null,Br(4194308,4,Ia.bind(null,t,e),n)},useLayoutEffect:function(e,t){return Br(4194308,4,e,t)},useInsertionEffect:function(e,t){return Br(4,2,e,t)},useMemo:function(e,t){var n=Ve();return t=t===void 0?null:t,e=e(),n.memoizedState=[e,t],e},useReducer:function(e,t,n){var r=Ve();return t=n!==void 0?n(t):t,r.memoizedState=r.baseState=t,e={pending:null,interleaved:null,lanes:0,dispatch:null,lastRenderedReducer:e,lastRenderedState:t},r.queue=e,e=e.dispatch=kd.bind(null,Q,e),[r.memoizedState,e]},useRef:function(e){var t=Ve();return e={current:e},t.memoizedState=e},useState:Iu,useDebugValue:Ri,useDeferredValue:function(e){return Ve().memoizedState=e},useTransition:function(){var e=Iu(!1),t=e[0];return e=xd.bind(null,e[1]),Ve().memoizedState=e,[t,e]},useMutableSource:function(){},useSyncExternalStore:function(e,t,n){var r=Q,l=Ve();if($){if(n===void 0)throw Error(x(407));n=n()}else{if(n=t(),ee===null)throw Error(x(349));Ft&30||Na(r,t,n)}l.memoizedState=n;var o={value:n,getSnapshot:t};return l.queue=o,Ou(Pa.bind(null,r,o,e),[e]),r.flags|=2048,or(9,_a.bind(null,r,o,n,t),void 0,null),n},useId:function(){var e=Ve(),t=ee.identifierPrefix;if($){var n=Ge,r=Qe;n=(r&~(1<<32-Ie(r)-1)).toString(32)+n,t=":"+t+"R"+n,n=rr++,0<n&&(t+="H"+n.toString(32)),t+=":"}else n=wd++,t=":"+t+"r"+n.toString(32)+":";return e.memoizedState=t},unstable_isNewReconciler:!1},Ed={readContext:Pe,useCallback:Fa,useContext:Pe,useEffect:Ti,useImperativeHandle:Oa,useInsertionEffect:Ta,useLayoutEffect:Ra,useMemo:Da,useReducer:Jl,useRef:Ma,useState:function(){return Jl(lr)},useDebugValue:Ri,useDeferredValue:function(e){var t=Le();return Va(t,Z.memoizedState,e)},useTransition:function(){var e=Jl(lr)[0],t=Le().memoizedState;return[e,t]},useMutableSource:Ea,useSyncExternalStore:za,useId:Ba,unstable_isNewReconciler:!1},zd={readContext:Pe,useCallback:Fa,useContext:Pe,useEffect:Ti,useImperativeHandle:Oa,useInsertionEffect:Ta,useLayoutEffect:Ra,useMemo:Da,useReducer:ql,useRef:Ma,useState:function(){return ql(lr)},useDebugValue:Ri,useDeferredValue:function(e){var t=Le();return Z===null?t.memoizedState=e:Va(t,Z.memoizedState,e)},useTransition:function(){var e=ql(lr)[0],t=Le().memoizedState;return[e,t]},useMutableSource:Ea,useSyncExternalStore:za,useId:Ba,unstable_isNewReconciler:!1};function Me(e,t){if(e&&e.defaultProps){t=G({},t),e=e.defaultProps;for(var n in e)t[n]===void 0&&(t[n]=e[n]);return t}return t}function Oo(e,t,n,r){t=e.memoizedState,n=n(r,t),n=n==null?t:G({},t,n),e.memoizedState=n,e.lanes===0&&(e.updateQueue.baseState=n)}var Sl={isMounted:function(e){return(e=e._reactInternals)?Ht(e)===e:!1},enqueueSetState:function(e,t,n){e=e._reactInternals;var r=ce(),l=gt(e),o=Ke(r,l);o.payload=t,n!=null&&(o.callback=n),t=mt(e,o,l),t!==null&&(Oe(t,e,l,r),Dr(t,e,l))},enqueueReplaceState:function(e,t,n){e=e._reactInternals;var r=ce(),l=gt(e),o=Ke(r,l);o.tag=1,o.payload=t,n!=null&&(o.callback=n),t=mt(e,o,l),t!==null&&(Oe(t,e,l,r),Dr(t,e,l))},enqueueForceUpdate:function(e,t){e=e._reactInternals;var n=ce(),r=gt(e),l=Ke(n,r);l.tag=2,t!=null&&(l.callback=t),t=mt(e,l,r),t!==null&&(Oe(t,e,r,n),Dr(t,e,r))}};function Fu(e,t,n,r,l,o,i){return e=e.stateNode,typeof e.shouldComponentUpdate=="function"?e.shouldComponentUpdate(r,o,i):t.prototype&&t.prototype.isPureReactComponent?!Jn(n,r)||!Jn(l,o):!0}function $a(e,t,n){var r=!1,l=xt,o=t.contextType;return typeof o=="object"&&o!==null?o=Pe(o):(l=ve(t)?It:ue.current,r=t.contextTypes,o=(r=r!=null)?fn(e,l):xt),t=new t(n,o),e.memoizedState=t.state!==null&&t.state!==void 0?t.state:null,t.updater=Sl,e.stateNode=t,t._reactInternals=e,r&&(e=e.stateNode,e.__reactInternalMemoizedUnmaskedChildContext=l,e.__reactInternalMemoizedMaskedChildContext=o),t}function Du(e,t,n,r){e=t.state,typeof t.componentWillReceiveProps=="function"&&t.componentWillReceiveProps(n,r),typeof t.UNSAFE_componentWillReceiveProps=="function"&&t.UNSAFE_componentWillReceiveProps(n,r),t.state!==e&&Sl.enqueueReplaceState(t,t.state,null)}function Fo(e,t,n,r){var l=e.stateNode;l.props=n,l.state=e.memoizedState,l.refs={},zi(e);var o=t.contextType;typeof o=="object"&&o!==null?l.context=Pe(o):(o=ve(t)?It:ue.current,l.context=fn(e,o)),l.state=e.memoizedState,o=t.getDerivedStateFromProps,typeof o=="function"&&(Oo(e,t,o,n),l.state=e.memoizedState),typeof t.getDerivedStateFromProps=="function"||typeof l.getSnapshotBeforeUpdate=="function"||typeof l.UNSAFE_componentWillMount!="function"&&typeof l.componentWillMount!="function"||(t=l.state,typeof l.componentWillMount=="function"&&l.componentWillMount(),typeof l.UNSAFE_componentWillMount=="function"&&l.UNSAFE_componentWillMount(),t!==l.state&&Sl.enqueueReplaceState(l,l.state,null),ol(e,n,l,r),l.state=e.memoizedState),typeof l.componentDidMount=="function"&&(e.flags|=4194308)}function mn(e,t){try{var n="",r=t;do n+=qc(r),r=r.return;while(r);var l=n}catch(o){l=`
-Error generating stack: `+o.message+`
-`+o.stack}return{value:e,source:t,stack:l,digest:null}}function bl(e,t,n){return{value:e,source:null,stack:n??null,digest:t??null}}function Do(e,t){try{console.error(t.value)}catch(n){setTimeout(function(){throw n})}}var Nd=typeof WeakMap=="function"?WeakMap:Map;function Wa(e,t,n){n=Ke(-1,n),n.tag=3,n.payload={element:null};var r=t.value;return n.callback=function(){cl||(cl=!0,Ko=r),Do(e,t)},n}function Qa(e,t,n){n=Ke(-1,n),n.tag=3;var r=e.type.getDerivedStateFromError;if(typeof r=="function"){var l=t.value;n.payload=function(){return r(l)},n.callback=function(){Do(e,t)}}var o=e.stateNode;return o!==null&&typeof o.componentDidCatch=="function"&&(n.callback=function(){Do(e,t),typeof r!="function"&&(vt===null?vt=new Set([this]):vt.add(this));var i=t.stack;this.componentDidCatch(t.value,{componentStack:i!==null?i:""})}),n}function Vu(e,t,n){var r=e.pingCache;if(r===null){r=e.pingCache=new Nd;var l=new Set;r.set(t,l)}else l=r.get(t),l===void 0&&(l=new Set,r.set(t,l));l.has(n)||(l.add(n),e=Hd.bind(null,e,t,n),t.then(e,e))}function Bu(e){do{var t;if((t=e.tag===13)&&(t=e.memoizedState,t=t!==null?t.dehydrated!==null:!0),t)return e;e=e.return}while(e!==null);return null}function Hu(e,t,n,r,l){return e.mode&1?(e.flags|=65536,e.lanes=l,e):(e===t?e.flags|=65536:(e.flags|=128,n.flags|=131072,n.flags&=-52805,n.tag===1&&(n.alternate===null?n.tag=17:(t=Ke(-1,1),t.tag=2,mt(n,t,1))),n.lanes|=1),e)}var _d=qe.ReactCurrentOwner,he=!1;function ae(e,t,n,r){t.child=e===null?xa(t,null,n,r):pn(t,e.child,n,r)}function Au(e,t,n,r,l){n=n.render;var o=t.ref;return un(t,l),r=ji(e,t,n,r,o,l),n=Mi(),e!==null&&!he?(t.updateQueue=e.updateQueue,t.flags&=-2053,e.lanes&=~l,Je(e,t,l)):($&&n&&yi(t),t.flags|=1,ae(e,t,r,l),t.child)}function Uu(e,t,n,r,l){if(e===null){var o=n.type;return typeof o=="function"&&!Ai(o)&&o.defaultProps===void 0&&n.compare===null&&n.defaultProps===void 0?(t.tag=15,t.type=o,Ga(e,t,o,r,l)):(e=$r(n.type,null,r,t,t.mode,l),e.ref=t.ref,e.return=t,t.child=e)}if(o=e.child,!(e.lanes&l)){var i=o.memoizedProps;if(n=n.compare,n=n!==null?n:Jn,n(i,r)&&e.ref===t.ref)return Je(e,t,l)}return t.flags|=1,e=yt(o,r),e.ref=t.ref,e.return=t,t.child=e}function Ga(e,t,n,r,l){if(e!==null){var o=e.memoizedProps;if(Jn(o,r)&&e.ref===t.ref)if(he=!1,t.pendingProps=r=o,(e.lanes&l)!==0)e.flags&131072&&(he=!0);else return t.lanes=e.lanes,Je(e,t,l)}return Vo(e,t,n,r,l)}function Ka(e,t,n){var r=t.pendingProps,l=r.children,o=e!==null?e.memoizedState:null;if(r.mode==="hidden")if(!(t.mode&1))t.memoizedState={baseLanes:0,cachePool:null,transitions:null},V(tn,ye),ye|=n;else{if(!(n&1073741824))return e=o!==null?o.baseLanes|n:n,t.lanes=t.childLanes=1073741824,t.memoizedState={baseLanes:e,cachePool:null,transitions:null},t.updateQueue=null,V(tn,ye),ye|=e,null;t.memoizedState={baseLanes:0,cachePool:null,transitions:null},r=o!==null?o.baseLanes:n,V(tn,ye),ye|=r}else o!==null?(r=o.baseLanes|n,t.memoizedState=null):r=n,V(tn,ye),ye|=r;return ae(e,t,l,n),t.child}function Ya(e,t){var n=t.ref;(e===null&&n!==null||e!==null&&e.ref!==n)&&(t.flags|=512,t.flags|=2097152)}function Vo(e,t,n,r,l){var o=ve(n)?It:ue.current;return o=fn(t,o),un(t,l),n=ji(e,t,n,r,o,l),r=Mi(),e!==null&&!he?(t.updateQueue=e.updateQueue,t.flags&=-2053,e.lanes&=~l,Je(e,t,l)):($&&r&&yi(t),t.flags|=1,ae(e,t,n,l),t.child)}function $u(e,t,n,r,l){if(ve(n)){var o=!0;el(t)}else o=!1;if(un(t,l),t.stateNode===null)Hr(e,t),$a(t,n,r),Fo(t,n,r,l),r=!0;else if(e===null){var i=t.stateNode,u=t.memoizedProps;i.props=u;var s=i.context,f=n.contextType;typeof f=="object"&&f!==null?f=Pe(f):(f=ve(n)?It:ue.current,f=fn(t,f));var v=n.getDerivedStateFromProps,h=typeof v=="function"||typeof i.getSnapshotBeforeUpdate=="function";h||typeof i.UNSAFE_componentWillReceiveProps!="function"&&typeof i.componentWillReceiveProps!="function"||(u!==r||s!==f)&&Du(t,i,r,f),ot=!1;var p=t.memoizedState;i.state=p,ol(t,r,i,l),s=t.memoizedState,u!==r||p!==s||me.current||ot?(typeof v=="function"&&(Oo(t,n,v,r),s=t.memoizedState),(u=ot||Fu(t,n,u,r,p,s,f))?(h||typeof i.UNSAFE_componentWillMount!="function"&&typeof i.componentWillMount!="function"||(typeof i.componentWillMount=="function"&&i.componentWillMount(),typeof i.UNSAFE_componentWillMount=="function"&&i.UNSAFE_componentWillMount()),typeof i.componentDidMount=="function"&&(t.flags|=4194308)):(typeof i.componentDidMount=="function"&&(t.flags|=4194308),t.memoizedProps=r,t.memoizedState=s),i.props=r,i.state=s,i.context=f,r=u):(typeof i.componentDidMount=="function"&&(t.flags|=4194308),r=!1)}else{i=t.stateNode,Sa(e,t),u=t.memoizedProps,f=t.type===t.elementType?u:Me(t.type,u),i.props=f,h=t.pendingProps,p=i.context,s=n.contextType,typeof s=="object"&&s!==null?s=Pe(s):(s=ve(n)?It:ue.current,s=fn(t,s));var k=n.getDerivedStateFromProps;(v=typeof k=="function"||typeof i.getSnapshotBeforeUpdate=="function")||typeof i.UNSAFE_componentWillReceiveProps!="function"&&typeof i.componentWillReceiveProps!="function"||(u!==h||p!==s)&&Du(t,i,r,s),ot=!1,p=t.memoizedState,i.state=p,ol(t,r,i,l);var m=t.memoizedState;u!==h||p!==m||me.current||ot?(typeof k=="function"&&(Oo(t,n,k,r),m=t.memoizedState),(f=ot||Fu(t,n,f,r,p,m,s)||!1)?(v||typeof i.UNSAFE_componentWillUpdate!="function"&&typeof i.componentWillUpdate!="function"||(typeof i.componentWillUpdate=="function"&&i.componentWillUpdate(r,m,s),typeof i.UNSAFE_componentWillUpdate=="function"&&i.UNSAFE_componentWillUpdate(r,m,s)),typeof i.componentDidUpdate=="function"&&(t.flags|=4),typeof i.getSnapshotBeforeUpdate=="function"&&(t.flags|=1024)):(typeof i.componentDidUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=4),typeof i.getSnapshotBeforeUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=1024),t.memoizedProps=r,t.memoizedState=m),i.props=r,i.state=m,i.context=s,r=f):(typeof i.componentDidUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=4),typeof i.getSnapshotBeforeUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=1024),r=!1)}return Bo(e,t,n,r,o,l)}function Bo(e,t,n,r,l,o){Ya(e,t);var i=(t.flags&128)!==0;if(!r&&!i)return l&&Pu(t,n,!1),Je(e,t,o);r=t.stateNode,_d.current=t;var u=i&&typeof n.getDerivedStateFromError!="function"?null:r.render();return t.flags|=1,e!==null&&i?(t.child=pn(t,e.child,null,o),t.child=pn(t,null,u,o)):ae(e,t,u,o),t.memoizedState=r.state,l&&Pu(t,n,!0),t.child}function Xa(e){var t=e.stateNode;t.pendingContext?_u(e,t.pendingContext,t.pendingContext!==t.context):t.context&&_u(e,t.context,!1),Ni(e,t.containerInfo)}function Wu(e,t,n,r,l){return dn(),xi(l),t.flags|=256,ae(e,t,n,r),t.child}var Ho={dehydrated:null,treeContext:null,retryLane:0};function Ao(e){return{baseLanes:e,cachePool:null,transitions:null}}function Za(e,t,n){var r=t.pendingProps,l=W.current,o=!1,i=(t.flags&128)!==0,u;if((u=i)||(u=e!==null&&e.memoizedState===null?!1:(l&2)!==0),u?(o=!0,t.flags&=-129):(e===null||e.memoizedState!==null)&&(l|=1),V(W,l&1),e===null)return Ro(t),e=t.memoizedState,e!==null&&(e=e.dehydrated,e!==null)?(t.mode&1?e.data==="$!"?t.lanes=8:t.lanes=1073741824:t.lanes=1,null):(i=r.children,e=r.fallback,o?(r=t.mode,o=t.child,i={mode:"hidden",children:i},!(r&1)&&o!==null?(o.childLanes=0,o.pendingProps=i):o=zl(i,r,0,null),e=Rt(e,r,n,null),o.return=t,e.return=t,o.sibling=e,t.child=o,t.child.memoizedState=Ao(n),t.memoizedState=Ho,e):Ii(t,i));if(l=e.memoizedState,l!==null&&(u=l.dehydrated,u!==null))return Pd(e,t,i,r,u,l,n);if(o){o=r.fallback,i=t.mode,l=e.child,u=l.sibling;var s={mode:"hidden",children:r.children};return!(i&1)&&t.child!==l?(r=t.child,r.childLanes=0,r.pendingProps=s,t.deletions=null):(r=yt(l,s),r.subtreeFlags=l.subtreeFlags&14680064),u!==null?o=yt(u,o):(o=Rt(o,i,n,null),o.flags|=2),o.return=t,r.return=t,r.sibling=o,t.child=r,r=o,o=t.child,i=e.child.memoizedState,i=i===null?Ao(n):{baseLanes:i.baseLanes|n,cachePool:null,transitions:i.transitions},o.memoizedState=i,o.childLanes=e.childLanes&~n,t.memoizedState=Ho,r}return o=e.child,e=o.sibling,r=yt(o,{mode:"visible",children:r.children}),!(t.mode&1)&&(r.lanes=n),r.return=t,r.sibling=null,e!==null&&(n=t.deletions,n===null?(t.deletions=[e],t.flags|=16):n.push(e)),t.child=r,t.memoizedState=null,r}function Ii(e,t){return t=zl({mode:"visible",children:t},e.mode,0,null),t.return=e,e.child=t}function Pr(e,t,n,r){return r!==null&&xi(r),pn(t,e.child,null,n),e=Ii(t,t.pendingProps.children),e.flags|=2,t.memoizedState=null,e}function Pd(e,t,n,r,l,o,i){if(n)return t.flags&256?(t.flags&=-257,r=bl(Error(x(422))),Pr(e,t,i,r)):t.memoizedState!==null?(t.child=e.child,t.flags|=128,null):(o=r.fallback,l=t.mode,r=zl({mode:"visible",children:r.children},l,0,null),o=Rt(o,l,i,null),o.flags|=2,r.return=t,o.return=t,r.sibling=o,t.child=r,t.mode&1&&pn(t,e.child,null,i),t.child.memoizedState=Ao(i),t.memoizedState=Ho,o);if(!(t.mode&1))return Pr(e,t,i,null);if(l.data==="$!"){if(r=l.nextSibling&&l.nextSibling.dataset,r)var u=r.dgst;return r=u,o=Error(x(419)),r=bl(o,r,void 0),Pr(e,t,i,r)}if(u=(i&e.childLanes)!==0,he||u){if(r=ee,r!==null){switch(i&-i){case 4:l=2;break;case 16:l=8;break;case 64:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:case 4194304:case 8388608:case 16777216:case 33554432:case 67108864:l=32;break;case 536870912:l=268435456;break;default:l=0}l=l&(r.suspendedLanes|i)?0:l,l!==0&&l!==o.retryLane&&(o.retryLane=l,Ze(e,l),Oe(r,e,l,-1))}return Hi(),r=bl(Error(x(421))),Pr(e,t,i,r)}return l.data==="$?"?(t.flags|=128,t.child=e.child,t=Ad.bind(null,e),l._reactRetry=t,null):(e=o.treeContext,we=ht(l.nextSibling),xe=t,$=!0,Re=null,e!==null&&(Ee[ze++]=Qe,Ee[ze++]=Ge,Ee[ze++]=Ot,Qe=e.id,Ge=e.overflow,Ot=t),t=Ii(t,r.children),t.flags|=4096,t)}function Qu(e,t,n){e.lanes|=t;var r=e.alternate;r!==null&&(r.lanes|=t),Io(e.return,t,n)}function eo(e,t,n,r,l){var o=e.memoizedState;o===null?e.memoizedState={isBackwards:t,rendering:null,renderingStartTime:0,last:r,tail:n,tailMode:l}:(o.isBackwards=t,o.rendering=null,o.renderingStartTime=0,o.last=r,o.tail=n,o.tailMode=l)}function Ja(e,t,n){var r=t.pendingProps,l=r.revealOrder,o=r.tail;if(ae(e,t,r.children,n),r=W.current,r&2)r=r&1|2,t.flags|=128;else{if(e!==null&&e.flags&128)e:for(e=t.child;e!==null;){if(e.tag===13)e.memoizedState!==null&&Qu(e,n,t);else if(e.tag===19)Qu(e,n,t);else if(e.child!==null){e.child.return=e,e=e.child;continue}if(e===t)break e;for(;e.sibling===null;){if(e.return===null||e.return===t)break e;e=e.return}e.sibling.return=e.return,e=e.sibling}r&=1}if(V(W,r),!(t.mode&1))t.memoizedState=null;else switch(l){case"forwards":for(n=t.child,l=null;n!==null;)e=n.alternate,e!==null&&il(e)===null&&(l=n),n=n.sibling;n=l,n===null?(l=t.child,t.child=null):(l=n.sibling,n.sibling=null),eo(t,!1,l,n,o);break;case"backwards":for(n=null,l=t.child,t.child=null;l!==null;){if(e=l.alternate,e!==null&&il(e)===null){t.child=l;break}e=l.sibling,l.sibling=n,n=l,l=e}eo(t,!0,n,null,o);break;case"together":eo(t,!1,null,null,void 0);break;default:t.memoizedState=null}return t.child}function Hr(e,t){!(t.mode&1)&&e!==null&&(e.alternate=null,t.alternate=null,t.flags|=2)}function Je(e,t,n){if(e!==null&&(t.dependencies=e.dependencies),Dt|=t.lanes,!(n&t.childLanes))return null;if(e!==null&&t.child!==e.child)throw Error(x(153));if(t.child!==null){for(e=t.child,n=yt(e,e.pendingProps),t.child=n,n.return=t;e.sibling!==null;)e=e.sibling,n=n.sibling=yt(e,e.pendingProps),n.return=t;n.sibling=null}return t.child}function Ld(e,t,n){switch(t.tag){case 3:Xa(t),dn();break;case 5:Ca(t);break;case 1:ve(t.type)&&el(t);break;case 4:Ni(t,t.stateNode.containerInfo);break;case 10:var r=t.type._context,l=t.memoizedProps.value;V(rl,r._currentValue),r._currentValue=l;break;case 13:if(r=t.memoizedState,r!==null)return r.dehydrated!==null?(V(W,W.current&1),t.flags|=128,null):n&t.child.childLanes?Za(e,t,n):(V(W,W.current&1),e=Je(e,t,n),e!==null?e.sibling:null);V(W,W.current&1);break;case 19:if(r=(n&t.childLanes)!==0,e.flags&128){if(r)return Ja(e,t,n);t.flags|=128}if(l=t.memoizedState,l!==null&&(l.rendering=null,l.tail=null,l.lastEffect=null),V(W,W.current),r)break;return null;case 22:case 23:return t.lanes=0,Ka(e,t,n)}return Je(e,t,n)}var qa,Uo,ba,ec;qa=function(e,t){for(var n=t.child;n!==null;){if(n.tag===5||n.tag===6)e.appendChild(n.stateNode);else if(n.tag!==4&&n.child!==null){n.child.return=n,n=n.child;continue}if(n===t)break;for(;n.sibling===null;){if(n.return===null||n.return===t)return;n=n.return}n.sibling.return=n.return,n=n.sibling}};Uo=function(){};ba=function(e,t,n,r){var l=e.memoizedProps;if(l!==r){e=t.stateNode,Mt(Ae.current);var o=null;switch(n){case"input":l=ao(e,l),r=ao(e,r),o=[];break;case"select":l=G({},l,{value:void 0}),r=G({},r,{value:void 0}),o=[];break;case"textarea":l=po(e,l),r=po(e,r),o=[];break;default:typeof l.onClick!="function"&&typeof r.onClick=="function"&&(e.onclick=qr)}mo(n,r);var i;n=null;for(f in l)if(!r.hasOwnProperty(f)&&l.hasOwnProperty(f)&&l[f]!=null)if(f==="style"){var u=l[f];for(i in u)u.hasOwnProperty(i)&&(n||(n={}),n[i]="")}else f!=="dangerouslySetInnerHTML"&&f!=="children"&&f!=="suppressContentEditableWarning"&&f!=="suppressHydrationWarning"&&f!=="autoFocus"&&(Wn.hasOwnProperty(f)?o||(o=[]):(o=o||[]).push(f,null));for(f in r){var s=r[f];if(u=l!=null?l[f]:void 0,r.hasOwnProperty(f)&&s!==u&&(s!=null||u!=null))if(f==="style")if(u){for(i in u)!u.hasOwnProperty(i)||s&&s.hasOwnProperty(i)||(n||(n={}),n[i]="");for(i in s)s.hasOwnProperty(i)&&u[i]!==s[i]&&(n||(n={}),n[i]=s[i])}else n||(o||(o=[]),o.push(f,n)),n=s;else f==="dangerouslySetInnerHTML"?(s=s?s.__html:void 0,u=u?u.__html:void 0,s!=null&&u!==s&&(o=o||[]).push(f,s)):f==="children"?typeof s!="string"&&typeof s!="number"||(o=o||[]).push(f,""+s):f!=="suppressContentEditableWarning"&&f!=="suppressHydrationWarning"&&(Wn.hasOwnProperty(f)?(s!=null&&f==="onScroll"&&A("scroll",e),o||u===s||(o=[])):(o=o||[]).push(f,s))}n&&(o=o||[]).push("style",n);var f=o;(t.updateQueue=f)&&(t.flags|=4)}};ec=function(e,t,n,r){n!==r&&(t.flags|=4)};function _n(e,t){if(!$)switch(e.tailMode){case"hidden":t=e.tail;for(var n=null;t!==null;)t.alternate!==null&&(n=t),t=t.sibling;n===null?e.tail=null:n.sibling=null;break;case"collapsed":n=e.tail;for(var r=null;n!==null;)n.alternate!==null&&(r=n),n=n.sibling;r===null?t||e.tail===null?e.tail=null:e.tail.sibling=null:r.sibling=null}}function oe(e){var t=e.alternate!==null&&e.alternate.child===e.child,n=0,r=0;if(t)for(var l=e.child;l!==null;)n|=l.lanes|l.childLanes,r|=l.subtreeFlags&14680064,r|=l.flags&14680064,l.return=e,l=l.sibling;else for(l=e.child;l!==null;)n|=l.lanes|l.childLanes,r|=l.subtreeFlags,r|=l.flags,l.return=e,l=l.sibling;return e.subtreeFlags|=r,e.childLanes=n,t}function jd(e,t,n){var r=t.pendingProps;switch(wi(t),t.tag){case 2:case 16:case 15:case 0:case 11:case 7:case 8:case 12:case 9:case 14:return oe(t),null;case 1:return ve(t.type)&&br(),oe(t),null;case 3:return r=t.stateNode,hn(),U(me),U(ue),Pi(),r.pendingContext&&(r.context=r.pendingContext,r.pendingContext=null),(e===null||e.child===null)&&(Nr(t)?t.flags|=4:e===null||e.memoizedState.isDehydrated&&!(t.flags&256)||(t.flags|=1024,Re!==null&&(Zo(Re),Re=null))),Uo(e,t),oe(t),null;case 5:_i(t);var l=Mt(nr.current);if(n=t.type,e!==null&&t.stateNode!=null)ba(e,t,n,r,l),e.ref!==t.ref&&(t.flags|=512,t.flags|=2097152);else{if(!r){if(t.stateNode===null)throw Error(x(166));return oe(t),null}if(e=Mt(Ae.current),Nr(t)){r=t.stateNode,n=t.type;var o=t.memoizedProps;switch(r[Be]=t,r[er]=o,e=(t.mode&1)!==0,n){case"dialog":A("cancel",r),A("close",r);break;case"iframe":case"object":case"embed":A("load",r);break;case"video":case"audio":for(l=0;l<In.length;l++)A(In[l],r);break;case"source":A("error",r);break;case"img":case"image":case"link":A("error",r),A("load",r);break;case"details":A("toggle",r);break;case"input":eu(r,o),A("invalid",r);break;case"select":r._wrapperState={wasMultiple:!!o.multiple},A("invalid",r);break;case"textarea":nu(r,o),A("invalid",r)}mo(n,o),l=null;for(var i in o)if(o.hasOwnProperty(i)){var u=o[i];i==="children"?typeof u=="string"?r.textContent!==u&&(o.suppressHydrationWarning!==!0&&zr(r.textContent,u,e),l=["children",u]):typeof u=="number"&&r.textContent!==""+u&&(o.suppressHydrationWarning!==!0&&zr(r.textContent,u,e),l=["children",""+u]):Wn.hasOwnProperty(i)&&u!=null&&i==="onScroll"&&A("scroll",r)}switch(n){case"input":gr(r),tu(r,o,!0);break;case"textarea":gr(r),ru(r);break;case"select":case"option":break;default:typeof o.onClick=="function"&&(r.onclick=qr)}r=l,t.updateQueue=r,r!==null&&(t.flags|=4)}else{i=l.nodeType===9?l:l.ownerDocument,e==="http://www.w3.org/1999/xhtml"&&(e=Ps(n)),e==="http://www.w3.org/1999/xhtml"?n==="script"?(e=i.createElement("div"),e.innerHTML="<script><\/script>",e=e.removeChild(e.firstChild)):typeof r.is=="string"?e=i.createElement(n,{is:r.is}):(e=i.createElement(n),n==="select"&&(i=e,r.multiple?i.multiple=!0:r.size&&(i.size=r.size))):e=i.createElementNS(e,n),e[Be]=t,e[er]=r,qa(e,t,!1,!1),t.stateNode=e;e:{switch(i=vo(n,r),n){case"dialog":A("cancel",e),A("close",e),l=r;break;case"iframe":case"object":case"embed":A("load",e),l=r;break;case"video":case"audio":for(l=0;l<In.length;l++)A(In[l],e);l=r;break;case"source":A("error",e),l=r;break;case"img":case"image":case"link":A("error",e),A("load",e),l=r;break;case"details":A("toggle",e),l=r;break;case"input":eu(e,r),l=ao(e,r),A("invalid",e);break;case"option":l=r;break;case"select":e._wrapperState={wasMultiple:!!r.multiple},l=G({},r,{value:void 0}),A("invalid",e);break;case"textarea":nu(e,r),l=po(e,r),A("invalid",e);break;default:l=r}mo(n,l),u=l;for(o in u)if(u.hasOwnProperty(o)){var s=u[o];o==="style"?Ms(e,s):o==="dangerouslySetInnerHTML"?(s=s?s.__html:void 0,s!=null&&Ls(e,s)):o==="children"?typeof s=="string"?(n!=="textarea"||s!=="")&&Qn(e,s):typeof s=="number"&&Qn(e,""+s):o!=="suppressContentEditableWarning"&&o!=="suppressHydrationWarning"&&o!=="autoFocus"&&(Wn.hasOwnProperty(o)?s!=null&&o==="onScroll"&&A("scroll",e):s!=null&&li(e,o,s,i))}switch(n){case"input":gr(e),tu(e,r,!1);break;case"textarea":gr(e),ru(e);break;case"option":r.value!=null&&e.setAttribute("value",""+wt(r.value));break;case"select":e.multiple=!!r.multiple,o=r.value,o!=null?nn(e,!!r.multiple,o,!1):r.defaultValue!=null&&nn(e,!!r.multiple,r.defaultValue,!0);break;default:typeof l.onClick=="function"&&(e.onclick=qr)}switch(n){case"button":case"input":case"select":case"textarea":r=!!r.autoFocus;break e;case"img":r=!0;break e;default:r=!1}}r&&(t.flags|=4)}t.ref!==null&&(t.flags|=512,t.flags|=2097152)}return oe(t),null;case 6:if(e&&t.stateNode!=null)ec(e,t,e.memoizedProps,r);else{if(typeof r!="string"&&t.stateNode===null)throw Error(x(166));if(n=Mt(nr.current),Mt(Ae.current),Nr(t)){if(r=t.stateNode,n=t.memoizedProps,r[Be]=t,(o=r.nodeValue!==n)&&(e=xe,e!==null))switch(e.tag){case 3:zr(r.nodeValue,n,(e.mode&1)!==0);break;case 5:e.memoizedProps.suppressHydrationWarning!==!0&&zr(r.nodeValue,n,(e.mode&1)!==0)}o&&(t.flags|=4)}else r=(n.nodeType===9?n:n.ownerDocument).createTextNode(r),r[Be]=t,t.stateNode=r}return oe(t),null;case 13:if(U(W),r=t.memoizedState,e===null||e.memoizedState!==null&&e.memoizedState.dehydrated!==null){if($&&we!==null&&t.mode&1&&!(t.flags&128))ya(),dn(),t.flags|=98560,o=!1;else if(o=Nr(t),r!==null&&r.dehydrated!==null){if(e===null){if(!o)throw Error(x(318));if(o=t.memoizedState,o=o!==null?o.dehydrated:null,!o)throw Error(x(317));o[Be]=t}else dn(),!(t.flags&128)&&(t.memoizedState=null),t.flags|=4;oe(t),o=!1}else Re!==null&&(Zo(Re),Re=null),o=!0;if(!o)return t.flags&65536?t:null}return t.flags&128?(t.lanes=n,t):(r=r!==null,r!==(e!==null&&e.memoizedState!==null)&&r&&(t.child.flags|=8192,t.mode&1&&(e===null||W.current&1?J===0&&(J=3):Hi())),t.updateQueue!==null&&(t.flags|=4),oe(t),null);case 4:return hn(),Uo(e,t),e===null&&qn(t.stateNode.containerInfo),oe(t),null;case 10:return Ci(t.type._context),oe(t),null;case 17:return ve(t.type)&&br(),oe(t),null;case 19:if(U(W),o=t.memoizedState,o===null)return oe(t),null;if(r=(t.flags&128)!==0,i=o.rendering,i===null)if(r)_n(o,!1);else{if(J!==0||e!==null&&e.flags&128)for(e=t.child;e!==null;){if(i=il(e),i!==null){for(t.flags|=128,_n(o,!1),r=i.updateQueue,r!==null&&(t.updateQueue=r,t.flags|=4),t.subtreeFlags=0,r=n,n=t.child;n!==null;)o=n,e=r,o.flags&=14680066,i=o.alternate,i===null?(o.childLanes=0,o.lanes=e,o.child=null,o.subtreeFlags=0,o.memoizedProps=null,o.memoizedState=null,o.updateQueue=null,o.dependencies=null,o.stateNode=null):(o.childLanes=i.childLanes,o.lanes=i.lanes,o.child=i.child,o.subtreeFlags=0,o.deletions=null,o.memoizedProps=i.memoizedProps,o.memoizedState=i.memoizedState,o.updateQueue=i.updateQueue,o.type=i.type,e=i.dependencies,o.dependencies=e===null?null:{lanes:e.lanes,firstContext:e.firstContext}),n=n.sibling;return V(W,W.current&1|2),t.child}e=e.sibling}o.tail!==null&&Y()>vn&&(t.flags|=128,r=!0,_n(o,!1),t.lanes=4194304)}else{if(!r)if(e=il(i),e!==null){if(t.flags|=128,r=!0,n=e.updateQueue,n!==null&&(t.updateQueue=n,t.flags|=4),_n(o,!0),o.tail===null&&o.tailMode==="hidden"&&!i.alternate&&!$)return oe(t),null}else 2*Y()-o.renderingStartTime>vn&&n!==1073741824&&(t.flags|=128,r=!0,_n(o,!1),t.lanes=4194304);o.isBackwards?(i.sibling=t.child,t.child=i):(n=o.last,n!==null?n.sibling=i:t.child=i,o.last=i)}return o.tail!==null?(t=o.tail,o.rendering=t,o.tail=t.sibling,o.renderingStartTime=Y(),t.sibling=null,n=W.current,V(W,r?n&1|2:n&1),t):(oe(t),null);case 22:case 23:return Bi(),r=t.memoizedState!==null,e!==null&&e.memoizedState!==null!==r&&(t.flags|=8192),r&&t.mode&1?ye&1073741824&&(oe(t),t.subtreeFlags&6&&(t.flags|=8192)):oe(t),null;case 24:return null;case 25:return null}throw Error(x(156,t.tag))}function Md(e,t){switch(wi(t),t.tag){case 1:return ve(t.type)&&br(),e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 3:return hn(),U(me),U(ue),Pi(),e=t.flags,e&65536&&!(e&128)?(t.flags=e&-65537|128,t):null;case 5:return _i(t),null;case 13:if(U(W),e=t.memoizedState,e!==null&&e.dehydrated!==null){if(t.alternate===null)throw Error(x(340));dn()}return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 19:return U(W),null;case 4:return hn(),null;case 10:return Ci(t.type._context),null;case 22:case 23:return Bi(),null;case 24:return null;default:return null}}var Lr=!1,ie=!1,Td=typeof WeakSet=="function"?WeakSet:Set,E=null;function en(e,t){var n=e.ref;if(n!==null)if(typeof n=="function")try{n(null)}catch(r){K(e,t,r)}else n.current=null}function $o(e,t,n){try{n()}catch(r){K(e,t,r)}}var Gu=!1;function Rd(e,t){if(No=Xr,e=oa(),gi(e)){if("selectionStart"in e)var n={start:e.selectionStart,end:e.selectionEnd};else e:{n=(n=e.ownerDocument)&&n.defaultView||window;var r=n.getSelection&&n.getSelection();if(r&&r.rangeCount!==0){n=r.anchorNode;var l=r.anchorOffset,o=r.focusNode;r=r.focusOffset;try{n.nodeType,o.nodeType}catch{n=null;break e}var i=0,u=-1,s=-1,f=0,v=0,h=e,p=null;t:for(;;){for(var k;h!==n||l!==0&&h.nodeType!==3||(u=i+l),h!==o||r!==0&&h.nodeType!==3||(s=i+r),h.nodeType===3&&(i+=h.nodeValue.length),(k=h.firstChild)!==null;)p=h,h=k;for(;;){if(h===e)break t;if(p===n&&++f===l&&(u=i),p===o&&++v===r&&(s=i),(k=h.nextSibling)!==null)break;h=p,p=h.parentNode}h=k}n=u===-1||s===-1?null:{start:u,end:s}}else n=null}n=n||{start:0,end:0}}else n=null;for(_o={focusedElem:e,selectionRange:n},Xr=!1,E=t;E!==null;)if(t=E,e=t.child,(t.subtreeFlags&1028)!==0&&e!==null)e.return=t,E=e;else for(;E!==null;){t=E;try{var m=t.alternate;if(t.flags&1024)switch(t.tag){case 0:case 11:case 15:break;case 1:if(m!==null){var w=m.memoizedProps,P=m.memoizedState,c=t.stateNode,a=c.getSnapshotBeforeUpdate(t.elementType===t.type?w:Me(t.type,w),P);c.__reactInternalSnapshotBeforeUpdate=a}break;case 3:var d=t.stateNode.containerInfo;d.nodeType===1?d.textContent="":d.nodeType===9&&d.documentElement&&d.removeChild(d.documentElement);break;case 5:case 6:case 4:case 17:break;default:throw Error(x(163))}}catch(y){K(t,t.return,y)}if(e=t.sibling,e!==null){e.return=t.return,E=e;break}E=t.return}return m=Gu,Gu=!1,m}function An(e,t,n){var r=t.updateQueue;if(r=r!==null?r.lastEffect:null,r!==null){var l=r=r.next;do{if((l.tag&e)===e){var o=l.destroy;l.destroy=void 0,o!==void 0&&$o(t,n,o)}l=l.next}while(l!==r)}}function Cl(e,t){if(t=t.updateQueue,t=t!==null?t.lastEffect:null,t!==null){var n=t=t.next;do{if((n.tag&e)===e){var r=n.create;n.destroy=r()}n=n.next}while(n!==t)}}function Wo(e){var t=e.ref;if(t!==null){var n=e.stateNode;switch(e.tag){case 5:e=n;break;default:e=n}typeof t=="function"?t(e):t.current=e}}function tc(e){var t=e.alternate;t!==null&&(e.alternate=null,tc(t)),e.child=null,e.deletions=null,e.sibling=null,e.tag===5&&(t=e.stateNode,t!==null&&(delete t[Be],delete t[er],delete t[jo],delete t[md],delete t[vd])),e.stateNode=null,e.return=null,e.dependencies=null,e.memoizedProps=null,e.memoizedState=null,e.pendingProps=null,e.stateNode=null,e.updateQueue=null}function nc(e){return e.tag===5||e.tag===3||e.tag===4}function Ku(e){e:for(;;){for(;e.sibling===null;){if(e.return===null||nc(e.return))return null;e=e.return}for(e.sibling.return=e.return,e=e.sibling;e.tag!==5&&e.tag!==6&&e.tag!==18;){if(e.flags&2||e.child===null||e.tag===4)continue e;e.child.return=e,e=e.child}if(!(e.flags&2))return e.stateNode}}function Qo(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?n.nodeType===8?n.parentNode.insertBefore(e,t):n.insertBefore(e,t):(n.nodeType===8?(t=n.parentNode,t.insertBefore(e,n)):(t=n,t.appendChild(e)),n=n._reactRootContainer,n!=null||t.onclick!==null||(t.onclick=qr));else if(r!==4&&(e=e.child,e!==null))for(Qo(e,t,n),e=e.sibling;e!==null;)Qo(e,t,n),e=e.sibling}function Go(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?n.insertBefore(e,t):n.appendChild(e);else if(r!==4&&(e=e.child,e!==null))for(Go(e,t,n),e=e.sibling;e!==null;)Go(e,t,n),e=e.sibling}var te=null,Te=!1;function tt(e,t,n){for(n=n.child;n!==null;)rc(e,t,n),n=n.sibling}function rc(e,t,n){if(He&&typeof He.onCommitFiberUnmount=="function")try{He.onCommitFiberUnmount(ml,n)}catch{}switch(n.tag){case 5:ie||en(n,t);case 6:var r=te,l=Te;te=null,tt(e,t,n),te=r,Te=l,te!==null&&(Te?(e=te,n=n.stateNode,e.nodeType===8?e.parentNode.removeChild(n):e.removeChild(n)):te.removeChild(n.stateNode));break;case 18:te!==null&&(Te?(e=te,n=n.stateNode,e.nodeType===8?Kl(e.parentNode,n):e.nodeType===1&&Kl(e,n),Xn(e)):Kl(te,n.stateNode));break;case 4:r=te,l=Te,te=n.stateNode.containerInfo,Te=!0,tt(e,t,n),te=r,Te=l;break;case 0:case 11:case 14:case 15:if(!ie&&(r=n.updateQueue,r!==null&&(r=r.lastEffect,r!==null))){l=r=r.next;do{var o=l,i=o.destroy;o=o.tag,i!==void 0&&(o&2||o&4)&&$o(n,t,i),l=l.next}while(l!==r)}tt(e,t,n);break;case 1:if(!ie&&(en(n,t),r=n.stateNode,typeof r.componentWillUnmount=="function"))try{r.props=n.memoizedProps,r.state=n.memoizedState,r.componentWillUnmount()}catch(u){K(n,t,u)}tt(e,t,n);break;case 21:tt(e,t,n);break;case 22:n.mode&1?(ie=(r=ie)||n.memoizedState!==null,tt(e,t,n),ie=r):tt(e,t,n);break;default:tt(e,t,n)}}function Yu(e){var t=e.updateQueue;if(t!==null){e.updateQueue=null;var n=e.stateNode;n===null&&(n=e.stateNode=new Td),t.forEach(function(r){var l=Ud.bind(null,e,r);n.has(r)||(n.add(r),r.then(l,l))})}}function je(e,t){var n=t.deletions;if(n!==null)for(var r=0;r<n.length;r++){var l=n[r];try{var o=e,i=t,u=i;e:for(;u!==null;){switch(u.tag){case 5:te=u.stateNode,Te=!1;break e;case 3:te=u.stateNode.containerInfo,Te=!0;break e;case 4:te=u.stateNode.containerInfo,Te=!0;break e}u=u.return}if(te===null)throw Error(x(160));rc(o,i,l),te=null,Te=!1;var s=l.alternate;s!==null&&(s.return=null),l.return=null}catch(f){K(l,t,f)}}if(t.subtreeFlags&12854)for(t=t.child;t!==null;)lc(t,e),t=t.sibling}function lc(e,t){var n=e.alternate,r=e.flags;switch(e.tag){case 0:case 11:case 14:case 15:if(je(t,e),De(e),r&4){try{An(3,e,e.return),Cl(3,e)}catch(w){K(e,e.return,w)}try{An(5,e,e.return)}catch(w){K(e,e.return,w)}}break;case 1:je(t,e),De(e),r&512&&n!==null&&en(n,n.return);break;case 5:if(je(t,e),De(e),r&512&&n!==null&&en(n,n.return),e.flags&32){var l=e.stateNode;try{Qn(l,"")}catch(w){K(e,e.return,w)}}if(r&4&&(l=e.stateNode,l!=null)){var o=e.memoizedProps,i=n!==null?n.memoizedProps:o,u=e.type,s=e.updateQueue;if(e.updateQueue=null,s!==null)try{u==="input"&&o.type==="radio"&&o.name!=null&&Ns(l,o),vo(u,i);var f=vo(u,o);for(i=0;i<s.length;i+=2){var v=s[i],h=s[i+1];v==="style"?Ms(l,h):v==="dangerouslySetInnerHTML"?Ls(l,h):v==="children"?Qn(l,h):li(l,v,h,f)}switch(u){case"input":co(l,o);break;case"textarea":_s(l,o);break;case"select":var p=l._wrapperState.wasMultiple;l._wrapperState.wasMultiple=!!o.multiple;var k=o.value;k!=null?nn(l,!!o.multiple,k,!1):p!==!!o.multiple&&(o.defaultValue!=null?nn(l,!!o.multiple,o.defaultValue,!0):nn(l,!!o.multiple,o.multiple?[]:"",!1))}l[er]=o}catch(w){K(e,e.return,w)}}break;case 6:if(je(t,e),De(e),r&4){if(e.stateNode===null)throw Error(x(162));l=e.stateNode,o=e.memoizedProps;try{l.nodeValue=o}catch(w){K(e,e.return,w)}}break;case 3:if(je(t,e),De(e),r&4&&n!==null&&n.memoizedState.isDehydrated)try{Xn(t.containerInfo)}catch(w){K(e,e.return,w)}break;case 4:je(t,e),De(e);break;case 13:je(t,e),De(e),l=e.child,l.flags&8192&&(o=l.memoizedState!==null,l.stateNode.isHidden=o,!o||l.alternate!==null&&l.alternate.memoizedState!==null||(Di=Y())),r&4&&Yu(e);break;case 22:if(v=n!==null&&n.memoizedState!==null,e.mode&1?(ie=(f=ie)||v,je(t,e),ie=f):je(t,e),De(e),r&8192){if(f=e.memoizedState!==null,(e.stateNode.isHidden=f)&&!v&&e.mode&1)for(E=e,v=e.child;v!==null;){for(h=E=v;E!==null;){switch(p=E,k=p.child,p.tag){case 0:case 11:case 14:case 15:An(4,p,p.return);break;case 1:en(p,p.return);var m=p.stateNode;if(typeof m.componentWillUnmount=="function"){r=p,n=p.return;try{t=r,m.props=t.memoizedProps,m.state=t.memoizedState,m.componentWillUnmount()}catch(w){K(r,n,w)}}break;case 5:en(p,p.return);break;case 22:if(p.memoizedState!==null){Zu(h);continue}}k!==null?(k.return=p,E=k):Zu(h)}v=v.sibling}e:for(v=null,h=e;;){if(h.tag===5){if(v===null){v=h;try{l=h.stateNode,f?(o=l.style,typeof o.setProperty=="function"?o.setProperty("display","none","important"):o.display="none"):(u=h.stateNode,s=h.memoizedProps.style,i=s!=null&&s.hasOwnProperty("display")?s.display:null,u.style.display=js("display",i))}catch(w){K(e,e.return,w)}}}else if(h.tag===6){if(v===null)try{h.stateNode.nodeValue=f?"":h.memoizedProps}catch(w){K(e,e.return,w)}}else if((h.tag!==22&&h.tag!==23||h.memoizedState===null||h===e)&&h.child!==null){h.child.return=h,h=h.child;continue}if(h===e)break e;for(;h.sibling===null;){if(h.return===null||h.return===e)break e;v===h&&(v=null),h=h.return}v===h&&(v=null),h.sibling.return=h.return,h=h.sibling}}break;case 19:je(t,e),De(e),r&4&&Yu(e);break;case 21:break;default:je(t,e),De(e)}}function De(e){var t=e.flags;if(t&2){try{e:{for(var n=e.return;n!==null;){if(nc(n)){var r=n;break e}n=n.return}throw Error(x(160))}switch(r.tag){case 5:var l=r.stateNode;r.flags&32&&(Qn(l,""),r.flags&=-33);var o=Ku(e);Go(e,o,l);break;case 3:case 4:var i=r.stateNode.containerInfo,u=Ku(e);Qo(e,u,i);break;default:throw Error(x(161))}}catch(s){K(e,e.return,s)}e.flags&=-3}t&4096&&(e.flags&=-4097)}function Id(e,t,n){E=e,oc(e)}function oc(e,t,n){for(var r=(e.mode&1)!==0;E!==null;){var l=E,o=l.child;if(l.tag===22&&r){var i=l.memoizedState!==null||Lr;if(!i){var u=l.alternate,s=u!==null&&u.memoizedState!==null||ie;u=Lr;var f=ie;if(Lr=i,(ie=s)&&!f)for(E=l;E!==null;)i=E,s=i.child,i.tag===22&&i.memoizedState!==null?Ju(l):s!==null?(s.return=i,E=s):Ju(l);for(;o!==null;)E=o,oc(o),o=o.sibling;E=l,Lr=u,ie=f}Xu(e)}else l.subtreeFlags&8772&&o!==null?(o.return=l,E=o):Xu(e)}}function Xu(e){for(;E!==null;){var t=E;if(t.flags&8772){var n=t.alternate;try{if(t.flags&8772)switch(t.tag){case 0:case 11:case 15:ie||Cl(5,t);break;case 1:var r=t.stateNode;if(t.flags&4&&!ie)if(n===null)r.componentDidMount();else{var l=t.elementType===t.type?n.memoizedProps:Me(t.type,n.memoizedProps);r.componentDidUpdate(l,n.memoizedState,r.__reactInternalSnapshotBeforeUpdate)}var o=t.updateQueue;o!==null&&Ru(t,o,r);break;case 3:var i=t.updateQueue;if(i!==null){if(n=null,t.child!==null)switch(t.child.tag){case 5:n=t.child.stateNode;break;case 1:n=t.child.stateNode}Ru(t,i,n)}break;case 5:var u=t.stateNode;if(n===null&&t.flags&4){n=u;var s=t.memoizedProps;switch(t.type){case"button":case"input":case"select":case"textarea":s.autoFocus&&n.focus();break;case"img":s.src&&(n.src=s.src)}}break;case 6:break;case 4:break;case 12:break;case 13:if(t.memoizedState===null){var f=t.alternate;if(f!==null){var v=f.memoizedState;if(v!==null){var h=v.dehydrated;h!==null&&Xn(h)}}}break;case 19:case 17:case 21:case 22:case 23:case 25:break;default:throw Error(x(163))}ie||t.flags&512&&Wo(t)}catch(p){K(t,t.return,p)}}if(t===e){E=null;break}if(n=t.sibling,n!==null){n.return=t.return,E=n;break}E=t.return}}function Zu(e){for(;E!==null;){var t=E;if(t===e){E=null;break}var n=t.sibling;if(n!==null){n.return=t.return,E=n;break}E=t.return}}function Ju(e){for(;E!==null;){var t=E;try{switch(t.tag){case 0:case 11:case 15:var n=t.return;try{Cl(4,t)}catch(s){K(t,n,s)}break;case 1:var r=t.stateNode;if(typeof r.componentDidMount=="function"){var l=t.return;try{r.componentDidMount()}catch(s){K(t,l,s)}}var o=t.return;try{Wo(t)}catch(s){K(t,o,s)}break;case 5:var i=t.return;try{Wo(t)}catch(s){K(t,i,s)}}}catch(s){K(t,t.return,s)}if(t===e){E=null;break}var u=t.sibling;if(u!==null){u.return=t.return,E=u;break}E=t.return}}var Od=Math.ceil,al=qe.ReactCurrentDispatcher,Oi=qe.ReactCurrentOwner,_e=qe.ReactCurrentBatchConfig,I=0,ee=null,X=null,ne=0,ye=0,tn=St(0),J=0,ir=null,Dt=0,El=0,Fi=0,Un=null,pe=null,Di=0,vn=1/0,$e=null,cl=!1,Ko=null,vt=null,jr=!1,ct=null,fl=0,$n=0,Yo=null,Ar=-1,Ur=0;function ce(){return I&6?Y():Ar!==-1?Ar:Ar=Y()}function gt(e){return e.mode&1?I&2&&ne!==0?ne&-ne:yd.transition!==null?(Ur===0&&(Ur=$s()),Ur):(e=D,e!==0||(e=window.event,e=e===void 0?16:Zs(e.type)),e):1}function Oe(e,t,n,r){if(50<$n)throw $n=0,Yo=null,Error(x(185));sr(e,n,r),(!(I&2)||e!==ee)&&(e===ee&&(!(I&2)&&(El|=n),J===4&&ut(e,ne)),ge(e,r),n===1&&I===0&&!(t.mode&1)&&(vn=Y()+500,xl&&Ct()))}function ge(e,t){var n=e.callbackNode;yf(e,t);var r=Yr(e,e===ee?ne:0);if(r===0)n!==null&&iu(n),e.callbackNode=null,e.callbackPriority=0;else if(t=r&-r,e.callbackPriority!==t){if(n!=null&&iu(n),t===1)e.tag===0?gd(qu.bind(null,e)):ma(qu.bind(null,e)),pd(function(){!(I&6)&&Ct()}),n=null;else{switch(Ws(r)){case 1:n=ai;break;case 4:n=As;break;case 16:n=Kr;break;case 536870912:n=Us;break;default:n=Kr}n=pc(n,ic.bind(null,e))}e.callbackPriority=t,e.callbackNode=n}}function ic(e,t){if(Ar=-1,Ur=0,I&6)throw Error(x(327));var n=e.callbackNode;if(sn()&&e.callbackNode!==n)return null;var r=Yr(e,e===ee?ne:0);if(r===0)return null;if(r&30||r&e.expiredLanes||t)t=dl(e,r);else{t=r;var l=I;I|=2;var o=sc();(ee!==e||ne!==t)&&($e=null,vn=Y()+500,Tt(e,t));do try{Vd();break}catch(u){uc(e,u)}while(!0);Si(),al.current=o,I=l,X!==null?t=0:(ee=null,ne=0,t=J)}if(t!==0){if(t===2&&(l=ko(e),l!==0&&(r=l,t=Xo(e,l))),t===1)throw n=ir,Tt(e,0),ut(e,r),ge(e,Y()),n;if(t===6)ut(e,r);else{if(l=e.current.alternate,!(r&30)&&!Fd(l)&&(t=dl(e,r),t===2&&(o=ko(e),o!==0&&(r=o,t=Xo(e,o))),t===1))throw n=ir,Tt(e,0),ut(e,r),ge(e,Y()),n;switch(e.finishedWork=l,e.finishedLanes=r,t){case 0:case 1:throw Error(x(345));case 2:Pt(e,pe,$e);break;case 3:if(ut(e,r),(r&130023424)===r&&(t=Di+500-Y(),10<t)){if(Yr(e,0)!==0)break;if(l=e.suspendedLanes,(l&r)!==r){ce(),e.pingedLanes|=e.suspendedLanes&l;break}e.timeoutHandle=Lo(Pt.bind(null,e,pe,$e),t);break}Pt(e,pe,$e);break;case 4:if(ut(e,r),(r&4194240)===r)break;for(t=e.eventTimes,l=-1;0<r;){var i=31-Ie(r);o=1<<i,i=t[i],i>l&&(l=i),r&=~o}if(r=l,r=Y()-r,r=(120>r?120:480>r?480:1080>r?1080:1920>r?1920:3e3>r?3e3:4320>r?4320:1960*Od(r/1960))-r,10<r){e.timeoutHandle=Lo(Pt.bind(null,e,pe,$e),r);break}Pt(e,pe,$e);break;case 5:Pt(e,pe,$e);break;default:throw Error(x(329))}}}return ge(e,Y()),e.callbackNode===n?ic.bind(null,e):null}function Xo(e,t){var n=Un;return e.current.memoizedState.isDehydrated&&(Tt(e,t).flags|=256),e=dl(e,t),e!==2&&(t=pe,pe=n,t!==null&&Zo(t)),e}function Zo(e){pe===null?pe=e:pe.push.apply(pe,e)}function Fd(e){for(var t=e;;){if(t.flags&16384){var n=t.updateQueue;if(n!==null&&(n=n.stores,n!==null))for(var r=0;r<n.length;r++){var l=n[r],o=l.getSnapshot;l=l.value;try{if(!Fe(o(),l))return!1}catch{return!1}}}if(n=t.child,t.subtreeFlags&16384&&n!==null)n.return=t,t=n;else{if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return!0;t=t.return}t.sibling.return=t.return,t=t.sibling}}return!0}function ut(e,t){for(t&=~Fi,t&=~El,e.suspendedLanes|=t,e.pingedLanes&=~t,e=e.expirationTimes;0<t;){var n=31-Ie(t),r=1<<n;e[n]=-1,t&=~r}}function qu(e){if(I&6)throw Error(x(327));sn();var t=Yr(e,0);if(!(t&1))return ge(e,Y()),null;var n=dl(e,t);if(e.tag!==0&&n===2){var r=ko(e);r!==0&&(t=r,n=Xo(e,r))}if(n===1)throw n=ir,Tt(e,0),ut(e,t),ge(e,Y()),n;if(n===6)throw Error(x(345));return e.finishedWork=e.current.alternate,e.finishedLanes=t,Pt(e,pe,$e),ge(e,Y()),null}function Vi(e,t){var n=I;I|=1;try{return e(t)}finally{I=n,I===0&&(vn=Y()+500,xl&&Ct())}}function Vt(e){ct!==null&&ct.tag===0&&!(I&6)&&sn();var t=I;I|=1;var n=_e.transition,r=D;try{if(_e.transition=null,D=1,e)return e()}finally{D=r,_e.transition=n,I=t,!(I&6)&&Ct()}}function Bi(){ye=tn.current,U(tn)}function Tt(e,t){e.finishedWork=null,e.finishedLanes=0;var n=e.timeoutHandle;if(n!==-1&&(e.timeoutHandle=-1,dd(n)),X!==null)for(n=X.return;n!==null;){var r=n;switch(wi(r),r.tag){case 1:r=r.type.childContextTypes,r!=null&&br();break;case 3:hn(),U(me),U(ue),Pi();break;case 5:_i(r);break;case 4:hn();break;case 13:U(W);break;case 19:U(W);break;case 10:Ci(r.type._context);break;case 22:case 23:Bi()}n=n.return}if(ee=e,X=e=yt(e.current,null),ne=ye=t,J=0,ir=null,Fi=El=Dt=0,pe=Un=null,jt!==null){for(t=0;t<jt.length;t++)if(n=jt[t],r=n.interleaved,r!==null){n.interleaved=null;var l=r.next,o=n.pending;if(o!==null){var i=o.next;o.next=l,r.next=i}n.pending=r}jt=null}return e}function uc(e,t){do{var n=X;try{if(Si(),Vr.current=sl,ul){for(var r=Q.memoizedState;r!==null;){var l=r.queue;l!==null&&(l.pending=null),r=r.next}ul=!1}if(Ft=0,b=Z=Q=null,Hn=!1,rr=0,Oi.current=null,n===null||n.return===null){J=1,ir=t,X=null;break}e:{var o=e,i=n.return,u=n,s=t;if(t=ne,u.flags|=32768,s!==null&&typeof s=="object"&&typeof s.then=="function"){var f=s,v=u,h=v.tag;if(!(v.mode&1)&&(h===0||h===11||h===15)){var p=v.alternate;p?(v.updateQueue=p.updateQueue,v.memoizedState=p.memoizedState,v.lanes=p.lanes):(v.updateQueue=null,v.memoizedState=null)}var k=Bu(i);if(k!==null){k.flags&=-257,Hu(k,i,u,o,t),k.mode&1&&Vu(o,f,t),t=k,s=f;var m=t.updateQueue;if(m===null){var w=new Set;w.add(s),t.updateQueue=w}else m.add(s);break e}else{if(!(t&1)){Vu(o,f,t),Hi();break e}s=Error(x(426))}}else if($&&u.mode&1){var P=Bu(i);if(P!==null){!(P.flags&65536)&&(P.flags|=256),Hu(P,i,u,o,t),xi(mn(s,u));break e}}o=s=mn(s,u),J!==4&&(J=2),Un===null?Un=[o]:Un.push(o),o=i;do{switch(o.tag){case 3:o.flags|=65536,t&=-t,o.lanes|=t;var c=Wa(o,s,t);Tu(o,c);break e;case 1:u=s;var a=o.type,d=o.stateNode;if(!(o.flags&128)&&(typeof a.getDerivedStateFromError=="function"||d!==null&&typeof d.componentDidCatch=="function"&&(vt===null||!vt.has(d)))){o.flags|=65536,t&=-t,o.lanes|=t;var y=Qa(o,u,t);Tu(o,y);break e}}o=o.return}while(o!==null)}cc(n)}catch(S){t=S,X===n&&n!==null&&(X=n=n.return);continue}break}while(!0)}function sc(){var e=al.current;return al.current=sl,e===null?sl:e}function Hi(){(J===0||J===3||J===2)&&(J=4),ee===null||!(Dt&268435455)&&!(El&268435455)||ut(ee,ne)}function dl(e,t){var n=I;I|=2;var r=sc();(ee!==e||ne!==t)&&($e=null,Tt(e,t));do try{Dd();break}catch(l){uc(e,l)}while(!0);if(Si(),I=n,al.current=r,X!==null)throw Error(x(261));return ee=null,ne=0,J}function Dd(){for(;X!==null;)ac(X)}function Vd(){for(;X!==null&&!af();)ac(X)}function ac(e){var t=dc(e.alternate,e,ye);e.memoizedProps=e.pendingProps,t===null?cc(e):X=t,Oi.current=null}function cc(e){var t=e;do{var n=t.alternate;if(e=t.return,t.flags&32768){if(n=Md(n,t),n!==null){n.flags&=32767,X=n;return}if(e!==null)e.flags|=32768,e.subtreeFlags=0,e.deletions=null;else{J=6,X=null;return}}else if(n=jd(n,t,ye),n!==null){X=n;return}if(t=t.sibling,t!==null){X=t;return}X=t=e}while(t!==null);J===0&&(J=5)}function Pt(e,t,n){var r=D,l=_e.transition;try{_e.transition=null,D=1,Bd(e,t,n,r)}finally{_e.transition=l,D=r}return null}function Bd(e,t,n,r){do sn();while(ct!==null);if(I&6)throw Error(x(327));n=e.finishedWork;var l=e.finishedLanes;if(n===null)return null;if(e.finishedWork=null,e.finishedLanes=0,n===e.current)throw Error(x(177));e.callbackNode=null,e.callbackPriority=0;var o=n.lanes|n.childLanes;if(wf(e,o),e===ee&&(X=ee=null,ne=0),!(n.subtreeFlags&2064)&&!(n.flags&2064)||jr||(jr=!0,pc(Kr,function(){return sn(),null})),o=(n.flags&15990)!==0,n.subtreeFlags&15990||o){o=_e.transition,_e.transition=null;var i=D;D=1;var u=I;I|=4,Oi.current=null,Rd(e,n),lc(n,e),od(_o),Xr=!!No,_o=No=null,e.current=n,Id(n),cf(),I=u,D=i,_e.transition=o}else e.current=n;if(jr&&(jr=!1,ct=e,fl=l),o=e.pendingLanes,o===0&&(vt=null),pf(n.stateNode),ge(e,Y()),t!==null)for(r=e.onRecoverableError,n=0;n<t.length;n++)l=t[n],r(l.value,{componentStack:l.stack,digest:l.digest});if(cl)throw cl=!1,e=Ko,Ko=null,e;return fl&1&&e.tag!==0&&sn(),o=e.pendingLanes,o&1?e===Yo?$n++:($n=0,Yo=e):$n=0,Ct(),null}function sn(){if(ct!==null){var e=Ws(fl),t=_e.transition,n=D;try{if(_e.transition=null,D=16>e?16:e,ct===null)var r=!1;else{if(e=ct,ct=null,fl=0,I&6)throw Error(x(331));var l=I;for(I|=4,E=e.current;E!==null;){var o=E,i=o.child;if(E.flags&16){var u=o.deletions;if(u!==null){for(var s=0;s<u.length;s++){var f=u[s];for(E=f;E!==null;){var v=E;switch(v.tag){case 0:case 11:case 15:An(8,v,o)}var h=v.child;if(h!==null)h.return=v,E=h;else for(;E!==null;){v=E;var p=v.sibling,k=v.return;if(tc(v),v===f){E=null;break}if(p!==null){p.return=k,E=p;break}E=k}}}var m=o.alternate;if(m!==null){var w=m.child;if(w!==null){m.child=null;do{var P=w.sibling;w.sibling=null,w=P}while(w!==null)}}E=o}}if(o.subtreeFlags&2064&&i!==null)i.return=o,E=i;else e:for(;E!==null;){if(o=E,o.flags&2048)switch(o.tag){case 0:case 11:case 15:An(9,o,o.return)}var c=o.sibling;if(c!==null){c.return=o.return,E=c;break e}E=o.return}}var a=e.current;for(E=a;E!==null;){i=E;var d=i.child;if(i.subtreeFlags&2064&&d!==null)d.return=i,E=d;else e:for(i=a;E!==null;){if(u=E,u.flags&2048)try{switch(u.tag){case 0:case 11:case 15:Cl(9,u)}}catch(S){K(u,u.return,S)}if(u===i){E=null;break e}var y=u.sibling;if(y!==null){y.return=u.return,E=y;break e}E=u.return}}if(I=l,Ct(),He&&typeof He.onPostCommitFiberRoot=="function")try{He.onPostCommitFiberRoot(ml,e)}catch{}r=!0}return r}finally{D=n,_e.transition=t}}return!1}function bu(e,t,n){t=mn(n,t),t=Wa(e,t,1),e=mt(e,t,1),t=ce(),e!==null&&(sr(e,1,t),ge(e,t))}function K(e,t,n){if(e.tag===3)bu(e,e,n);else for(;t!==null;){if(t.tag===3){bu(t,e,n);break}else if(t.tag===1){var r=t.stateNode;if(typeof t.type.getDerivedStateFromError=="function"||typeof r.componentDidCatch=="function"&&(vt===null||!vt.has(r))){e=mn(n,e),e=Qa(t,e,1),t=mt(t,e,1),e=ce(),t!==null&&(sr(t,1,e),ge(t,e));break}}t=t.return}}function Hd(e,t,n){var r=e.pingCache;r!==null&&r.delete(t),t=ce(),e.pingedLanes|=e.suspendedLanes&n,ee===e&&(ne&n)===n&&(J===4||J===3&&(ne&130023424)===ne&&500>Y()-Di?Tt(e,0):Fi|=n),ge(e,t)}function fc(e,t){t===0&&(e.mode&1?(t=xr,xr<<=1,!(xr&130023424)&&(xr=4194304)):t=1);var n=ce();e=Ze(e,t),e!==null&&(sr(e,t,n),ge(e,n))}function Ad(e){var t=e.memoizedState,n=0;t!==null&&(n=t.retryLane),fc(e,n)}function Ud(e,t){var n=0;switch(e.tag){case 13:var r=e.stateNode,l=e.memoizedState;l!==null&&(n=l.retryLane);break;case 19:r=e.stateNode;break;default:throw Error(x(314))}r!==null&&r.delete(t),fc(e,n)}var dc;dc=function(e,t,n){if(e!==null)if(e.memoizedProps!==t.pendingProps||me.current)he=!0;else{if(!(e.lanes&n)&&!(t.flags&128))return he=!1,Ld(e,t,n);he=!!(e.flags&131072)}else he=!1,$&&t.flags&1048576&&va(t,nl,t.index);switch(t.lanes=0,t.tag){case 2:var r=t.type;Hr(e,t),e=t.pendingProps;var l=fn(t,ue.current);un(t,n),l=ji(null,t,r,e,l,n);var o=Mi();return t.flags|=1,typeof l=="object"&&l!==null&&typeof l.render=="function"&&l.$$typeof===void 0?(t.tag=1,t.memoizedState=null,t.updateQueue=null,ve(r)?(o=!0,el(t)):o=!1,t.memoizedState=l.state!==null&&l.state!==void 0?l.state:null,zi(t),l.updater=Sl,t.stateNode=l,l._reactInternals=t,Fo(t,r,e,n),t=Bo(null,t,r,!0,o,n)):(t.tag=0,$&&o&&yi(t),ae(null,t,l,n),t=t.child),t;case 16:r=t.elementType;e:{switch(Hr(e,t),e=t.pendingProps,l=r._init,r=l(r._payload),t.type=r,l=t.tag=Wd(r),e=Me(r,e),l){case 0:t=Vo(null,t,r,e,n);break e;case 1:t=$u(null,t,r,e,n);break e;case 11:t=Au(null,t,r,e,n);break e;case 14:t=Uu(null,t,r,Me(r.type,e),n);break e}throw Error(x(306,r,""))}return t;case 0:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Me(r,l),Vo(e,t,r,l,n);case 1:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Me(r,l),$u(e,t,r,l,n);case 3:e:{if(Xa(t),e===null)throw Error(x(387));r=t.pendingProps,o=t.memoizedState,l=o.element,Sa(e,t),ol(t,r,null,n);var i=t.memoizedState;if(r=i.element,o.isDehydrated)if(o={element:r,isDehydrated:!1,cache:i.cache,pendingSuspenseBoundaries:i.pendingSuspenseBoundaries,transitions:i.transitions},t.updateQueue.baseState=o,t.memoizedState=o,t.flags&256){l=mn(Error(x(423)),t),t=Wu(e,t,r,n,l);break e}else if(r!==l){l=mn(Error(x(424)),t),t=Wu(e,t,r,n,l);break e}else for(we=ht(t.stateNode.containerInfo.firstChild),xe=t,$=!0,Re=null,n=xa(t,null,r,n),t.child=n;n;)n.flags=n.flags&-3|4096,n=n.sibling;else{if(dn(),r===l){t=Je(e,t,n);break e}ae(e,t,r,n)}t=t.child}return t;case 5:return Ca(t),e===null&&Ro(t),r=t.type,l=t.pendingProps,o=e!==null?e.memoizedProps:null,i=l.children,Po(r,l)?i=null:o!==null&&Po(r,o)&&(t.flags|=32),Ya(e,t),ae(e,t,i,n),t.child;case 6:return e===null&&Ro(t),null;case 13:return Za(e,t,n);case 4:return Ni(t,t.stateNode.containerInfo),r=t.pendingProps,e===null?t.child=pn(t,null,r,n):ae(e,t,r,n),t.child;case 11:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Me(r,l),Au(e,t,r,l,n);case 7:return ae(e,t,t.pendingProps,n),t.child;case 8:return ae(e,t,t.pendingProps.children,n),t.child;case 12:return ae(e,t,t.pendingProps.children,n),t.child;case 10:e:{if(r=t.type._context,l=t.pendingProps,o=t.memoizedProps,i=l.value,V(rl,r._currentValue),r._currentValue=i,o!==null)if(Fe(o.value,i)){if(o.children===l.children&&!me.current){t=Je(e,t,n);break e}}else for(o=t.child,o!==null&&(o.return=t);o!==null;){var u=o.dependencies;if(u!==null){i=o.child;for(var s=u.firstContext;s!==null;){if(s.context===r){if(o.tag===1){s=Ke(-1,n&-n),s.tag=2;var f=o.updateQueue;if(f!==null){f=f.shared;var v=f.pending;v===null?s.next=s:(s.next=v.next,v.next=s),f.pending=s}}o.lanes|=n,s=o.alternate,s!==null&&(s.lanes|=n),Io(o.return,n,t),u.lanes|=n;break}s=s.next}}else if(o.tag===10)i=o.type===t.type?null:o.child;else if(o.tag===18){if(i=o.return,i===null)throw Error(x(341));i.lanes|=n,u=i.alternate,u!==null&&(u.lanes|=n),Io(i,n,t),i=o.sibling}else i=o.child;if(i!==null)i.return=o;else for(i=o;i!==null;){if(i===t){i=null;break}if(o=i.sibling,o!==null){o.return=i.return,i=o;break}i=i.return}o=i}ae(e,t,l.children,n),t=t.child}return t;case 9:return l=t.type,r=t.pendingProps.children,un(t,n),l=Pe(l),r=r(l),t.flags|=1,ae(e,t,r,n),t.child;case 14:return r=t.type,l=Me(r,t.pendingProps),l=Me(r.type,l),Uu(e,t,r,l,n);case 15:return Ga(e,t,t.type,t.pendingProps,n);case 17:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Me(r,l),Hr(e,t),t.tag=1,ve(r)?(e=!0,el(t)):e=!1,un(t,n),$a(t,r,l),Fo(t,r,l,n),Bo(null,t,r,!0,e,n);case 19:return Ja(e,t,n);case 22:return Ka(e,t,n)}throw Error(x(156,t.tag))};function pc(e,t){return Hs(e,t)}function $d(e,t,n,r){this.tag=e,this.key=n,this.sibling=this.child=this.return=this.stateNode=this.type=this.elementType=null,this.index=0,this.ref=null,this.pendingProps=t,this.dependencies=this.memoizedState=this.updateQueue=this.memoizedProps=null,this.mode=r,this.subtreeFlags=this.flags=0,this.deletions=null,this.childLanes=this.lanes=0,this.alternate=null}function Ne(e,t,n,r){return new $d(e,t,n,r)}function Ai(e){return e=e.prototype,!(!e||!e.isReactComponent)}function Wd(e){if(typeof e=="function")return Ai(e)?1:0;if(e!=null){if(e=e.$$typeof,e===ii)return 11;if(e===ui)return 14}return 2}function yt(e,t){var n=e.alternate;return n===null?(n=Ne(e.tag,t,e.key,e.mode),n.elementType=e.elementType,n.type=e.type,n.stateNode=e.stateNode,n.alternate=e,e.alternate=n):(n.pendingProps=t,n.type=e.type,n.flags=0,n.subtreeFlags=0,n.deletions=null),n.flags=e.flags&14680064,n.childLanes=e.childLanes,n.lanes=e.lanes,n.child=e.child,n.memoizedProps=e.memoizedProps,n.memoizedState=e.memoizedState,n.updateQueue=e.updateQueue,t=e.dependencies,n.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext},n.sibling=e.sibling,n.index=e.index,n.ref=e.ref,n}function $r(e,t,n,r,l,o){var i=2;if(r=e,typeof e=="function")Ai(e)&&(i=1);else if(typeof e=="string")i=5;else e:switch(e){case Qt:return Rt(n.children,l,o,t);case oi:i=8,l|=8;break;case oo:return e=Ne(12,n,t,l|2),e.elementType=oo,e.lanes=o,e;case io:return e=Ne(13,n,t,l),e.elementType=io,e.lanes=o,e;case uo:return e=Ne(19,n,t,l),e.elementType=uo,e.lanes=o,e;case Cs:return zl(n,l,o,t);default:if(typeof e=="object"&&e!==null)switch(e.$$typeof){case ks:i=10;break e;case Ss:i=9;break e;case ii:i=11;break e;case ui:i=14;break e;case lt:i=16,r=null;break e}throw Error(x(130,e==null?e:typeof e,""))}return t=Ne(i,n,t,l),t.elementType=e,t.type=r,t.lanes=o,t}function Rt(e,t,n,r){return e=Ne(7,e,r,t),e.lanes=n,e}function zl(e,t,n,r){return e=Ne(22,e,r,t),e.elementType=Cs,e.lanes=n,e.stateNode={isHidden:!1},e}function to(e,t,n){return e=Ne(6,e,null,t),e.lanes=n,e}function no(e,t,n){return t=Ne(4,e.children!==null?e.children:[],e.key,t),t.lanes=n,t.stateNode={containerInfo:e.containerInfo,pendingChildren:null,implementation:e.implementation},t}function Qd(e,t,n,r,l){this.tag=t,this.containerInfo=e,this.finishedWork=this.pingCache=this.current=this.pendingChildren=null,this.timeoutHandle=-1,this.callbackNode=this.pendingContext=this.context=null,this.callbackPriority=0,this.eventTimes=Fl(0),this.expirationTimes=Fl(-1),this.entangledLanes=this.finishedLanes=this.mutableReadLanes=this.expiredLanes=this.pingedLanes=this.suspendedLanes=this.pendingLanes=0,this.entanglements=Fl(0),this.identifierPrefix=r,this.onRecoverableError=l,this.mutableSourceEagerHydrationData=null}function Ui(e,t,n,r,l,o,i,u,s){return e=new Qd(e,t,n,u,s),t===1?(t=1,o===!0&&(t|=8)):t=0,o=Ne(3,null,null,t),e.current=o,o.stateNode=e,o.memoizedState={element:r,isDehydrated:n,cache:null,transitions:null,pendingSuspenseBoundaries:null},zi(o),e}function Gd(e,t,n){var r=3<arguments.length&&arguments[3]!==void 0?arguments[3]:null;return{$$typeof:Wt,key:r==null?null:""+r,children:e,containerInfo:t,implementation:n}}function hc(e){if(!e)return xt;e=e._reactInternals;e:{if(Ht(e)!==e||e.tag!==1)throw Error(x(170));var t=e;do{switch(t.tag){case 3:t=t.stateNode.context;break e;case 1:if(ve(t.type)){t=t.stateNode.__reactInternalMemoizedMergedChildContext;break e}}t=t.return}while(t!==null);throw Error(x(171))}if(e.tag===1){var n=e.type;if(ve(n))return ha(e,n,t)}return t}function mc(e,t,n,r,l,o,i,u,s){return e=Ui(n,r,!0,e,l,o,i,u,s),e.context=hc(null),n=e.current,r=ce(),l=gt(n),o=Ke(r,l),o.callback=t??null,mt(n,o,l),e.current.lanes=l,sr(e,l,r),ge(e,r),e}function Nl(e,t,n,r){var l=t.current,o=ce(),i=gt(l);return n=hc(n),t.context===null?t.context=n:t.pendingContext=n,t=Ke(o,i),t.payload={element:e},r=r===void 0?null:r,r!==null&&(t.callback=r),e=mt(l,t,i),e!==null&&(Oe(e,l,i,o),Dr(e,l,i)),i}function pl(e){if(e=e.current,!e.child)return null;switch(e.child.tag){case 5:return e.child.stateNode;default:return e.child.stateNode}}function es(e,t){if(e=e.memoizedState,e!==null&&e.dehydrated!==null){var n=e.retryLane;e.retryLane=n!==0&&n<t?n:t}}function $i(e,t){es(e,t),(e=e.alternate)&&es(e,t)}function Kd(){return null}var vc=typeof reportError=="function"?reportError:function(e){console.error(e)};function Wi(e){this._internalRoot=e}_l.prototype.render=Wi.prototype.render=function(e){var t=this._internalRoot;if(t===null)throw Error(x(409));Nl(e,t,null,null)};_l.prototype.unmount=Wi.prototype.unmount=function(){var e=this._internalRoot;if(e!==null){this._internalRoot=null;var t=e.containerInfo;Vt(function(){Nl(null,e,null,null)}),t[Xe]=null}};function _l(e){this._internalRoot=e}_l.prototype.unstable_scheduleHydration=function(e){if(e){var t=Ks();e={blockedOn:null,target:e,priority:t};for(var n=0;n<it.length&&t!==0&&t<it[n].priority;n++);it.splice(n,0,e),n===0&&Xs(e)}};function Qi(e){return!(!e||e.nodeType!==1&&e.nodeType!==9&&e.nodeType!==11)}function Pl(e){return!(!e||e.nodeType!==1&&e.nodeType!==9&&e.nodeType!==11&&(e.nodeType!==8||e.nodeValue!==" react-mount-point-unstable "))}function ts(){}function Yd(e,t,n,r,l){if(l){if(typeof r=="function"){var o=r;r=function(){var f=pl(i);o.call(f)}}var i=mc(t,r,e,0,null,!1,!1,"",ts);return e._reactRootContainer=i,e[Xe]=i.current,qn(e.nodeType===8?e.parentNode:e),Vt(),i}for(;l=e.lastChild;)e.removeChild(l);if(typeof r=="function"){var u=r;r=function(){var f=pl(s);u.call(f)}}var s=Ui(e,0,!1,null,null,!1,!1,"",ts);return e._reactRootContainer=s,e[Xe]=s.current,qn(e.nodeType===8?e.parentNode:e),Vt(function(){Nl(t,s,n,r)}),s}function Ll(e,t,n,r,l){var o=n._reactRootContainer;if(o){var i=o;if(typeof l=="function"){var u=l;l=function(){var s=pl(i);u.call(s)}}Nl(t,i,e,l)}else i=Yd(n,t,e,l,r);return pl(i)}Qs=function(e){switch(e.tag){case 3:var t=e.stateNode;if(t.current.memoizedState.isDehydrated){var n=Rn(t.pendingLanes);n!==0&&(ci(t,n|1),ge(t,Y()),!(I&6)&&(vn=Y()+500,Ct()))}break;case 13:Vt(function(){var r=Ze(e,1);if(r!==null){var l=ce();Oe(r,e,1,l)}}),$i(e,1)}};fi=function(e){if(e.tag===13){var t=Ze(e,134217728);if(t!==null){var n=ce();Oe(t,e,134217728,n)}$i(e,134217728)}};Gs=function(e){if(e.tag===13){var t=gt(e),n=Ze(e,t);if(n!==null){var r=ce();Oe(n,e,t,r)}$i(e,t)}};Ks=function(){return D};Ys=function(e,t){var n=D;try{return D=e,t()}finally{D=n}};yo=function(e,t,n){switch(t){case"input":if(co(e,n),t=n.name,n.type==="radio"&&t!=null){for(n=e;n.parentNode;)n=n.parentNode;for(n=n.querySelectorAll("input[name="+JSON.stringify(""+t)+'][type="radio"]'),t=0;t<n.length;t++){var r=n[t];if(r!==e&&r.form===e.form){var l=wl(r);if(!l)throw Error(x(90));zs(r),co(r,l)}}}break;case"textarea":_s(e,n);break;case"select":t=n.value,t!=null&&nn(e,!!n.multiple,t,!1)}};Is=Vi;Os=Vt;var Xd={usingClientEntryPoint:!1,Events:[cr,Xt,wl,Ts,Rs,Vi]},Pn={findFiberByHostInstance:Lt,bundleType:0,version:"18.3.1",rendererPackageName:"react-dom"},Zd={bundleType:Pn.bundleType,version:Pn.version,rendererPackageName:Pn.rendererPackageName,rendererConfig:Pn.rendererConfig,overrideHookState:null,overrideHookStateDeletePath:null,overrideHookStateRenamePath:null,overrideProps:null,overridePropsDeletePath:null,overridePropsRenamePath:null,setErrorHandler:null,setSuspenseHandler:null,scheduleUpdate:null,currentDispatcherRef:qe.ReactCurrentDispatcher,findHostInstanceByFiber:function(e){return e=Vs(e),e===null?null:e.stateNode},findFiberByHostInstance:Pn.findFiberByHostInstance||Kd,findHostInstancesForRefresh:null,scheduleRefresh:null,scheduleRoot:null,setRefreshHandler:null,getCurrentFiber:null,reconcilerVersion:"18.3.1-next-f1338f8080-20240426"};if(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__<"u"){var Mr=__REACT_DEVTOOLS_GLOBAL_HOOK__;if(!Mr.isDisabled&&Mr.supportsFiber)try{ml=Mr.inject(Zd),He=Mr}catch{}}Se.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED=Xd;Se.createPortal=function(e,t){var n=2<arguments.length&&arguments[2]!==void 0?arguments[2]:null;if(!Qi(t))throw Error(x(200));return Gd(e,t,null,n)};Se.createRoot=function(e,t){if(!Qi(e))throw Error(x(299));var n=!1,r="",l=vc;return t!=null&&(t.unstable_strictMode===!0&&(n=!0),t.identifierPrefix!==void 0&&(r=t.identifierPrefix),t.onRecoverableError!==void 0&&(l=t.onRecoverableError)),t=Ui(e,1,!1,null,null,n,!1,r,l),e[Xe]=t.current,qn(e.nodeType===8?e.parentNode:e),new Wi(t)};Se.findDOMNode=function(e){if(e==null)return null;if(e.nodeType===1)return e;var t=e._reactInternals;if(t===void 0)throw typeof e.render=="function"?Error(x(188)):(e=Object.keys(e).join(","),Error(x(268,e)));return e=Vs(t),e=e===null?null:e.stateNode,e};Se.flushSync=function(e){return Vt(e)};Se.hydrate=function(e,t,n){if(!Pl(t))throw Error(x(200));return Ll(null,e,t,!0,n)};Se.hydrateRoot=function(e,t,n){if(!Qi(e))throw Error(x(405));var r=n!=null&&n.hydratedSources||null,l=!1,o="",i=vc;if(n!=null&&(n.unstable_strictMode===!0&&(l=!0),n.identifierPrefix!==void 0&&(o=n.identifierPrefix),n.onRecoverableError!==void 0&&(i=n.onRecoverableError)),t=mc(t,null,e,1,n??null,l,!1,o,i),e[Xe]=t.current,qn(e),r)for(e=0;e<r.length;e++)n=r[e],l=n._getVersion,l=l(n._source),t.mutableSourceEagerHydrationData==null?t.mutableSourceEagerHydrationData=[n,l]:t.mutableSourceEagerHydrationData.push(n,l);return new _l(t)};Se.render=function(e,t,n){if(!Pl(t))throw Error(x(200));return Ll(null,e,t,!1,n)};Se.unmountComponentAtNode=function(e){if(!Pl(e))throw Error(x(40));return e._reactRootContainer?(Vt(function(){Ll(null,null,e,!1,function(){e._reactRootContainer=null,e[Xe]=null})}),!0):!1};Se.unstable_batchedUpdates=Vi;Se.unstable_renderSubtreeIntoContainer=function(e,t,n,r){if(!Pl(n))throw Error(x(200));if(e==null||e._reactInternals===void 0)throw Error(x(38));return Ll(e,t,n,!1,r)};Se.version="18.3.1-next-f1338f8080-20240426";function gc(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>"u"||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!="function"))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(gc)}catch(e){console.error(e)}}gc(),gs.exports=Se;var Jd=gs.exports,ns=Jd;Zi.createRoot=ns.createRoot,Zi.hydrateRoot=ns.hydrateRoot;const rs="openai:set_globals";function qd(e){return st.useSyncExternalStore(t=>{if(typeof window>"u")return()=>{};const n=r=>{r.detail.globals[e]!==void 0&&t()};return window.addEventListener(rs,n,{passive:!0}),()=>{window.removeEventListener(rs,n)}},()=>{var t;return((t=window.openai)==null?void 0:t[e])??null},()=>{var t;return((t=window.openai)==null?void 0:t[e])??null})}const bd=()=>qd("displayMode");function ep(e){return{accommodations:[{id:"7696424",name:"STAGES HOTEL Prague, a Tribute Portfolio Hotel",type:"hotel",mainImage:"https://cf.bstatic.com/xdata/images/hotel/max1280x900/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",rating:9.4,reviewCount:15982,pricePerNight:220,location:{distance:"5.6 km from city center"},facilities:["WiFi","Parking","Restaurant","24-hour front desk","Fitness centre","Bar","Spa and wellness centre","Room service"],sustainability:{certified:!1,level:0}},{id:"77320",name:"Hotel Duo & Wellness",type:"hotel",mainImage:"https://cf.bstatic.com/xdata/images/hotel/max1280x900/493721137.jpg?k=058b6988395d2c397c8da154e92d9ab4022b0f3c4a6e59703e69c242fb2e9fdd&o=",rating:8.7,reviewCount:11781,pricePerNight:165,location:{distance:"6.8 km from city center"},facilities:["WiFi","Swimming pool","Spa and wellness centre","Parking","Restaurant","Bar","Fitness centre"],sustainability:{certified:!1,level:0}},{id:"mock_resort",name:"Luxury Beach Resort & Spa",type:"resort",mainImage:"https://images.unsplash.com/photo-1582719478250-c89cae4dc85b?w=800&h=600&fit=crop",rating:9.5,reviewCount:1523,pricePerNight:389,location:{distance:"3.2 km from city center"},facilities:["WiFi","Swimming pool","Spa and wellness centre","Restaurant","Beach access","Bar","Fitness centre","Airport shuttle"],sustainability:{certified:!0,level:3}},{id:"mock_apartment",name:"Modern City Center Apartment",type:"apartment",mainImage:"https://images.unsplash.com/photo-1522708323590-d24dbb6b0267?w=800&h=600&fit=crop",rating:9.1,reviewCount:456,pricePerNight:145,location:{distance:"0.2 km from city center"},facilities:["WiFi","Kitchen","Parking","Family rooms","Laundry","Heating","Air conditioning"],sustainability:{certified:!1,level:0}},{id:"mock_villa",name:"Secluded Mountain Villa",type:"villa",mainImage:"https://images.unsplash.com/photo-1613490493576-7fde63acd811?w=800&h=600&fit=crop",rating:9.8,reviewCount:287,pricePerNight:475,location:{distance:"12 km from city center"},facilities:["WiFi","Swimming pool","Kitchen","Parking","Terrace","BBQ facilities","Heating","Family rooms"],sustainability:{certified:!0,level:2}}],destination:"Prague, Czech Republic",checkIn:"Dec 15, 2024",checkOut:"Dec 18, 2024",nights:3,totalResults:390,filters:{}}}function yc(e){var t,n,r="";if(typeof e=="string"||typeof e=="number")r+=e;else if(typeof e=="object")if(Array.isArray(e)){var l=e.length;for(t=0;t<l;t++)e[t]&&(n=yc(e[t]))&&(r&&(r+=" "),r+=n)}else for(n in e)e[n]&&(r&&(r+=" "),r+=n);return r}function tp(){for(var e,t,n=0,r="",l=arguments.length;n<l;n++)(e=arguments[n])&&(t=yc(e))&&(r&&(r+=" "),r+=t);return r}const Gi="-",np=e=>{const t=lp(e),{conflictingClassGroups:n,conflictingClassGroupModifiers:r}=e;return{getClassGroupId:i=>{const u=i.split(Gi);return u[0]===""&&u.length!==1&&u.shift(),wc(u,t)||rp(i)},getConflictingClassGroupIds:(i,u)=>{const s=n[i]||[];return u&&r[i]?[...s,...r[i]]:s}}},wc=(e,t)=>{var i;if(e.length===0)return t.classGroupId;const n=e[0],r=t.nextPart.get(n),l=r?wc(e.slice(1),r):void 0;if(l)return l;if(t.validators.length===0)return;const o=e.join(Gi);return(i=t.validators.find(({validator:u})=>u(o)))==null?void 0:i.classGroupId},ls=/^\[(.+)\]$/,rp=e=>{if(ls.test(e)){const t=ls.exec(e)[1],n=t==null?void 0:t.substring(0,t.indexOf(":"));if(n)return"arbitrary.."+n}},lp=e=>{const{theme:t,prefix:n}=e,r={nextPart:new Map,validators:[]};return ip(Object.entries(e.classGroups),n).forEach(([o,i])=>{Jo(i,r,o,t)}),r},Jo=(e,t,n,r)=>{e.forEach(l=>{if(typeof l=="string"){const o=l===""?t:os(t,l);o.classGroupId=n;return}if(typeof l=="function"){if(op(l)){Jo(l(r),t,n,r);return}t.validators.push({validator:l,classGroupId:n});return}Object.entries(l).forEach(([o,i])=>{Jo(i,os(t,o),n,r)})})},os=(e,t)=>{let n=e;return t.split(Gi).forEach(r=>{n.nextPart.has(r)||n.nextPart.set(r,{nextPart:new Map,validators:[]}),n=n.nextPart.get(r)}),n},op=e=>e.isThemeGetter,ip=(e,t)=>t?e.map(([n,r])=>{const l=r.map(o=>typeof o=="string"?t+o:typeof o=="object"?Object.fromEntries(Object.entries(o).map(([i,u])=>[t+i,u])):o);return[n,l]}):e,up=e=>{if(e<1)return{get:()=>{},set:()=>{}};let t=0,n=new Map,r=new Map;const l=(o,i)=>{n.set(o,i),t++,t>e&&(t=0,r=n,n=new Map)};return{get(o){let i=n.get(o);if(i!==void 0)return i;if((i=r.get(o))!==void 0)return l(o,i),i},set(o,i){n.has(o)?n.set(o,i):l(o,i)}}},xc="!",sp=e=>{const{separator:t,experimentalParseClassName:n}=e,r=t.length===1,l=t[0],o=t.length,i=u=>{const s=[];let f=0,v=0,h;for(let P=0;P<u.length;P++){let c=u[P];if(f===0){if(c===l&&(r||u.slice(P,P+o)===t)){s.push(u.slice(v,P)),v=P+o;continue}if(c==="/"){h=P;continue}}c==="["?f++:c==="]"&&f--}const p=s.length===0?u:u.substring(v),k=p.startsWith(xc),m=k?p.substring(1):p,w=h&&h>v?h-v:void 0;return{modifiers:s,hasImportantModifier:k,baseClassName:m,maybePostfixModifierPosition:w}};return n?u=>n({className:u,parseClassName:i}):i},ap=e=>{if(e.length<=1)return e;const t=[];let n=[];return e.forEach(r=>{r[0]==="["?(t.push(...n.sort(),r),n=[]):n.push(r)}),t.push(...n.sort()),t},cp=e=>({cache:up(e.cacheSize),parseClassName:sp(e),...np(e)}),fp=/\s+/,dp=(e,t)=>{const{parseClassName:n,getClassGroupId:r,getConflictingClassGroupIds:l}=t,o=[],i=e.trim().split(fp);let u="";for(let s=i.length-1;s>=0;s-=1){const f=i[s],{modifiers:v,hasImportantModifier:h,baseClassName:p,maybePostfixModifierPosition:k}=n(f);let m=!!k,w=r(m?p.substring(0,k):p);if(!w){if(!m){u=f+(u.length>0?" "+u:u);continue}if(w=r(p),!w){u=f+(u.length>0?" "+u:u);continue}m=!1}const P=ap(v).join(":"),c=h?P+xc:P,a=c+w;if(o.includes(a))continue;o.push(a);const d=l(w,m);for(let y=0;y<d.length;++y){const S=d[y];o.push(c+S)}u=f+(u.length>0?" "+u:u)}return u};function pp(){let e=0,t,n,r="";for(;e<arguments.length;)(t=arguments[e++])&&(n=kc(t))&&(r&&(r+=" "),r+=n);return r}const kc=e=>{if(typeof e=="string")return e;let t,n="";for(let r=0;r<e.length;r++)e[r]&&(t=kc(e[r]))&&(n&&(n+=" "),n+=t);return n};function hp(e,...t){let n,r,l,o=i;function i(s){const f=t.reduce((v,h)=>h(v),e());return n=cp(f),r=n.cache.get,l=n.cache.set,o=u,u(s)}function u(s){const f=r(s);if(f)return f;const v=dp(s,n);return l(s,v),v}return function(){return o(pp.apply(null,arguments))}}const H=e=>{const t=n=>n[e]||[];return t.isThemeGetter=!0,t},Sc=/^\[(?:([a-z-]+):)?(.+)\]$/i,mp=/^\d+\/\d+$/,vp=new Set(["px","full","screen"]),gp=/^(\d+(\.\d+)?)?(xs|sm|md|lg|xl)$/,yp=/\d+(%|px|r?em|[sdl]?v([hwib]|min|max)|pt|pc|in|cm|mm|cap|ch|ex|r?lh|cq(w|h|i|b|min|max))|\b(calc|min|max|clamp)\(.+\)|^0$/,wp=/^(rgba?|hsla?|hwb|(ok)?(lab|lch))\(.+\)$/,xp=/^(inset_)?-?((\d+)?\.?(\d+)[a-z]+|0)_-?((\d+)?\.?(\d+)[a-z]+|0)/,kp=/^(url|image|image-set|cross-fade|element|(repeating-)?(linear|radial|conic)-gradient)\(.+\)$/,Ue=e=>an(e)||vp.has(e)||mp.test(e),nt=e=>xn(e,"length",Lp),an=e=>!!e&&!Number.isNaN(Number(e)),ro=e=>xn(e,"number",an),Ln=e=>!!e&&Number.isInteger(Number(e)),Sp=e=>e.endsWith("%")&&an(e.slice(0,-1)),M=e=>Sc.test(e),rt=e=>gp.test(e),Cp=new Set(["length","size","percentage"]),Ep=e=>xn(e,Cp,Cc),zp=e=>xn(e,"position",Cc),Np=new Set(["image","url"]),_p=e=>xn(e,Np,Mp),Pp=e=>xn(e,"",jp),jn=()=>!0,xn=(e,t,n)=>{const r=Sc.exec(e);return r?r[1]?typeof t=="string"?r[1]===t:t.has(r[1]):n(r[2]):!1},Lp=e=>yp.test(e)&&!wp.test(e),Cc=()=>!1,jp=e=>xp.test(e),Mp=e=>kp.test(e),Tp=()=>{const e=H("colors"),t=H("spacing"),n=H("blur"),r=H("brightness"),l=H("borderColor"),o=H("borderRadius"),i=H("borderSpacing"),u=H("borderWidth"),s=H("contrast"),f=H("grayscale"),v=H("hueRotate"),h=H("invert"),p=H("gap"),k=H("gradientColorStops"),m=H("gradientColorStopPositions"),w=H("inset"),P=H("margin"),c=H("opacity"),a=H("padding"),d=H("saturate"),y=H("scale"),S=H("sepia"),z=H("skew"),N=H("space"),_=H("translate"),B=()=>["auto","contain","none"],T=()=>["auto","hidden","clip","visible","scroll"],se=()=>["auto",M,t],F=()=>[M,t],be=()=>["",Ue,nt],Et=()=>["auto",an,M],dr=()=>["bottom","center","left","left-bottom","left-top","right","right-bottom","right-top","top"],et=()=>["solid","dashed","dotted","double","none"],At=()=>["normal","multiply","screen","overlay","darken","lighten","color-dodge","color-burn","hard-light","soft-light","difference","exclusion","hue","saturation","color","luminosity"],C=()=>["start","end","center","between","around","evenly","stretch"],L=()=>["","0",M],j=()=>["auto","avoid","all","avoid-page","page","left","right","column"],O=()=>[an,M];return{cacheSize:500,separator:":",theme:{colors:[jn],spacing:[Ue,nt],blur:["none","",rt,M],brightness:O(),borderColor:[e],borderRadius:["none","","full",rt,M],borderSpacing:F(),borderWidth:be(),contrast:O(),grayscale:L(),hueRotate:O(),invert:L(),gap:F(),gradientColorStops:[e],gradientColorStopPositions:[Sp,nt],inset:se(),margin:se(),opacity:O(),padding:F(),saturate:O(),scale:O(),sepia:L(),skew:O(),space:F(),translate:F()},classGroups:{aspect:[{aspect:["auto","square","video",M]}],container:["container"],columns:[{columns:[rt]}],"break-after":[{"break-after":j()}],"break-before":[{"break-before":j()}],"break-inside":[{"break-inside":["auto","avoid","avoid-page","avoid-column"]}],"box-decoration":[{"box-decoration":["slice","clone"]}],box:[{box:["border","content"]}],display:["block","inline-block","inline","flex","inline-flex","table","inline-table","table-caption","table-cell","table-column","table-column-group","table-footer-group","table-header-group","table-row-group","table-row","flow-root","grid","inline-grid","contents","list-item","hidden"],float:[{float:["right","left","none","start","end"]}],clear:[{clear:["left","right","both","none","start","end"]}],isolation:["isolate","isolation-auto"],"object-fit":[{object:["contain","cover","fill","none","scale-down"]}],"object-position":[{object:[...dr(),M]}],overflow:[{overflow:T()}],"overflow-x":[{"overflow-x":T()}],"overflow-y":[{"overflow-y":T()}],overscroll:[{overscroll:B()}],"overscroll-x":[{"overscroll-x":B()}],"overscroll-y":[{"overscroll-y":B()}],position:["static","fixed","absolute","relative","sticky"],inset:[{inset:[w]}],"inset-x":[{"inset-x":[w]}],"inset-y":[{"inset-y":[w]}],start:[{start:[w]}],end:[{end:[w]}],top:[{top:[w]}],right:[{right:[w]}],bottom:[{bottom:[w]}],left:[{left:[w]}],visibility:["visible","invisible","collapse"],z:[{z:["auto",Ln,M]}],basis:[{basis:se()}],"flex-direction":[{flex:["row","row-reverse","col","col-reverse"]}],"flex-wrap":[{flex:["wrap","wrap-reverse","nowrap"]}],flex:[{flex:["1","auto","initial","none",M]}],grow:[{grow:L()}],shrink:[{shrink:L()}],order:[{order:["first","last","none",Ln,M]}],"grid-cols":[{"grid-cols":[jn]}],"col-start-end":[{col:["auto",{span:["full",Ln,M]},M]}],"col-start":[{"col-start":Et()}],"col-end":[{"col-end":Et()}],"grid-rows":[{"grid-rows":[jn]}],"row-start-end":[{row:["auto",{span:[Ln,M]},M]}],"row-start":[{"row-start":Et()}],"row-end":[{"row-end":Et()}],"grid-flow":[{"grid-flow":["row","col","dense","row-dense","col-dense"]}],"auto-cols":[{"auto-cols":["auto","min","max","fr",M]}],"auto-rows":[{"auto-rows":["auto","min","max","fr",M]}],gap:[{gap:[p]}],"gap-x":[{"gap-x":[p]}],"gap-y":[{"gap-y":[p]}],"justify-content":[{justify:["normal",...C()]}],"justify-items":[{"justify-items":["start","end","center","stretch"]}],"justify-self":[{"justify-self":["auto","start","end","center","stretch"]}],"align-content":[{content:["normal",...C(),"baseline"]}],"align-items":[{items:["start","end","center","baseline","stretch"]}],"align-self":[{self:["auto","start","end","center","stretch","baseline"]}],"place-content":[{"place-content":[...C(),"baseline"]}],"place-items":[{"place-items":["start","end","center","baseline","stretch"]}],"place-self":[{"place-self":["auto","start","end","center","stretch"]}],p:[{p:[a]}],px:[{px:[a]}],py:[{py:[a]}],ps:[{ps:[a]}],pe:[{pe:[a]}],pt:[{pt:[a]}],pr:[{pr:[a]}],pb:[{pb:[a]}],pl:[{pl:[a]}],m:[{m:[P]}],mx:[{mx:[P]}],my:[{my:[P]}],ms:[{ms:[P]}],me:[{me:[P]}],mt:[{mt:[P]}],mr:[{mr:[P]}],mb:[{mb:[P]}],ml:[{ml:[P]}],"space-x":[{"space-x":[N]}],"space-x-reverse":["space-x-reverse"],"space-y":[{"space-y":[N]}],"space-y-reverse":["space-y-reverse"],w:[{w:["auto","min","max","fit","svw","lvw","dvw",M,t]}],"min-w":[{"min-w":[M,t,"min","max","fit"]}],"max-w":[{"max-w":[M,t,"none","full","min","max","fit","prose",{screen:[rt]},rt]}],h:[{h:[M,t,"auto","min","max","fit","svh","lvh","dvh"]}],"min-h":[{"min-h":[M,t,"min","max","fit","svh","lvh","dvh"]}],"max-h":[{"max-h":[M,t,"min","max","fit","svh","lvh","dvh"]}],size:[{size:[M,t,"auto","min","max","fit"]}],"font-size":[{text:["base",rt,nt]}],"font-smoothing":["antialiased","subpixel-antialiased"],"font-style":["italic","not-italic"],"font-weight":[{font:["thin","extralight","light","normal","medium","semibold","bold","extrabold","black",ro]}],"font-family":[{font:[jn]}],"fvn-normal":["normal-nums"],"fvn-ordinal":["ordinal"],"fvn-slashed-zero":["slashed-zero"],"fvn-figure":["lining-nums","oldstyle-nums"],"fvn-spacing":["proportional-nums","tabular-nums"],"fvn-fraction":["diagonal-fractions","stacked-fractions"],tracking:[{tracking:["tighter","tight","normal","wide","wider","widest",M]}],"line-clamp":[{"line-clamp":["none",an,ro]}],leading:[{leading:["none","tight","snug","normal","relaxed","loose",Ue,M]}],"list-image":[{"list-image":["none",M]}],"list-style-type":[{list:["none","disc","decimal",M]}],"list-style-position":[{list:["inside","outside"]}],"placeholder-color":[{placeholder:[e]}],"placeholder-opacity":[{"placeholder-opacity":[c]}],"text-alignment":[{text:["left","center","right","justify","start","end"]}],"text-color":[{text:[e]}],"text-opacity":[{"text-opacity":[c]}],"text-decoration":["underline","overline","line-through","no-underline"],"text-decoration-style":[{decoration:[...et(),"wavy"]}],"text-decoration-thickness":[{decoration:["auto","from-font",Ue,nt]}],"underline-offset":[{"underline-offset":["auto",Ue,M]}],"text-decoration-color":[{decoration:[e]}],"text-transform":["uppercase","lowercase","capitalize","normal-case"],"text-overflow":["truncate","text-ellipsis","text-clip"],"text-wrap":[{text:["wrap","nowrap","balance","pretty"]}],indent:[{indent:F()}],"vertical-align":[{align:["baseline","top","middle","bottom","text-top","text-bottom","sub","super",M]}],whitespace:[{whitespace:["normal","nowrap","pre","pre-line","pre-wrap","break-spaces"]}],break:[{break:["normal","words","all","keep"]}],hyphens:[{hyphens:["none","manual","auto"]}],content:[{content:["none",M]}],"bg-attachment":[{bg:["fixed","local","scroll"]}],"bg-clip":[{"bg-clip":["border","padding","content","text"]}],"bg-opacity":[{"bg-opacity":[c]}],"bg-origin":[{"bg-origin":["border","padding","content"]}],"bg-position":[{bg:[...dr(),zp]}],"bg-repeat":[{bg:["no-repeat",{repeat:["","x","y","round","space"]}]}],"bg-size":[{bg:["auto","cover","contain",Ep]}],"bg-image":[{bg:["none",{"gradient-to":["t","tr","r","br","b","bl","l","tl"]},_p]}],"bg-color":[{bg:[e]}],"gradient-from-pos":[{from:[m]}],"gradient-via-pos":[{via:[m]}],"gradient-to-pos":[{to:[m]}],"gradient-from":[{from:[k]}],"gradient-via":[{via:[k]}],"gradient-to":[{to:[k]}],rounded:[{rounded:[o]}],"rounded-s":[{"rounded-s":[o]}],"rounded-e":[{"rounded-e":[o]}],"rounded-t":[{"rounded-t":[o]}],"rounded-r":[{"rounded-r":[o]}],"rounded-b":[{"rounded-b":[o]}],"rounded-l":[{"rounded-l":[o]}],"rounded-ss":[{"rounded-ss":[o]}],"rounded-se":[{"rounded-se":[o]}],"rounded-ee":[{"rounded-ee":[o]}],"rounded-es":[{"rounded-es":[o]}],"rounded-tl":[{"rounded-tl":[o]}],"rounded-tr":[{"rounded-tr":[o]}],"rounded-br":[{"rounded-br":[o]}],"rounded-bl":[{"rounded-bl":[o]}],"border-w":[{border:[u]}],"border-w-x":[{"border-x":[u]}],"border-w-y":[{"border-y":[u]}],"border-w-s":[{"border-s":[u]}],"border-w-e":[{"border-e":[u]}],"border-w-t":[{"border-t":[u]}],"border-w-r":[{"border-r":[u]}],"border-w-b":[{"border-b":[u]}],"border-w-l":[{"border-l":[u]}],"border-opacity":[{"border-opacity":[c]}],"border-style":[{border:[...et(),"hidden"]}],"divide-x":[{"divide-x":[u]}],"divide-x-reverse":["divide-x-reverse"],"divide-y":[{"divide-y":[u]}],"divide-y-reverse":["divide-y-reverse"],"divide-opacity":[{"divide-opacity":[c]}],"divide-style":[{divide:et()}],"border-color":[{border:[l]}],"border-color-x":[{"border-x":[l]}],"border-color-y":[{"border-y":[l]}],"border-color-s":[{"border-s":[l]}],"border-color-e":[{"border-e":[l]}],"border-color-t":[{"border-t":[l]}],"border-color-r":[{"border-r":[l]}],"border-color-b":[{"border-b":[l]}],"border-color-l":[{"border-l":[l]}],"divide-color":[{divide:[l]}],"outline-style":[{outline:["",...et()]}],"outline-offset":[{"outline-offset":[Ue,M]}],"outline-w":[{outline:[Ue,nt]}],"outline-color":[{outline:[e]}],"ring-w":[{ring:be()}],"ring-w-inset":["ring-inset"],"ring-color":[{ring:[e]}],"ring-opacity":[{"ring-opacity":[c]}],"ring-offset-w":[{"ring-offset":[Ue,nt]}],"ring-offset-color":[{"ring-offset":[e]}],shadow:[{shadow:["","inner","none",rt,Pp]}],"shadow-color":[{shadow:[jn]}],opacity:[{opacity:[c]}],"mix-blend":[{"mix-blend":[...At(),"plus-lighter","plus-darker"]}],"bg-blend":[{"bg-blend":At()}],filter:[{filter:["","none"]}],blur:[{blur:[n]}],brightness:[{brightness:[r]}],contrast:[{contrast:[s]}],"drop-shadow":[{"drop-shadow":["","none",rt,M]}],grayscale:[{grayscale:[f]}],"hue-rotate":[{"hue-rotate":[v]}],invert:[{invert:[h]}],saturate:[{saturate:[d]}],sepia:[{sepia:[S]}],"backdrop-filter":[{"backdrop-filter":["","none"]}],"backdrop-blur":[{"backdrop-blur":[n]}],"backdrop-brightness":[{"backdrop-brightness":[r]}],"backdrop-contrast":[{"backdrop-contrast":[s]}],"backdrop-grayscale":[{"backdrop-grayscale":[f]}],"backdrop-hue-rotate":[{"backdrop-hue-rotate":[v]}],"backdrop-invert":[{"backdrop-invert":[h]}],"backdrop-opacity":[{"backdrop-opacity":[c]}],"backdrop-saturate":[{"backdrop-saturate":[d]}],"backdrop-sepia":[{"backdrop-sepia":[S]}],"border-collapse":[{border:["collapse","separate"]}],"border-spacing":[{"border-spacing":[i]}],"border-spacing-x":[{"border-spacing-x":[i]}],"border-spacing-y":[{"border-spacing-y":[i]}],"table-layout":[{table:["auto","fixed"]}],caption:[{caption:["top","bottom"]}],transition:[{transition:["none","all","","colors","opacity","shadow","transform",M]}],duration:[{duration:O()}],ease:[{ease:["linear","in","out","in-out",M]}],delay:[{delay:O()}],animate:[{animate:["none","spin","ping","pulse","bounce",M]}],transform:[{transform:["","gpu","none"]}],scale:[{scale:[y]}],"scale-x":[{"scale-x":[y]}],"scale-y":[{"scale-y":[y]}],rotate:[{rotate:[Ln,M]}],"translate-x":[{"translate-x":[_]}],"translate-y":[{"translate-y":[_]}],"skew-x":[{"skew-x":[z]}],"skew-y":[{"skew-y":[z]}],"transform-origin":[{origin:["center","top","top-right","right","bottom-right","bottom","bottom-left","left","top-left",M]}],accent:[{accent:["auto",e]}],appearance:[{appearance:["none","auto"]}],cursor:[{cursor:["auto","default","pointer","wait","text","move","help","not-allowed","none","context-menu","progress","cell","crosshair","vertical-text","alias","copy","no-drop","grab","grabbing","all-scroll","col-resize","row-resize","n-resize","e-resize","s-resize","w-resize","ne-resize","nw-resize","se-resize","sw-resize","ew-resize","ns-resize","nesw-resize","nwse-resize","zoom-in","zoom-out",M]}],"caret-color":[{caret:[e]}],"pointer-events":[{"pointer-events":["none","auto"]}],resize:[{resize:["none","y","x",""]}],"scroll-behavior":[{scroll:["auto","smooth"]}],"scroll-m":[{"scroll-m":F()}],"scroll-mx":[{"scroll-mx":F()}],"scroll-my":[{"scroll-my":F()}],"scroll-ms":[{"scroll-ms":F()}],"scroll-me":[{"scroll-me":F()}],"scroll-mt":[{"scroll-mt":F()}],"scroll-mr":[{"scroll-mr":F()}],"scroll-mb":[{"scroll-mb":F()}],"scroll-ml":[{"scroll-ml":F()}],"scroll-p":[{"scroll-p":F()}],"scroll-px":[{"scroll-px":F()}],"scroll-py":[{"scroll-py":F()}],"scroll-ps":[{"scroll-ps":F()}],"scroll-pe":[{"scroll-pe":F()}],"scroll-pt":[{"scroll-pt":F()}],"scroll-pr":[{"scroll-pr":F()}],"scroll-pb":[{"scroll-pb":F()}],"scroll-pl":[{"scroll-pl":F()}],"snap-align":[{snap:["start","end","center","align-none"]}],"snap-stop":[{snap:["normal","always"]}],"snap-type":[{snap:["none","x","y","both"]}],"snap-strictness":[{snap:["mandatory","proximity"]}],touch:[{touch:["auto","none","manipulation"]}],"touch-x":[{"touch-pan":["x","left","right"]}],"touch-y":[{"touch-pan":["y","up","down"]}],"touch-pz":["touch-pinch-zoom"],select:[{select:["none","text","all","auto"]}],"will-change":[{"will-change":["auto","scroll","contents","transform",M]}],fill:[{fill:[e,"none"]}],"stroke-w":[{stroke:[Ue,nt,ro]}],stroke:[{stroke:[e,"none"]}],sr:["sr-only","not-sr-only"],"forced-color-adjust":[{"forced-color-adjust":["auto","none"]}]},conflictingClassGroups:{overflow:["overflow-x","overflow-y"],overscroll:["overscroll-x","overscroll-y"],inset:["inset-x","inset-y","start","end","top","right","bottom","left"],"inset-x":["right","left"],"inset-y":["top","bottom"],flex:["basis","grow","shrink"],gap:["gap-x","gap-y"],p:["px","py","ps","pe","pt","pr","pb","pl"],px:["pr","pl"],py:["pt","pb"],m:["mx","my","ms","me","mt","mr","mb","ml"],mx:["mr","ml"],my:["mt","mb"],size:["w","h"],"font-size":["leading"],"fvn-normal":["fvn-ordinal","fvn-slashed-zero","fvn-figure","fvn-spacing","fvn-fraction"],"fvn-ordinal":["fvn-normal"],"fvn-slashed-zero":["fvn-normal"],"fvn-figure":["fvn-normal"],"fvn-spacing":["fvn-normal"],"fvn-fraction":["fvn-normal"],"line-clamp":["display","overflow"],rounded:["rounded-s","rounded-e","rounded-t","rounded-r","rounded-b","rounded-l","rounded-ss","rounded-se","rounded-ee","rounded-es","rounded-tl","rounded-tr","rounded-br","rounded-bl"],"rounded-s":["rounded-ss","rounded-es"],"rounded-e":["rounded-se","rounded-ee"],"rounded-t":["rounded-tl","rounded-tr"],"rounded-r":["rounded-tr","rounded-br"],"rounded-b":["rounded-br","rounded-bl"],"rounded-l":["rounded-tl","rounded-bl"],"border-spacing":["border-spacing-x","border-spacing-y"],"border-w":["border-w-s","border-w-e","border-w-t","border-w-r","border-w-b","border-w-l"],"border-w-x":["border-w-r","border-w-l"],"border-w-y":["border-w-t","border-w-b"],"border-color":["border-color-s","border-color-e","border-color-t","border-color-r","border-color-b","border-color-l"],"border-color-x":["border-color-r","border-color-l"],"border-color-y":["border-color-t","border-color-b"],"scroll-m":["scroll-mx","scroll-my","scroll-ms","scroll-me","scroll-mt","scroll-mr","scroll-mb","scroll-ml"],"scroll-mx":["scroll-mr","scroll-ml"],"scroll-my":["scroll-mt","scroll-mb"],"scroll-p":["scroll-px","scroll-py","scroll-ps","scroll-pe","scroll-pt","scroll-pr","scroll-pb","scroll-pl"],"scroll-px":["scroll-pr","scroll-pl"],"scroll-py":["scroll-pt","scroll-pb"],touch:["touch-x","touch-y","touch-pz"],"touch-x":["touch"],"touch-y":["touch"],"touch-pz":["touch"]},conflictingClassGroupModifiers:{"font-size":["leading"]}}},Rp=hp(Tp);function $t(...e){return Rp(tp(e))}const Op=()=>{const e=ep(),{accommodations:t}=e;bd();const n=st.useRef(null),[r,l]=st.useState(!1),[o,i]=st.useState(!0),u=()=>{if(!n.current)return;const m=n.current.scrollLeft,w=n.current.scrollWidth-n.current.clientWidth;l(m>0),i(m<w-1)};st.useEffect(()=>{const m=n.current;if(m)return u(),m.addEventListener("scroll",u),window.addEventListener("resize",u),()=>{m.removeEventListener("scroll",u),window.removeEventListener("resize",u)}},[t]);const s=()=>{if(n.current){const m=n.current.clientWidth;n.current.scrollBy({left:-m,behavior:"smooth"})}},f=()=>{if(n.current){const m=n.current.clientWidth;n.current.scrollBy({left:m,behavior:"smooth"})}},v=m=>{window.parent&&window.parent.postMessage&&window.parent.postMessage({type:"accommodation-selected",data:{id:m.id,name:m.name,price:m.pricePerNight,rating:m.rating,type:m.type}},"*")},h=m=>{const w=Math.floor(m/2),P=[];for(let c=0;c<w;c++)P.push(g.jsx("svg",{className:"w-4 h-4 fill-yellow-500",viewBox:"0 0 24 24",children:g.jsx("path",{d:"M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"})},c));return P},p=m=>{const w={hotel:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M7 13c1.66 0 3-1.34 3-3S8.66 7 7 7s-3 1.34-3 3 1.34 3 3 3zm12-6h-6v7H3V6H1v15h2v-3h18v3h2v-9c0-2.21-1.79-4-4-4z"})}),apartment:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M17 11V3H7v4H3v14h8v-4h2v4h8V11h-4zM7 19H5v-2h2v2zm0-4H5v-2h2v2zm0-4H5V9h2v2zm4 4H9v-2h2v2zm0-4H9V9h2v2zm0-4H9V5h2v2zm4 8h-2v-2h2v2zm0-4h-2V9h2v2zm0-4h-2V5h2v2zm4 12h-2v-2h2v2zm0-4h-2v-2h2v2z"})}),resort:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M6 22q-.825 0-1.412-.587Q4 20.825 4 20V10q0-.825.588-1.413Q5.175 8 6 8h1V6q0-.825.588-1.413Q8.175 4 9 4h6q.825 0 1.413.587Q17 5.175 17 6v2h1q.825 0 1.413.587Q20 9.175 20 10v10q0 .825-.587 1.413Q18.825 22 18 22zm3-10h6v-2H9zm0 4h6v-2H9z"})}),hostel:g.jsxs("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:[g.jsx("path",{d:"M4 8V4l8 4-8 4zm8-2l2-1v1h5v4h-2v6h-2v-6H9V5l3 1.5V6z"}),g.jsx("path",{d:"M2 17v2h2v-2h2v-2H2v2zm0 4v2h6v-2H2zm4-2H4v2h2v-2z"})]}),villa:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M19 10c-1.1 0-2 .9-2 2h-1V3L3 8v13h18v-9c0-1.1-.9-2-2-2zM5 9.37l9-3.46V12H9v7H5V9.37zM19 19h-3v-3h-2v3h-3v-5h8v5z"})}),"guest-house":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M12 3L2 12h3v8h6v-6h2v6h6v-8h3L12 3zm0 2.84L18 11v8h-2v-6H8v6H6v-8l6-5.16z"})}),"vacation-home":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M12 5.69l5 4.5V18h-2v-6H9v6H7v-7.81l5-4.5M12 3L2 12h3v8h6v-6h2v6h6v-8h3L12 3z"})}),chalet:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M12 3L4 9v12h16V9l-8-6zm6 16h-3v-4h-2v4H8v-7l4-3 4 3v7z"})}),"bed-and-breakfast":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M7 13c1.66 0 3-1.34 3-3S8.66 7 7 7s-3 1.34-3 3 1.34 3 3 3zm12-6h-8v7H3V7H1v13h2v-2h18v2h2v-9c0-2.21-1.79-4-4-4z"})}),lodge:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8h5z"})})},P=m.toLowerCase().replace(/\s+/g,"-");return w[P]||w.hotel},k=m=>{const w=m.toLowerCase(),P={parking:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M13 3H6v18h4v-6h3c3.31 0 6-2.69 6-6s-2.69-6-6-6zm.2 8H10V7h3.2c1.1 0 2 .9 2 2s-.9 2-2 2z"})}),wifi:g.jsxs("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"none",stroke:"currentColor",strokeWidth:"2",children:[g.jsx("path",{d:"M5 12.55a11 11 0 0 1 14.08 0"}),g.jsx("path",{d:"M1.42 9a16 16 0 0 1 21.16 0"}),g.jsx("path",{d:"M8.53 16.11a6 6 0 0 1 6.95 0"}),g.jsx("line",{x1:"12",y1:"20",x2:"12.01",y2:"20"})]}),"24-hour":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z"})}),terrace:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M14 6l-3.75 5 2.85 3.8-1.6 1.2C9.81 13.75 7 10 7 10l-6 8h22L14 6z"})}),pool:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M22 21c-1.11 0-1.73-.37-2.18-.64-.37-.22-.6-.36-1.15-.36-.56 0-.78.13-1.15.36-.46.27-1.07.64-2.18.64s-1.73-.37-2.18-.64c-.37-.22-.6-.36-1.15-.36-.56 0-.78.13-1.15.36-.46.27-1.08.64-2.19.64-1.11 0-1.73-.37-2.18-.64-.37-.23-.6-.36-1.15-.36s-.78.13-1.15.36c-.46.27-1.08.64-2.19.64v-2c.56 0 .78-.13 1.15-.36.46-.27 1.08-.64 2.19-.64s1.73.37 2.18.64c.37.23.59.36 1.15.36.56 0 .78-.13 1.15-.36.46-.27 1.08-.64 2.19-.64 1.11 0 1.73.37 2.18.64.37.22.6.36 1.15.36s.78-.13 1.15-.36c.45-.27 1.07-.64 2.18-.64s1.73.37 2.18.64c.37.23.59.36 1.15.36v2zm0-4.5c-1.11 0-1.73-.37-2.18-.64-.37-.22-.6-.36-1.15-.36-.56 0-.78.13-1.15.36-.45.27-1.07.64-2.18.64s-1.73-.37-2.18-.64c-.37-.22-.6-.36-1.15-.36-.56 0-.78.13-1.15.36-.45.27-1.07.64-2.18.64s-1.73-.37-2.18-.64c-.37-.22-.6-.36-1.15-.36s-.78.13-1.15.36c-.47.27-1.09.64-2.2.64v-2c.56 0 .78-.13 1.15-.36.45-.27 1.07-.64 2.18-.64s1.73.37 2.18.64c.37.22.6.36 1.15.36.56 0 .78-.13 1.15-.36.45-.27 1.07-.64 2.18-.64s1.73.37 2.18.64c.37.22.6.36 1.15.36s.78-.13 1.15-.36c.45-.27 1.07-.64 2.18-.64s1.73.37 2.18.64c.37.22.6.36 1.15.36v2zM8.67 12c.56 0 .78-.13 1.15-.36.46-.27 1.08-.64 2.19-.64 1.11 0 1.73.37 2.18.64.37.22.6.36 1.15.36s.78-.13 1.15-.36c.12-.07.26-.15.41-.23L10.48 5C8.93 3.45 7.5 2.99 5 3v2.5c1.82-.01 2.89.39 4 1.5l1 1-3.25 3.25c.31.12.56.27.77.39.37.23.59.36 1.15.36z"})}),swimming:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M22 21c-1.11 0-1.73-.37-2.18-.64-.37-.22-.6-.36-1.15-.36-.56 0-.78.13-1.15.36-.46.27-1.07.64-2.18.64s-1.73-.37-2.18-.64c-.37-.22-.6-.36-1.15-.36-.56 0-.78.13-1.15.36-.46.27-1.08.64-2.19.64-1.11 0-1.73-.37-2.18-.64-.37-.23-.6-.36-1.15-.36s-.78.13-1.15.36c-.46.27-1.08.64-2.19.64v-2c.56 0 .78-.13 1.15-.36.46-.27 1.08-.64 2.19-.64s1.73.37 2.18.64c.37.23.59.36 1.15.36.56 0 .78-.13 1.15-.36.46-.27 1.08-.64 2.19-.64 1.11 0 1.73.37 2.18.64.37.22.6.36 1.15.36s.78-.13 1.15-.36c.45-.27 1.07-.64 2.18-.64s1.73.37 2.18.64c.37.23.59.36 1.15.36v2z"})}),restaurant:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M11 9H9V2H7v7H5V2H3v7c0 2.12 1.66 3.84 3.75 3.97V22h2.5v-9.03C11.34 12.84 13 11.12 13 9V2h-2v7zm5-3v8h2.5v8H21V2c-2.76 0-5 2.24-5 4z"})}),gym:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M20.57 14.86L22 13.43 20.57 12 17 15.57 8.43 7 12 3.43 10.57 2 9.14 3.43 7.71 2 5.57 4.14 4.14 2.71 2.71 4.14l1.43 1.43L2 7.71l1.43 1.43L2 10.57 3.43 12 7 8.43 15.57 17 12 20.57 13.43 22l1.43-1.43L16.29 22l2.14-2.14 1.43 1.43 1.43-1.43-1.43-1.43L22 16.29z"})}),fitness:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M20.57 14.86L22 13.43 20.57 12 17 15.57 8.43 7 12 3.43 10.57 2 9.14 3.43 7.71 2 5.57 4.14 4.14 2.71 2.71 4.14l1.43 1.43L2 7.71l1.43 1.43L2 10.57 3.43 12 7 8.43 15.57 17 12 20.57 13.43 22l1.43-1.43L16.29 22l2.14-2.14 1.43 1.43 1.43-1.43-1.43-1.43L22 16.29z"})}),spa:g.jsxs("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:[g.jsx("path",{d:"M8.55 12c-1.07-.71-2.25-1.27-3.53-1.61 1.28.34 2.46.9 3.53 1.61zm10.43-1.61c-1.29.34-2.49.91-3.57 1.64 1.08-.73 2.28-1.3 3.57-1.64z"}),g.jsx("path",{d:"M15.49 9.63c-.18-2.79-1.31-5.51-3.43-7.63-2.14 2.14-3.32 4.86-3.55 7.63 1.28.68 2.46 1.56 3.49 2.63 1.03-1.06 2.21-1.94 3.49-2.63zm-6.5 2.65c-.14-.1-.3-.19-.45-.29.15.11.31.19.45.29zm6.42-.25c-.13.09-.27.16-.4.26.13-.1.27-.17.4-.26zM12 15.45C9.85 12.17 6.18 10 2 10c0 5.32 3.36 9.82 8.03 11.49.63.23 1.29.4 1.97.51.68-.12 1.33-.29 1.97-.51C18.64 19.82 22 15.32 22 10c-4.18 0-7.85 2.17-10 5.45z"})]}),bar:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M21 5V3H3v2l8 9v5H6v2h12v-2h-5v-5l8-9zM7.43 7L5.66 5h12.69l-1.78 2H7.43z"})}),breakfast:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M20 3H4v10c0 2.21 1.79 4 4 4h6c2.21 0 4-1.79 4-4v-3h2c1.11 0 2-.9 2-2V5c0-1.11-.89-2-2-2zm0 5h-2V5h2v3zM4 19h16v2H4z"})}),"air conditioning":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M22 11h-4.17l3.24-3.24-1.41-1.42L15 11h-2V9l4.66-4.66-1.42-1.41L13 6.17V2h-2v4.17L7.76 2.93 6.34 4.34 11 9v2H9L4.34 6.34 2.93 7.76 6.17 11H2v2h4.17l-3.24 3.24 1.41 1.42L9 13h2v2l-4.66 4.66 1.42 1.41L11 17.83V22h2v-4.17l3.24 3.24 1.42-1.41L13 15v-2h2l4.66 4.66 1.41-1.42L17.83 13H22z"})}),airport:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M21 16v-2l-8-5V3.5c0-.83-.67-1.5-1.5-1.5S10 2.67 10 3.5V9l-8 5v2l8-2.5V19l-2 1.5V22l3.5-1 3.5 1v-1.5L13 19v-5.5l8 2.5z"})}),beach:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M13.127 14.56l1.43-1.43 6.44 6.443L19.57 21zm4.293-5.73l2.86-2.86c-3.95-3.95-10.35-3.96-14.3-.02 3.93-1.3 8.31-.25 11.44 2.88zM5.95 5.98c-3.94 3.95-3.93 10.35.02 14.3l2.86-2.86C5.7 14.29 4.65 9.91 5.95 5.98zm.02-.02l-.01.01c-.38 3.01 1.17 6.88 4.3 10.02l5.73-5.73c-3.13-3.13-7.01-4.68-10.02-4.3z"})}),lift:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zM8 6c.83 0 1.5.67 1.5 1.5S8.83 9 8 9s-1.5-.67-1.5-1.5S7.17 6 8 6zm2 12H6v-1c0-1.33 2.67-2 4-2s4 .67 4 2v1h-4zm6-6h-3v3h-2v-3h-3V9h3V6h2v3h3v3z"})}),heating:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M15 13V5c0-1.66-1.34-3-3-3S9 3.34 9 5v8c-1.21.91-2 2.37-2 4 0 2.76 2.24 5 5 5s5-2.24 5-5c0-1.63-.79-3.09-2-4zm-4-8c0-.55.45-1 1-1s1 .45 1 1h-1v1h1v2h-1v1h1v2h-2V5z"})}),safety:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M18 8h-1V6c0-2.76-2.24-5-5-5S7 3.24 7 6v2H6c-1.1 0-2 .9-2 2v10c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V10c0-1.1-.9-2-2-2zm-6 9c-1.1 0-2-.9-2-2s.9-2 2-2 2 .9 2 2-.9 2-2 2zm3.1-9H8.9V6c0-1.71 1.39-3.1 3.1-3.1 1.71 0 3.1 1.39 3.1 3.1v2z"})}),laundry:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M9.17 16.83c1.56 1.56 4.1 1.56 5.66 0 1.56-1.56 1.56-4.1 0-5.66l-5.66 5.66zM18 2.01L6 2c-1.11 0-2 .89-2 2v16c0 1.11.89 2 2 2h12c1.11 0 2-.89 2-2V4c0-1.11-.89-1.99-2-1.99zM10 4c.55 0 1 .45 1 1s-.45 1-1 1-1-.45-1-1 .45-1 1-1zM7 4c.55 0 1 .45 1 1s-.45 1-1 1-1-.45-1-1 .45-1 1-1zm5 16c-3.31 0-6-2.69-6-6s2.69-6 6-6 6 2.69 6 6-2.69 6-6 6z"})}),"room service":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M2 17h20v2H2zm11.84-9.21c.1-.24.16-.51.16-.79 0-1.1-.9-2-2-2s-2 .9-2 2c0 .28.06.55.16.79C6.25 8.6 3.27 11.93 3 16h18c-.27-4.07-3.25-7.4-7.16-8.21z"})}),"non-smoking":g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M2 6l6.99 7H2v3h9.99l7 7 1.26-1.25-17-17zm18.5 7H22v3h-1.5zM18 13h1.5v3H18zm.85-8.12c.62-.61 1-1.45 1-2.38h-1.5c0 1.02-.83 1.85-1.85 1.85v1.5c2.24 0 4 1.83 4 4.07V12H22V9.92c0-2.23-1.28-4.15-3.15-5.04zM14.5 8.7h1.53c1.05 0 1.97.74 1.97 2.05V12h1.5v-1.59c0-1.8-1.6-3.16-3.47-3.16H14.5c-1.02 0-1.85-.98-1.85-2s.83-1.75 1.85-1.75V2c-1.85 0-3.35 1.5-3.35 3.35s1.5 3.35 3.35 3.35zm2.5 7.23V13h-2.93z"})}),family:g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M16 4c0-1.11.89-2 2-2s2 .89 2 2-.89 2-2 2-2-.89-2-2zm4 18v-6h2.5l-2.54-7.63C19.68 7.55 18.92 7 18.06 7h-.12c-.86 0-1.62.55-1.9 1.37L13.5 16H16v6h4zM5.5 6c1.11 0 2-.89 2-2s-.89-2-2-2-2 .89-2 2 .89 2 2 2zm2 16v-7H9V9c0-1.1-.9-2-2-2H4c-1.1 0-2 .9-2 2v6h1.5v7h4zm6.5-18c1.11 0 2-.89 2-2s-.89-2-2-2-2 .89-2 2 .89 2 2 2zm1 17v-7h1.5V9c0-1.1-.9-2-2-2h-1c-1.1 0-2 .9-2 2v5H13v7h2z"})})};for(const[c,a]of Object.entries(P))if(w.includes(c))return a;return g.jsx("svg",{className:"w-4 h-4",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("path",{d:"M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"})})};return t.length===0?g.jsx("div",{className:"w-full p-10 text-center text-gray-500",children:"No accommodations found"}):g.jsx("div",{className:"w-full h-full overflow-hidden",children:g.jsxs("div",{className:"relative w-full p-4",children:[g.jsx("div",{ref:n,className:"flex gap-4 overflow-x-auto scroll-smooth p-1",style:{scrollbarWidth:"none",msOverflowStyle:"none"},children:t.map((m,w)=>{var a;const P="bg-[#003b95] text-white",c=m.facilities.slice(0,3);return g.jsx("div",{className:$t("flex-shrink-0 w-[270px]","transition-all duration-300 opacity-100 translate-y-0"),style:{transitionDelay:`${w*100}ms`},children:g.jsxs("div",{onClick:()=>v(m),className:$t("rounded-3xl overflow-hidden h-full","transition-all duration-300 cursor-pointer flex flex-col"),children:[((a=m.sustainability)==null?void 0:a.certified)&&g.jsxs("div",{className:"absolute top-5 left-5 z-10 px-2 py-1 bg-green-700/95 text-white rounded-lg text-xs font-bold flex items-center gap-1",children:["Level ",m.sustainability.level]}),g.jsx("div",{className:"flex-shrink-0 flex items-center justify-center",children:g.jsx("figure",{className:"relative w-[270px] h-[270px] overflow-hidden bg-gray-100 rounded-3xl mt-3",children:g.jsx("img",{alt:m.name,className:"w-full h-full object-cover block",src:m.mainImage||"https://via.placeholder.com/400x400/e0e0e0/666666?text=Property",loading:"lazy",onError:d=>{d.target.src="https://via.placeholder.com/400x400/e0e0e0/666666?text=Property"}})})}),g.jsxs("div",{className:"p-3 flex-1 flex flex-col",children:[g.jsxs("div",{className:"flex-1",children:[g.jsxs("div",{className:"flex justify-between items-start mb-2",children:[g.jsx("div",{className:"flex items-center gap-1 mb-1",children:h(m.rating)}),g.jsx("div",{className:"flex-shrink-0",children:g.jsx("span",{className:$t("inline-flex items-center justify-center min-w-[32px] h-6 px-2","rounded-md text-[13px] font-bold",P),children:m.rating.toFixed(1)})})]}),g.jsx("h3",{className:"text-base font-semibold leading-snug text-gray-900 mb-1 line-clamp-2",children:m.name}),g.jsxs("div",{className:"flex items-center gap-1.5 text-sm text-gray-600 mb-2",children:[p(m.type),g.jsx("span",{className:"capitalize",children:m.type.replace(/-/g," ")})]}),g.jsx("div",{className:"text-sm text-gray-600 mb-2",children:m.reviewCount?`${m.reviewCount.toLocaleString()} reviews`:"No reviews"}),c.length>0&&g.jsx("div",{className:"space-y-1",children:c.map((d,y)=>{const S=k(d);return g.jsxs("div",{className:"flex items-center gap-2 text-xs text-gray-600",children:[g.jsx("span",{className:"text-gray-500",children:S||g.jsx("svg",{className:"w-3 h-3",viewBox:"0 0 24 24",fill:"currentColor",children:g.jsx("circle",{cx:"12",cy:"12",r:"2"})})}),g.jsx("span",{children:d})]},y)})})]}),g.jsxs("div",{className:"mt-auto pt-3",children:[g.jsxs("div",{className:"flex items-baseline gap-1 mb-2",children:[g.jsxs("div",{className:"text-2xl font-bold text-gray-900",children:["$",m.pricePerNight.toLocaleString()]}),g.jsx("div",{className:"text-sm text-gray-600",children:"per night"})]}),g.jsx("button",{className:$t("w-full bg-gray-900 text-white border-none rounded-3xl py-2.5 px-4","text-sm font-semibold cursor-pointer transition-colors duration-200","hover:bg-gray-800 dark:bg-white dark:text-gray-900 dark:hover:bg-gray-100"),style:{zIndex:200},children:"Book on Booking.com"})]})]})]})},m.id)})}),g.jsxs("div",{className:"absolute top-1/2 left-0 right-0 flex justify-between -translate-y-1/2 pointer-events-none z-10",children:[g.jsx("button",{onClick:s,disabled:!r,className:$t("pointer-events-auto w-10 h-10 rounded-3xl bg-white border border-gray-300","shadow-md cursor-pointer flex items-center justify-center transition-all duration-200 mx-2","hover:bg-gray-50 hover:scale-105 disabled:opacity-30 disabled:cursor-not-allowed",!r&&"opacity-0 pointer-events-none"),"aria-label":"Show previous card",children:g.jsx("svg",{className:"w-6 h-6 stroke-gray-900",viewBox:"0 0 24 24",fill:"none",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round",children:g.jsx("polyline",{points:"15 18 9 12 15 6"})})}),g.jsx("button",{onClick:f,disabled:!o,className:$t("pointer-events-auto w-10 h-10 rounded-3xl bg-white border border-gray-300","shadow-md cursor-pointer flex items-center justify-center transition-all duration-200 mx-2","hover:bg-gray-50 hover:scale-105 disabled:opacity-30 disabled:cursor-not-allowed",!o&&"opacity-0 pointer-events-none"),"aria-label":"Show next card",children:g.jsx("svg",{className:"w-6 h-6 stroke-gray-900",viewBox:"0 0 24 24",fill:"none",strokeWidth:"2",strokeLinecap:"round",strokeLinejoin:"round",children:g.jsx("polyline",{points:"9 18 15 12 9 6"})})})]})]})})};export{Op as B,Ip as R,Zi as c,g as j};
@@ -1 +1 @@
-import{c as o,j as t,R as r,B as s}from"./booking-search-results-_AdODVlG.js";const e=document.getElementById("root");e&&o.createRoot(e).render(t.jsx(r.StrictMode,{children:t.jsx(s,{})}));
+import{c as o,j as t,R as r}from"./utils-CYH9lgI0.js";import{i}from"./theme-AVM5alPP.js";import{B as s}from"./booking-search-results-CkTe6xjA.js";i();const e=document.getElementById("root");e&&o.createRoot(e).render(t.jsx(r.StrictMode,{children:t.jsx(s,{})}));
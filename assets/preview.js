@@ -1 +1 @@
-import{c as s,j as e,R as r,B as c}from"./booking-search-results-_AdODVlG.js";function n(){return e.jsx("div",{className:"min-h-screen bg-gray-100 flex items-center justify-center p-4",children:e.jsx("div",{className:"w-[760px]",children:e.jsx(c,{})})})}const t=document.getElementById("root");t&&s.createRoot(t).render(e.jsx(r.StrictMode,{children:e.jsx(n,{})}));
+import{c,j as e,R as i,r as t}from"./utils-CYH9lgI0.js";import{B as n}from"./booking-search-results-CkTe6xjA.js";function d(){const[a,r]=t.useState(!1);t.useEffect(()=>{const o=window.matchMedia("(prefers-color-scheme: dark)").matches;r(o)},[]),t.useEffect(()=>{a?document.documentElement.classList.add("dark"):document.documentElement.classList.remove("dark")},[a]);const l=()=>{r(!a)};return e.jsxs("div",{className:"min-h-screen transition-colors duration-200 flex flex-col items-center justify-center p-4",children:[e.jsx("div",{className:"fixed top-4 right-4 z-50",children:e.jsx("button",{onClick:l,className:"p-3 rounded-full bg-white dark:bg-gray-800 shadow-lg border border-gray-200 dark:border-gray-700 hover:scale-105 transition-all duration-200","aria-label":"Toggle theme",children:a?e.jsx("svg",{className:"w-6 h-6 text-yellow-500",fill:"currentColor",viewBox:"0 0 24 24",children:e.jsx("path",{d:"M12 2.25a.75.75 0 01.75.75v2.25a.75.75 0 01-1.5 0V3a.75.75 0 01.75-.75zM7.5 12a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM18.894 6.166a.75.75 0 00-1.06-1.06l-1.591 1.59a.75.75 0 101.06 1.061l1.591-1.59zM21.75 12a.75.75 0 01-.75.75h-2.25a.75.75 0 010-1.5H21a.75.75 0 01.75.75zM17.834 18.894a.75.75 0 001.06-1.06l-1.59-1.591a.75.75 0 10-1.061 1.06l1.59 1.591zM12 18a.75.75 0 01.75.75V21a.75.75 0 01-1.5 0v-2.25A.75.75 0 0112 18zM7.758 17.303a.75.75 0 00-1.061-1.06l-1.591 1.59a.75.75 0 001.06 1.061l1.591-1.59zM6 12a.75.75 0 01-.75.75H3a.75.75 0 010-1.5h2.25A.75.75 0 016 12zM6.697 7.757a.75.75 0 001.06-1.06l-1.59-1.591a.75.75 0 00-1.061 1.06l1.59 1.591z"})}):e.jsx("svg",{className:"w-6 h-6 text-gray-700",fill:"currentColor",viewBox:"0 0 24 24",children:e.jsx("path",{fillRule:"evenodd",d:"M9.528 1.718a.75.75 0 01.162.819A8.97 8.97 0 009 6a9 9 0 009 9 8.97 8.97 0 003.463-.69.75.75 0 01.981.98 10.503 10.503 0 01-9.694 6.46c-5.799 0-10.5-4.701-10.5-10.5 0-4.368 2.667-8.112 6.46-9.694a.75.75 0 01.818.162z",clipRule:"evenodd"})})})}),e.jsxs("div",{className:"mb-8 text-center",children:[e.jsx("h1",{className:"text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2",children:"Booking.com Search Results Widget"}),e.jsx("p",{className:"text-gray-600 dark:text-gray-400",children:"Preview with theme toggle"})]}),e.jsx(n,{})]})}const s=document.getElementById("root");s&&c.createRoot(s).render(e.jsx(i.StrictMode,{children:e.jsx(d,{})}));
@@ -0,0 +1 @@
+function n(e){document.documentElement.classList.toggle("dark",e==="dark")}function a(){document.body.style.background="transparent",document.documentElement.style.background="transparent",n(window.__THEME__??"light"),window.addEventListener("message",e=>{var t;((t=e.data)==null?void 0:t.type)==="theme-changed"&&n(e.data.theme)})}export{a as i};
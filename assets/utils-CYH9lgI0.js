@@ -0,0 +1,40 @@
+(function(){const t=document.createElement("link").relList;if(t&&t.supports&&t.supports("modulepreload"))return;for(const l of document.querySelectorAll('link[rel="modulepreload"]'))r(l);new MutationObserver(l=>{for(const o of l)if(o.type==="childList")for(const i of o.addedNodes)i.tagName==="LINK"&&i.rel==="modulepreload"&&r(i)}).observe(document,{childList:!0,subtree:!0});function n(l){const o={};return l.integrity&&(o.integrity=l.integrity),l.referrerPolicy&&(o.referrerPolicy=l.referrerPolicy),l.crossOrigin==="use-credentials"?o.credentials="include":l.crossOrigin==="anonymous"?o.credentials="omit":o.credentials="same-origin",o}function r(l){if(l.ep)return;l.ep=!0;const o=n(l);fetch(l.href,o)}})();function Sc(e){return e&&e.__esModule&&Object.prototype.hasOwnProperty.call(e,"default")?e.default:e}var rs={exports:{}},fl={},ls={exports:{}},M={};/**
+ * @license React
+ * react.production.min.js
+ *
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */var lr=Symbol.for("react.element"),xc=Symbol.for("react.portal"),Ec=Symbol.for("react.fragment"),Cc=Symbol.for("react.strict_mode"),_c=Symbol.for("react.profiler"),Pc=Symbol.for("react.provider"),zc=Symbol.for("react.context"),Nc=Symbol.for("react.forward_ref"),Tc=Symbol.for("react.suspense"),Lc=Symbol.for("react.memo"),Rc=Symbol.for("react.lazy"),Qi=Symbol.iterator;function Mc(e){return e===null||typeof e!="object"?null:(e=Qi&&e[Qi]||e["@@iterator"],typeof e=="function"?e:null)}var os={isMounted:function(){return!1},enqueueForceUpdate:function(){},enqueueReplaceState:function(){},enqueueSetState:function(){}},is=Object.assign,us={};function mn(e,t,n){this.props=e,this.context=t,this.refs=us,this.updater=n||os}mn.prototype.isReactComponent={};mn.prototype.setState=function(e,t){if(typeof e!="object"&&typeof e!="function"&&e!=null)throw Error("setState(...): takes an object of state variables to update or a function which returns an object of state variables.");this.updater.enqueueSetState(this,e,t,"setState")};mn.prototype.forceUpdate=function(e){this.updater.enqueueForceUpdate(this,e,"forceUpdate")};function ss(){}ss.prototype=mn.prototype;function Xo(e,t,n){this.props=e,this.context=t,this.refs=us,this.updater=n||os}var Zo=Xo.prototype=new ss;Zo.constructor=Xo;is(Zo,mn.prototype);Zo.isPureReactComponent=!0;var Gi=Array.isArray,as=Object.prototype.hasOwnProperty,Jo={current:null},cs={key:!0,ref:!0,__self:!0,__source:!0};function fs(e,t,n){var r,l={},o=null,i=null;if(t!=null)for(r in t.ref!==void 0&&(i=t.ref),t.key!==void 0&&(o=""+t.key),t)as.call(t,r)&&!cs.hasOwnProperty(r)&&(l[r]=t[r]);var u=arguments.length-2;if(u===1)l.children=n;else if(1<u){for(var s=Array(u),c=0;c<u;c++)s[c]=arguments[c+2];l.children=s}if(e&&e.defaultProps)for(r in u=e.defaultProps,u)l[r]===void 0&&(l[r]=u[r]);return{$$typeof:lr,type:e,key:o,ref:i,props:l,_owner:Jo.current}}function Oc(e,t){return{$$typeof:lr,type:e.type,key:t,ref:e.ref,props:e.props,_owner:e._owner}}function qo(e){return typeof e=="object"&&e!==null&&e.$$typeof===lr}function Ic(e){var t={"=":"=0",":":"=2"};return"$"+e.replace(/[=:]/g,function(n){return t[n]})}var Ki=/\/+/g;function Nl(e,t){return typeof e=="object"&&e!==null&&e.key!=null?Ic(""+e.key):t.toString(36)}function Tr(e,t,n,r,l){var o=typeof e;(o==="undefined"||o==="boolean")&&(e=null);var i=!1;if(e===null)i=!0;else switch(o){case"string":case"number":i=!0;break;case"object":switch(e.$$typeof){case lr:case xc:i=!0}}if(i)return i=e,l=l(i),e=r===""?"."+Nl(i,0):r,Gi(l)?(n="",e!=null&&(n=e.replace(Ki,"$&/")+"/"),Tr(l,t,n,"",function(c){return c})):l!=null&&(qo(l)&&(l=Oc(l,n+(!l.key||i&&i.key===l.key?"":(""+l.key).replace(Ki,"$&/")+"/")+e)),t.push(l)),1;if(i=0,r=r===""?".":r+":",Gi(e))for(var u=0;u<e.length;u++){o=e[u];var s=r+Nl(o,u);i+=Tr(o,t,n,s,l)}else if(s=Mc(e),typeof s=="function")for(e=s.call(e),u=0;!(o=e.next()).done;)o=o.value,s=r+Nl(o,u++),i+=Tr(o,t,n,s,l);else if(o==="object")throw t=String(e),Error("Objects are not valid as a React child (found: "+(t==="[object Object]"?"object with keys {"+Object.keys(e).join(", ")+"}":t)+"). If you meant to render a collection of children, use an array instead.");return i}function dr(e,t,n){if(e==null)return e;var r=[],l=0;return Tr(e,r,"","",function(o){return t.call(n,o,l++)}),r}function Fc(e){if(e._status===-1){var t=e._result;t=t(),t.then(function(n){(e._status===0||e._status===-1)&&(e._status=1,e._result=n)},function(n){(e._status===0||e._status===-1)&&(e._status=2,e._result=n)}),e._status===-1&&(e._status=0,e._result=t)}if(e._status===1)return e._result.default;throw e._result}var ce={current:null},Lr={transition:null},jc={ReactCurrentDispatcher:ce,ReactCurrentBatchConfig:Lr,ReactCurrentOwner:Jo};function ds(){throw Error("act(...) is not supported in production builds of React.")}M.Children={map:dr,forEach:function(e,t,n){dr(e,function(){t.apply(this,arguments)},n)},count:function(e){var t=0;return dr(e,function(){t++}),t},toArray:function(e){return dr(e,function(t){return t})||[]},only:function(e){if(!qo(e))throw Error("React.Children.only expected to receive a single React element child.");return e}};M.Component=mn;M.Fragment=Ec;M.Profiler=_c;M.PureComponent=Xo;M.StrictMode=Cc;M.Suspense=Tc;M.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED=jc;M.act=ds;M.cloneElement=function(e,t,n){if(e==null)throw Error("React.cloneElement(...): The argument must be a React element, but you passed "+e+".");var r=is({},e.props),l=e.key,o=e.ref,i=e._owner;if(t!=null){if(t.ref!==void 0&&(o=t.ref,i=Jo.current),t.key!==void 0&&(l=""+t.key),e.type&&e.type.defaultProps)var u=e.type.defaultProps;for(s in t)as.call(t,s)&&!cs.hasOwnProperty(s)&&(r[s]=t[s]===void 0&&u!==void 0?u[s]:t[s])}var s=arguments.length-2;if(s===1)r.children=n;else if(1<s){u=Array(s);for(var c=0;c<s;c++)u[c]=arguments[c+2];r.children=u}return{$$typeof:lr,type:e.type,key:l,ref:o,props:r,_owner:i}};M.createContext=function(e){return e={$$typeof:zc,_currentValue:e,_currentValue2:e,_threadCount:0,Provider:null,Consumer:null,_defaultValue:null,_globalName:null},e.Provider={$$typeof:Pc,_context:e},e.Consumer=e};M.createElement=fs;M.createFactory=function(e){var t=fs.bind(null,e);return t.type=e,t};M.createRef=function(){return{current:null}};M.forwardRef=function(e){return{$$typeof:Nc,render:e}};M.isValidElement=qo;M.lazy=function(e){return{$$typeof:Rc,_payload:{_status:-1,_result:e},_init:Fc}};M.memo=function(e,t){return{$$typeof:Lc,type:e,compare:t===void 0?null:t}};M.startTransition=function(e){var t=Lr.transition;Lr.transition={};try{e()}finally{Lr.transition=t}};M.unstable_act=ds;M.useCallback=function(e,t){return ce.current.useCallback(e,t)};M.useContext=function(e){return ce.current.useContext(e)};M.useDebugValue=function(){};M.useDeferredValue=function(e){return ce.current.useDeferredValue(e)};M.useEffect=function(e,t){return ce.current.useEffect(e,t)};M.useId=function(){return ce.current.useId()};M.useImperativeHandle=function(e,t,n){return ce.current.useImperativeHandle(e,t,n)};M.useInsertionEffect=function(e,t){return ce.current.useInsertionEffect(e,t)};M.useLayoutEffect=function(e,t){return ce.current.useLayoutEffect(e,t)};M.useMemo=function(e,t){return ce.current.useMemo(e,t)};M.useReducer=function(e,t,n){return ce.current.useReducer(e,t,n)};M.useRef=function(e){return ce.current.useRef(e)};M.useState=function(e){return ce.current.useState(e)};M.useSyncExternalStore=function(e,t,n){return ce.current.useSyncExternalStore(e,t,n)};M.useTransition=function(){return ce.current.useTransition()};M.version="18.3.1";ls.exports=M;var bo=ls.exports;const Np=Sc(bo);/**
+ * @license React
+ * react-jsx-runtime.production.min.js
+ *
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */var Dc=bo,Ac=Symbol.for("react.element"),Uc=Symbol.for("react.fragment"),$c=Object.prototype.hasOwnProperty,Vc=Dc.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED.ReactCurrentOwner,Bc={key:!0,ref:!0,__self:!0,__source:!0};function ps(e,t,n){var r,l={},o=null,i=null;n!==void 0&&(o=""+n),t.key!==void 0&&(o=""+t.key),t.ref!==void 0&&(i=t.ref);for(r in t)$c.call(t,r)&&!Bc.hasOwnProperty(r)&&(l[r]=t[r]);if(e&&e.defaultProps)for(r in t=e.defaultProps,t)l[r]===void 0&&(l[r]=t[r]);return{$$typeof:Ac,type:e,key:o,ref:i,props:l,_owner:Vc.current}}fl.Fragment=Uc;fl.jsx=ps;fl.jsxs=ps;rs.exports=fl;var Tp=rs.exports,Yi={},ms={exports:{}},Se={},hs={exports:{}},vs={};/**
+ * @license React
+ * scheduler.production.min.js
+ *
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */(function(e){function t(x,z){var T=x.length;x.push(z);e:for(;0<T;){var I=T-1>>>1,J=x[I];if(0<l(J,z))x[I]=z,x[T]=J,T=I;else break e}}function n(x){return x.length===0?null:x[0]}function r(x){if(x.length===0)return null;var z=x[0],T=x.pop();if(T!==z){x[0]=T;e:for(var I=0,J=x.length,cr=J>>>1;I<cr;){var Et=2*(I+1)-1,zl=x[Et],Ct=Et+1,fr=x[Ct];if(0>l(zl,T))Ct<J&&0>l(fr,zl)?(x[I]=fr,x[Ct]=T,I=Ct):(x[I]=zl,x[Et]=T,I=Et);else if(Ct<J&&0>l(fr,T))x[I]=fr,x[Ct]=T,I=Ct;else break e}}return z}function l(x,z){var T=x.sortIndex-z.sortIndex;return T!==0?T:x.id-z.id}if(typeof performance=="object"&&typeof performance.now=="function"){var o=performance;e.unstable_now=function(){return o.now()}}else{var i=Date,u=i.now();e.unstable_now=function(){return i.now()-u}}var s=[],c=[],h=1,m=null,p=3,w=!1,k=!1,y=!1,N=typeof setTimeout=="function"?setTimeout:null,f=typeof clearTimeout=="function"?clearTimeout:null,a=typeof setImmediate<"u"?setImmediate:null;typeof navigator<"u"&&navigator.scheduling!==void 0&&navigator.scheduling.isInputPending!==void 0&&navigator.scheduling.isInputPending.bind(navigator.scheduling);function d(x){for(var z=n(c);z!==null;){if(z.callback===null)r(c);else if(z.startTime<=x)r(c),z.sortIndex=z.expirationTime,t(s,z);else break;z=n(c)}}function v(x){if(y=!1,d(x),!k)if(n(s)!==null)k=!0,be(S);else{var z=n(c);z!==null&&Ut(v,z.startTime-x)}}function S(x,z){k=!1,y&&(y=!1,f(P),P=-1),w=!0;var T=p;try{for(d(z),m=n(s);m!==null&&(!(m.expirationTime>z)||x&&!ue());){var I=m.callback;if(typeof I=="function"){m.callback=null,p=m.priorityLevel;var J=I(m.expirationTime<=z);z=e.unstable_now(),typeof J=="function"?m.callback=J:m===n(s)&&r(s),d(z)}else r(s);m=n(s)}if(m!==null)var cr=!0;else{var Et=n(c);Et!==null&&Ut(v,Et.startTime-z),cr=!1}return cr}finally{m=null,p=T,w=!1}}var C=!1,_=null,P=-1,A=5,R=-1;function ue(){return!(e.unstable_now()-R<A)}function F(){if(_!==null){var x=e.unstable_now();R=x;var z=!0;try{z=_(!0,x)}finally{z?qe():(C=!1,_=null)}}else C=!1}var qe;if(typeof a=="function")qe=function(){a(F)};else if(typeof MessageChannel<"u"){var xt=new MessageChannel,ar=xt.port2;xt.port1.onmessage=F,qe=function(){ar.postMessage(null)}}else qe=function(){N(F,0)};function be(x){_=x,C||(C=!0,qe())}function Ut(x,z){P=N(function(){x(e.unstable_now())},z)}e.unstable_IdlePriority=5,e.unstable_ImmediatePriority=1,e.unstable_LowPriority=4,e.unstable_NormalPriority=3,e.unstable_Profiling=null,e.unstable_UserBlockingPriority=2,e.unstable_cancelCallback=function(x){x.callback=null},e.unstable_continueExecution=function(){k||w||(k=!0,be(S))},e.unstable_forceFrameRate=function(x){0>x||125<x?console.error("forceFrameRate takes a positive int between 0 and 125, forcing frame rates higher than 125 fps is not supported"):A=0<x?Math.floor(1e3/x):5},e.unstable_getCurrentPriorityLevel=function(){return p},e.unstable_getFirstCallbackNode=function(){return n(s)},e.unstable_next=function(x){switch(p){case 1:case 2:case 3:var z=3;break;default:z=p}var T=p;p=z;try{return x()}finally{p=T}},e.unstable_pauseExecution=function(){},e.unstable_requestPaint=function(){},e.unstable_runWithPriority=function(x,z){switch(x){case 1:case 2:case 3:case 4:case 5:break;default:x=3}var T=p;p=x;try{return z()}finally{p=T}},e.unstable_scheduleCallback=function(x,z,T){var I=e.unstable_now();switch(typeof T=="object"&&T!==null?(T=T.delay,T=typeof T=="number"&&0<T?I+T:I):T=I,x){case 1:var J=-1;break;case 2:J=250;break;case 5:J=1073741823;break;case 4:J=1e4;break;default:J=5e3}return J=T+J,x={id:h++,callback:z,priorityLevel:x,startTime:T,expirationTime:J,sortIndex:-1},T>I?(x.sortIndex=T,t(c,x),n(s)===null&&x===n(c)&&(y?(f(P),P=-1):y=!0,Ut(v,T-I))):(x.sortIndex=J,t(s,x),k||w||(k=!0,be(S))),x},e.unstable_shouldYield=ue,e.unstable_wrapCallback=function(x){var z=p;return function(){var T=p;p=z;try{return x.apply(this,arguments)}finally{p=T}}}})(vs);hs.exports=vs;var Wc=hs.exports;/**
+ * @license React
+ * react-dom.production.min.js
+ *
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */var Hc=bo,ke=Wc;function g(e){for(var t="https://reactjs.org/docs/error-decoder.html?invariant="+e,n=1;n<arguments.length;n++)t+="&args[]="+encodeURIComponent(arguments[n]);return"Minified React error #"+e+"; visit "+t+" for the full message or use the non-minified dev environment for full errors and additional helpful warnings."}var gs=new Set,Vn={};function Dt(e,t){un(e,t),un(e+"Capture",t)}function un(e,t){for(Vn[e]=t,e=0;e<t.length;e++)gs.add(t[e])}var Ke=!(typeof window>"u"||typeof window.document>"u"||typeof window.document.createElement>"u"),to=Object.prototype.hasOwnProperty,Qc=/^[:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD][:A-Z_a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD\-.0-9\u00B7\u0300-\u036F\u203F-\u2040]*$/,Xi={},Zi={};function Gc(e){return to.call(Zi,e)?!0:to.call(Xi,e)?!1:Qc.test(e)?Zi[e]=!0:(Xi[e]=!0,!1)}function Kc(e,t,n,r){if(n!==null&&n.type===0)return!1;switch(typeof t){case"function":case"symbol":return!0;case"boolean":return r?!1:n!==null?!n.acceptsBooleans:(e=e.toLowerCase().slice(0,5),e!=="data-"&&e!=="aria-");default:return!1}}function Yc(e,t,n,r){if(t===null||typeof t>"u"||Kc(e,t,n,r))return!0;if(r)return!1;if(n!==null)switch(n.type){case 3:return!t;case 4:return t===!1;case 5:return isNaN(t);case 6:return isNaN(t)||1>t}return!1}function fe(e,t,n,r,l,o,i){this.acceptsBooleans=t===2||t===3||t===4,this.attributeName=r,this.attributeNamespace=l,this.mustUseProperty=n,this.propertyName=e,this.type=t,this.sanitizeURL=o,this.removeEmptyString=i}var ne={};"children dangerouslySetInnerHTML defaultValue defaultChecked innerHTML suppressContentEditableWarning suppressHydrationWarning style".split(" ").forEach(function(e){ne[e]=new fe(e,0,!1,e,null,!1,!1)});[["acceptCharset","accept-charset"],["className","class"],["htmlFor","for"],["httpEquiv","http-equiv"]].forEach(function(e){var t=e[0];ne[t]=new fe(t,1,!1,e[1],null,!1,!1)});["contentEditable","draggable","spellCheck","value"].forEach(function(e){ne[e]=new fe(e,2,!1,e.toLowerCase(),null,!1,!1)});["autoReverse","externalResourcesRequired","focusable","preserveAlpha"].forEach(function(e){ne[e]=new fe(e,2,!1,e,null,!1,!1)});"allowFullScreen async autoFocus autoPlay controls default defer disabled disablePictureInPicture disableRemotePlayback formNoValidate hidden loop noModule noValidate open playsInline readOnly required reversed scoped seamless itemScope".split(" ").forEach(function(e){ne[e]=new fe(e,3,!1,e.toLowerCase(),null,!1,!1)});["checked","multiple","muted","selected"].forEach(function(e){ne[e]=new fe(e,3,!0,e,null,!1,!1)});["capture","download"].forEach(function(e){ne[e]=new fe(e,4,!1,e,null,!1,!1)});["cols","rows","size","span"].forEach(function(e){ne[e]=new fe(e,6,!1,e,null,!1,!1)});["rowSpan","start"].forEach(function(e){ne[e]=new fe(e,5,!1,e.toLowerCase(),null,!1,!1)});var ei=/[\-:]([a-z])/g;function ti(e){return e[1].toUpperCase()}"accent-height alignment-baseline arabic-form baseline-shift cap-height clip-path clip-rule color-interpolation color-interpolation-filters color-profile color-rendering dominant-baseline enable-background fill-opacity fill-rule flood-color flood-opacity font-family font-size font-size-adjust font-stretch font-style font-variant font-weight glyph-name glyph-orientation-horizontal glyph-orientation-vertical horiz-adv-x horiz-origin-x image-rendering letter-spacing lighting-color marker-end marker-mid marker-start overline-position overline-thickness paint-order panose-1 pointer-events rendering-intent shape-rendering stop-color stop-opacity strikethrough-position strikethrough-thickness stroke-dasharray stroke-dashoffset stroke-linecap stroke-linejoin stroke-miterlimit stroke-opacity stroke-width text-anchor text-decoration text-rendering underline-position underline-thickness unicode-bidi unicode-range units-per-em v-alphabetic v-hanging v-ideographic v-mathematical vector-effect vert-adv-y vert-origin-x vert-origin-y word-spacing writing-mode xmlns:xlink x-height".split(" ").forEach(function(e){var t=e.replace(ei,ti);ne[t]=new fe(t,1,!1,e,null,!1,!1)});"xlink:actuate xlink:arcrole xlink:role xlink:show xlink:title xlink:type".split(" ").forEach(function(e){var t=e.replace(ei,ti);ne[t]=new fe(t,1,!1,e,"http://www.w3.org/1999/xlink",!1,!1)});["xml:base","xml:lang","xml:space"].forEach(function(e){var t=e.replace(ei,ti);ne[t]=new fe(t,1,!1,e,"http://www.w3.org/XML/1998/namespace",!1,!1)});["tabIndex","crossOrigin"].forEach(function(e){ne[e]=new fe(e,1,!1,e.toLowerCase(),null,!1,!1)});ne.xlinkHref=new fe("xlinkHref",1,!1,"xlink:href","http://www.w3.org/1999/xlink",!0,!1);["src","href","action","formAction"].forEach(function(e){ne[e]=new fe(e,1,!1,e.toLowerCase(),null,!0,!0)});function ni(e,t,n,r){var l=ne.hasOwnProperty(t)?ne[t]:null;(l!==null?l.type!==0:r||!(2<t.length)||t[0]!=="o"&&t[0]!=="O"||t[1]!=="n"&&t[1]!=="N")&&(Yc(t,n,l,r)&&(n=null),r||l===null?Gc(t)&&(n===null?e.removeAttribute(t):e.setAttribute(t,""+n)):l.mustUseProperty?e[l.propertyName]=n===null?l.type===3?!1:"":n:(t=l.attributeName,r=l.attributeNamespace,n===null?e.removeAttribute(t):(l=l.type,n=l===3||l===4&&n===!0?"":""+n,r?e.setAttributeNS(r,t,n):e.setAttribute(t,n))))}var Je=Hc.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED,pr=Symbol.for("react.element"),Vt=Symbol.for("react.portal"),Bt=Symbol.for("react.fragment"),ri=Symbol.for("react.strict_mode"),no=Symbol.for("react.profiler"),ys=Symbol.for("react.provider"),ws=Symbol.for("react.context"),li=Symbol.for("react.forward_ref"),ro=Symbol.for("react.suspense"),lo=Symbol.for("react.suspense_list"),oi=Symbol.for("react.memo"),rt=Symbol.for("react.lazy"),ks=Symbol.for("react.offscreen"),Ji=Symbol.iterator;function yn(e){return e===null||typeof e!="object"?null:(e=Ji&&e[Ji]||e["@@iterator"],typeof e=="function"?e:null)}var Q=Object.assign,Tl;function Nn(e){if(Tl===void 0)try{throw Error()}catch(n){var t=n.stack.trim().match(/\n( *(at )?)/);Tl=t&&t[1]||""}return`
+`+Tl+e}var Ll=!1;function Rl(e,t){if(!e||Ll)return"";Ll=!0;var n=Error.prepareStackTrace;Error.prepareStackTrace=void 0;try{if(t)if(t=function(){throw Error()},Object.defineProperty(t.prototype,"props",{set:function(){throw Error()}}),typeof Reflect=="object"&&Reflect.construct){try{Reflect.construct(t,[])}catch(c){var r=c}Reflect.construct(e,[],t)}else{try{t.call()}catch(c){r=c}e.call(t.prototype)}else{try{throw Error()}catch(c){r=c}e()}}catch(c){if(c&&r&&typeof c.stack=="string"){for(var l=c.stack.split(`
+`),o=r.stack.split(`
+`),i=l.length-1,u=o.length-1;1<=i&&0<=u&&l[i]!==o[u];)u--;for(;1<=i&&0<=u;i--,u--)if(l[i]!==o[u]){if(i!==1||u!==1)do if(i--,u--,0>u||l[i]!==o[u]){var s=`
+`+l[i].replace(" at new "," at ");return e.displayName&&s.includes("<anonymous>")&&(s=s.replace("<anonymous>",e.displayName)),s}while(1<=i&&0<=u);break}}}finally{Ll=!1,Error.prepareStackTrace=n}return(e=e?e.displayName||e.name:"")?Nn(e):""}function Xc(e){switch(e.tag){case 5:return Nn(e.type);case 16:return Nn("Lazy");case 13:return Nn("Suspense");case 19:return Nn("SuspenseList");case 0:case 2:case 15:return e=Rl(e.type,!1),e;case 11:return e=Rl(e.type.render,!1),e;case 1:return e=Rl(e.type,!0),e;default:return""}}function oo(e){if(e==null)return null;if(typeof e=="function")return e.displayName||e.name||null;if(typeof e=="string")return e;switch(e){case Bt:return"Fragment";case Vt:return"Portal";case no:return"Profiler";case ri:return"StrictMode";case ro:return"Suspense";case lo:return"SuspenseList"}if(typeof e=="object")switch(e.$$typeof){case ws:return(e.displayName||"Context")+".Consumer";case ys:return(e._context.displayName||"Context")+".Provider";case li:var t=e.render;return e=e.displayName,e||(e=t.displayName||t.name||"",e=e!==""?"ForwardRef("+e+")":"ForwardRef"),e;case oi:return t=e.displayName||null,t!==null?t:oo(e.type)||"Memo";case rt:t=e._payload,e=e._init;try{return oo(e(t))}catch{}}return null}function Zc(e){var t=e.type;switch(e.tag){case 24:return"Cache";case 9:return(t.displayName||"Context")+".Consumer";case 10:return(t._context.displayName||"Context")+".Provider";case 18:return"DehydratedFragment";case 11:return e=t.render,e=e.displayName||e.name||"",t.displayName||(e!==""?"ForwardRef("+e+")":"ForwardRef");case 7:return"Fragment";case 5:return t;case 4:return"Portal";case 3:return"Root";case 6:return"Text";case 16:return oo(t);case 8:return t===ri?"StrictMode":"Mode";case 22:return"Offscreen";case 12:return"Profiler";case 21:return"Scope";case 13:return"Suspense";case 19:return"SuspenseList";case 25:return"TracingMarker";case 1:case 0:case 17:case 2:case 14:case 15:if(typeof t=="function")return t.displayName||t.name||null;if(typeof t=="string")return t}return null}function gt(e){switch(typeof e){case"boolean":case"number":case"string":case"undefined":return e;case"object":return e;default:return""}}function Ss(e){var t=e.type;return(e=e.nodeName)&&e.toLowerCase()==="input"&&(t==="checkbox"||t==="radio")}function Jc(e){var t=Ss(e)?"checked":"value",n=Object.getOwnPropertyDescriptor(e.constructor.prototype,t),r=""+e[t];if(!e.hasOwnProperty(t)&&typeof n<"u"&&typeof n.get=="function"&&typeof n.set=="function"){var l=n.get,o=n.set;return Object.defineProperty(e,t,{configurable:!0,get:function(){return l.call(this)},set:function(i){r=""+i,o.call(this,i)}}),Object.defineProperty(e,t,{enumerable:n.enumerable}),{getValue:function(){return r},setValue:function(i){r=""+i},stopTracking:function(){e._valueTracker=null,delete e[t]}}}}function mr(e){e._valueTracker||(e._valueTracker=Jc(e))}function xs(e){if(!e)return!1;var t=e._valueTracker;if(!t)return!0;var n=t.getValue(),r="";return e&&(r=Ss(e)?e.checked?"true":"false":e.value),e=r,e!==n?(t.setValue(e),!0):!1}function Vr(e){if(e=e||(typeof document<"u"?document:void 0),typeof e>"u")return null;try{return e.activeElement||e.body}catch{return e.body}}function io(e,t){var n=t.checked;return Q({},t,{defaultChecked:void 0,defaultValue:void 0,value:void 0,checked:n??e._wrapperState.initialChecked})}function qi(e,t){var n=t.defaultValue==null?"":t.defaultValue,r=t.checked!=null?t.checked:t.defaultChecked;n=gt(t.value!=null?t.value:n),e._wrapperState={initialChecked:r,initialValue:n,controlled:t.type==="checkbox"||t.type==="radio"?t.checked!=null:t.value!=null}}function Es(e,t){t=t.checked,t!=null&&ni(e,"checked",t,!1)}function uo(e,t){Es(e,t);var n=gt(t.value),r=t.type;if(n!=null)r==="number"?(n===0&&e.value===""||e.value!=n)&&(e.value=""+n):e.value!==""+n&&(e.value=""+n);else if(r==="submit"||r==="reset"){e.removeAttribute("value");return}t.hasOwnProperty("value")?so(e,t.type,n):t.hasOwnProperty("defaultValue")&&so(e,t.type,gt(t.defaultValue)),t.checked==null&&t.defaultChecked!=null&&(e.defaultChecked=!!t.defaultChecked)}function bi(e,t,n){if(t.hasOwnProperty("value")||t.hasOwnProperty("defaultValue")){var r=t.type;if(!(r!=="submit"&&r!=="reset"||t.value!==void 0&&t.value!==null))return;t=""+e._wrapperState.initialValue,n||t===e.value||(e.value=t),e.defaultValue=t}n=e.name,n!==""&&(e.name=""),e.defaultChecked=!!e._wrapperState.initialChecked,n!==""&&(e.name=n)}function so(e,t,n){(t!=="number"||Vr(e.ownerDocument)!==e)&&(n==null?e.defaultValue=""+e._wrapperState.initialValue:e.defaultValue!==""+n&&(e.defaultValue=""+n))}var Tn=Array.isArray;function bt(e,t,n,r){if(e=e.options,t){t={};for(var l=0;l<n.length;l++)t["$"+n[l]]=!0;for(n=0;n<e.length;n++)l=t.hasOwnProperty("$"+e[n].value),e[n].selected!==l&&(e[n].selected=l),l&&r&&(e[n].defaultSelected=!0)}else{for(n=""+gt(n),t=null,l=0;l<e.length;l++){if(e[l].value===n){e[l].selected=!0,r&&(e[l].defaultSelected=!0);return}t!==null||e[l].disabled||(t=e[l])}t!==null&&(t.selected=!0)}}function ao(e,t){if(t.dangerouslySetInnerHTML!=null)throw Error(g(91));return Q({},t,{value:void 0,defaultValue:void 0,children:""+e._wrapperState.initialValue})}function eu(e,t){var n=t.value;if(n==null){if(n=t.children,t=t.defaultValue,n!=null){if(t!=null)throw Error(g(92));if(Tn(n)){if(1<n.length)throw Error(g(93));n=n[0]}t=n}t==null&&(t=""),n=t}e._wrapperState={initialValue:gt(n)}}function Cs(e,t){var n=gt(t.value),r=gt(t.defaultValue);n!=null&&(n=""+n,n!==e.value&&(e.value=n),t.defaultValue==null&&e.defaultValue!==n&&(e.defaultValue=n)),r!=null&&(e.defaultValue=""+r)}function tu(e){var t=e.textContent;t===e._wrapperState.initialValue&&t!==""&&t!==null&&(e.value=t)}function _s(e){switch(e){case"svg":return"http://www.w3.org/2000/svg";case"math":return"http://www.w3.org/1998/Math/MathML";default:return"http://www.w3.org/1999/xhtml"}}function co(e,t){return e==null||e==="http://www.w3.org/1999/xhtml"?_s(t):e==="http://www.w3.org/2000/svg"&&t==="foreignObject"?"http://www.w3.org/1999/xhtml":e}var hr,Ps=function(e){return typeof MSApp<"u"&&MSApp.execUnsafeLocalFunction?function(t,n,r,l){MSApp.execUnsafeLocalFunction(function(){return e(t,n,r,l)})}:e}(function(e,t){if(e.namespaceURI!=="http://www.w3.org/2000/svg"||"innerHTML"in e)e.innerHTML=t;else{for(hr=hr||document.createElement("div"),hr.innerHTML="<svg>"+t.valueOf().toString()+"</svg>",t=hr.firstChild;e.firstChild;)e.removeChild(e.firstChild);for(;t.firstChild;)e.appendChild(t.firstChild)}});function Bn(e,t){if(t){var n=e.firstChild;if(n&&n===e.lastChild&&n.nodeType===3){n.nodeValue=t;return}}e.textContent=t}var Mn={animationIterationCount:!0,aspectRatio:!0,borderImageOutset:!0,borderImageSlice:!0,borderImageWidth:!0,boxFlex:!0,boxFlexGroup:!0,boxOrdinalGroup:!0,columnCount:!0,columns:!0,flex:!0,flexGrow:!0,flexPositive:!0,flexShrink:!0,flexNegative:!0,flexOrder:!0,gridArea:!0,gridRow:!0,gridRowEnd:!0,gridRowSpan:!0,gridRowStart:!0,gridColumn:!0,gridColumnEnd:!0,gridColumnSpan:!0,gridColumnStart:!0,fontWeight:!0,lineClamp:!0,lineHeight:!0,opacity:!0,order:!0,orphans:!0,tabSize:!0,widows:!0,zIndex:!0,zoom:!0,fillOpacity:!0,floodOpacity:!0,stopOpacity:!0,strokeDasharray:!0,strokeDashoffset:!0,strokeMiterlimit:!0,strokeOpacity:!0,strokeWidth:!0},qc=["Webkit","ms","Moz","O"];Object.keys(Mn).forEach(function(e){qc.forEach(function(t){t=t+e.charAt(0).toUpperCase()+e.substring(1),Mn[t]=Mn[e]})});function zs(e,t,n){return t==null||typeof t=="boolean"||t===""?"":n||typeof t!="number"||t===0||Mn.hasOwnProperty(e)&&Mn[e]?(""+t).trim():t+"px"}function Ns(e,t){e=e.style;for(var n in t)if(t.hasOwnProperty(n)){var r=n.indexOf("--")===0,l=zs(n,t[n],r);n==="float"&&(n="cssFloat"),r?e.setProperty(n,l):e[n]=l}}var bc=Q({menuitem:!0},{area:!0,base:!0,br:!0,col:!0,embed:!0,hr:!0,img:!0,input:!0,keygen:!0,link:!0,meta:!0,param:!0,source:!0,track:!0,wbr:!0});function fo(e,t){if(t){if(bc[e]&&(t.children!=null||t.dangerouslySetInnerHTML!=null))throw Error(g(137,e));if(t.dangerouslySetInnerHTML!=null){if(t.children!=null)throw Error(g(60));if(typeof t.dangerouslySetInnerHTML!="object"||!("__html"in t.dangerouslySetInnerHTML))throw Error(g(61))}if(t.style!=null&&typeof t.style!="object")throw Error(g(62))}}function po(e,t){if(e.indexOf("-")===-1)return typeof t.is=="string";switch(e){case"annotation-xml":case"color-profile":case"font-face":case"font-face-src":case"font-face-uri":case"font-face-format":case"font-face-name":case"missing-glyph":return!1;default:return!0}}var mo=null;function ii(e){return e=e.target||e.srcElement||window,e.correspondingUseElement&&(e=e.correspondingUseElement),e.nodeType===3?e.parentNode:e}var ho=null,en=null,tn=null;function nu(e){if(e=ur(e)){if(typeof ho!="function")throw Error(g(280));var t=e.stateNode;t&&(t=vl(t),ho(e.stateNode,e.type,t))}}function Ts(e){en?tn?tn.push(e):tn=[e]:en=e}function Ls(){if(en){var e=en,t=tn;if(tn=en=null,nu(e),t)for(e=0;e<t.length;e++)nu(t[e])}}function Rs(e,t){return e(t)}function Ms(){}var Ml=!1;function Os(e,t,n){if(Ml)return e(t,n);Ml=!0;try{return Rs(e,t,n)}finally{Ml=!1,(en!==null||tn!==null)&&(Ms(),Ls())}}function Wn(e,t){var n=e.stateNode;if(n===null)return null;var r=vl(n);if(r===null)return null;n=r[t];e:switch(t){case"onClick":case"onClickCapture":case"onDoubleClick":case"onDoubleClickCapture":case"onMouseDown":case"onMouseDownCapture":case"onMouseMove":case"onMouseMoveCapture":case"onMouseUp":case"onMouseUpCapture":case"onMouseEnter":(r=!r.disabled)||(e=e.type,r=!(e==="button"||e==="input"||e==="select"||e==="textarea")),e=!r;break e;default:e=!1}if(e)return null;if(n&&typeof n!="function")throw Error(g(231,t,typeof n));return n}var vo=!1;if(Ke)try{var wn={};Object.defineProperty(wn,"passive",{get:function(){vo=!0}}),window.addEventListener("test",wn,wn),window.removeEventListener("test",wn,wn)}catch{vo=!1}function ef(e,t,n,r,l,o,i,u,s){var c=Array.prototype.slice.call(arguments,3);try{t.apply(n,c)}catch(h){this.onError(h)}}var On=!1,Br=null,Wr=!1,go=null,tf={onError:function(e){On=!0,Br=e}};function nf(e,t,n,r,l,o,i,u,s){On=!1,Br=null,ef.apply(tf,arguments)}function rf(e,t,n,r,l,o,i,u,s){if(nf.apply(this,arguments),On){if(On){var c=Br;On=!1,Br=null}else throw Error(g(198));Wr||(Wr=!0,go=c)}}function At(e){var t=e,n=e;if(e.alternate)for(;t.return;)t=t.return;else{e=t;do t=e,t.flags&4098&&(n=t.return),e=t.return;while(e)}return t.tag===3?n:null}function Is(e){if(e.tag===13){var t=e.memoizedState;if(t===null&&(e=e.alternate,e!==null&&(t=e.memoizedState)),t!==null)return t.dehydrated}return null}function ru(e){if(At(e)!==e)throw Error(g(188))}function lf(e){var t=e.alternate;if(!t){if(t=At(e),t===null)throw Error(g(188));return t!==e?null:e}for(var n=e,r=t;;){var l=n.return;if(l===null)break;var o=l.alternate;if(o===null){if(r=l.return,r!==null){n=r;continue}break}if(l.child===o.child){for(o=l.child;o;){if(o===n)return ru(l),e;if(o===r)return ru(l),t;o=o.sibling}throw Error(g(188))}if(n.return!==r.return)n=l,r=o;else{for(var i=!1,u=l.child;u;){if(u===n){i=!0,n=l,r=o;break}if(u===r){i=!0,r=l,n=o;break}u=u.sibling}if(!i){for(u=o.child;u;){if(u===n){i=!0,n=o,r=l;break}if(u===r){i=!0,r=o,n=l;break}u=u.sibling}if(!i)throw Error(g(189))}}if(n.alternate!==r)throw Error(g(190))}if(n.tag!==3)throw Error(g(188));return n.stateNode.current===n?e:t}function Fs(e){return e=lf(e),e!==null?js(e):null}function js(e){if(e.tag===5||e.tag===6)return e;for(e=e.child;e!==null;){var t=js(e);if(t!==null)return t;e=e.sibling}return null}var Ds=ke.unstable_scheduleCallback,lu=ke.unstable_cancelCallback,of=ke.unstable_shouldYield,uf=ke.unstable_requestPaint,K=ke.unstable_now,sf=ke.unstable_getCurrentPriorityLevel,ui=ke.unstable_ImmediatePriority,As=ke.unstable_UserBlockingPriority,Hr=ke.unstable_NormalPriority,af=ke.unstable_LowPriority,Us=ke.unstable_IdlePriority,dl=null,Ue=null;function cf(e){if(Ue&&typeof Ue.onCommitFiberRoot=="function")try{Ue.onCommitFiberRoot(dl,e,void 0,(e.current.flags&128)===128)}catch{}}var Oe=Math.clz32?Math.clz32:pf,ff=Math.log,df=Math.LN2;function pf(e){return e>>>=0,e===0?32:31-(ff(e)/df|0)|0}var vr=64,gr=4194304;function Ln(e){switch(e&-e){case 1:return 1;case 2:return 2;case 4:return 4;case 8:return 8;case 16:return 16;case 32:return 32;case 64:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return e&4194240;case 4194304:case 8388608:case 16777216:case 33554432:case 67108864:return e&130023424;case 134217728:return 134217728;case 268435456:return 268435456;case 536870912:return 536870912;case 1073741824:return 1073741824;default:return e}}function Qr(e,t){var n=e.pendingLanes;if(n===0)return 0;var r=0,l=e.suspendedLanes,o=e.pingedLanes,i=n&268435455;if(i!==0){var u=i&~l;u!==0?r=Ln(u):(o&=i,o!==0&&(r=Ln(o)))}else i=n&~l,i!==0?r=Ln(i):o!==0&&(r=Ln(o));if(r===0)return 0;if(t!==0&&t!==r&&!(t&l)&&(l=r&-r,o=t&-t,l>=o||l===16&&(o&4194240)!==0))return t;if(r&4&&(r|=n&16),t=e.entangledLanes,t!==0)for(e=e.entanglements,t&=r;0<t;)n=31-Oe(t),l=1<<n,r|=e[n],t&=~l;return r}function mf(e,t){switch(e){case 1:case 2:case 4:return t+250;case 8:case 16:case 32:case 64:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:return t+5e3;case 4194304:case 8388608:case 16777216:case 33554432:case 67108864:return-1;case 134217728:case 268435456:case 536870912:case 1073741824:return-1;default:return-1}}function hf(e,t){for(var n=e.suspendedLanes,r=e.pingedLanes,l=e.expirationTimes,o=e.pendingLanes;0<o;){var i=31-Oe(o),u=1<<i,s=l[i];s===-1?(!(u&n)||u&r)&&(l[i]=mf(u,t)):s<=t&&(e.expiredLanes|=u),o&=~u}}function yo(e){return e=e.pendingLanes&-1073741825,e!==0?e:e&1073741824?1073741824:0}function $s(){var e=vr;return vr<<=1,!(vr&4194240)&&(vr=64),e}function Ol(e){for(var t=[],n=0;31>n;n++)t.push(e);return t}function or(e,t,n){e.pendingLanes|=t,t!==536870912&&(e.suspendedLanes=0,e.pingedLanes=0),e=e.eventTimes,t=31-Oe(t),e[t]=n}function vf(e,t){var n=e.pendingLanes&~t;e.pendingLanes=t,e.suspendedLanes=0,e.pingedLanes=0,e.expiredLanes&=t,e.mutableReadLanes&=t,e.entangledLanes&=t,t=e.entanglements;var r=e.eventTimes;for(e=e.expirationTimes;0<n;){var l=31-Oe(n),o=1<<l;t[l]=0,r[l]=-1,e[l]=-1,n&=~o}}function si(e,t){var n=e.entangledLanes|=t;for(e=e.entanglements;n;){var r=31-Oe(n),l=1<<r;l&t|e[r]&t&&(e[r]|=t),n&=~l}}var j=0;function Vs(e){return e&=-e,1<e?4<e?e&268435455?16:536870912:4:1}var Bs,ai,Ws,Hs,Qs,wo=!1,yr=[],at=null,ct=null,ft=null,Hn=new Map,Qn=new Map,ot=[],gf="mousedown mouseup touchcancel touchend touchstart auxclick dblclick pointercancel pointerdown pointerup dragend dragstart drop compositionend compositionstart keydown keypress keyup input textInput copy cut paste click change contextmenu reset submit".split(" ");function ou(e,t){switch(e){case"focusin":case"focusout":at=null;break;case"dragenter":case"dragleave":ct=null;break;case"mouseover":case"mouseout":ft=null;break;case"pointerover":case"pointerout":Hn.delete(t.pointerId);break;case"gotpointercapture":case"lostpointercapture":Qn.delete(t.pointerId)}}function kn(e,t,n,r,l,o){return e===null||e.nativeEvent!==o?(e={blockedOn:t,domEventName:n,eventSystemFlags:r,nativeEvent:o,targetContainers:[l]},t!==null&&(t=ur(t),t!==null&&ai(t)),e):(e.eventSystemFlags|=r,t=e.targetContainers,l!==null&&t.indexOf(l)===-1&&t.push(l),e)}function yf(e,t,n,r,l){switch(t){case"focusin":return at=kn(at,e,t,n,r,l),!0;case"dragenter":return ct=kn(ct,e,t,n,r,l),!0;case"mouseover":return ft=kn(ft,e,t,n,r,l),!0;case"pointerover":var o=l.pointerId;return Hn.set(o,kn(Hn.get(o)||null,e,t,n,r,l)),!0;case"gotpointercapture":return o=l.pointerId,Qn.set(o,kn(Qn.get(o)||null,e,t,n,r,l)),!0}return!1}function Gs(e){var t=zt(e.target);if(t!==null){var n=At(t);if(n!==null){if(t=n.tag,t===13){if(t=Is(n),t!==null){e.blockedOn=t,Qs(e.priority,function(){Ws(n)});return}}else if(t===3&&n.stateNode.current.memoizedState.isDehydrated){e.blockedOn=n.tag===3?n.stateNode.containerInfo:null;return}}}e.blockedOn=null}function Rr(e){if(e.blockedOn!==null)return!1;for(var t=e.targetContainers;0<t.length;){var n=ko(e.domEventName,e.eventSystemFlags,t[0],e.nativeEvent);if(n===null){n=e.nativeEvent;var r=new n.constructor(n.type,n);mo=r,n.target.dispatchEvent(r),mo=null}else return t=ur(n),t!==null&&ai(t),e.blockedOn=n,!1;t.shift()}return!0}function iu(e,t,n){Rr(e)&&n.delete(t)}function wf(){wo=!1,at!==null&&Rr(at)&&(at=null),ct!==null&&Rr(ct)&&(ct=null),ft!==null&&Rr(ft)&&(ft=null),Hn.forEach(iu),Qn.forEach(iu)}function Sn(e,t){e.blockedOn===t&&(e.blockedOn=null,wo||(wo=!0,ke.unstable_scheduleCallback(ke.unstable_NormalPriority,wf)))}function Gn(e){function t(l){return Sn(l,e)}if(0<yr.length){Sn(yr[0],e);for(var n=1;n<yr.length;n++){var r=yr[n];r.blockedOn===e&&(r.blockedOn=null)}}for(at!==null&&Sn(at,e),ct!==null&&Sn(ct,e),ft!==null&&Sn(ft,e),Hn.forEach(t),Qn.forEach(t),n=0;n<ot.length;n++)r=ot[n],r.blockedOn===e&&(r.blockedOn=null);for(;0<ot.length&&(n=ot[0],n.blockedOn===null);)Gs(n),n.blockedOn===null&&ot.shift()}var nn=Je.ReactCurrentBatchConfig,Gr=!0;function kf(e,t,n,r){var l=j,o=nn.transition;nn.transition=null;try{j=1,ci(e,t,n,r)}finally{j=l,nn.transition=o}}function Sf(e,t,n,r){var l=j,o=nn.transition;nn.transition=null;try{j=4,ci(e,t,n,r)}finally{j=l,nn.transition=o}}function ci(e,t,n,r){if(Gr){var l=ko(e,t,n,r);if(l===null)Wl(e,t,r,Kr,n),ou(e,r);else if(yf(l,e,t,n,r))r.stopPropagation();else if(ou(e,r),t&4&&-1<gf.indexOf(e)){for(;l!==null;){var o=ur(l);if(o!==null&&Bs(o),o=ko(e,t,n,r),o===null&&Wl(e,t,r,Kr,n),o===l)break;l=o}l!==null&&r.stopPropagation()}else Wl(e,t,r,null,n)}}var Kr=null;function ko(e,t,n,r){if(Kr=null,e=ii(r),e=zt(e),e!==null)if(t=At(e),t===null)e=null;else if(n=t.tag,n===13){if(e=Is(t),e!==null)return e;e=null}else if(n===3){if(t.stateNode.current.memoizedState.isDehydrated)return t.tag===3?t.stateNode.containerInfo:null;e=null}else t!==e&&(e=null);return Kr=e,null}function Ks(e){switch(e){case"cancel":case"click":case"close":case"contextmenu":case"copy":case"cut":case"auxclick":case"dblclick":case"dragend":case"dragstart":case"drop":case"focusin":case"focusout":case"input":case"invalid":case"keydown":case"keypress":case"keyup":case"mousedown":case"mouseup":case"paste":case"pause":case"play":case"pointercancel":case"pointerdown":case"pointerup":case"ratechange":case"reset":case"resize":case"seeked":case"submit":case"touchcancel":case"touchend":case"touchstart":case"volumechange":case"change":case"selectionchange":case"textInput":case"compositionstart":case"compositionend":case"compositionupdate":case"beforeblur":case"afterblur":case"beforeinput":case"blur":case"fullscreenchange":case"focus":case"hashchange":case"popstate":case"select":case"selectstart":return 1;case"drag":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"mousemove":case"mouseout":case"mouseover":case"pointermove":case"pointerout":case"pointerover":case"scroll":case"toggle":case"touchmove":case"wheel":case"mouseenter":case"mouseleave":case"pointerenter":case"pointerleave":return 4;case"message":switch(sf()){case ui:return 1;case As:return 4;case Hr:case af:return 16;case Us:return 536870912;default:return 16}default:return 16}}var ut=null,fi=null,Mr=null;function Ys(){if(Mr)return Mr;var e,t=fi,n=t.length,r,l="value"in ut?ut.value:ut.textContent,o=l.length;for(e=0;e<n&&t[e]===l[e];e++);var i=n-e;for(r=1;r<=i&&t[n-r]===l[o-r];r++);return Mr=l.slice(e,1<r?1-r:void 0)}function Or(e){var t=e.keyCode;return"charCode"in e?(e=e.charCode,e===0&&t===13&&(e=13)):e=t,e===10&&(e=13),32<=e||e===13?e:0}function wr(){return!0}function uu(){return!1}function xe(e){function t(n,r,l,o,i){this._reactName=n,this._targetInst=l,this.type=r,this.nativeEvent=o,this.target=i,this.currentTarget=null;for(var u in e)e.hasOwnProperty(u)&&(n=e[u],this[u]=n?n(o):o[u]);return this.isDefaultPrevented=(o.defaultPrevented!=null?o.defaultPrevented:o.returnValue===!1)?wr:uu,this.isPropagationStopped=uu,this}return Q(t.prototype,{preventDefault:function(){this.defaultPrevented=!0;var n=this.nativeEvent;n&&(n.preventDefault?n.preventDefault():typeof n.returnValue!="unknown"&&(n.returnValue=!1),this.isDefaultPrevented=wr)},stopPropagation:function(){var n=this.nativeEvent;n&&(n.stopPropagation?n.stopPropagation():typeof n.cancelBubble!="unknown"&&(n.cancelBubble=!0),this.isPropagationStopped=wr)},persist:function(){},isPersistent:wr}),t}var hn={eventPhase:0,bubbles:0,cancelable:0,timeStamp:function(e){return e.timeStamp||Date.now()},defaultPrevented:0,isTrusted:0},di=xe(hn),ir=Q({},hn,{view:0,detail:0}),xf=xe(ir),Il,Fl,xn,pl=Q({},ir,{screenX:0,screenY:0,clientX:0,clientY:0,pageX:0,pageY:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,getModifierState:pi,button:0,buttons:0,relatedTarget:function(e){return e.relatedTarget===void 0?e.fromElement===e.srcElement?e.toElement:e.fromElement:e.relatedTarget},movementX:function(e){return"movementX"in e?e.movementX:(e!==xn&&(xn&&e.type==="mousemove"?(Il=e.screenX-xn.screenX,Fl=e.screenY-xn.screenY):Fl=Il=0,xn=e),Il)},movementY:function(e){return"movementY"in e?e.movementY:Fl}}),su=xe(pl),Ef=Q({},pl,{dataTransfer:0}),Cf=xe(Ef),_f=Q({},ir,{relatedTarget:0}),jl=xe(_f),Pf=Q({},hn,{animationName:0,elapsedTime:0,pseudoElement:0}),zf=xe(Pf),Nf=Q({},hn,{clipboardData:function(e){return"clipboardData"in e?e.clipboardData:window.clipboardData}}),Tf=xe(Nf),Lf=Q({},hn,{data:0}),au=xe(Lf),Rf={Esc:"Escape",Spacebar:" ",Left:"ArrowLeft",Up:"ArrowUp",Right:"ArrowRight",Down:"ArrowDown",Del:"Delete",Win:"OS",Menu:"ContextMenu",Apps:"ContextMenu",Scroll:"ScrollLock",MozPrintableKey:"Unidentified"},Mf={8:"Backspace",9:"Tab",12:"Clear",13:"Enter",16:"Shift",17:"Control",18:"Alt",19:"Pause",20:"CapsLock",27:"Escape",32:" ",33:"PageUp",34:"PageDown",35:"End",36:"Home",37:"ArrowLeft",38:"ArrowUp",39:"ArrowRight",40:"ArrowDown",45:"Insert",46:"Delete",112:"F1",113:"F2",114:"F3",115:"F4",116:"F5",117:"F6",118:"F7",119:"F8",120:"F9",121:"F10",122:"F11",123:"F12",144:"NumLock",145:"ScrollLock",224:"Meta"},Of={Alt:"altKey",Control:"ctrlKey",Meta:"metaKey",Shift:"shiftKey"};function If(e){var t=this.nativeEvent;return t.getModifierState?t.getModifierState(e):(e=Of[e])?!!t[e]:!1}function pi(){return If}var Ff=Q({},ir,{key:function(e){if(e.key){var t=Rf[e.key]||e.key;if(t!=="Unidentified")return t}return e.type==="keypress"?(e=Or(e),e===13?"Enter":String.fromCharCode(e)):e.type==="keydown"||e.type==="keyup"?Mf[e.keyCode]||"Unidentified":""},code:0,location:0,ctrlKey:0,shiftKey:0,altKey:0,metaKey:0,repeat:0,locale:0,getModifierState:pi,charCode:function(e){return e.type==="keypress"?Or(e):0},keyCode:function(e){return e.type==="keydown"||e.type==="keyup"?e.keyCode:0},which:function(e){return e.type==="keypress"?Or(e):e.type==="keydown"||e.type==="keyup"?e.keyCode:0}}),jf=xe(Ff),Df=Q({},pl,{pointerId:0,width:0,height:0,pressure:0,tangentialPressure:0,tiltX:0,tiltY:0,twist:0,pointerType:0,isPrimary:0}),cu=xe(Df),Af=Q({},ir,{touches:0,targetTouches:0,changedTouches:0,altKey:0,metaKey:0,ctrlKey:0,shiftKey:0,getModifierState:pi}),Uf=xe(Af),$f=Q({},hn,{propertyName:0,elapsedTime:0,pseudoElement:0}),Vf=xe($f),Bf=Q({},pl,{deltaX:function(e){return"deltaX"in e?e.deltaX:"wheelDeltaX"in e?-e.wheelDeltaX:0},deltaY:function(e){return"deltaY"in e?e.deltaY:"wheelDeltaY"in e?-e.wheelDeltaY:"wheelDelta"in e?-e.wheelDelta:0},deltaZ:0,deltaMode:0}),Wf=xe(Bf),Hf=[9,13,27,32],mi=Ke&&"CompositionEvent"in window,In=null;Ke&&"documentMode"in document&&(In=document.documentMode);var Qf=Ke&&"TextEvent"in window&&!In,Xs=Ke&&(!mi||In&&8<In&&11>=In),fu=" ",du=!1;function Zs(e,t){switch(e){case"keyup":return Hf.indexOf(t.keyCode)!==-1;case"keydown":return t.keyCode!==229;case"keypress":case"mousedown":case"focusout":return!0;default:return!1}}function Js(e){return e=e.detail,typeof e=="object"&&"data"in e?e.data:null}var Wt=!1;function Gf(e,t){switch(e){case"compositionend":return Js(t);case"keypress":return t.which!==32?null:(du=!0,fu);case"textInput":return e=t.data,e===fu&&du?null:e;default:return null}}function Kf(e,t){if(Wt)return e==="compositionend"||!mi&&Zs(e,t)?(e=Ys(),Mr=fi=ut=null,Wt=!1,e):null;switch(e){case"paste":return null;case"keypress":if(!(t.ctrlKey||t.altKey||t.metaKey)||t.ctrlKey&&t.altKey){if(t.char&&1<t.char.length)return t.char;if(t.which)return String.fromCharCode(t.which)}return null;case"compositionend":return Xs&&t.locale!=="ko"?null:t.data;default:return null}}var Yf={color:!0,date:!0,datetime:!0,"datetime-local":!0,email:!0,month:!0,number:!0,password:!0,range:!0,search:!0,tel:!0,text:!0,time:!0,url:!0,week:!0};function pu(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t==="input"?!!Yf[e.type]:t==="textarea"}function qs(e,t,n,r){Ts(r),t=Yr(t,"onChange"),0<t.length&&(n=new di("onChange","change",null,n,r),e.push({event:n,listeners:t}))}var Fn=null,Kn=null;function Xf(e){aa(e,0)}function ml(e){var t=Gt(e);if(xs(t))return e}function Zf(e,t){if(e==="change")return t}var bs=!1;if(Ke){var Dl;if(Ke){var Al="oninput"in document;if(!Al){var mu=document.createElement("div");mu.setAttribute("oninput","return;"),Al=typeof mu.oninput=="function"}Dl=Al}else Dl=!1;bs=Dl&&(!document.documentMode||9<document.documentMode)}function hu(){Fn&&(Fn.detachEvent("onpropertychange",ea),Kn=Fn=null)}function ea(e){if(e.propertyName==="value"&&ml(Kn)){var t=[];qs(t,Kn,e,ii(e)),Os(Xf,t)}}function Jf(e,t,n){e==="focusin"?(hu(),Fn=t,Kn=n,Fn.attachEvent("onpropertychange",ea)):e==="focusout"&&hu()}function qf(e){if(e==="selectionchange"||e==="keyup"||e==="keydown")return ml(Kn)}function bf(e,t){if(e==="click")return ml(t)}function ed(e,t){if(e==="input"||e==="change")return ml(t)}function td(e,t){return e===t&&(e!==0||1/e===1/t)||e!==e&&t!==t}var Fe=typeof Object.is=="function"?Object.is:td;function Yn(e,t){if(Fe(e,t))return!0;if(typeof e!="object"||e===null||typeof t!="object"||t===null)return!1;var n=Object.keys(e),r=Object.keys(t);if(n.length!==r.length)return!1;for(r=0;r<n.length;r++){var l=n[r];if(!to.call(t,l)||!Fe(e[l],t[l]))return!1}return!0}function vu(e){for(;e&&e.firstChild;)e=e.firstChild;return e}function gu(e,t){var n=vu(e);e=0;for(var r;n;){if(n.nodeType===3){if(r=e+n.textContent.length,e<=t&&r>=t)return{node:n,offset:t-e};e=r}e:{for(;n;){if(n.nextSibling){n=n.nextSibling;break e}n=n.parentNode}n=void 0}n=vu(n)}}function ta(e,t){return e&&t?e===t?!0:e&&e.nodeType===3?!1:t&&t.nodeType===3?ta(e,t.parentNode):"contains"in e?e.contains(t):e.compareDocumentPosition?!!(e.compareDocumentPosition(t)&16):!1:!1}function na(){for(var e=window,t=Vr();t instanceof e.HTMLIFrameElement;){try{var n=typeof t.contentWindow.location.href=="string"}catch{n=!1}if(n)e=t.contentWindow;else break;t=Vr(e.document)}return t}function hi(e){var t=e&&e.nodeName&&e.nodeName.toLowerCase();return t&&(t==="input"&&(e.type==="text"||e.type==="search"||e.type==="tel"||e.type==="url"||e.type==="password")||t==="textarea"||e.contentEditable==="true")}function nd(e){var t=na(),n=e.focusedElem,r=e.selectionRange;if(t!==n&&n&&n.ownerDocument&&ta(n.ownerDocument.documentElement,n)){if(r!==null&&hi(n)){if(t=r.start,e=r.end,e===void 0&&(e=t),"selectionStart"in n)n.selectionStart=t,n.selectionEnd=Math.min(e,n.value.length);else if(e=(t=n.ownerDocument||document)&&t.defaultView||window,e.getSelection){e=e.getSelection();var l=n.textContent.length,o=Math.min(r.start,l);r=r.end===void 0?o:Math.min(r.end,l),!e.extend&&o>r&&(l=r,r=o,o=l),l=gu(n,o);var i=gu(n,r);l&&i&&(e.rangeCount!==1||e.anchorNode!==l.node||e.anchorOffset!==l.offset||e.focusNode!==i.node||e.focusOffset!==i.offset)&&(t=t.createRange(),t.setStart(l.node,l.offset),e.removeAllRanges(),o>r?(e.addRange(t),e.extend(i.node,i.offset)):(t.setEnd(i.node,i.offset),e.addRange(t)))}}for(t=[],e=n;e=e.parentNode;)e.nodeType===1&&t.push({element:e,left:e.scrollLeft,top:e.scrollTop});for(typeof n.focus=="function"&&n.focus(),n=0;n<t.length;n++)e=t[n],e.element.scrollLeft=e.left,e.element.scrollTop=e.top}}var rd=Ke&&"documentMode"in document&&11>=document.documentMode,Ht=null,So=null,jn=null,xo=!1;function yu(e,t,n){var r=n.window===n?n.document:n.nodeType===9?n:n.ownerDocument;xo||Ht==null||Ht!==Vr(r)||(r=Ht,"selectionStart"in r&&hi(r)?r={start:r.selectionStart,end:r.selectionEnd}:(r=(r.ownerDocument&&r.ownerDocument.defaultView||window).getSelection(),r={anchorNode:r.anchorNode,anchorOffset:r.anchorOffset,focusNode:r.focusNode,focusOffset:r.focusOffset}),jn&&Yn(jn,r)||(jn=r,r=Yr(So,"onSelect"),0<r.length&&(t=new di("onSelect","select",null,t,n),e.push({event:t,listeners:r}),t.target=Ht)))}function kr(e,t){var n={};return n[e.toLowerCase()]=t.toLowerCase(),n["Webkit"+e]="webkit"+t,n["Moz"+e]="moz"+t,n}var Qt={animationend:kr("Animation","AnimationEnd"),animationiteration:kr("Animation","AnimationIteration"),animationstart:kr("Animation","AnimationStart"),transitionend:kr("Transition","TransitionEnd")},Ul={},ra={};Ke&&(ra=document.createElement("div").style,"AnimationEvent"in window||(delete Qt.animationend.animation,delete Qt.animationiteration.animation,delete Qt.animationstart.animation),"TransitionEvent"in window||delete Qt.transitionend.transition);function hl(e){if(Ul[e])return Ul[e];if(!Qt[e])return e;var t=Qt[e],n;for(n in t)if(t.hasOwnProperty(n)&&n in ra)return Ul[e]=t[n];return e}var la=hl("animationend"),oa=hl("animationiteration"),ia=hl("animationstart"),ua=hl("transitionend"),sa=new Map,wu="abort auxClick cancel canPlay canPlayThrough click close contextMenu copy cut drag dragEnd dragEnter dragExit dragLeave dragOver dragStart drop durationChange emptied encrypted ended error gotPointerCapture input invalid keyDown keyPress keyUp load loadedData loadedMetadata loadStart lostPointerCapture mouseDown mouseMove mouseOut mouseOver mouseUp paste pause play playing pointerCancel pointerDown pointerMove pointerOut pointerOver pointerUp progress rateChange reset resize seeked seeking stalled submit suspend timeUpdate touchCancel touchEnd touchStart volumeChange scroll toggle touchMove waiting wheel".split(" ");function wt(e,t){sa.set(e,t),Dt(t,[e])}for(var $l=0;$l<wu.length;$l++){var Vl=wu[$l],ld=Vl.toLowerCase(),od=Vl[0].toUpperCase()+Vl.slice(1);wt(ld,"on"+od)}wt(la,"onAnimationEnd");wt(oa,"onAnimationIteration");wt(ia,"onAnimationStart");wt("dblclick","onDoubleClick");wt("focusin","onFocus");wt("focusout","onBlur");wt(ua,"onTransitionEnd");un("onMouseEnter",["mouseout","mouseover"]);un("onMouseLeave",["mouseout","mouseover"]);un("onPointerEnter",["pointerout","pointerover"]);un("onPointerLeave",["pointerout","pointerover"]);Dt("onChange","change click focusin focusout input keydown keyup selectionchange".split(" "));Dt("onSelect","focusout contextmenu dragend focusin keydown keyup mousedown mouseup selectionchange".split(" "));Dt("onBeforeInput",["compositionend","keypress","textInput","paste"]);Dt("onCompositionEnd","compositionend focusout keydown keypress keyup mousedown".split(" "));Dt("onCompositionStart","compositionstart focusout keydown keypress keyup mousedown".split(" "));Dt("onCompositionUpdate","compositionupdate focusout keydown keypress keyup mousedown".split(" "));var Rn="abort canplay canplaythrough durationchange emptied encrypted ended error loadeddata loadedmetadata loadstart pause play playing progress ratechange resize seeked seeking stalled suspend timeupdate volumechange waiting".split(" "),id=new Set("cancel close invalid load scroll toggle".split(" ").concat(Rn));function ku(e,t,n){var r=e.type||"unknown-event";e.currentTarget=n,rf(r,t,void 0,e),e.currentTarget=null}function aa(e,t){t=(t&4)!==0;for(var n=0;n<e.length;n++){var r=e[n],l=r.event;r=r.listeners;e:{var o=void 0;if(t)for(var i=r.length-1;0<=i;i--){var u=r[i],s=u.instance,c=u.currentTarget;if(u=u.listener,s!==o&&l.isPropagationStopped())break e;ku(l,u,c),o=s}else for(i=0;i<r.length;i++){if(u=r[i],s=u.instance,c=u.currentTarget,u=u.listener,s!==o&&l.isPropagationStopped())break e;ku(l,u,c),o=s}}}if(Wr)throw e=go,Wr=!1,go=null,e}function $(e,t){var n=t[zo];n===void 0&&(n=t[zo]=new Set);var r=e+"__bubble";n.has(r)||(ca(t,e,2,!1),n.add(r))}function Bl(e,t,n){var r=0;t&&(r|=4),ca(n,e,r,t)}var Sr="_reactListening"+Math.random().toString(36).slice(2);function Xn(e){if(!e[Sr]){e[Sr]=!0,gs.forEach(function(n){n!=="selectionchange"&&(id.has(n)||Bl(n,!1,e),Bl(n,!0,e))});var t=e.nodeType===9?e:e.ownerDocument;t===null||t[Sr]||(t[Sr]=!0,Bl("selectionchange",!1,t))}}function ca(e,t,n,r){switch(Ks(t)){case 1:var l=kf;break;case 4:l=Sf;break;default:l=ci}n=l.bind(null,t,n,e),l=void 0,!vo||t!=="touchstart"&&t!=="touchmove"&&t!=="wheel"||(l=!0),r?l!==void 0?e.addEventListener(t,n,{capture:!0,passive:l}):e.addEventListener(t,n,!0):l!==void 0?e.addEventListener(t,n,{passive:l}):e.addEventListener(t,n,!1)}function Wl(e,t,n,r,l){var o=r;if(!(t&1)&&!(t&2)&&r!==null)e:for(;;){if(r===null)return;var i=r.tag;if(i===3||i===4){var u=r.stateNode.containerInfo;if(u===l||u.nodeType===8&&u.parentNode===l)break;if(i===4)for(i=r.return;i!==null;){var s=i.tag;if((s===3||s===4)&&(s=i.stateNode.containerInfo,s===l||s.nodeType===8&&s.parentNode===l))return;i=i.return}for(;u!==null;){if(i=zt(u),i===null)return;if(s=i.tag,s===5||s===6){r=o=i;continue e}u=u.parentNode}}r=r.return}Os(function(){var c=o,h=ii(n),m=[];e:{var p=sa.get(e);if(p!==void 0){var w=di,k=e;switch(e){case"keypress":if(Or(n)===0)break e;case"keydown":case"keyup":w=jf;break;case"focusin":k="focus",w=jl;break;case"focusout":k="blur",w=jl;break;case"beforeblur":case"afterblur":w=jl;break;case"click":if(n.button===2)break e;case"auxclick":case"dblclick":case"mousedown":case"mousemove":case"mouseup":case"mouseout":case"mouseover":case"contextmenu":w=su;break;case"drag":case"dragend":case"dragenter":case"dragexit":case"dragleave":case"dragover":case"dragstart":case"drop":w=Cf;break;case"touchcancel":case"touchend":case"touchmove":case"touchstart":w=Uf;break;case la:case oa:case ia:w=zf;break;case ua:w=Vf;break;case"scroll":w=xf;break;case"wheel":w=Wf;break;case"copy":case"cut":case"paste":w=Tf;break;case"gotpointercapture":case"lostpointercapture":case"pointercancel":case"pointerdown":case"pointermove":case"pointerout":case"pointerover":case"pointerup":w=cu}var y=(t&4)!==0,N=!y&&e==="scroll",f=y?p!==null?p+"Capture":null:p;y=[];for(var a=c,d;a!==null;){d=a;var v=d.stateNode;if(d.tag===5&&v!==null&&(d=v,f!==null&&(v=Wn(a,f),v!=null&&y.push(Zn(a,v,d)))),N)break;a=a.return}0<y.length&&(p=new w(p,k,null,n,h),m.push({event:p,listeners:y}))}}if(!(t&7)){e:{if(p=e==="mouseover"||e==="pointerover",w=e==="mouseout"||e==="pointerout",p&&n!==mo&&(k=n.relatedTarget||n.fromElement)&&(zt(k)||k[Ye]))break e;if((w||p)&&(p=h.window===h?h:(p=h.ownerDocument)?p.defaultView||p.parentWindow:window,w?(k=n.relatedTarget||n.toElement,w=c,k=k?zt(k):null,k!==null&&(N=At(k),k!==N||k.tag!==5&&k.tag!==6)&&(k=null)):(w=null,k=c),w!==k)){if(y=su,v="onMouseLeave",f="onMouseEnter",a="mouse",(e==="pointerout"||e==="pointerover")&&(y=cu,v="onPointerLeave",f="onPointerEnter",a="pointer"),N=w==null?p:Gt(w),d=k==null?p:Gt(k),p=new y(v,a+"leave",w,n,h),p.target=N,p.relatedTarget=d,v=null,zt(h)===c&&(y=new y(f,a+"enter",k,n,h),y.target=d,y.relatedTarget=N,v=y),N=v,w&&k)t:{for(y=w,f=k,a=0,d=y;d;d=$t(d))a++;for(d=0,v=f;v;v=$t(v))d++;for(;0<a-d;)y=$t(y),a--;for(;0<d-a;)f=$t(f),d--;for(;a--;){if(y===f||f!==null&&y===f.alternate)break t;y=$t(y),f=$t(f)}y=null}else y=null;w!==null&&Su(m,p,w,y,!1),k!==null&&N!==null&&Su(m,N,k,y,!0)}}e:{if(p=c?Gt(c):window,w=p.nodeName&&p.nodeName.toLowerCase(),w==="select"||w==="input"&&p.type==="file")var S=Zf;else if(pu(p))if(bs)S=ed;else{S=qf;var C=Jf}else(w=p.nodeName)&&w.toLowerCase()==="input"&&(p.type==="checkbox"||p.type==="radio")&&(S=bf);if(S&&(S=S(e,c))){qs(m,S,n,h);break e}C&&C(e,p,c),e==="focusout"&&(C=p._wrapperState)&&C.controlled&&p.type==="number"&&so(p,"number",p.value)}switch(C=c?Gt(c):window,e){case"focusin":(pu(C)||C.contentEditable==="true")&&(Ht=C,So=c,jn=null);break;case"focusout":jn=So=Ht=null;break;case"mousedown":xo=!0;break;case"contextmenu":case"mouseup":case"dragend":xo=!1,yu(m,n,h);break;case"selectionchange":if(rd)break;case"keydown":case"keyup":yu(m,n,h)}var _;if(mi)e:{switch(e){case"compositionstart":var P="onCompositionStart";break e;case"compositionend":P="onCompositionEnd";break e;case"compositionupdate":P="onCompositionUpdate";break e}P=void 0}else Wt?Zs(e,n)&&(P="onCompositionEnd"):e==="keydown"&&n.keyCode===229&&(P="onCompositionStart");P&&(Xs&&n.locale!=="ko"&&(Wt||P!=="onCompositionStart"?P==="onCompositionEnd"&&Wt&&(_=Ys()):(ut=h,fi="value"in ut?ut.value:ut.textContent,Wt=!0)),C=Yr(c,P),0<C.length&&(P=new au(P,e,null,n,h),m.push({event:P,listeners:C}),_?P.data=_:(_=Js(n),_!==null&&(P.data=_)))),(_=Qf?Gf(e,n):Kf(e,n))&&(c=Yr(c,"onBeforeInput"),0<c.length&&(h=new au("onBeforeInput","beforeinput",null,n,h),m.push({event:h,listeners:c}),h.data=_))}aa(m,t)})}function Zn(e,t,n){return{instance:e,listener:t,currentTarget:n}}function Yr(e,t){for(var n=t+"Capture",r=[];e!==null;){var l=e,o=l.stateNode;l.tag===5&&o!==null&&(l=o,o=Wn(e,n),o!=null&&r.unshift(Zn(e,o,l)),o=Wn(e,t),o!=null&&r.push(Zn(e,o,l))),e=e.return}return r}function $t(e){if(e===null)return null;do e=e.return;while(e&&e.tag!==5);return e||null}function Su(e,t,n,r,l){for(var o=t._reactName,i=[];n!==null&&n!==r;){var u=n,s=u.alternate,c=u.stateNode;if(s!==null&&s===r)break;u.tag===5&&c!==null&&(u=c,l?(s=Wn(n,o),s!=null&&i.unshift(Zn(n,s,u))):l||(s=Wn(n,o),s!=null&&i.push(Zn(n,s,u)))),n=n.return}i.length!==0&&e.push({event:t,listeners:i})}var ud=/\r\n?/g,sd=/\u0000|\uFFFD/g;function xu(e){return(typeof e=="string"?e:""+e).replace(ud,`
+`).replace(sd,"")}function xr(e,t,n){if(t=xu(t),xu(e)!==t&&n)throw Error(g(425))}function Xr(){}var Eo=null,Co=null;function _o(e,t){return e==="textarea"||e==="noscript"||typeof t.children=="string"||typeof t.children=="number"||typeof t.dangerouslySetInnerHTML=="object"&&t.dangerouslySetInnerHTML!==null&&t.dangerouslySetInnerHTML.__html!=null}var Po=typeof setTimeout=="function"?setTimeout:void 0,ad=typeof clearTimeout=="function"?clearTimeout:void 0,Eu=typeof Promise=="function"?Promise:void 0,cd=typeof queueMicrotask=="function"?queueMicrotask:typeof Eu<"u"?function(e){return Eu.resolve(null).then(e).catch(fd)}:Po;function fd(e){setTimeout(function(){throw e})}function Hl(e,t){var n=t,r=0;do{var l=n.nextSibling;if(e.removeChild(n),l&&l.nodeType===8)if(n=l.data,n==="/$"){if(r===0){e.removeChild(l),Gn(t);return}r--}else n!=="$"&&n!=="$?"&&n!=="$!"||r++;n=l}while(n);Gn(t)}function dt(e){for(;e!=null;e=e.nextSibling){var t=e.nodeType;if(t===1||t===3)break;if(t===8){if(t=e.data,t==="$"||t==="$!"||t==="$?")break;if(t==="/$")return null}}return e}function Cu(e){e=e.previousSibling;for(var t=0;e;){if(e.nodeType===8){var n=e.data;if(n==="$"||n==="$!"||n==="$?"){if(t===0)return e;t--}else n==="/$"&&t++}e=e.previousSibling}return null}var vn=Math.random().toString(36).slice(2),Ae="__reactFiber$"+vn,Jn="__reactProps$"+vn,Ye="__reactContainer$"+vn,zo="__reactEvents$"+vn,dd="__reactListeners$"+vn,pd="__reactHandles$"+vn;function zt(e){var t=e[Ae];if(t)return t;for(var n=e.parentNode;n;){if(t=n[Ye]||n[Ae]){if(n=t.alternate,t.child!==null||n!==null&&n.child!==null)for(e=Cu(e);e!==null;){if(n=e[Ae])return n;e=Cu(e)}return t}e=n,n=e.parentNode}return null}function ur(e){return e=e[Ae]||e[Ye],!e||e.tag!==5&&e.tag!==6&&e.tag!==13&&e.tag!==3?null:e}function Gt(e){if(e.tag===5||e.tag===6)return e.stateNode;throw Error(g(33))}function vl(e){return e[Jn]||null}var No=[],Kt=-1;function kt(e){return{current:e}}function V(e){0>Kt||(e.current=No[Kt],No[Kt]=null,Kt--)}function D(e,t){Kt++,No[Kt]=e.current,e.current=t}var yt={},ie=kt(yt),me=kt(!1),Mt=yt;function sn(e,t){var n=e.type.contextTypes;if(!n)return yt;var r=e.stateNode;if(r&&r.__reactInternalMemoizedUnmaskedChildContext===t)return r.__reactInternalMemoizedMaskedChildContext;var l={},o;for(o in n)l[o]=t[o];return r&&(e=e.stateNode,e.__reactInternalMemoizedUnmaskedChildContext=t,e.__reactInternalMemoizedMaskedChildContext=l),l}function he(e){return e=e.childContextTypes,e!=null}function Zr(){V(me),V(ie)}function _u(e,t,n){if(ie.current!==yt)throw Error(g(168));D(ie,t),D(me,n)}function fa(e,t,n){var r=e.stateNode;if(t=t.childContextTypes,typeof r.getChildContext!="function")return n;r=r.getChildContext();for(var l in r)if(!(l in t))throw Error(g(108,Zc(e)||"Unknown",l));return Q({},n,r)}function Jr(e){return e=(e=e.stateNode)&&e.__reactInternalMemoizedMergedChildContext||yt,Mt=ie.current,D(ie,e),D(me,me.current),!0}function Pu(e,t,n){var r=e.stateNode;if(!r)throw Error(g(169));n?(e=fa(e,t,Mt),r.__reactInternalMemoizedMergedChildContext=e,V(me),V(ie),D(ie,e)):V(me),D(me,n)}var We=null,gl=!1,Ql=!1;function da(e){We===null?We=[e]:We.push(e)}function md(e){gl=!0,da(e)}function St(){if(!Ql&&We!==null){Ql=!0;var e=0,t=j;try{var n=We;for(j=1;e<n.length;e++){var r=n[e];do r=r(!0);while(r!==null)}We=null,gl=!1}catch(l){throw We!==null&&(We=We.slice(e+1)),Ds(ui,St),l}finally{j=t,Ql=!1}}return null}var Yt=[],Xt=0,qr=null,br=0,Ee=[],Ce=0,Ot=null,He=1,Qe="";function _t(e,t){Yt[Xt++]=br,Yt[Xt++]=qr,qr=e,br=t}function pa(e,t,n){Ee[Ce++]=He,Ee[Ce++]=Qe,Ee[Ce++]=Ot,Ot=e;var r=He;e=Qe;var l=32-Oe(r)-1;r&=~(1<<l),n+=1;var o=32-Oe(t)+l;if(30<o){var i=l-l%5;o=(r&(1<<i)-1).toString(32),r>>=i,l-=i,He=1<<32-Oe(t)+l|n<<l|r,Qe=o+e}else He=1<<o|n<<l|r,Qe=e}function vi(e){e.return!==null&&(_t(e,1),pa(e,1,0))}function gi(e){for(;e===qr;)qr=Yt[--Xt],Yt[Xt]=null,br=Yt[--Xt],Yt[Xt]=null;for(;e===Ot;)Ot=Ee[--Ce],Ee[Ce]=null,Qe=Ee[--Ce],Ee[Ce]=null,He=Ee[--Ce],Ee[Ce]=null}var we=null,ye=null,B=!1,Me=null;function ma(e,t){var n=_e(5,null,null,0);n.elementType="DELETED",n.stateNode=t,n.return=e,t=e.deletions,t===null?(e.deletions=[n],e.flags|=16):t.push(n)}function zu(e,t){switch(e.tag){case 5:var n=e.type;return t=t.nodeType!==1||n.toLowerCase()!==t.nodeName.toLowerCase()?null:t,t!==null?(e.stateNode=t,we=e,ye=dt(t.firstChild),!0):!1;case 6:return t=e.pendingProps===""||t.nodeType!==3?null:t,t!==null?(e.stateNode=t,we=e,ye=null,!0):!1;case 13:return t=t.nodeType!==8?null:t,t!==null?(n=Ot!==null?{id:He,overflow:Qe}:null,e.memoizedState={dehydrated:t,treeContext:n,retryLane:1073741824},n=_e(18,null,null,0),n.stateNode=t,n.return=e,e.child=n,we=e,ye=null,!0):!1;default:return!1}}function To(e){return(e.mode&1)!==0&&(e.flags&128)===0}function Lo(e){if(B){var t=ye;if(t){var n=t;if(!zu(e,t)){if(To(e))throw Error(g(418));t=dt(n.nextSibling);var r=we;t&&zu(e,t)?ma(r,n):(e.flags=e.flags&-4097|2,B=!1,we=e)}}else{if(To(e))throw Error(g(418));e.flags=e.flags&-4097|2,B=!1,we=e}}}function Nu(e){for(e=e.return;e!==null&&e.tag!==5&&e.tag!==3&&e.tag!==13;)e=e.return;we=e}function Er(e){if(e!==we)return!1;if(!B)return Nu(e),B=!0,!1;var t;if((t=e.tag!==3)&&!(t=e.tag!==5)&&(t=e.type,t=t!=="head"&&t!=="body"&&!_o(e.type,e.memoizedProps)),t&&(t=ye)){if(To(e))throw ha(),Error(g(418));for(;t;)ma(e,t),t=dt(t.nextSibling)}if(Nu(e),e.tag===13){if(e=e.memoizedState,e=e!==null?e.dehydrated:null,!e)throw Error(g(317));e:{for(e=e.nextSibling,t=0;e;){if(e.nodeType===8){var n=e.data;if(n==="/$"){if(t===0){ye=dt(e.nextSibling);break e}t--}else n!=="$"&&n!=="$!"&&n!=="$?"||t++}e=e.nextSibling}ye=null}}else ye=we?dt(e.stateNode.nextSibling):null;return!0}function ha(){for(var e=ye;e;)e=dt(e.nextSibling)}function an(){ye=we=null,B=!1}function yi(e){Me===null?Me=[e]:Me.push(e)}var hd=Je.ReactCurrentBatchConfig;function En(e,t,n){if(e=n.ref,e!==null&&typeof e!="function"&&typeof e!="object"){if(n._owner){if(n=n._owner,n){if(n.tag!==1)throw Error(g(309));var r=n.stateNode}if(!r)throw Error(g(147,e));var l=r,o=""+e;return t!==null&&t.ref!==null&&typeof t.ref=="function"&&t.ref._stringRef===o?t.ref:(t=function(i){var u=l.refs;i===null?delete u[o]:u[o]=i},t._stringRef=o,t)}if(typeof e!="string")throw Error(g(284));if(!n._owner)throw Error(g(290,e))}return e}function Cr(e,t){throw e=Object.prototype.toString.call(t),Error(g(31,e==="[object Object]"?"object with keys {"+Object.keys(t).join(", ")+"}":e))}function Tu(e){var t=e._init;return t(e._payload)}function va(e){function t(f,a){if(e){var d=f.deletions;d===null?(f.deletions=[a],f.flags|=16):d.push(a)}}function n(f,a){if(!e)return null;for(;a!==null;)t(f,a),a=a.sibling;return null}function r(f,a){for(f=new Map;a!==null;)a.key!==null?f.set(a.key,a):f.set(a.index,a),a=a.sibling;return f}function l(f,a){return f=vt(f,a),f.index=0,f.sibling=null,f}function o(f,a,d){return f.index=d,e?(d=f.alternate,d!==null?(d=d.index,d<a?(f.flags|=2,a):d):(f.flags|=2,a)):(f.flags|=1048576,a)}function i(f){return e&&f.alternate===null&&(f.flags|=2),f}function u(f,a,d,v){return a===null||a.tag!==6?(a=ql(d,f.mode,v),a.return=f,a):(a=l(a,d),a.return=f,a)}function s(f,a,d,v){var S=d.type;return S===Bt?h(f,a,d.props.children,v,d.key):a!==null&&(a.elementType===S||typeof S=="object"&&S!==null&&S.$$typeof===rt&&Tu(S)===a.type)?(v=l(a,d.props),v.ref=En(f,a,d),v.return=f,v):(v=$r(d.type,d.key,d.props,null,f.mode,v),v.ref=En(f,a,d),v.return=f,v)}function c(f,a,d,v){return a===null||a.tag!==4||a.stateNode.containerInfo!==d.containerInfo||a.stateNode.implementation!==d.implementation?(a=bl(d,f.mode,v),a.return=f,a):(a=l(a,d.children||[]),a.return=f,a)}function h(f,a,d,v,S){return a===null||a.tag!==7?(a=Rt(d,f.mode,v,S),a.return=f,a):(a=l(a,d),a.return=f,a)}function m(f,a,d){if(typeof a=="string"&&a!==""||typeof a=="number")return a=ql(""+a,f.mode,d),a.return=f,a;if(typeof a=="object"&&a!==null){switch(a.$$typeof){case pr:return d=$r(a.type,a.key,a.props,null,f.mode,d),d.ref=En(f,null,a),d.return=f,d;case Vt:return a=bl(a,f.mode,d),a.return=f,a;case rt:var v=a._init;return m(f,v(a._payload),d)}if(Tn(a)||yn(a))return a=Rt(a,f.mode,d,null),a.return=f,a;Cr(f,a)}return null}function p(f,a,d,v){var S=a!==null?a.key:null;if(typeof d=="string"&&d!==""||typeof d=="number")return S!==null?null:u(f,a,""+d,v);if(typeof d=="object"&&d!==null){switch(d.$$typeof){case pr:return d.key===S?s(f,a,d,v):null;case Vt:return d.key===S?c(f,a,d,v):null;case rt:return S=d._init,p(f,a,S(d._payload),v)}if(Tn(d)||yn(d))return S!==null?null:h(f,a,d,v,null);Cr(f,d)}return null}function w(f,a,d,v,S){if(typeof v=="string"&&v!==""||typeof v=="number")return f=f.get(d)||null,u(a,f,""+v,S);if(typeof v=="object"&&v!==null){switch(v.$$typeof){case pr:return f=f.get(v.key===null?d:v.key)||null,s(a,f,v,S);case Vt:return f=f.get(v.key===null?d:v.key)||null,c(a,f,v,S);case rt:var C=v._init;return w(f,a,d,C(v._payload),S)}if(Tn(v)||yn(v))return f=f.get(d)||null,h(a,f,v,S,null);Cr(a,v)}return null}function k(f,a,d,v){for(var S=null,C=null,_=a,P=a=0,A=null;_!==null&&P<d.length;P++){_.index>P?(A=_,_=null):A=_.sibling;var R=p(f,_,d[P],v);if(R===null){_===null&&(_=A);break}e&&_&&R.alternate===null&&t(f,_),a=o(R,a,P),C===null?S=R:C.sibling=R,C=R,_=A}if(P===d.length)return n(f,_),B&&_t(f,P),S;if(_===null){for(;P<d.length;P++)_=m(f,d[P],v),_!==null&&(a=o(_,a,P),C===null?S=_:C.sibling=_,C=_);return B&&_t(f,P),S}for(_=r(f,_);P<d.length;P++)A=w(_,f,P,d[P],v),A!==null&&(e&&A.alternate!==null&&_.delete(A.key===null?P:A.key),a=o(A,a,P),C===null?S=A:C.sibling=A,C=A);return e&&_.forEach(function(ue){return t(f,ue)}),B&&_t(f,P),S}function y(f,a,d,v){var S=yn(d);if(typeof S!="function")throw Error(g(150));if(d=S.call(d),d==null)throw Error(g(151));for(var C=S=null,_=a,P=a=0,A=null,R=d.next();_!==null&&!R.done;P++,R=d.next()){_.index>P?(A=_,_=null):A=_.sibling;var ue=p(f,_,R.value,v);if(ue===null){_===null&&(_=A);break}e&&_&&ue.alternate===null&&t(f,_),a=o(ue,a,P),C===null?S=ue:C.sibling=ue,C=ue,_=A}if(R.done)return n(f,_),B&&_t(f,P),S;if(_===null){for(;!R.done;P++,R=d.next())R=m(f,R.value,v),R!==null&&(a=o(R,a,P),C===null?S=R:C.sibling=R,C=R);return B&&_t(f,P),S}for(_=r(f,_);!R.done;P++,R=d.next())R=w(_,f,P,R.value,v),R!==null&&(e&&R.alternate!==null&&_.delete(R.key===null?P:R.key),a=o(R,a,P),C===null?S=R:C.sibling=R,C=R);return e&&_.forEach(function(F){return t(f,F)}),B&&_t(f,P),S}function N(f,a,d,v){if(typeof d=="object"&&d!==null&&d.type===Bt&&d.key===null&&(d=d.props.children),typeof d=="object"&&d!==null){switch(d.$$typeof){case pr:e:{for(var S=d.key,C=a;C!==null;){if(C.key===S){if(S=d.type,S===Bt){if(C.tag===7){n(f,C.sibling),a=l(C,d.props.children),a.return=f,f=a;break e}}else if(C.elementType===S||typeof S=="object"&&S!==null&&S.$$typeof===rt&&Tu(S)===C.type){n(f,C.sibling),a=l(C,d.props),a.ref=En(f,C,d),a.return=f,f=a;break e}n(f,C);break}else t(f,C);C=C.sibling}d.type===Bt?(a=Rt(d.props.children,f.mode,v,d.key),a.return=f,f=a):(v=$r(d.type,d.key,d.props,null,f.mode,v),v.ref=En(f,a,d),v.return=f,f=v)}return i(f);case Vt:e:{for(C=d.key;a!==null;){if(a.key===C)if(a.tag===4&&a.stateNode.containerInfo===d.containerInfo&&a.stateNode.implementation===d.implementation){n(f,a.sibling),a=l(a,d.children||[]),a.return=f,f=a;break e}else{n(f,a);break}else t(f,a);a=a.sibling}a=bl(d,f.mode,v),a.return=f,f=a}return i(f);case rt:return C=d._init,N(f,a,C(d._payload),v)}if(Tn(d))return k(f,a,d,v);if(yn(d))return y(f,a,d,v);Cr(f,d)}return typeof d=="string"&&d!==""||typeof d=="number"?(d=""+d,a!==null&&a.tag===6?(n(f,a.sibling),a=l(a,d),a.return=f,f=a):(n(f,a),a=ql(d,f.mode,v),a.return=f,f=a),i(f)):n(f,a)}return N}var cn=va(!0),ga=va(!1),el=kt(null),tl=null,Zt=null,wi=null;function ki(){wi=Zt=tl=null}function Si(e){var t=el.current;V(el),e._currentValue=t}function Ro(e,t,n){for(;e!==null;){var r=e.alternate;if((e.childLanes&t)!==t?(e.childLanes|=t,r!==null&&(r.childLanes|=t)):r!==null&&(r.childLanes&t)!==t&&(r.childLanes|=t),e===n)break;e=e.return}}function rn(e,t){tl=e,wi=Zt=null,e=e.dependencies,e!==null&&e.firstContext!==null&&(e.lanes&t&&(pe=!0),e.firstContext=null)}function ze(e){var t=e._currentValue;if(wi!==e)if(e={context:e,memoizedValue:t,next:null},Zt===null){if(tl===null)throw Error(g(308));Zt=e,tl.dependencies={lanes:0,firstContext:e}}else Zt=Zt.next=e;return t}var Nt=null;function xi(e){Nt===null?Nt=[e]:Nt.push(e)}function ya(e,t,n,r){var l=t.interleaved;return l===null?(n.next=n,xi(t)):(n.next=l.next,l.next=n),t.interleaved=n,Xe(e,r)}function Xe(e,t){e.lanes|=t;var n=e.alternate;for(n!==null&&(n.lanes|=t),n=e,e=e.return;e!==null;)e.childLanes|=t,n=e.alternate,n!==null&&(n.childLanes|=t),n=e,e=e.return;return n.tag===3?n.stateNode:null}var lt=!1;function Ei(e){e.updateQueue={baseState:e.memoizedState,firstBaseUpdate:null,lastBaseUpdate:null,shared:{pending:null,interleaved:null,lanes:0},effects:null}}function wa(e,t){e=e.updateQueue,t.updateQueue===e&&(t.updateQueue={baseState:e.baseState,firstBaseUpdate:e.firstBaseUpdate,lastBaseUpdate:e.lastBaseUpdate,shared:e.shared,effects:e.effects})}function Ge(e,t){return{eventTime:e,lane:t,tag:0,payload:null,callback:null,next:null}}function pt(e,t,n){var r=e.updateQueue;if(r===null)return null;if(r=r.shared,O&2){var l=r.pending;return l===null?t.next=t:(t.next=l.next,l.next=t),r.pending=t,Xe(e,n)}return l=r.interleaved,l===null?(t.next=t,xi(r)):(t.next=l.next,l.next=t),r.interleaved=t,Xe(e,n)}function Ir(e,t,n){if(t=t.updateQueue,t!==null&&(t=t.shared,(n&4194240)!==0)){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,si(e,n)}}function Lu(e,t){var n=e.updateQueue,r=e.alternate;if(r!==null&&(r=r.updateQueue,n===r)){var l=null,o=null;if(n=n.firstBaseUpdate,n!==null){do{var i={eventTime:n.eventTime,lane:n.lane,tag:n.tag,payload:n.payload,callback:n.callback,next:null};o===null?l=o=i:o=o.next=i,n=n.next}while(n!==null);o===null?l=o=t:o=o.next=t}else l=o=t;n={baseState:r.baseState,firstBaseUpdate:l,lastBaseUpdate:o,shared:r.shared,effects:r.effects},e.updateQueue=n;return}e=n.lastBaseUpdate,e===null?n.firstBaseUpdate=t:e.next=t,n.lastBaseUpdate=t}function nl(e,t,n,r){var l=e.updateQueue;lt=!1;var o=l.firstBaseUpdate,i=l.lastBaseUpdate,u=l.shared.pending;if(u!==null){l.shared.pending=null;var s=u,c=s.next;s.next=null,i===null?o=c:i.next=c,i=s;var h=e.alternate;h!==null&&(h=h.updateQueue,u=h.lastBaseUpdate,u!==i&&(u===null?h.firstBaseUpdate=c:u.next=c,h.lastBaseUpdate=s))}if(o!==null){var m=l.baseState;i=0,h=c=s=null,u=o;do{var p=u.lane,w=u.eventTime;if((r&p)===p){h!==null&&(h=h.next={eventTime:w,lane:0,tag:u.tag,payload:u.payload,callback:u.callback,next:null});e:{var k=e,y=u;switch(p=t,w=n,y.tag){case 1:if(k=y.payload,typeof k=="function"){m=k.call(w,m,p);break e}m=k;break e;case 3:k.flags=k.flags&-65537|128;case 0:if(k=y.payload,p=typeof k=="function"?k.call(w,m,p):k,p==null)break e;m=Q({},m,p);break e;case 2:lt=!0}}u.callback!==null&&u.lane!==0&&(e.flags|=64,p=l.effects,p===null?l.effects=[u]:p.push(u))}else w={eventTime:w,lane:p,tag:u.tag,payload:u.payload,callback:u.callback,next:null},h===null?(c=h=w,s=m):h=h.next=w,i|=p;if(u=u.next,u===null){if(u=l.shared.pending,u===null)break;p=u,u=p.next,p.next=null,l.lastBaseUpdate=p,l.shared.pending=null}}while(!0);if(h===null&&(s=m),l.baseState=s,l.firstBaseUpdate=c,l.lastBaseUpdate=h,t=l.shared.interleaved,t!==null){l=t;do i|=l.lane,l=l.next;while(l!==t)}else o===null&&(l.shared.lanes=0);Ft|=i,e.lanes=i,e.memoizedState=m}}function Ru(e,t,n){if(e=t.effects,t.effects=null,e!==null)for(t=0;t<e.length;t++){var r=e[t],l=r.callback;if(l!==null){if(r.callback=null,r=n,typeof l!="function")throw Error(g(191,l));l.call(r)}}}var sr={},$e=kt(sr),qn=kt(sr),bn=kt(sr);function Tt(e){if(e===sr)throw Error(g(174));return e}function Ci(e,t){switch(D(bn,t),D(qn,e),D($e,sr),e=t.nodeType,e){case 9:case 11:t=(t=t.documentElement)?t.namespaceURI:co(null,"");break;default:e=e===8?t.parentNode:t,t=e.namespaceURI||null,e=e.tagName,t=co(t,e)}V($e),D($e,t)}function fn(){V($e),V(qn),V(bn)}function ka(e){Tt(bn.current);var t=Tt($e.current),n=co(t,e.type);t!==n&&(D(qn,e),D($e,n))}function _i(e){qn.current===e&&(V($e),V(qn))}var W=kt(0);function rl(e){for(var t=e;t!==null;){if(t.tag===13){var n=t.memoizedState;if(n!==null&&(n=n.dehydrated,n===null||n.data==="$?"||n.data==="$!"))return t}else if(t.tag===19&&t.memoizedProps.revealOrder!==void 0){if(t.flags&128)return t}else if(t.child!==null){t.child.return=t,t=t.child;continue}if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return null;t=t.return}t.sibling.return=t.return,t=t.sibling}return null}var Gl=[];function Pi(){for(var e=0;e<Gl.length;e++)Gl[e]._workInProgressVersionPrimary=null;Gl.length=0}var Fr=Je.ReactCurrentDispatcher,Kl=Je.ReactCurrentBatchConfig,It=0,H=null,X=null,q=null,ll=!1,Dn=!1,er=0,vd=0;function re(){throw Error(g(321))}function zi(e,t){if(t===null)return!1;for(var n=0;n<t.length&&n<e.length;n++)if(!Fe(e[n],t[n]))return!1;return!0}function Ni(e,t,n,r,l,o){if(It=o,H=t,t.memoizedState=null,t.updateQueue=null,t.lanes=0,Fr.current=e===null||e.memoizedState===null?kd:Sd,e=n(r,l),Dn){o=0;do{if(Dn=!1,er=0,25<=o)throw Error(g(301));o+=1,q=X=null,t.updateQueue=null,Fr.current=xd,e=n(r,l)}while(Dn)}if(Fr.current=ol,t=X!==null&&X.next!==null,It=0,q=X=H=null,ll=!1,t)throw Error(g(300));return e}function Ti(){var e=er!==0;return er=0,e}function De(){var e={memoizedState:null,baseState:null,baseQueue:null,queue:null,next:null};return q===null?H.memoizedState=q=e:q=q.next=e,q}function Ne(){if(X===null){var e=H.alternate;e=e!==null?e.memoizedState:null}else e=X.next;var t=q===null?H.memoizedState:q.next;if(t!==null)q=t,X=e;else{if(e===null)throw Error(g(310));X=e,e={memoizedState:X.memoizedState,baseState:X.baseState,baseQueue:X.baseQueue,queue:X.queue,next:null},q===null?H.memoizedState=q=e:q=q.next=e}return q}function tr(e,t){return typeof t=="function"?t(e):t}function Yl(e){var t=Ne(),n=t.queue;if(n===null)throw Error(g(311));n.lastRenderedReducer=e;var r=X,l=r.baseQueue,o=n.pending;if(o!==null){if(l!==null){var i=l.next;l.next=o.next,o.next=i}r.baseQueue=l=o,n.pending=null}if(l!==null){o=l.next,r=r.baseState;var u=i=null,s=null,c=o;do{var h=c.lane;if((It&h)===h)s!==null&&(s=s.next={lane:0,action:c.action,hasEagerState:c.hasEagerState,eagerState:c.eagerState,next:null}),r=c.hasEagerState?c.eagerState:e(r,c.action);else{var m={lane:h,action:c.action,hasEagerState:c.hasEagerState,eagerState:c.eagerState,next:null};s===null?(u=s=m,i=r):s=s.next=m,H.lanes|=h,Ft|=h}c=c.next}while(c!==null&&c!==o);s===null?i=r:s.next=u,Fe(r,t.memoizedState)||(pe=!0),t.memoizedState=r,t.baseState=i,t.baseQueue=s,n.lastRenderedState=r}if(e=n.interleaved,e!==null){l=e;do o=l.lane,H.lanes|=o,Ft|=o,l=l.next;while(l!==e)}else l===null&&(n.lanes=0);return[t.memoizedState,n.dispatch]}function Xl(e){var t=Ne(),n=t.queue;if(n===null)throw Error(g(311));n.lastRenderedReducer=e;var r=n.dispatch,l=n.pending,o=t.memoizedState;if(l!==null){n.pending=null;var i=l=l.next;do o=e(o,i.action),i=i.next;while(i!==l);Fe(o,t.memoizedState)||(pe=!0),t.memoizedState=o,t.baseQueue===null&&(t.baseState=o),n.lastRenderedState=o}return[o,r]}function Sa(){}function xa(e,t){var n=H,r=Ne(),l=t(),o=!Fe(r.memoizedState,l);if(o&&(r.memoizedState=l,pe=!0),r=r.queue,Li(_a.bind(null,n,r,e),[e]),r.getSnapshot!==t||o||q!==null&&q.memoizedState.tag&1){if(n.flags|=2048,nr(9,Ca.bind(null,n,r,l,t),void 0,null),b===null)throw Error(g(349));It&30||Ea(n,t,l)}return l}function Ea(e,t,n){e.flags|=16384,e={getSnapshot:t,value:n},t=H.updateQueue,t===null?(t={lastEffect:null,stores:null},H.updateQueue=t,t.stores=[e]):(n=t.stores,n===null?t.stores=[e]:n.push(e))}function Ca(e,t,n,r){t.value=n,t.getSnapshot=r,Pa(t)&&za(e)}function _a(e,t,n){return n(function(){Pa(t)&&za(e)})}function Pa(e){var t=e.getSnapshot;e=e.value;try{var n=t();return!Fe(e,n)}catch{return!0}}function za(e){var t=Xe(e,1);t!==null&&Ie(t,e,1,-1)}function Mu(e){var t=De();return typeof e=="function"&&(e=e()),t.memoizedState=t.baseState=e,e={pending:null,interleaved:null,lanes:0,dispatch:null,lastRenderedReducer:tr,lastRenderedState:e},t.queue=e,e=e.dispatch=wd.bind(null,H,e),[t.memoizedState,e]}function nr(e,t,n,r){return e={tag:e,create:t,destroy:n,deps:r,next:null},t=H.updateQueue,t===null?(t={lastEffect:null,stores:null},H.updateQueue=t,t.lastEffect=e.next=e):(n=t.lastEffect,n===null?t.lastEffect=e.next=e:(r=n.next,n.next=e,e.next=r,t.lastEffect=e)),e}function Na(){return Ne().memoizedState}function jr(e,t,n,r){var l=De();H.flags|=e,l.memoizedState=nr(1|t,n,void 0,r===void 0?null:r)}function yl(e,t,n,r){var l=Ne();r=r===void 0?null:r;var o=void 0;if(X!==null){var i=X.memoizedState;if(o=i.destroy,r!==null&&zi(r,i.deps)){l.memoizedState=nr(t,n,o,r);return}}H.flags|=e,l.memoizedState=nr(1|t,n,o,r)}function Ou(e,t){return jr(8390656,8,e,t)}function Li(e,t){return yl(2048,8,e,t)}function Ta(e,t){return yl(4,2,e,t)}function La(e,t){return yl(4,4,e,t)}function Ra(e,t){if(typeof t=="function")return e=e(),t(e),function(){t(null)};if(t!=null)return e=e(),t.current=e,function(){t.current=null}}function Ma(e,t,n){return n=n!=null?n.concat([e]):null,yl(4,4,Ra.bind(null,t,e),n)}function Ri(){}function Oa(e,t){var n=Ne();t=t===void 0?null:t;var r=n.memoizedState;return r!==null&&t!==null&&zi(t,r[1])?r[0]:(n.memoizedState=[e,t],e)}function Ia(e,t){var n=Ne();t=t===void 0?null:t;var r=n.memoizedState;return r!==null&&t!==null&&zi(t,r[1])?r[0]:(e=e(),n.memoizedState=[e,t],e)}function Fa(e,t,n){return It&21?(Fe(n,t)||(n=$s(),H.lanes|=n,Ft|=n,e.baseState=!0),t):(e.baseState&&(e.baseState=!1,pe=!0),e.memoizedState=n)}function gd(e,t){var n=j;j=n!==0&&4>n?n:4,e(!0);var r=Kl.transition;Kl.transition={};try{e(!1),t()}finally{j=n,Kl.transition=r}}function ja(){return Ne().memoizedState}function yd(e,t,n){var r=ht(e);if(n={lane:r,action:n,hasEagerState:!1,eagerState:null,next:null},Da(e))Aa(t,n);else if(n=ya(e,t,n,r),n!==null){var l=ae();Ie(n,e,r,l),Ua(n,t,r)}}function wd(e,t,n){var r=ht(e),l={lane:r,action:n,hasEagerState:!1,eagerState:null,next:null};if(Da(e))Aa(t,l);else{var o=e.alternate;if(e.lanes===0&&(o===null||o.lanes===0)&&(o=t.lastRenderedReducer,o!==null))try{var i=t.lastRenderedState,u=o(i,n);if(l.hasEagerState=!0,l.eagerState=u,Fe(u,i)){var s=t.interleaved;s===null?(l.next=l,xi(t)):(l.next=s.next,s.next=l),t.interleaved=l;return}}catch{}finally{}n=ya(e,t,l,r),n!==null&&(l=ae(),Ie(n,e,r,l),Ua(n,t,r))}}function Da(e){var t=e.alternate;return e===H||t!==null&&t===H}function Aa(e,t){Dn=ll=!0;var n=e.pending;n===null?t.next=t:(t.next=n.next,n.next=t),e.pending=t}function Ua(e,t,n){if(n&4194240){var r=t.lanes;r&=e.pendingLanes,n|=r,t.lanes=n,si(e,n)}}var ol={readContext:ze,useCallback:re,useContext:re,useEffect:re,useImperativeHandle:re,useInsertionEffect:re,useLayoutEffect:re,useMemo:re,useReducer:re,useRef:re,useState:re,useDebugValue:re,useDeferredValue:re,useTransition:re,useMutableSource:re,useSyncExternalStore:re,useId:re,unstable_isNewReconciler:!1},kd={readContext:ze,useCallback:function(e,t){return De().memoizedState=[e,t===void 0?null:t],e},useContext:ze,useEffect:Ou,useImperativeHandle:function(e,t,n){return n=n!=null?n.concat([e]):null,jr(4194308,4,Ra.bind(null,t,e),n)},useLayoutEffect:function(e,t){return jr(4194308,4,e,t)},useInsertionEffect:function(e,t){return jr(4,2,e,t)},useMemo:function(e,t){var n=De();return t=t===void 0?null:t,e=e(),n.memoizedState=[e,t],e},useReducer:function(e,t,n){var r=De();return t=n!==void 0?n(t):t,r.memoizedState=r.baseState=t,e={pending:null,interleaved:null,lanes:0,dispatch:null,lastRenderedReducer:e,lastRenderedState:t},r.queue=e,e=e.dispatch=yd.bind(null,H,e),[r.memoizedState,e]},useRef:function(e){var t=De();return e={current:e},t.memoizedState=e},useState:Mu,useDebugValue:Ri,useDeferredValue:function(e){return De().memoizedState=e},useTransition:function(){var e=Mu(!1),t=e[0];return e=gd.bind(null,e[1]),De().memoizedState=e,[t,e]},useMutableSource:function(){},useSyncExternalStore:function(e,t,n){var r=H,l=De();if(B){if(n===void 0)throw Error(g(407));n=n()}else{if(n=t(),b===null)throw Error(g(349));It&30||Ea(r,t,n)}l.memoizedState=n;var o={value:n,getSnapshot:t};return l.queue=o,Ou(_a.bind(null,r,o,e),[e]),r.flags|=2048,nr(9,Ca.bind(null,r,o,n,t),void 0,null),n},useId:function(){var e=De(),t=b.identifierPrefix;if(B){var n=Qe,r=He;n=(r&~(1<<32-Oe(r)-1)).toString(32)+n,t=":"+t+"R"+n,n=er++,0<n&&(t+="H"+n.toString(32)),t+=":"}else n=vd++,t=":"+t+"r"+n.toString(32)+":";return e.memoizedState=t},unstable_isNewReconciler:!1},Sd={readContext:ze,useCallback:Oa,useContext:ze,useEffect:Li,useImperativeHandle:Ma,useInsertionEffect:Ta,useLayoutEffect:La,useMemo:Ia,useReducer:Yl,useRef:Na,useState:function(){return Yl(tr)},useDebugValue:Ri,useDeferredValue:function(e){var t=Ne();return Fa(t,X.memoizedState,e)},useTransition:function(){var e=Yl(tr)[0],t=Ne().memoizedState;return[e,t]},useMutableSource:Sa,useSyncExternalStore:xa,useId:ja,unstable_isNewReconciler:!1},xd={readContext:ze,useCallback:Oa,useContext:ze,useEffect:Li,useImperativeHandle:Ma,useInsertionEffect:Ta,useLayoutEffect:La,useMemo:Ia,useReducer:Xl,useRef:Na,useState:function(){return Xl(tr)},useDebugValue:Ri,useDeferredValue:function(e){var t=Ne();return X===null?t.memoizedState=e:Fa(t,X.memoizedState,e)},useTransition:function(){var e=Xl(tr)[0],t=Ne().memoizedState;return[e,t]},useMutableSource:Sa,useSyncExternalStore:xa,useId:ja,unstable_isNewReconciler:!1};function Le(e,t){if(e&&e.defaultProps){t=Q({},t),e=e.defaultProps;for(var n in e)t[n]===void 0&&(t[n]=e[n]);return t}return t}function Mo(e,t,n,r){t=e.memoizedState,n=n(r,t),n=n==null?t:Q({},t,n),e.memoizedState=n,e.lanes===0&&(e.updateQueue.baseState=n)}var wl={isMounted:function(e){return(e=e._reactInternals)?At(e)===e:!1},enqueueSetState:function(e,t,n){e=e._reactInternals;var r=ae(),l=ht(e),o=Ge(r,l);o.payload=t,n!=null&&(o.callback=n),t=pt(e,o,l),t!==null&&(Ie(t,e,l,r),Ir(t,e,l))},enqueueReplaceState:function(e,t,n){e=e._reactInternals;var r=ae(),l=ht(e),o=Ge(r,l);o.tag=1,o.payload=t,n!=null&&(o.callback=n),t=pt(e,o,l),t!==null&&(Ie(t,e,l,r),Ir(t,e,l))},enqueueForceUpdate:function(e,t){e=e._reactInternals;var n=ae(),r=ht(e),l=Ge(n,r);l.tag=2,t!=null&&(l.callback=t),t=pt(e,l,r),t!==null&&(Ie(t,e,r,n),Ir(t,e,r))}};function Iu(e,t,n,r,l,o,i){return e=e.stateNode,typeof e.shouldComponentUpdate=="function"?e.shouldComponentUpdate(r,o,i):t.prototype&&t.prototype.isPureReactComponent?!Yn(n,r)||!Yn(l,o):!0}function $a(e,t,n){var r=!1,l=yt,o=t.contextType;return typeof o=="object"&&o!==null?o=ze(o):(l=he(t)?Mt:ie.current,r=t.contextTypes,o=(r=r!=null)?sn(e,l):yt),t=new t(n,o),e.memoizedState=t.state!==null&&t.state!==void 0?t.state:null,t.updater=wl,e.stateNode=t,t._reactInternals=e,r&&(e=e.stateNode,e.__reactInternalMemoizedUnmaskedChildContext=l,e.__reactInternalMemoizedMaskedChildContext=o),t}function Fu(e,t,n,r){e=t.state,typeof t.componentWillReceiveProps=="function"&&t.componentWillReceiveProps(n,r),typeof t.UNSAFE_componentWillReceiveProps=="function"&&t.UNSAFE_componentWillReceiveProps(n,r),t.state!==e&&wl.enqueueReplaceState(t,t.state,null)}function Oo(e,t,n,r){var l=e.stateNode;l.props=n,l.state=e.memoizedState,l.refs={},Ei(e);var o=t.contextType;typeof o=="object"&&o!==null?l.context=ze(o):(o=he(t)?Mt:ie.current,l.context=sn(e,o)),l.state=e.memoizedState,o=t.getDerivedStateFromProps,typeof o=="function"&&(Mo(e,t,o,n),l.state=e.memoizedState),typeof t.getDerivedStateFromProps=="function"||typeof l.getSnapshotBeforeUpdate=="function"||typeof l.UNSAFE_componentWillMount!="function"&&typeof l.componentWillMount!="function"||(t=l.state,typeof l.componentWillMount=="function"&&l.componentWillMount(),typeof l.UNSAFE_componentWillMount=="function"&&l.UNSAFE_componentWillMount(),t!==l.state&&wl.enqueueReplaceState(l,l.state,null),nl(e,n,l,r),l.state=e.memoizedState),typeof l.componentDidMount=="function"&&(e.flags|=4194308)}function dn(e,t){try{var n="",r=t;do n+=Xc(r),r=r.return;while(r);var l=n}catch(o){l=`
+Error generating stack: `+o.message+`
+`+o.stack}return{value:e,source:t,stack:l,digest:null}}function Zl(e,t,n){return{value:e,source:null,stack:n??null,digest:t??null}}function Io(e,t){try{console.error(t.value)}catch(n){setTimeout(function(){throw n})}}var Ed=typeof WeakMap=="function"?WeakMap:Map;function Va(e,t,n){n=Ge(-1,n),n.tag=3,n.payload={element:null};var r=t.value;return n.callback=function(){ul||(ul=!0,Ho=r),Io(e,t)},n}function Ba(e,t,n){n=Ge(-1,n),n.tag=3;var r=e.type.getDerivedStateFromError;if(typeof r=="function"){var l=t.value;n.payload=function(){return r(l)},n.callback=function(){Io(e,t)}}var o=e.stateNode;return o!==null&&typeof o.componentDidCatch=="function"&&(n.callback=function(){Io(e,t),typeof r!="function"&&(mt===null?mt=new Set([this]):mt.add(this));var i=t.stack;this.componentDidCatch(t.value,{componentStack:i!==null?i:""})}),n}function ju(e,t,n){var r=e.pingCache;if(r===null){r=e.pingCache=new Ed;var l=new Set;r.set(t,l)}else l=r.get(t),l===void 0&&(l=new Set,r.set(t,l));l.has(n)||(l.add(n),e=Dd.bind(null,e,t,n),t.then(e,e))}function Du(e){do{var t;if((t=e.tag===13)&&(t=e.memoizedState,t=t!==null?t.dehydrated!==null:!0),t)return e;e=e.return}while(e!==null);return null}function Au(e,t,n,r,l){return e.mode&1?(e.flags|=65536,e.lanes=l,e):(e===t?e.flags|=65536:(e.flags|=128,n.flags|=131072,n.flags&=-52805,n.tag===1&&(n.alternate===null?n.tag=17:(t=Ge(-1,1),t.tag=2,pt(n,t,1))),n.lanes|=1),e)}var Cd=Je.ReactCurrentOwner,pe=!1;function se(e,t,n,r){t.child=e===null?ga(t,null,n,r):cn(t,e.child,n,r)}function Uu(e,t,n,r,l){n=n.render;var o=t.ref;return rn(t,l),r=Ni(e,t,n,r,o,l),n=Ti(),e!==null&&!pe?(t.updateQueue=e.updateQueue,t.flags&=-2053,e.lanes&=~l,Ze(e,t,l)):(B&&n&&vi(t),t.flags|=1,se(e,t,r,l),t.child)}function $u(e,t,n,r,l){if(e===null){var o=n.type;return typeof o=="function"&&!Ui(o)&&o.defaultProps===void 0&&n.compare===null&&n.defaultProps===void 0?(t.tag=15,t.type=o,Wa(e,t,o,r,l)):(e=$r(n.type,null,r,t,t.mode,l),e.ref=t.ref,e.return=t,t.child=e)}if(o=e.child,!(e.lanes&l)){var i=o.memoizedProps;if(n=n.compare,n=n!==null?n:Yn,n(i,r)&&e.ref===t.ref)return Ze(e,t,l)}return t.flags|=1,e=vt(o,r),e.ref=t.ref,e.return=t,t.child=e}function Wa(e,t,n,r,l){if(e!==null){var o=e.memoizedProps;if(Yn(o,r)&&e.ref===t.ref)if(pe=!1,t.pendingProps=r=o,(e.lanes&l)!==0)e.flags&131072&&(pe=!0);else return t.lanes=e.lanes,Ze(e,t,l)}return Fo(e,t,n,r,l)}function Ha(e,t,n){var r=t.pendingProps,l=r.children,o=e!==null?e.memoizedState:null;if(r.mode==="hidden")if(!(t.mode&1))t.memoizedState={baseLanes:0,cachePool:null,transitions:null},D(qt,ge),ge|=n;else{if(!(n&1073741824))return e=o!==null?o.baseLanes|n:n,t.lanes=t.childLanes=1073741824,t.memoizedState={baseLanes:e,cachePool:null,transitions:null},t.updateQueue=null,D(qt,ge),ge|=e,null;t.memoizedState={baseLanes:0,cachePool:null,transitions:null},r=o!==null?o.baseLanes:n,D(qt,ge),ge|=r}else o!==null?(r=o.baseLanes|n,t.memoizedState=null):r=n,D(qt,ge),ge|=r;return se(e,t,l,n),t.child}function Qa(e,t){var n=t.ref;(e===null&&n!==null||e!==null&&e.ref!==n)&&(t.flags|=512,t.flags|=2097152)}function Fo(e,t,n,r,l){var o=he(n)?Mt:ie.current;return o=sn(t,o),rn(t,l),n=Ni(e,t,n,r,o,l),r=Ti(),e!==null&&!pe?(t.updateQueue=e.updateQueue,t.flags&=-2053,e.lanes&=~l,Ze(e,t,l)):(B&&r&&vi(t),t.flags|=1,se(e,t,n,l),t.child)}function Vu(e,t,n,r,l){if(he(n)){var o=!0;Jr(t)}else o=!1;if(rn(t,l),t.stateNode===null)Dr(e,t),$a(t,n,r),Oo(t,n,r,l),r=!0;else if(e===null){var i=t.stateNode,u=t.memoizedProps;i.props=u;var s=i.context,c=n.contextType;typeof c=="object"&&c!==null?c=ze(c):(c=he(n)?Mt:ie.current,c=sn(t,c));var h=n.getDerivedStateFromProps,m=typeof h=="function"||typeof i.getSnapshotBeforeUpdate=="function";m||typeof i.UNSAFE_componentWillReceiveProps!="function"&&typeof i.componentWillReceiveProps!="function"||(u!==r||s!==c)&&Fu(t,i,r,c),lt=!1;var p=t.memoizedState;i.state=p,nl(t,r,i,l),s=t.memoizedState,u!==r||p!==s||me.current||lt?(typeof h=="function"&&(Mo(t,n,h,r),s=t.memoizedState),(u=lt||Iu(t,n,u,r,p,s,c))?(m||typeof i.UNSAFE_componentWillMount!="function"&&typeof i.componentWillMount!="function"||(typeof i.componentWillMount=="function"&&i.componentWillMount(),typeof i.UNSAFE_componentWillMount=="function"&&i.UNSAFE_componentWillMount()),typeof i.componentDidMount=="function"&&(t.flags|=4194308)):(typeof i.componentDidMount=="function"&&(t.flags|=4194308),t.memoizedProps=r,t.memoizedState=s),i.props=r,i.state=s,i.context=c,r=u):(typeof i.componentDidMount=="function"&&(t.flags|=4194308),r=!1)}else{i=t.stateNode,wa(e,t),u=t.memoizedProps,c=t.type===t.elementType?u:Le(t.type,u),i.props=c,m=t.pendingProps,p=i.context,s=n.contextType,typeof s=="object"&&s!==null?s=ze(s):(s=he(n)?Mt:ie.current,s=sn(t,s));var w=n.getDerivedStateFromProps;(h=typeof w=="function"||typeof i.getSnapshotBeforeUpdate=="function")||typeof i.UNSAFE_componentWillReceiveProps!="function"&&typeof i.componentWillReceiveProps!="function"||(u!==m||p!==s)&&Fu(t,i,r,s),lt=!1,p=t.memoizedState,i.state=p,nl(t,r,i,l);var k=t.memoizedState;u!==m||p!==k||me.current||lt?(typeof w=="function"&&(Mo(t,n,w,r),k=t.memoizedState),(c=lt||Iu(t,n,c,r,p,k,s)||!1)?(h||typeof i.UNSAFE_componentWillUpdate!="function"&&typeof i.componentWillUpdate!="function"||(typeof i.componentWillUpdate=="function"&&i.componentWillUpdate(r,k,s),typeof i.UNSAFE_componentWillUpdate=="function"&&i.UNSAFE_componentWillUpdate(r,k,s)),typeof i.componentDidUpdate=="function"&&(t.flags|=4),typeof i.getSnapshotBeforeUpdate=="function"&&(t.flags|=1024)):(typeof i.componentDidUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=4),typeof i.getSnapshotBeforeUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=1024),t.memoizedProps=r,t.memoizedState=k),i.props=r,i.state=k,i.context=s,r=c):(typeof i.componentDidUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=4),typeof i.getSnapshotBeforeUpdate!="function"||u===e.memoizedProps&&p===e.memoizedState||(t.flags|=1024),r=!1)}return jo(e,t,n,r,o,l)}function jo(e,t,n,r,l,o){Qa(e,t);var i=(t.flags&128)!==0;if(!r&&!i)return l&&Pu(t,n,!1),Ze(e,t,o);r=t.stateNode,Cd.current=t;var u=i&&typeof n.getDerivedStateFromError!="function"?null:r.render();return t.flags|=1,e!==null&&i?(t.child=cn(t,e.child,null,o),t.child=cn(t,null,u,o)):se(e,t,u,o),t.memoizedState=r.state,l&&Pu(t,n,!0),t.child}function Ga(e){var t=e.stateNode;t.pendingContext?_u(e,t.pendingContext,t.pendingContext!==t.context):t.context&&_u(e,t.context,!1),Ci(e,t.containerInfo)}function Bu(e,t,n,r,l){return an(),yi(l),t.flags|=256,se(e,t,n,r),t.child}var Do={dehydrated:null,treeContext:null,retryLane:0};function Ao(e){return{baseLanes:e,cachePool:null,transitions:null}}function Ka(e,t,n){var r=t.pendingProps,l=W.current,o=!1,i=(t.flags&128)!==0,u;if((u=i)||(u=e!==null&&e.memoizedState===null?!1:(l&2)!==0),u?(o=!0,t.flags&=-129):(e===null||e.memoizedState!==null)&&(l|=1),D(W,l&1),e===null)return Lo(t),e=t.memoizedState,e!==null&&(e=e.dehydrated,e!==null)?(t.mode&1?e.data==="$!"?t.lanes=8:t.lanes=1073741824:t.lanes=1,null):(i=r.children,e=r.fallback,o?(r=t.mode,o=t.child,i={mode:"hidden",children:i},!(r&1)&&o!==null?(o.childLanes=0,o.pendingProps=i):o=xl(i,r,0,null),e=Rt(e,r,n,null),o.return=t,e.return=t,o.sibling=e,t.child=o,t.child.memoizedState=Ao(n),t.memoizedState=Do,e):Mi(t,i));if(l=e.memoizedState,l!==null&&(u=l.dehydrated,u!==null))return _d(e,t,i,r,u,l,n);if(o){o=r.fallback,i=t.mode,l=e.child,u=l.sibling;var s={mode:"hidden",children:r.children};return!(i&1)&&t.child!==l?(r=t.child,r.childLanes=0,r.pendingProps=s,t.deletions=null):(r=vt(l,s),r.subtreeFlags=l.subtreeFlags&14680064),u!==null?o=vt(u,o):(o=Rt(o,i,n,null),o.flags|=2),o.return=t,r.return=t,r.sibling=o,t.child=r,r=o,o=t.child,i=e.child.memoizedState,i=i===null?Ao(n):{baseLanes:i.baseLanes|n,cachePool:null,transitions:i.transitions},o.memoizedState=i,o.childLanes=e.childLanes&~n,t.memoizedState=Do,r}return o=e.child,e=o.sibling,r=vt(o,{mode:"visible",children:r.children}),!(t.mode&1)&&(r.lanes=n),r.return=t,r.sibling=null,e!==null&&(n=t.deletions,n===null?(t.deletions=[e],t.flags|=16):n.push(e)),t.child=r,t.memoizedState=null,r}function Mi(e,t){return t=xl({mode:"visible",children:t},e.mode,0,null),t.return=e,e.child=t}function _r(e,t,n,r){return r!==null&&yi(r),cn(t,e.child,null,n),e=Mi(t,t.pendingProps.children),e.flags|=2,t.memoizedState=null,e}function _d(e,t,n,r,l,o,i){if(n)return t.flags&256?(t.flags&=-257,r=Zl(Error(g(422))),_r(e,t,i,r)):t.memoizedState!==null?(t.child=e.child,t.flags|=128,null):(o=r.fallback,l=t.mode,r=xl({mode:"visible",children:r.children},l,0,null),o=Rt(o,l,i,null),o.flags|=2,r.return=t,o.return=t,r.sibling=o,t.child=r,t.mode&1&&cn(t,e.child,null,i),t.child.memoizedState=Ao(i),t.memoizedState=Do,o);if(!(t.mode&1))return _r(e,t,i,null);if(l.data==="$!"){if(r=l.nextSibling&&l.nextSibling.dataset,r)var u=r.dgst;return r=u,o=Error(g(419)),r=Zl(o,r,void 0),_r(e,t,i,r)}if(u=(i&e.childLanes)!==0,pe||u){if(r=b,r!==null){switch(i&-i){case 4:l=2;break;case 16:l=8;break;case 64:case 128:case 256:case 512:case 1024:case 2048:case 4096:case 8192:case 16384:case 32768:case 65536:case 131072:case 262144:case 524288:case 1048576:case 2097152:case 4194304:case 8388608:case 16777216:case 33554432:case 67108864:l=32;break;case 536870912:l=268435456;break;default:l=0}l=l&(r.suspendedLanes|i)?0:l,l!==0&&l!==o.retryLane&&(o.retryLane=l,Xe(e,l),Ie(r,e,l,-1))}return Ai(),r=Zl(Error(g(421))),_r(e,t,i,r)}return l.data==="$?"?(t.flags|=128,t.child=e.child,t=Ad.bind(null,e),l._reactRetry=t,null):(e=o.treeContext,ye=dt(l.nextSibling),we=t,B=!0,Me=null,e!==null&&(Ee[Ce++]=He,Ee[Ce++]=Qe,Ee[Ce++]=Ot,He=e.id,Qe=e.overflow,Ot=t),t=Mi(t,r.children),t.flags|=4096,t)}function Wu(e,t,n){e.lanes|=t;var r=e.alternate;r!==null&&(r.lanes|=t),Ro(e.return,t,n)}function Jl(e,t,n,r,l){var o=e.memoizedState;o===null?e.memoizedState={isBackwards:t,rendering:null,renderingStartTime:0,last:r,tail:n,tailMode:l}:(o.isBackwards=t,o.rendering=null,o.renderingStartTime=0,o.last=r,o.tail=n,o.tailMode=l)}function Ya(e,t,n){var r=t.pendingProps,l=r.revealOrder,o=r.tail;if(se(e,t,r.children,n),r=W.current,r&2)r=r&1|2,t.flags|=128;else{if(e!==null&&e.flags&128)e:for(e=t.child;e!==null;){if(e.tag===13)e.memoizedState!==null&&Wu(e,n,t);else if(e.tag===19)Wu(e,n,t);else if(e.child!==null){e.child.return=e,e=e.child;continue}if(e===t)break e;for(;e.sibling===null;){if(e.return===null||e.return===t)break e;e=e.return}e.sibling.return=e.return,e=e.sibling}r&=1}if(D(W,r),!(t.mode&1))t.memoizedState=null;else switch(l){case"forwards":for(n=t.child,l=null;n!==null;)e=n.alternate,e!==null&&rl(e)===null&&(l=n),n=n.sibling;n=l,n===null?(l=t.child,t.child=null):(l=n.sibling,n.sibling=null),Jl(t,!1,l,n,o);break;case"backwards":for(n=null,l=t.child,t.child=null;l!==null;){if(e=l.alternate,e!==null&&rl(e)===null){t.child=l;break}e=l.sibling,l.sibling=n,n=l,l=e}Jl(t,!0,n,null,o);break;case"together":Jl(t,!1,null,null,void 0);break;default:t.memoizedState=null}return t.child}function Dr(e,t){!(t.mode&1)&&e!==null&&(e.alternate=null,t.alternate=null,t.flags|=2)}function Ze(e,t,n){if(e!==null&&(t.dependencies=e.dependencies),Ft|=t.lanes,!(n&t.childLanes))return null;if(e!==null&&t.child!==e.child)throw Error(g(153));if(t.child!==null){for(e=t.child,n=vt(e,e.pendingProps),t.child=n,n.return=t;e.sibling!==null;)e=e.sibling,n=n.sibling=vt(e,e.pendingProps),n.return=t;n.sibling=null}return t.child}function Pd(e,t,n){switch(t.tag){case 3:Ga(t),an();break;case 5:ka(t);break;case 1:he(t.type)&&Jr(t);break;case 4:Ci(t,t.stateNode.containerInfo);break;case 10:var r=t.type._context,l=t.memoizedProps.value;D(el,r._currentValue),r._currentValue=l;break;case 13:if(r=t.memoizedState,r!==null)return r.dehydrated!==null?(D(W,W.current&1),t.flags|=128,null):n&t.child.childLanes?Ka(e,t,n):(D(W,W.current&1),e=Ze(e,t,n),e!==null?e.sibling:null);D(W,W.current&1);break;case 19:if(r=(n&t.childLanes)!==0,e.flags&128){if(r)return Ya(e,t,n);t.flags|=128}if(l=t.memoizedState,l!==null&&(l.rendering=null,l.tail=null,l.lastEffect=null),D(W,W.current),r)break;return null;case 22:case 23:return t.lanes=0,Ha(e,t,n)}return Ze(e,t,n)}var Xa,Uo,Za,Ja;Xa=function(e,t){for(var n=t.child;n!==null;){if(n.tag===5||n.tag===6)e.appendChild(n.stateNode);else if(n.tag!==4&&n.child!==null){n.child.return=n,n=n.child;continue}if(n===t)break;for(;n.sibling===null;){if(n.return===null||n.return===t)return;n=n.return}n.sibling.return=n.return,n=n.sibling}};Uo=function(){};Za=function(e,t,n,r){var l=e.memoizedProps;if(l!==r){e=t.stateNode,Tt($e.current);var o=null;switch(n){case"input":l=io(e,l),r=io(e,r),o=[];break;case"select":l=Q({},l,{value:void 0}),r=Q({},r,{value:void 0}),o=[];break;case"textarea":l=ao(e,l),r=ao(e,r),o=[];break;default:typeof l.onClick!="function"&&typeof r.onClick=="function"&&(e.onclick=Xr)}fo(n,r);var i;n=null;for(c in l)if(!r.hasOwnProperty(c)&&l.hasOwnProperty(c)&&l[c]!=null)if(c==="style"){var u=l[c];for(i in u)u.hasOwnProperty(i)&&(n||(n={}),n[i]="")}else c!=="dangerouslySetInnerHTML"&&c!=="children"&&c!=="suppressContentEditableWarning"&&c!=="suppressHydrationWarning"&&c!=="autoFocus"&&(Vn.hasOwnProperty(c)?o||(o=[]):(o=o||[]).push(c,null));for(c in r){var s=r[c];if(u=l!=null?l[c]:void 0,r.hasOwnProperty(c)&&s!==u&&(s!=null||u!=null))if(c==="style")if(u){for(i in u)!u.hasOwnProperty(i)||s&&s.hasOwnProperty(i)||(n||(n={}),n[i]="");for(i in s)s.hasOwnProperty(i)&&u[i]!==s[i]&&(n||(n={}),n[i]=s[i])}else n||(o||(o=[]),o.push(c,n)),n=s;else c==="dangerouslySetInnerHTML"?(s=s?s.__html:void 0,u=u?u.__html:void 0,s!=null&&u!==s&&(o=o||[]).push(c,s)):c==="children"?typeof s!="string"&&typeof s!="number"||(o=o||[]).push(c,""+s):c!=="suppressContentEditableWarning"&&c!=="suppressHydrationWarning"&&(Vn.hasOwnProperty(c)?(s!=null&&c==="onScroll"&&$("scroll",e),o||u===s||(o=[])):(o=o||[]).push(c,s))}n&&(o=o||[]).push("style",n);var c=o;(t.updateQueue=c)&&(t.flags|=4)}};Ja=function(e,t,n,r){n!==r&&(t.flags|=4)};function Cn(e,t){if(!B)switch(e.tailMode){case"hidden":t=e.tail;for(var n=null;t!==null;)t.alternate!==null&&(n=t),t=t.sibling;n===null?e.tail=null:n.sibling=null;break;case"collapsed":n=e.tail;for(var r=null;n!==null;)n.alternate!==null&&(r=n),n=n.sibling;r===null?t||e.tail===null?e.tail=null:e.tail.sibling=null:r.sibling=null}}function le(e){var t=e.alternate!==null&&e.alternate.child===e.child,n=0,r=0;if(t)for(var l=e.child;l!==null;)n|=l.lanes|l.childLanes,r|=l.subtreeFlags&14680064,r|=l.flags&14680064,l.return=e,l=l.sibling;else for(l=e.child;l!==null;)n|=l.lanes|l.childLanes,r|=l.subtreeFlags,r|=l.flags,l.return=e,l=l.sibling;return e.subtreeFlags|=r,e.childLanes=n,t}function zd(e,t,n){var r=t.pendingProps;switch(gi(t),t.tag){case 2:case 16:case 15:case 0:case 11:case 7:case 8:case 12:case 9:case 14:return le(t),null;case 1:return he(t.type)&&Zr(),le(t),null;case 3:return r=t.stateNode,fn(),V(me),V(ie),Pi(),r.pendingContext&&(r.context=r.pendingContext,r.pendingContext=null),(e===null||e.child===null)&&(Er(t)?t.flags|=4:e===null||e.memoizedState.isDehydrated&&!(t.flags&256)||(t.flags|=1024,Me!==null&&(Ko(Me),Me=null))),Uo(e,t),le(t),null;case 5:_i(t);var l=Tt(bn.current);if(n=t.type,e!==null&&t.stateNode!=null)Za(e,t,n,r,l),e.ref!==t.ref&&(t.flags|=512,t.flags|=2097152);else{if(!r){if(t.stateNode===null)throw Error(g(166));return le(t),null}if(e=Tt($e.current),Er(t)){r=t.stateNode,n=t.type;var o=t.memoizedProps;switch(r[Ae]=t,r[Jn]=o,e=(t.mode&1)!==0,n){case"dialog":$("cancel",r),$("close",r);break;case"iframe":case"object":case"embed":$("load",r);break;case"video":case"audio":for(l=0;l<Rn.length;l++)$(Rn[l],r);break;case"source":$("error",r);break;case"img":case"image":case"link":$("error",r),$("load",r);break;case"details":$("toggle",r);break;case"input":qi(r,o),$("invalid",r);break;case"select":r._wrapperState={wasMultiple:!!o.multiple},$("invalid",r);break;case"textarea":eu(r,o),$("invalid",r)}fo(n,o),l=null;for(var i in o)if(o.hasOwnProperty(i)){var u=o[i];i==="children"?typeof u=="string"?r.textContent!==u&&(o.suppressHydrationWarning!==!0&&xr(r.textContent,u,e),l=["children",u]):typeof u=="number"&&r.textContent!==""+u&&(o.suppressHydrationWarning!==!0&&xr(r.textContent,u,e),l=["children",""+u]):Vn.hasOwnProperty(i)&&u!=null&&i==="onScroll"&&$("scroll",r)}switch(n){case"input":mr(r),bi(r,o,!0);break;case"textarea":mr(r),tu(r);break;case"select":case"option":break;default:typeof o.onClick=="function"&&(r.onclick=Xr)}r=l,t.updateQueue=r,r!==null&&(t.flags|=4)}else{i=l.nodeType===9?l:l.ownerDocument,e==="http://www.w3.org/1999/xhtml"&&(e=_s(n)),e==="http://www.w3.org/1999/xhtml"?n==="script"?(e=i.createElement("div"),e.innerHTML="<script><\/script>",e=e.removeChild(e.firstChild)):typeof r.is=="string"?e=i.createElement(n,{is:r.is}):(e=i.createElement(n),n==="select"&&(i=e,r.multiple?i.multiple=!0:r.size&&(i.size=r.size))):e=i.createElementNS(e,n),e[Ae]=t,e[Jn]=r,Xa(e,t,!1,!1),t.stateNode=e;e:{switch(i=po(n,r),n){case"dialog":$("cancel",e),$("close",e),l=r;break;case"iframe":case"object":case"embed":$("load",e),l=r;break;case"video":case"audio":for(l=0;l<Rn.length;l++)$(Rn[l],e);l=r;break;case"source":$("error",e),l=r;break;case"img":case"image":case"link":$("error",e),$("load",e),l=r;break;case"details":$("toggle",e),l=r;break;case"input":qi(e,r),l=io(e,r),$("invalid",e);break;case"option":l=r;break;case"select":e._wrapperState={wasMultiple:!!r.multiple},l=Q({},r,{value:void 0}),$("invalid",e);break;case"textarea":eu(e,r),l=ao(e,r),$("invalid",e);break;default:l=r}fo(n,l),u=l;for(o in u)if(u.hasOwnProperty(o)){var s=u[o];o==="style"?Ns(e,s):o==="dangerouslySetInnerHTML"?(s=s?s.__html:void 0,s!=null&&Ps(e,s)):o==="children"?typeof s=="string"?(n!=="textarea"||s!=="")&&Bn(e,s):typeof s=="number"&&Bn(e,""+s):o!=="suppressContentEditableWarning"&&o!=="suppressHydrationWarning"&&o!=="autoFocus"&&(Vn.hasOwnProperty(o)?s!=null&&o==="onScroll"&&$("scroll",e):s!=null&&ni(e,o,s,i))}switch(n){case"input":mr(e),bi(e,r,!1);break;case"textarea":mr(e),tu(e);break;case"option":r.value!=null&&e.setAttribute("value",""+gt(r.value));break;case"select":e.multiple=!!r.multiple,o=r.value,o!=null?bt(e,!!r.multiple,o,!1):r.defaultValue!=null&&bt(e,!!r.multiple,r.defaultValue,!0);break;default:typeof l.onClick=="function"&&(e.onclick=Xr)}switch(n){case"button":case"input":case"select":case"textarea":r=!!r.autoFocus;break e;case"img":r=!0;break e;default:r=!1}}r&&(t.flags|=4)}t.ref!==null&&(t.flags|=512,t.flags|=2097152)}return le(t),null;case 6:if(e&&t.stateNode!=null)Ja(e,t,e.memoizedProps,r);else{if(typeof r!="string"&&t.stateNode===null)throw Error(g(166));if(n=Tt(bn.current),Tt($e.current),Er(t)){if(r=t.stateNode,n=t.memoizedProps,r[Ae]=t,(o=r.nodeValue!==n)&&(e=we,e!==null))switch(e.tag){case 3:xr(r.nodeValue,n,(e.mode&1)!==0);break;case 5:e.memoizedProps.suppressHydrationWarning!==!0&&xr(r.nodeValue,n,(e.mode&1)!==0)}o&&(t.flags|=4)}else r=(n.nodeType===9?n:n.ownerDocument).createTextNode(r),r[Ae]=t,t.stateNode=r}return le(t),null;case 13:if(V(W),r=t.memoizedState,e===null||e.memoizedState!==null&&e.memoizedState.dehydrated!==null){if(B&&ye!==null&&t.mode&1&&!(t.flags&128))ha(),an(),t.flags|=98560,o=!1;else if(o=Er(t),r!==null&&r.dehydrated!==null){if(e===null){if(!o)throw Error(g(318));if(o=t.memoizedState,o=o!==null?o.dehydrated:null,!o)throw Error(g(317));o[Ae]=t}else an(),!(t.flags&128)&&(t.memoizedState=null),t.flags|=4;le(t),o=!1}else Me!==null&&(Ko(Me),Me=null),o=!0;if(!o)return t.flags&65536?t:null}return t.flags&128?(t.lanes=n,t):(r=r!==null,r!==(e!==null&&e.memoizedState!==null)&&r&&(t.child.flags|=8192,t.mode&1&&(e===null||W.current&1?Z===0&&(Z=3):Ai())),t.updateQueue!==null&&(t.flags|=4),le(t),null);case 4:return fn(),Uo(e,t),e===null&&Xn(t.stateNode.containerInfo),le(t),null;case 10:return Si(t.type._context),le(t),null;case 17:return he(t.type)&&Zr(),le(t),null;case 19:if(V(W),o=t.memoizedState,o===null)return le(t),null;if(r=(t.flags&128)!==0,i=o.rendering,i===null)if(r)Cn(o,!1);else{if(Z!==0||e!==null&&e.flags&128)for(e=t.child;e!==null;){if(i=rl(e),i!==null){for(t.flags|=128,Cn(o,!1),r=i.updateQueue,r!==null&&(t.updateQueue=r,t.flags|=4),t.subtreeFlags=0,r=n,n=t.child;n!==null;)o=n,e=r,o.flags&=14680066,i=o.alternate,i===null?(o.childLanes=0,o.lanes=e,o.child=null,o.subtreeFlags=0,o.memoizedProps=null,o.memoizedState=null,o.updateQueue=null,o.dependencies=null,o.stateNode=null):(o.childLanes=i.childLanes,o.lanes=i.lanes,o.child=i.child,o.subtreeFlags=0,o.deletions=null,o.memoizedProps=i.memoizedProps,o.memoizedState=i.memoizedState,o.updateQueue=i.updateQueue,o.type=i.type,e=i.dependencies,o.dependencies=e===null?null:{lanes:e.lanes,firstContext:e.firstContext}),n=n.sibling;return D(W,W.current&1|2),t.child}e=e.sibling}o.tail!==null&&K()>pn&&(t.flags|=128,r=!0,Cn(o,!1),t.lanes=4194304)}else{if(!r)if(e=rl(i),e!==null){if(t.flags|=128,r=!0,n=e.updateQueue,n!==null&&(t.updateQueue=n,t.flags|=4),Cn(o,!0),o.tail===null&&o.tailMode==="hidden"&&!i.alternate&&!B)return le(t),null}else 2*K()-o.renderingStartTime>pn&&n!==1073741824&&(t.flags|=128,r=!0,Cn(o,!1),t.lanes=4194304);o.isBackwards?(i.sibling=t.child,t.child=i):(n=o.last,n!==null?n.sibling=i:t.child=i,o.last=i)}return o.tail!==null?(t=o.tail,o.rendering=t,o.tail=t.sibling,o.renderingStartTime=K(),t.sibling=null,n=W.current,D(W,r?n&1|2:n&1),t):(le(t),null);case 22:case 23:return Di(),r=t.memoizedState!==null,e!==null&&e.memoizedState!==null!==r&&(t.flags|=8192),r&&t.mode&1?ge&1073741824&&(le(t),t.subtreeFlags&6&&(t.flags|=8192)):le(t),null;case 24:return null;case 25:return null}throw Error(g(156,t.tag))}function Nd(e,t){switch(gi(t),t.tag){case 1:return he(t.type)&&Zr(),e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 3:return fn(),V(me),V(ie),Pi(),e=t.flags,e&65536&&!(e&128)?(t.flags=e&-65537|128,t):null;case 5:return _i(t),null;case 13:if(V(W),e=t.memoizedState,e!==null&&e.dehydrated!==null){if(t.alternate===null)throw Error(g(340));an()}return e=t.flags,e&65536?(t.flags=e&-65537|128,t):null;case 19:return V(W),null;case 4:return fn(),null;case 10:return Si(t.type._context),null;case 22:case 23:return Di(),null;case 24:return null;default:return null}}var Pr=!1,oe=!1,Td=typeof WeakSet=="function"?WeakSet:Set,E=null;function Jt(e,t){var n=e.ref;if(n!==null)if(typeof n=="function")try{n(null)}catch(r){G(e,t,r)}else n.current=null}function $o(e,t,n){try{n()}catch(r){G(e,t,r)}}var Hu=!1;function Ld(e,t){if(Eo=Gr,e=na(),hi(e)){if("selectionStart"in e)var n={start:e.selectionStart,end:e.selectionEnd};else e:{n=(n=e.ownerDocument)&&n.defaultView||window;var r=n.getSelection&&n.getSelection();if(r&&r.rangeCount!==0){n=r.anchorNode;var l=r.anchorOffset,o=r.focusNode;r=r.focusOffset;try{n.nodeType,o.nodeType}catch{n=null;break e}var i=0,u=-1,s=-1,c=0,h=0,m=e,p=null;t:for(;;){for(var w;m!==n||l!==0&&m.nodeType!==3||(u=i+l),m!==o||r!==0&&m.nodeType!==3||(s=i+r),m.nodeType===3&&(i+=m.nodeValue.length),(w=m.firstChild)!==null;)p=m,m=w;for(;;){if(m===e)break t;if(p===n&&++c===l&&(u=i),p===o&&++h===r&&(s=i),(w=m.nextSibling)!==null)break;m=p,p=m.parentNode}m=w}n=u===-1||s===-1?null:{start:u,end:s}}else n=null}n=n||{start:0,end:0}}else n=null;for(Co={focusedElem:e,selectionRange:n},Gr=!1,E=t;E!==null;)if(t=E,e=t.child,(t.subtreeFlags&1028)!==0&&e!==null)e.return=t,E=e;else for(;E!==null;){t=E;try{var k=t.alternate;if(t.flags&1024)switch(t.tag){case 0:case 11:case 15:break;case 1:if(k!==null){var y=k.memoizedProps,N=k.memoizedState,f=t.stateNode,a=f.getSnapshotBeforeUpdate(t.elementType===t.type?y:Le(t.type,y),N);f.__reactInternalSnapshotBeforeUpdate=a}break;case 3:var d=t.stateNode.containerInfo;d.nodeType===1?d.textContent="":d.nodeType===9&&d.documentElement&&d.removeChild(d.documentElement);break;case 5:case 6:case 4:case 17:break;default:throw Error(g(163))}}catch(v){G(t,t.return,v)}if(e=t.sibling,e!==null){e.return=t.return,E=e;break}E=t.return}return k=Hu,Hu=!1,k}function An(e,t,n){var r=t.updateQueue;if(r=r!==null?r.lastEffect:null,r!==null){var l=r=r.next;do{if((l.tag&e)===e){var o=l.destroy;l.destroy=void 0,o!==void 0&&$o(t,n,o)}l=l.next}while(l!==r)}}function kl(e,t){if(t=t.updateQueue,t=t!==null?t.lastEffect:null,t!==null){var n=t=t.next;do{if((n.tag&e)===e){var r=n.create;n.destroy=r()}n=n.next}while(n!==t)}}function Vo(e){var t=e.ref;if(t!==null){var n=e.stateNode;switch(e.tag){case 5:e=n;break;default:e=n}typeof t=="function"?t(e):t.current=e}}function qa(e){var t=e.alternate;t!==null&&(e.alternate=null,qa(t)),e.child=null,e.deletions=null,e.sibling=null,e.tag===5&&(t=e.stateNode,t!==null&&(delete t[Ae],delete t[Jn],delete t[zo],delete t[dd],delete t[pd])),e.stateNode=null,e.return=null,e.dependencies=null,e.memoizedProps=null,e.memoizedState=null,e.pendingProps=null,e.stateNode=null,e.updateQueue=null}function ba(e){return e.tag===5||e.tag===3||e.tag===4}function Qu(e){e:for(;;){for(;e.sibling===null;){if(e.return===null||ba(e.return))return null;e=e.return}for(e.sibling.return=e.return,e=e.sibling;e.tag!==5&&e.tag!==6&&e.tag!==18;){if(e.flags&2||e.child===null||e.tag===4)continue e;e.child.return=e,e=e.child}if(!(e.flags&2))return e.stateNode}}function Bo(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?n.nodeType===8?n.parentNode.insertBefore(e,t):n.insertBefore(e,t):(n.nodeType===8?(t=n.parentNode,t.insertBefore(e,n)):(t=n,t.appendChild(e)),n=n._reactRootContainer,n!=null||t.onclick!==null||(t.onclick=Xr));else if(r!==4&&(e=e.child,e!==null))for(Bo(e,t,n),e=e.sibling;e!==null;)Bo(e,t,n),e=e.sibling}function Wo(e,t,n){var r=e.tag;if(r===5||r===6)e=e.stateNode,t?n.insertBefore(e,t):n.appendChild(e);else if(r!==4&&(e=e.child,e!==null))for(Wo(e,t,n),e=e.sibling;e!==null;)Wo(e,t,n),e=e.sibling}var ee=null,Re=!1;function et(e,t,n){for(n=n.child;n!==null;)ec(e,t,n),n=n.sibling}function ec(e,t,n){if(Ue&&typeof Ue.onCommitFiberUnmount=="function")try{Ue.onCommitFiberUnmount(dl,n)}catch{}switch(n.tag){case 5:oe||Jt(n,t);case 6:var r=ee,l=Re;ee=null,et(e,t,n),ee=r,Re=l,ee!==null&&(Re?(e=ee,n=n.stateNode,e.nodeType===8?e.parentNode.removeChild(n):e.removeChild(n)):ee.removeChild(n.stateNode));break;case 18:ee!==null&&(Re?(e=ee,n=n.stateNode,e.nodeType===8?Hl(e.parentNode,n):e.nodeType===1&&Hl(e,n),Gn(e)):Hl(ee,n.stateNode));break;case 4:r=ee,l=Re,ee=n.stateNode.containerInfo,Re=!0,et(e,t,n),ee=r,Re=l;break;case 0:case 11:case 14:case 15:if(!oe&&(r=n.updateQueue,r!==null&&(r=r.lastEffect,r!==null))){l=r=r.next;do{var o=l,i=o.destroy;o=o.tag,i!==void 0&&(o&2||o&4)&&$o(n,t,i),l=l.next}while(l!==r)}et(e,t,n);break;case 1:if(!oe&&(Jt(n,t),r=n.stateNode,typeof r.componentWillUnmount=="function"))try{r.props=n.memoizedProps,r.state=n.memoizedState,r.componentWillUnmount()}catch(u){G(n,t,u)}et(e,t,n);break;case 21:et(e,t,n);break;case 22:n.mode&1?(oe=(r=oe)||n.memoizedState!==null,et(e,t,n),oe=r):et(e,t,n);break;default:et(e,t,n)}}function Gu(e){var t=e.updateQueue;if(t!==null){e.updateQueue=null;var n=e.stateNode;n===null&&(n=e.stateNode=new Td),t.forEach(function(r){var l=Ud.bind(null,e,r);n.has(r)||(n.add(r),r.then(l,l))})}}function Te(e,t){var n=t.deletions;if(n!==null)for(var r=0;r<n.length;r++){var l=n[r];try{var o=e,i=t,u=i;e:for(;u!==null;){switch(u.tag){case 5:ee=u.stateNode,Re=!1;break e;case 3:ee=u.stateNode.containerInfo,Re=!0;break e;case 4:ee=u.stateNode.containerInfo,Re=!0;break e}u=u.return}if(ee===null)throw Error(g(160));ec(o,i,l),ee=null,Re=!1;var s=l.alternate;s!==null&&(s.return=null),l.return=null}catch(c){G(l,t,c)}}if(t.subtreeFlags&12854)for(t=t.child;t!==null;)tc(t,e),t=t.sibling}function tc(e,t){var n=e.alternate,r=e.flags;switch(e.tag){case 0:case 11:case 14:case 15:if(Te(t,e),je(e),r&4){try{An(3,e,e.return),kl(3,e)}catch(y){G(e,e.return,y)}try{An(5,e,e.return)}catch(y){G(e,e.return,y)}}break;case 1:Te(t,e),je(e),r&512&&n!==null&&Jt(n,n.return);break;case 5:if(Te(t,e),je(e),r&512&&n!==null&&Jt(n,n.return),e.flags&32){var l=e.stateNode;try{Bn(l,"")}catch(y){G(e,e.return,y)}}if(r&4&&(l=e.stateNode,l!=null)){var o=e.memoizedProps,i=n!==null?n.memoizedProps:o,u=e.type,s=e.updateQueue;if(e.updateQueue=null,s!==null)try{u==="input"&&o.type==="radio"&&o.name!=null&&Es(l,o),po(u,i);var c=po(u,o);for(i=0;i<s.length;i+=2){var h=s[i],m=s[i+1];h==="style"?Ns(l,m):h==="dangerouslySetInnerHTML"?Ps(l,m):h==="children"?Bn(l,m):ni(l,h,m,c)}switch(u){case"input":uo(l,o);break;case"textarea":Cs(l,o);break;case"select":var p=l._wrapperState.wasMultiple;l._wrapperState.wasMultiple=!!o.multiple;var w=o.value;w!=null?bt(l,!!o.multiple,w,!1):p!==!!o.multiple&&(o.defaultValue!=null?bt(l,!!o.multiple,o.defaultValue,!0):bt(l,!!o.multiple,o.multiple?[]:"",!1))}l[Jn]=o}catch(y){G(e,e.return,y)}}break;case 6:if(Te(t,e),je(e),r&4){if(e.stateNode===null)throw Error(g(162));l=e.stateNode,o=e.memoizedProps;try{l.nodeValue=o}catch(y){G(e,e.return,y)}}break;case 3:if(Te(t,e),je(e),r&4&&n!==null&&n.memoizedState.isDehydrated)try{Gn(t.containerInfo)}catch(y){G(e,e.return,y)}break;case 4:Te(t,e),je(e);break;case 13:Te(t,e),je(e),l=e.child,l.flags&8192&&(o=l.memoizedState!==null,l.stateNode.isHidden=o,!o||l.alternate!==null&&l.alternate.memoizedState!==null||(Fi=K())),r&4&&Gu(e);break;case 22:if(h=n!==null&&n.memoizedState!==null,e.mode&1?(oe=(c=oe)||h,Te(t,e),oe=c):Te(t,e),je(e),r&8192){if(c=e.memoizedState!==null,(e.stateNode.isHidden=c)&&!h&&e.mode&1)for(E=e,h=e.child;h!==null;){for(m=E=h;E!==null;){switch(p=E,w=p.child,p.tag){case 0:case 11:case 14:case 15:An(4,p,p.return);break;case 1:Jt(p,p.return);var k=p.stateNode;if(typeof k.componentWillUnmount=="function"){r=p,n=p.return;try{t=r,k.props=t.memoizedProps,k.state=t.memoizedState,k.componentWillUnmount()}catch(y){G(r,n,y)}}break;case 5:Jt(p,p.return);break;case 22:if(p.memoizedState!==null){Yu(m);continue}}w!==null?(w.return=p,E=w):Yu(m)}h=h.sibling}e:for(h=null,m=e;;){if(m.tag===5){if(h===null){h=m;try{l=m.stateNode,c?(o=l.style,typeof o.setProperty=="function"?o.setProperty("display","none","important"):o.display="none"):(u=m.stateNode,s=m.memoizedProps.style,i=s!=null&&s.hasOwnProperty("display")?s.display:null,u.style.display=zs("display",i))}catch(y){G(e,e.return,y)}}}else if(m.tag===6){if(h===null)try{m.stateNode.nodeValue=c?"":m.memoizedProps}catch(y){G(e,e.return,y)}}else if((m.tag!==22&&m.tag!==23||m.memoizedState===null||m===e)&&m.child!==null){m.child.return=m,m=m.child;continue}if(m===e)break e;for(;m.sibling===null;){if(m.return===null||m.return===e)break e;h===m&&(h=null),m=m.return}h===m&&(h=null),m.sibling.return=m.return,m=m.sibling}}break;case 19:Te(t,e),je(e),r&4&&Gu(e);break;case 21:break;default:Te(t,e),je(e)}}function je(e){var t=e.flags;if(t&2){try{e:{for(var n=e.return;n!==null;){if(ba(n)){var r=n;break e}n=n.return}throw Error(g(160))}switch(r.tag){case 5:var l=r.stateNode;r.flags&32&&(Bn(l,""),r.flags&=-33);var o=Qu(e);Wo(e,o,l);break;case 3:case 4:var i=r.stateNode.containerInfo,u=Qu(e);Bo(e,u,i);break;default:throw Error(g(161))}}catch(s){G(e,e.return,s)}e.flags&=-3}t&4096&&(e.flags&=-4097)}function Rd(e,t,n){E=e,nc(e)}function nc(e,t,n){for(var r=(e.mode&1)!==0;E!==null;){var l=E,o=l.child;if(l.tag===22&&r){var i=l.memoizedState!==null||Pr;if(!i){var u=l.alternate,s=u!==null&&u.memoizedState!==null||oe;u=Pr;var c=oe;if(Pr=i,(oe=s)&&!c)for(E=l;E!==null;)i=E,s=i.child,i.tag===22&&i.memoizedState!==null?Xu(l):s!==null?(s.return=i,E=s):Xu(l);for(;o!==null;)E=o,nc(o),o=o.sibling;E=l,Pr=u,oe=c}Ku(e)}else l.subtreeFlags&8772&&o!==null?(o.return=l,E=o):Ku(e)}}function Ku(e){for(;E!==null;){var t=E;if(t.flags&8772){var n=t.alternate;try{if(t.flags&8772)switch(t.tag){case 0:case 11:case 15:oe||kl(5,t);break;case 1:var r=t.stateNode;if(t.flags&4&&!oe)if(n===null)r.componentDidMount();else{var l=t.elementType===t.type?n.memoizedProps:Le(t.type,n.memoizedProps);r.componentDidUpdate(l,n.memoizedState,r.__reactInternalSnapshotBeforeUpdate)}var o=t.updateQueue;o!==null&&Ru(t,o,r);break;case 3:var i=t.updateQueue;if(i!==null){if(n=null,t.child!==null)switch(t.child.tag){case 5:n=t.child.stateNode;break;case 1:n=t.child.stateNode}Ru(t,i,n)}break;case 5:var u=t.stateNode;if(n===null&&t.flags&4){n=u;var s=t.memoizedProps;switch(t.type){case"button":case"input":case"select":case"textarea":s.autoFocus&&n.focus();break;case"img":s.src&&(n.src=s.src)}}break;case 6:break;case 4:break;case 12:break;case 13:if(t.memoizedState===null){var c=t.alternate;if(c!==null){var h=c.memoizedState;if(h!==null){var m=h.dehydrated;m!==null&&Gn(m)}}}break;case 19:case 17:case 21:case 22:case 23:case 25:break;default:throw Error(g(163))}oe||t.flags&512&&Vo(t)}catch(p){G(t,t.return,p)}}if(t===e){E=null;break}if(n=t.sibling,n!==null){n.return=t.return,E=n;break}E=t.return}}function Yu(e){for(;E!==null;){var t=E;if(t===e){E=null;break}var n=t.sibling;if(n!==null){n.return=t.return,E=n;break}E=t.return}}function Xu(e){for(;E!==null;){var t=E;try{switch(t.tag){case 0:case 11:case 15:var n=t.return;try{kl(4,t)}catch(s){G(t,n,s)}break;case 1:var r=t.stateNode;if(typeof r.componentDidMount=="function"){var l=t.return;try{r.componentDidMount()}catch(s){G(t,l,s)}}var o=t.return;try{Vo(t)}catch(s){G(t,o,s)}break;case 5:var i=t.return;try{Vo(t)}catch(s){G(t,i,s)}}}catch(s){G(t,t.return,s)}if(t===e){E=null;break}var u=t.sibling;if(u!==null){u.return=t.return,E=u;break}E=t.return}}var Md=Math.ceil,il=Je.ReactCurrentDispatcher,Oi=Je.ReactCurrentOwner,Pe=Je.ReactCurrentBatchConfig,O=0,b=null,Y=null,te=0,ge=0,qt=kt(0),Z=0,rr=null,Ft=0,Sl=0,Ii=0,Un=null,de=null,Fi=0,pn=1/0,Be=null,ul=!1,Ho=null,mt=null,zr=!1,st=null,sl=0,$n=0,Qo=null,Ar=-1,Ur=0;function ae(){return O&6?K():Ar!==-1?Ar:Ar=K()}function ht(e){return e.mode&1?O&2&&te!==0?te&-te:hd.transition!==null?(Ur===0&&(Ur=$s()),Ur):(e=j,e!==0||(e=window.event,e=e===void 0?16:Ks(e.type)),e):1}function Ie(e,t,n,r){if(50<$n)throw $n=0,Qo=null,Error(g(185));or(e,n,r),(!(O&2)||e!==b)&&(e===b&&(!(O&2)&&(Sl|=n),Z===4&&it(e,te)),ve(e,r),n===1&&O===0&&!(t.mode&1)&&(pn=K()+500,gl&&St()))}function ve(e,t){var n=e.callbackNode;hf(e,t);var r=Qr(e,e===b?te:0);if(r===0)n!==null&&lu(n),e.callbackNode=null,e.callbackPriority=0;else if(t=r&-r,e.callbackPriority!==t){if(n!=null&&lu(n),t===1)e.tag===0?md(Zu.bind(null,e)):da(Zu.bind(null,e)),cd(function(){!(O&6)&&St()}),n=null;else{switch(Vs(r)){case 1:n=ui;break;case 4:n=As;break;case 16:n=Hr;break;case 536870912:n=Us;break;default:n=Hr}n=cc(n,rc.bind(null,e))}e.callbackPriority=t,e.callbackNode=n}}function rc(e,t){if(Ar=-1,Ur=0,O&6)throw Error(g(327));var n=e.callbackNode;if(ln()&&e.callbackNode!==n)return null;var r=Qr(e,e===b?te:0);if(r===0)return null;if(r&30||r&e.expiredLanes||t)t=al(e,r);else{t=r;var l=O;O|=2;var o=oc();(b!==e||te!==t)&&(Be=null,pn=K()+500,Lt(e,t));do try{Fd();break}catch(u){lc(e,u)}while(!0);ki(),il.current=o,O=l,Y!==null?t=0:(b=null,te=0,t=Z)}if(t!==0){if(t===2&&(l=yo(e),l!==0&&(r=l,t=Go(e,l))),t===1)throw n=rr,Lt(e,0),it(e,r),ve(e,K()),n;if(t===6)it(e,r);else{if(l=e.current.alternate,!(r&30)&&!Od(l)&&(t=al(e,r),t===2&&(o=yo(e),o!==0&&(r=o,t=Go(e,o))),t===1))throw n=rr,Lt(e,0),it(e,r),ve(e,K()),n;switch(e.finishedWork=l,e.finishedLanes=r,t){case 0:case 1:throw Error(g(345));case 2:Pt(e,de,Be);break;case 3:if(it(e,r),(r&130023424)===r&&(t=Fi+500-K(),10<t)){if(Qr(e,0)!==0)break;if(l=e.suspendedLanes,(l&r)!==r){ae(),e.pingedLanes|=e.suspendedLanes&l;break}e.timeoutHandle=Po(Pt.bind(null,e,de,Be),t);break}Pt(e,de,Be);break;case 4:if(it(e,r),(r&4194240)===r)break;for(t=e.eventTimes,l=-1;0<r;){var i=31-Oe(r);o=1<<i,i=t[i],i>l&&(l=i),r&=~o}if(r=l,r=K()-r,r=(120>r?120:480>r?480:1080>r?1080:1920>r?1920:3e3>r?3e3:4320>r?4320:1960*Md(r/1960))-r,10<r){e.timeoutHandle=Po(Pt.bind(null,e,de,Be),r);break}Pt(e,de,Be);break;case 5:Pt(e,de,Be);break;default:throw Error(g(329))}}}return ve(e,K()),e.callbackNode===n?rc.bind(null,e):null}function Go(e,t){var n=Un;return e.current.memoizedState.isDehydrated&&(Lt(e,t).flags|=256),e=al(e,t),e!==2&&(t=de,de=n,t!==null&&Ko(t)),e}function Ko(e){de===null?de=e:de.push.apply(de,e)}function Od(e){for(var t=e;;){if(t.flags&16384){var n=t.updateQueue;if(n!==null&&(n=n.stores,n!==null))for(var r=0;r<n.length;r++){var l=n[r],o=l.getSnapshot;l=l.value;try{if(!Fe(o(),l))return!1}catch{return!1}}}if(n=t.child,t.subtreeFlags&16384&&n!==null)n.return=t,t=n;else{if(t===e)break;for(;t.sibling===null;){if(t.return===null||t.return===e)return!0;t=t.return}t.sibling.return=t.return,t=t.sibling}}return!0}function it(e,t){for(t&=~Ii,t&=~Sl,e.suspendedLanes|=t,e.pingedLanes&=~t,e=e.expirationTimes;0<t;){var n=31-Oe(t),r=1<<n;e[n]=-1,t&=~r}}function Zu(e){if(O&6)throw Error(g(327));ln();var t=Qr(e,0);if(!(t&1))return ve(e,K()),null;var n=al(e,t);if(e.tag!==0&&n===2){var r=yo(e);r!==0&&(t=r,n=Go(e,r))}if(n===1)throw n=rr,Lt(e,0),it(e,t),ve(e,K()),n;if(n===6)throw Error(g(345));return e.finishedWork=e.current.alternate,e.finishedLanes=t,Pt(e,de,Be),ve(e,K()),null}function ji(e,t){var n=O;O|=1;try{return e(t)}finally{O=n,O===0&&(pn=K()+500,gl&&St())}}function jt(e){st!==null&&st.tag===0&&!(O&6)&&ln();var t=O;O|=1;var n=Pe.transition,r=j;try{if(Pe.transition=null,j=1,e)return e()}finally{j=r,Pe.transition=n,O=t,!(O&6)&&St()}}function Di(){ge=qt.current,V(qt)}function Lt(e,t){e.finishedWork=null,e.finishedLanes=0;var n=e.timeoutHandle;if(n!==-1&&(e.timeoutHandle=-1,ad(n)),Y!==null)for(n=Y.return;n!==null;){var r=n;switch(gi(r),r.tag){case 1:r=r.type.childContextTypes,r!=null&&Zr();break;case 3:fn(),V(me),V(ie),Pi();break;case 5:_i(r);break;case 4:fn();break;case 13:V(W);break;case 19:V(W);break;case 10:Si(r.type._context);break;case 22:case 23:Di()}n=n.return}if(b=e,Y=e=vt(e.current,null),te=ge=t,Z=0,rr=null,Ii=Sl=Ft=0,de=Un=null,Nt!==null){for(t=0;t<Nt.length;t++)if(n=Nt[t],r=n.interleaved,r!==null){n.interleaved=null;var l=r.next,o=n.pending;if(o!==null){var i=o.next;o.next=l,r.next=i}n.pending=r}Nt=null}return e}function lc(e,t){do{var n=Y;try{if(ki(),Fr.current=ol,ll){for(var r=H.memoizedState;r!==null;){var l=r.queue;l!==null&&(l.pending=null),r=r.next}ll=!1}if(It=0,q=X=H=null,Dn=!1,er=0,Oi.current=null,n===null||n.return===null){Z=1,rr=t,Y=null;break}e:{var o=e,i=n.return,u=n,s=t;if(t=te,u.flags|=32768,s!==null&&typeof s=="object"&&typeof s.then=="function"){var c=s,h=u,m=h.tag;if(!(h.mode&1)&&(m===0||m===11||m===15)){var p=h.alternate;p?(h.updateQueue=p.updateQueue,h.memoizedState=p.memoizedState,h.lanes=p.lanes):(h.updateQueue=null,h.memoizedState=null)}var w=Du(i);if(w!==null){w.flags&=-257,Au(w,i,u,o,t),w.mode&1&&ju(o,c,t),t=w,s=c;var k=t.updateQueue;if(k===null){var y=new Set;y.add(s),t.updateQueue=y}else k.add(s);break e}else{if(!(t&1)){ju(o,c,t),Ai();break e}s=Error(g(426))}}else if(B&&u.mode&1){var N=Du(i);if(N!==null){!(N.flags&65536)&&(N.flags|=256),Au(N,i,u,o,t),yi(dn(s,u));break e}}o=s=dn(s,u),Z!==4&&(Z=2),Un===null?Un=[o]:Un.push(o),o=i;do{switch(o.tag){case 3:o.flags|=65536,t&=-t,o.lanes|=t;var f=Va(o,s,t);Lu(o,f);break e;case 1:u=s;var a=o.type,d=o.stateNode;if(!(o.flags&128)&&(typeof a.getDerivedStateFromError=="function"||d!==null&&typeof d.componentDidCatch=="function"&&(mt===null||!mt.has(d)))){o.flags|=65536,t&=-t,o.lanes|=t;var v=Ba(o,u,t);Lu(o,v);break e}}o=o.return}while(o!==null)}uc(n)}catch(S){t=S,Y===n&&n!==null&&(Y=n=n.return);continue}break}while(!0)}function oc(){var e=il.current;return il.current=ol,e===null?ol:e}function Ai(){(Z===0||Z===3||Z===2)&&(Z=4),b===null||!(Ft&268435455)&&!(Sl&268435455)||it(b,te)}function al(e,t){var n=O;O|=2;var r=oc();(b!==e||te!==t)&&(Be=null,Lt(e,t));do try{Id();break}catch(l){lc(e,l)}while(!0);if(ki(),O=n,il.current=r,Y!==null)throw Error(g(261));return b=null,te=0,Z}function Id(){for(;Y!==null;)ic(Y)}function Fd(){for(;Y!==null&&!of();)ic(Y)}function ic(e){var t=ac(e.alternate,e,ge);e.memoizedProps=e.pendingProps,t===null?uc(e):Y=t,Oi.current=null}function uc(e){var t=e;do{var n=t.alternate;if(e=t.return,t.flags&32768){if(n=Nd(n,t),n!==null){n.flags&=32767,Y=n;return}if(e!==null)e.flags|=32768,e.subtreeFlags=0,e.deletions=null;else{Z=6,Y=null;return}}else if(n=zd(n,t,ge),n!==null){Y=n;return}if(t=t.sibling,t!==null){Y=t;return}Y=t=e}while(t!==null);Z===0&&(Z=5)}function Pt(e,t,n){var r=j,l=Pe.transition;try{Pe.transition=null,j=1,jd(e,t,n,r)}finally{Pe.transition=l,j=r}return null}function jd(e,t,n,r){do ln();while(st!==null);if(O&6)throw Error(g(327));n=e.finishedWork;var l=e.finishedLanes;if(n===null)return null;if(e.finishedWork=null,e.finishedLanes=0,n===e.current)throw Error(g(177));e.callbackNode=null,e.callbackPriority=0;var o=n.lanes|n.childLanes;if(vf(e,o),e===b&&(Y=b=null,te=0),!(n.subtreeFlags&2064)&&!(n.flags&2064)||zr||(zr=!0,cc(Hr,function(){return ln(),null})),o=(n.flags&15990)!==0,n.subtreeFlags&15990||o){o=Pe.transition,Pe.transition=null;var i=j;j=1;var u=O;O|=4,Oi.current=null,Ld(e,n),tc(n,e),nd(Co),Gr=!!Eo,Co=Eo=null,e.current=n,Rd(n),uf(),O=u,j=i,Pe.transition=o}else e.current=n;if(zr&&(zr=!1,st=e,sl=l),o=e.pendingLanes,o===0&&(mt=null),cf(n.stateNode),ve(e,K()),t!==null)for(r=e.onRecoverableError,n=0;n<t.length;n++)l=t[n],r(l.value,{componentStack:l.stack,digest:l.digest});if(ul)throw ul=!1,e=Ho,Ho=null,e;return sl&1&&e.tag!==0&&ln(),o=e.pendingLanes,o&1?e===Qo?$n++:($n=0,Qo=e):$n=0,St(),null}function ln(){if(st!==null){var e=Vs(sl),t=Pe.transition,n=j;try{if(Pe.transition=null,j=16>e?16:e,st===null)var r=!1;else{if(e=st,st=null,sl=0,O&6)throw Error(g(331));var l=O;for(O|=4,E=e.current;E!==null;){var o=E,i=o.child;if(E.flags&16){var u=o.deletions;if(u!==null){for(var s=0;s<u.length;s++){var c=u[s];for(E=c;E!==null;){var h=E;switch(h.tag){case 0:case 11:case 15:An(8,h,o)}var m=h.child;if(m!==null)m.return=h,E=m;else for(;E!==null;){h=E;var p=h.sibling,w=h.return;if(qa(h),h===c){E=null;break}if(p!==null){p.return=w,E=p;break}E=w}}}var k=o.alternate;if(k!==null){var y=k.child;if(y!==null){k.child=null;do{var N=y.sibling;y.sibling=null,y=N}while(y!==null)}}E=o}}if(o.subtreeFlags&2064&&i!==null)i.return=o,E=i;else e:for(;E!==null;){if(o=E,o.flags&2048)switch(o.tag){case 0:case 11:case 15:An(9,o,o.return)}var f=o.sibling;if(f!==null){f.return=o.return,E=f;break e}E=o.return}}var a=e.current;for(E=a;E!==null;){i=E;var d=i.child;if(i.subtreeFlags&2064&&d!==null)d.return=i,E=d;else e:for(i=a;E!==null;){if(u=E,u.flags&2048)try{switch(u.tag){case 0:case 11:case 15:kl(9,u)}}catch(S){G(u,u.return,S)}if(u===i){E=null;break e}var v=u.sibling;if(v!==null){v.return=u.return,E=v;break e}E=u.return}}if(O=l,St(),Ue&&typeof Ue.onPostCommitFiberRoot=="function")try{Ue.onPostCommitFiberRoot(dl,e)}catch{}r=!0}return r}finally{j=n,Pe.transition=t}}return!1}function Ju(e,t,n){t=dn(n,t),t=Va(e,t,1),e=pt(e,t,1),t=ae(),e!==null&&(or(e,1,t),ve(e,t))}function G(e,t,n){if(e.tag===3)Ju(e,e,n);else for(;t!==null;){if(t.tag===3){Ju(t,e,n);break}else if(t.tag===1){var r=t.stateNode;if(typeof t.type.getDerivedStateFromError=="function"||typeof r.componentDidCatch=="function"&&(mt===null||!mt.has(r))){e=dn(n,e),e=Ba(t,e,1),t=pt(t,e,1),e=ae(),t!==null&&(or(t,1,e),ve(t,e));break}}t=t.return}}function Dd(e,t,n){var r=e.pingCache;r!==null&&r.delete(t),t=ae(),e.pingedLanes|=e.suspendedLanes&n,b===e&&(te&n)===n&&(Z===4||Z===3&&(te&130023424)===te&&500>K()-Fi?Lt(e,0):Ii|=n),ve(e,t)}function sc(e,t){t===0&&(e.mode&1?(t=gr,gr<<=1,!(gr&130023424)&&(gr=4194304)):t=1);var n=ae();e=Xe(e,t),e!==null&&(or(e,t,n),ve(e,n))}function Ad(e){var t=e.memoizedState,n=0;t!==null&&(n=t.retryLane),sc(e,n)}function Ud(e,t){var n=0;switch(e.tag){case 13:var r=e.stateNode,l=e.memoizedState;l!==null&&(n=l.retryLane);break;case 19:r=e.stateNode;break;default:throw Error(g(314))}r!==null&&r.delete(t),sc(e,n)}var ac;ac=function(e,t,n){if(e!==null)if(e.memoizedProps!==t.pendingProps||me.current)pe=!0;else{if(!(e.lanes&n)&&!(t.flags&128))return pe=!1,Pd(e,t,n);pe=!!(e.flags&131072)}else pe=!1,B&&t.flags&1048576&&pa(t,br,t.index);switch(t.lanes=0,t.tag){case 2:var r=t.type;Dr(e,t),e=t.pendingProps;var l=sn(t,ie.current);rn(t,n),l=Ni(null,t,r,e,l,n);var o=Ti();return t.flags|=1,typeof l=="object"&&l!==null&&typeof l.render=="function"&&l.$$typeof===void 0?(t.tag=1,t.memoizedState=null,t.updateQueue=null,he(r)?(o=!0,Jr(t)):o=!1,t.memoizedState=l.state!==null&&l.state!==void 0?l.state:null,Ei(t),l.updater=wl,t.stateNode=l,l._reactInternals=t,Oo(t,r,e,n),t=jo(null,t,r,!0,o,n)):(t.tag=0,B&&o&&vi(t),se(null,t,l,n),t=t.child),t;case 16:r=t.elementType;e:{switch(Dr(e,t),e=t.pendingProps,l=r._init,r=l(r._payload),t.type=r,l=t.tag=Vd(r),e=Le(r,e),l){case 0:t=Fo(null,t,r,e,n);break e;case 1:t=Vu(null,t,r,e,n);break e;case 11:t=Uu(null,t,r,e,n);break e;case 14:t=$u(null,t,r,Le(r.type,e),n);break e}throw Error(g(306,r,""))}return t;case 0:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Le(r,l),Fo(e,t,r,l,n);case 1:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Le(r,l),Vu(e,t,r,l,n);case 3:e:{if(Ga(t),e===null)throw Error(g(387));r=t.pendingProps,o=t.memoizedState,l=o.element,wa(e,t),nl(t,r,null,n);var i=t.memoizedState;if(r=i.element,o.isDehydrated)if(o={element:r,isDehydrated:!1,cache:i.cache,pendingSuspenseBoundaries:i.pendingSuspenseBoundaries,transitions:i.transitions},t.updateQueue.baseState=o,t.memoizedState=o,t.flags&256){l=dn(Error(g(423)),t),t=Bu(e,t,r,n,l);break e}else if(r!==l){l=dn(Error(g(424)),t),t=Bu(e,t,r,n,l);break e}else for(ye=dt(t.stateNode.containerInfo.firstChild),we=t,B=!0,Me=null,n=ga(t,null,r,n),t.child=n;n;)n.flags=n.flags&-3|4096,n=n.sibling;else{if(an(),r===l){t=Ze(e,t,n);break e}se(e,t,r,n)}t=t.child}return t;case 5:return ka(t),e===null&&Lo(t),r=t.type,l=t.pendingProps,o=e!==null?e.memoizedProps:null,i=l.children,_o(r,l)?i=null:o!==null&&_o(r,o)&&(t.flags|=32),Qa(e,t),se(e,t,i,n),t.child;case 6:return e===null&&Lo(t),null;case 13:return Ka(e,t,n);case 4:return Ci(t,t.stateNode.containerInfo),r=t.pendingProps,e===null?t.child=cn(t,null,r,n):se(e,t,r,n),t.child;case 11:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Le(r,l),Uu(e,t,r,l,n);case 7:return se(e,t,t.pendingProps,n),t.child;case 8:return se(e,t,t.pendingProps.children,n),t.child;case 12:return se(e,t,t.pendingProps.children,n),t.child;case 10:e:{if(r=t.type._context,l=t.pendingProps,o=t.memoizedProps,i=l.value,D(el,r._currentValue),r._currentValue=i,o!==null)if(Fe(o.value,i)){if(o.children===l.children&&!me.current){t=Ze(e,t,n);break e}}else for(o=t.child,o!==null&&(o.return=t);o!==null;){var u=o.dependencies;if(u!==null){i=o.child;for(var s=u.firstContext;s!==null;){if(s.context===r){if(o.tag===1){s=Ge(-1,n&-n),s.tag=2;var c=o.updateQueue;if(c!==null){c=c.shared;var h=c.pending;h===null?s.next=s:(s.next=h.next,h.next=s),c.pending=s}}o.lanes|=n,s=o.alternate,s!==null&&(s.lanes|=n),Ro(o.return,n,t),u.lanes|=n;break}s=s.next}}else if(o.tag===10)i=o.type===t.type?null:o.child;else if(o.tag===18){if(i=o.return,i===null)throw Error(g(341));i.lanes|=n,u=i.alternate,u!==null&&(u.lanes|=n),Ro(i,n,t),i=o.sibling}else i=o.child;if(i!==null)i.return=o;else for(i=o;i!==null;){if(i===t){i=null;break}if(o=i.sibling,o!==null){o.return=i.return,i=o;break}i=i.return}o=i}se(e,t,l.children,n),t=t.child}return t;case 9:return l=t.type,r=t.pendingProps.children,rn(t,n),l=ze(l),r=r(l),t.flags|=1,se(e,t,r,n),t.child;case 14:return r=t.type,l=Le(r,t.pendingProps),l=Le(r.type,l),$u(e,t,r,l,n);case 15:return Wa(e,t,t.type,t.pendingProps,n);case 17:return r=t.type,l=t.pendingProps,l=t.elementType===r?l:Le(r,l),Dr(e,t),t.tag=1,he(r)?(e=!0,Jr(t)):e=!1,rn(t,n),$a(t,r,l),Oo(t,r,l,n),jo(null,t,r,!0,e,n);case 19:return Ya(e,t,n);case 22:return Ha(e,t,n)}throw Error(g(156,t.tag))};function cc(e,t){return Ds(e,t)}function $d(e,t,n,r){this.tag=e,this.key=n,this.sibling=this.child=this.return=this.stateNode=this.type=this.elementType=null,this.index=0,this.ref=null,this.pendingProps=t,this.dependencies=this.memoizedState=this.updateQueue=this.memoizedProps=null,this.mode=r,this.subtreeFlags=this.flags=0,this.deletions=null,this.childLanes=this.lanes=0,this.alternate=null}function _e(e,t,n,r){return new $d(e,t,n,r)}function Ui(e){return e=e.prototype,!(!e||!e.isReactComponent)}function Vd(e){if(typeof e=="function")return Ui(e)?1:0;if(e!=null){if(e=e.$$typeof,e===li)return 11;if(e===oi)return 14}return 2}function vt(e,t){var n=e.alternate;return n===null?(n=_e(e.tag,t,e.key,e.mode),n.elementType=e.elementType,n.type=e.type,n.stateNode=e.stateNode,n.alternate=e,e.alternate=n):(n.pendingProps=t,n.type=e.type,n.flags=0,n.subtreeFlags=0,n.deletions=null),n.flags=e.flags&14680064,n.childLanes=e.childLanes,n.lanes=e.lanes,n.child=e.child,n.memoizedProps=e.memoizedProps,n.memoizedState=e.memoizedState,n.updateQueue=e.updateQueue,t=e.dependencies,n.dependencies=t===null?null:{lanes:t.lanes,firstContext:t.firstContext},n.sibling=e.sibling,n.index=e.index,n.ref=e.ref,n}function $r(e,t,n,r,l,o){var i=2;if(r=e,typeof e=="function")Ui(e)&&(i=1);else if(typeof e=="string")i=5;else e:switch(e){case Bt:return Rt(n.children,l,o,t);case ri:i=8,l|=8;break;case no:return e=_e(12,n,t,l|2),e.elementType=no,e.lanes=o,e;case ro:return e=_e(13,n,t,l),e.elementType=ro,e.lanes=o,e;case lo:return e=_e(19,n,t,l),e.elementType=lo,e.lanes=o,e;case ks:return xl(n,l,o,t);default:if(typeof e=="object"&&e!==null)switch(e.$$typeof){case ys:i=10;break e;case ws:i=9;break e;case li:i=11;break e;case oi:i=14;break e;case rt:i=16,r=null;break e}throw Error(g(130,e==null?e:typeof e,""))}return t=_e(i,n,t,l),t.elementType=e,t.type=r,t.lanes=o,t}function Rt(e,t,n,r){return e=_e(7,e,r,t),e.lanes=n,e}function xl(e,t,n,r){return e=_e(22,e,r,t),e.elementType=ks,e.lanes=n,e.stateNode={isHidden:!1},e}function ql(e,t,n){return e=_e(6,e,null,t),e.lanes=n,e}function bl(e,t,n){return t=_e(4,e.children!==null?e.children:[],e.key,t),t.lanes=n,t.stateNode={containerInfo:e.containerInfo,pendingChildren:null,implementation:e.implementation},t}function Bd(e,t,n,r,l){this.tag=t,this.containerInfo=e,this.finishedWork=this.pingCache=this.current=this.pendingChildren=null,this.timeoutHandle=-1,this.callbackNode=this.pendingContext=this.context=null,this.callbackPriority=0,this.eventTimes=Ol(0),this.expirationTimes=Ol(-1),this.entangledLanes=this.finishedLanes=this.mutableReadLanes=this.expiredLanes=this.pingedLanes=this.suspendedLanes=this.pendingLanes=0,this.entanglements=Ol(0),this.identifierPrefix=r,this.onRecoverableError=l,this.mutableSourceEagerHydrationData=null}function $i(e,t,n,r,l,o,i,u,s){return e=new Bd(e,t,n,u,s),t===1?(t=1,o===!0&&(t|=8)):t=0,o=_e(3,null,null,t),e.current=o,o.stateNode=e,o.memoizedState={element:r,isDehydrated:n,cache:null,transitions:null,pendingSuspenseBoundaries:null},Ei(o),e}function Wd(e,t,n){var r=3<arguments.length&&arguments[3]!==void 0?arguments[3]:null;return{$$typeof:Vt,key:r==null?null:""+r,children:e,containerInfo:t,implementation:n}}function fc(e){if(!e)return yt;e=e._reactInternals;e:{if(At(e)!==e||e.tag!==1)throw Error(g(170));var t=e;do{switch(t.tag){case 3:t=t.stateNode.context;break e;case 1:if(he(t.type)){t=t.stateNode.__reactInternalMemoizedMergedChildContext;break e}}t=t.return}while(t!==null);throw Error(g(171))}if(e.tag===1){var n=e.type;if(he(n))return fa(e,n,t)}return t}function dc(e,t,n,r,l,o,i,u,s){return e=$i(n,r,!0,e,l,o,i,u,s),e.context=fc(null),n=e.current,r=ae(),l=ht(n),o=Ge(r,l),o.callback=t??null,pt(n,o,l),e.current.lanes=l,or(e,l,r),ve(e,r),e}function El(e,t,n,r){var l=t.current,o=ae(),i=ht(l);return n=fc(n),t.context===null?t.context=n:t.pendingContext=n,t=Ge(o,i),t.payload={element:e},r=r===void 0?null:r,r!==null&&(t.callback=r),e=pt(l,t,i),e!==null&&(Ie(e,l,i,o),Ir(e,l,i)),i}function cl(e){if(e=e.current,!e.child)return null;switch(e.child.tag){case 5:return e.child.stateNode;default:return e.child.stateNode}}function qu(e,t){if(e=e.memoizedState,e!==null&&e.dehydrated!==null){var n=e.retryLane;e.retryLane=n!==0&&n<t?n:t}}function Vi(e,t){qu(e,t),(e=e.alternate)&&qu(e,t)}function Hd(){return null}var pc=typeof reportError=="function"?reportError:function(e){console.error(e)};function Bi(e){this._internalRoot=e}Cl.prototype.render=Bi.prototype.render=function(e){var t=this._internalRoot;if(t===null)throw Error(g(409));El(e,t,null,null)};Cl.prototype.unmount=Bi.prototype.unmount=function(){var e=this._internalRoot;if(e!==null){this._internalRoot=null;var t=e.containerInfo;jt(function(){El(null,e,null,null)}),t[Ye]=null}};function Cl(e){this._internalRoot=e}Cl.prototype.unstable_scheduleHydration=function(e){if(e){var t=Hs();e={blockedOn:null,target:e,priority:t};for(var n=0;n<ot.length&&t!==0&&t<ot[n].priority;n++);ot.splice(n,0,e),n===0&&Gs(e)}};function Wi(e){return!(!e||e.nodeType!==1&&e.nodeType!==9&&e.nodeType!==11)}function _l(e){return!(!e||e.nodeType!==1&&e.nodeType!==9&&e.nodeType!==11&&(e.nodeType!==8||e.nodeValue!==" react-mount-point-unstable "))}function bu(){}function Qd(e,t,n,r,l){if(l){if(typeof r=="function"){var o=r;r=function(){var c=cl(i);o.call(c)}}var i=dc(t,r,e,0,null,!1,!1,"",bu);return e._reactRootContainer=i,e[Ye]=i.current,Xn(e.nodeType===8?e.parentNode:e),jt(),i}for(;l=e.lastChild;)e.removeChild(l);if(typeof r=="function"){var u=r;r=function(){var c=cl(s);u.call(c)}}var s=$i(e,0,!1,null,null,!1,!1,"",bu);return e._reactRootContainer=s,e[Ye]=s.current,Xn(e.nodeType===8?e.parentNode:e),jt(function(){El(t,s,n,r)}),s}function Pl(e,t,n,r,l){var o=n._reactRootContainer;if(o){var i=o;if(typeof l=="function"){var u=l;l=function(){var s=cl(i);u.call(s)}}El(t,i,e,l)}else i=Qd(n,t,e,l,r);return cl(i)}Bs=function(e){switch(e.tag){case 3:var t=e.stateNode;if(t.current.memoizedState.isDehydrated){var n=Ln(t.pendingLanes);n!==0&&(si(t,n|1),ve(t,K()),!(O&6)&&(pn=K()+500,St()))}break;case 13:jt(function(){var r=Xe(e,1);if(r!==null){var l=ae();Ie(r,e,1,l)}}),Vi(e,1)}};ai=function(e){if(e.tag===13){var t=Xe(e,134217728);if(t!==null){var n=ae();Ie(t,e,134217728,n)}Vi(e,134217728)}};Ws=function(e){if(e.tag===13){var t=ht(e),n=Xe(e,t);if(n!==null){var r=ae();Ie(n,e,t,r)}Vi(e,t)}};Hs=function(){return j};Qs=function(e,t){var n=j;try{return j=e,t()}finally{j=n}};ho=function(e,t,n){switch(t){case"input":if(uo(e,n),t=n.name,n.type==="radio"&&t!=null){for(n=e;n.parentNode;)n=n.parentNode;for(n=n.querySelectorAll("input[name="+JSON.stringify(""+t)+'][type="radio"]'),t=0;t<n.length;t++){var r=n[t];if(r!==e&&r.form===e.form){var l=vl(r);if(!l)throw Error(g(90));xs(r),uo(r,l)}}}break;case"textarea":Cs(e,n);break;case"select":t=n.value,t!=null&&bt(e,!!n.multiple,t,!1)}};Rs=ji;Ms=jt;var Gd={usingClientEntryPoint:!1,Events:[ur,Gt,vl,Ts,Ls,ji]},_n={findFiberByHostInstance:zt,bundleType:0,version:"18.3.1",rendererPackageName:"react-dom"},Kd={bundleType:_n.bundleType,version:_n.version,rendererPackageName:_n.rendererPackageName,rendererConfig:_n.rendererConfig,overrideHookState:null,overrideHookStateDeletePath:null,overrideHookStateRenamePath:null,overrideProps:null,overridePropsDeletePath:null,overridePropsRenamePath:null,setErrorHandler:null,setSuspenseHandler:null,scheduleUpdate:null,currentDispatcherRef:Je.ReactCurrentDispatcher,findHostInstanceByFiber:function(e){return e=Fs(e),e===null?null:e.stateNode},findFiberByHostInstance:_n.findFiberByHostInstance||Hd,findHostInstancesForRefresh:null,scheduleRefresh:null,scheduleRoot:null,setRefreshHandler:null,getCurrentFiber:null,reconcilerVersion:"18.3.1-next-f1338f8080-20240426"};if(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__<"u"){var Nr=__REACT_DEVTOOLS_GLOBAL_HOOK__;if(!Nr.isDisabled&&Nr.supportsFiber)try{dl=Nr.inject(Kd),Ue=Nr}catch{}}Se.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED=Gd;Se.createPortal=function(e,t){var n=2<arguments.length&&arguments[2]!==void 0?arguments[2]:null;if(!Wi(t))throw Error(g(200));return Wd(e,t,null,n)};Se.createRoot=function(e,t){if(!Wi(e))throw Error(g(299));var n=!1,r="",l=pc;return t!=null&&(t.unstable_strictMode===!0&&(n=!0),t.identifierPrefix!==void 0&&(r=t.identifierPrefix),t.onRecoverableError!==void 0&&(l=t.onRecoverableError)),t=$i(e,1,!1,null,null,n,!1,r,l),e[Ye]=t.current,Xn(e.nodeType===8?e.parentNode:e),new Bi(t)};Se.findDOMNode=function(e){if(e==null)return null;if(e.nodeType===1)return e;var t=e._reactInternals;if(t===void 0)throw typeof e.render=="function"?Error(g(188)):(e=Object.keys(e).join(","),Error(g(268,e)));return e=Fs(t),e=e===null?null:e.stateNode,e};Se.flushSync=function(e){return jt(e)};Se.hydrate=function(e,t,n){if(!_l(t))throw Error(g(200));return Pl(null,e,t,!0,n)};Se.hydrateRoot=function(e,t,n){if(!Wi(e))throw Error(g(405));var r=n!=null&&n.hydratedSources||null,l=!1,o="",i=pc;if(n!=null&&(n.unstable_strictMode===!0&&(l=!0),n.identifierPrefix!==void 0&&(o=n.identifierPrefix),n.onRecoverableError!==void 0&&(i=n.onRecoverableError)),t=dc(t,null,e,1,n??null,l,!1,o,i),e[Ye]=t.current,Xn(e),r)for(e=0;e<r.length;e++)n=r[e],l=n._getVersion,l=l(n._source),t.mutableSourceEagerHydrationData==null?t.mutableSourceEagerHydrationData=[n,l]:t.mutableSourceEagerHydrationData.push(n,l);return new Cl(t)};Se.render=function(e,t,n){if(!_l(t))throw Error(g(200));return Pl(null,e,t,!1,n)};Se.unmountComponentAtNode=function(e){if(!_l(e))throw Error(g(40));return e._reactRootContainer?(jt(function(){Pl(null,null,e,!1,function(){e._reactRootContainer=null,e[Ye]=null})}),!0):!1};Se.unstable_batchedUpdates=ji;Se.unstable_renderSubtreeIntoContainer=function(e,t,n,r){if(!_l(n))throw Error(g(200));if(e==null||e._reactInternals===void 0)throw Error(g(38));return Pl(e,t,n,!1,r)};Se.version="18.3.1-next-f1338f8080-20240426";function mc(){if(!(typeof __REACT_DEVTOOLS_GLOBAL_HOOK__>"u"||typeof __REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE!="function"))try{__REACT_DEVTOOLS_GLOBAL_HOOK__.checkDCE(mc)}catch(e){console.error(e)}}mc(),ms.exports=Se;var Yd=ms.exports,es=Yd;Yi.createRoot=es.createRoot,Yi.hydrateRoot=es.hydrateRoot;function Lp(e){return{accommodations:[{id:"7696424",name:"STAGES HOTEL Prague, a Tribute Portfolio Hotel",type:"hotel",mainImage:"https://cf.bstatic.com/xdata/images/hotel/max1280x900/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",rating:9.4,reviewCount:15982,pricePerNight:220,location:{distance:"5.6 km from city center"},facilities:["WiFi","Parking","Restaurant","24-hour front desk","Fitness centre","Bar","Spa and wellness centre","Room service"],sustainability:{certified:!1,level:0}},{id:"77320",name:"Hotel Duo & Wellness",type:"hotel",mainImage:"https://cf.bstatic.com/xdata/images/hotel/max1280x900/493721137.jpg?k=058b6988395d2c397c8da154e92d9ab4022b0f3c4a6e59703e69c242fb2e9fdd&o=",rating:8.7,reviewCount:11781,pricePerNight:165,location:{distance:"6.8 km from city center"},facilities:["WiFi","Swimming pool","Spa and wellness centre","Parking","Restaurant","Bar","Fitness centre"],sustainability:{certified:!1,level:0}},{id:"mock_resort",name:"Luxury Beach Resort & Spa",type:"resort",mainImage:"https://images.unsplash.com/photo-1582719478250-c89cae4dc85b?w=800&h=600&fit=crop",rating:9.5,reviewCount:1523,pricePerNight:389,location:{distance:"3.2 km from city center"},facilities:["WiFi","Swimming pool","Spa and wellness centre","Restaurant","Beach access","Bar","Fitness centre","Airport shuttle"],sustainability:{certified:!0,level:3}},{id:"mock_apartment",name:"Modern City Center Apartment",type:"apartment",mainImage:"https://images.unsplash.com/photo-1522708323590-d24dbb6b0267?w=800&h=600&fit=crop",rating:9.1,reviewCount:456,pricePerNight:145,location:{distance:"0.2 km from city center"},facilities:["WiFi","Kitchen","Parking","Family rooms","Laundry","Heating","Air conditioning"],sustainability:{certified:!1,level:0}},{id:"mock_villa",name:"Secluded Mountain Villa",type:"villa",mainImage:"https://images.unsplash.com/photo-1613490493576-7fde63acd811?w=800&h=600&fit=crop",rating:9.8,reviewCount:287,pricePerNight:475,location:{distance:"12 km from city center"},facilities:["WiFi","Swimming pool","Kitchen","Parking","Terrace","BBQ facilities","Heating","Family rooms"],sustainability:{certified:!0,level:2}}],destination:"Prague, Czech Republic",checkIn:"Dec 15, 2024",checkOut:"Dec 18, 2024",nights:3,totalResults:390,filters:{}}}function hc(e){var t,n,r="";if(typeof e=="string"||typeof e=="number")r+=e;else if(typeof e=="object")if(Array.isArray(e)){var l=e.length;for(t=0;t<l;t++)e[t]&&(n=hc(e[t]))&&(r&&(r+=" "),r+=n)}else for(n in e)e[n]&&(r&&(r+=" "),r+=n);return r}function Xd(){for(var e,t,n=0,r="",l=arguments.length;n<l;n++)(e=arguments[n])&&(t=hc(e))&&(r&&(r+=" "),r+=t);return r}const Hi="-",Zd=e=>{const t=qd(e),{conflictingClassGroups:n,conflictingClassGroupModifiers:r}=e;return{getClassGroupId:i=>{const u=i.split(Hi);return u[0]===""&&u.length!==1&&u.shift(),vc(u,t)||Jd(i)},getConflictingClassGroupIds:(i,u)=>{const s=n[i]||[];return u&&r[i]?[...s,...r[i]]:s}}},vc=(e,t)=>{var i;if(e.length===0)return t.classGroupId;const n=e[0],r=t.nextPart.get(n),l=r?vc(e.slice(1),r):void 0;if(l)return l;if(t.validators.length===0)return;const o=e.join(Hi);return(i=t.validators.find(({validator:u})=>u(o)))==null?void 0:i.classGroupId},ts=/^\[(.+)\]$/,Jd=e=>{if(ts.test(e)){const t=ts.exec(e)[1],n=t==null?void 0:t.substring(0,t.indexOf(":"));if(n)return"arbitrary.."+n}},qd=e=>{const{theme:t,prefix:n}=e,r={nextPart:new Map,validators:[]};return ep(Object.entries(e.classGroups),n).forEach(([o,i])=>{Yo(i,r,o,t)}),r},Yo=(e,t,n,r)=>{e.forEach(l=>{if(typeof l=="string"){const o=l===""?t:ns(t,l);o.classGroupId=n;return}if(typeof l=="function"){if(bd(l)){Yo(l(r),t,n,r);return}t.validators.push({validator:l,classGroupId:n});return}Object.entries(l).forEach(([o,i])=>{Yo(i,ns(t,o),n,r)})})},ns=(e,t)=>{let n=e;return t.split(Hi).forEach(r=>{n.nextPart.has(r)||n.nextPart.set(r,{nextPart:new Map,validators:[]}),n=n.nextPart.get(r)}),n},bd=e=>e.isThemeGetter,ep=(e,t)=>t?e.map(([n,r])=>{const l=r.map(o=>typeof o=="string"?t+o:typeof o=="object"?Object.fromEntries(Object.entries(o).map(([i,u])=>[t+i,u])):o);return[n,l]}):e,tp=e=>{if(e<1)return{get:()=>{},set:()=>{}};let t=0,n=new Map,r=new Map;const l=(o,i)=>{n.set(o,i),t++,t>e&&(t=0,r=n,n=new Map)};return{get(o){let i=n.get(o);if(i!==void 0)return i;if((i=r.get(o))!==void 0)return l(o,i),i},set(o,i){n.has(o)?n.set(o,i):l(o,i)}}},gc="!",np=e=>{const{separator:t,experimentalParseClassName:n}=e,r=t.length===1,l=t[0],o=t.length,i=u=>{const s=[];let c=0,h=0,m;for(let N=0;N<u.length;N++){let f=u[N];if(c===0){if(f===l&&(r||u.slice(N,N+o)===t)){s.push(u.slice(h,N)),h=N+o;continue}if(f==="/"){m=N;continue}}f==="["?c++:f==="]"&&c--}const p=s.length===0?u:u.substring(h),w=p.startsWith(gc),k=w?p.substring(1):p,y=m&&m>h?m-h:void 0;return{modifiers:s,hasImportantModifier:w,baseClassName:k,maybePostfixModifierPosition:y}};return n?u=>n({className:u,parseClassName:i}):i},rp=e=>{if(e.length<=1)return e;const t=[];let n=[];return e.forEach(r=>{r[0]==="["?(t.push(...n.sort(),r),n=[]):n.push(r)}),t.push(...n.sort()),t},lp=e=>({cache:tp(e.cacheSize),parseClassName:np(e),...Zd(e)}),op=/\s+/,ip=(e,t)=>{const{parseClassName:n,getClassGroupId:r,getConflictingClassGroupIds:l}=t,o=[],i=e.trim().split(op);let u="";for(let s=i.length-1;s>=0;s-=1){const c=i[s],{modifiers:h,hasImportantModifier:m,baseClassName:p,maybePostfixModifierPosition:w}=n(c);let k=!!w,y=r(k?p.substring(0,w):p);if(!y){if(!k){u=c+(u.length>0?" "+u:u);continue}if(y=r(p),!y){u=c+(u.length>0?" "+u:u);continue}k=!1}const N=rp(h).join(":"),f=m?N+gc:N,a=f+y;if(o.includes(a))continue;o.push(a);const d=l(y,k);for(let v=0;v<d.length;++v){const S=d[v];o.push(f+S)}u=c+(u.length>0?" "+u:u)}return u};function up(){let e=0,t,n,r="";for(;e<arguments.length;)(t=arguments[e++])&&(n=yc(t))&&(r&&(r+=" "),r+=n);return r}const yc=e=>{if(typeof e=="string")return e;let t,n="";for(let r=0;r<e.length;r++)e[r]&&(t=yc(e[r]))&&(n&&(n+=" "),n+=t);return n};function sp(e,...t){let n,r,l,o=i;function i(s){const c=t.reduce((h,m)=>m(h),e());return n=lp(c),r=n.cache.get,l=n.cache.set,o=u,u(s)}function u(s){const c=r(s);if(c)return c;const h=ip(s,n);return l(s,h),h}return function(){return o(up.apply(null,arguments))}}const U=e=>{const t=n=>n[e]||[];return t.isThemeGetter=!0,t},wc=/^\[(?:([a-z-]+):)?(.+)\]$/i,ap=/^\d+\/\d+$/,cp=new Set(["px","full","screen"]),fp=/^(\d+(\.\d+)?)?(xs|sm|md|lg|xl)$/,dp=/\d+(%|px|r?em|[sdl]?v([hwib]|min|max)|pt|pc|in|cm|mm|cap|ch|ex|r?lh|cq(w|h|i|b|min|max))|\b(calc|min|max|clamp)\(.+\)|^0$/,pp=/^(rgba?|hsla?|hwb|(ok)?(lab|lch))\(.+\)$/,mp=/^(inset_)?-?((\d+)?\.?(\d+)[a-z]+|0)_-?((\d+)?\.?(\d+)[a-z]+|0)/,hp=/^(url|image|image-set|cross-fade|element|(repeating-)?(linear|radial|conic)-gradient)\(.+\)$/,Ve=e=>on(e)||cp.has(e)||ap.test(e),tt=e=>gn(e,"length",Ep),on=e=>!!e&&!Number.isNaN(Number(e)),eo=e=>gn(e,"number",on),Pn=e=>!!e&&Number.isInteger(Number(e)),vp=e=>e.endsWith("%")&&on(e.slice(0,-1)),L=e=>wc.test(e),nt=e=>fp.test(e),gp=new Set(["length","size","percentage"]),yp=e=>gn(e,gp,kc),wp=e=>gn(e,"position",kc),kp=new Set(["image","url"]),Sp=e=>gn(e,kp,_p),xp=e=>gn(e,"",Cp),zn=()=>!0,gn=(e,t,n)=>{const r=wc.exec(e);return r?r[1]?typeof t=="string"?r[1]===t:t.has(r[1]):n(r[2]):!1},Ep=e=>dp.test(e)&&!pp.test(e),kc=()=>!1,Cp=e=>mp.test(e),_p=e=>hp.test(e),Pp=()=>{const e=U("colors"),t=U("spacing"),n=U("blur"),r=U("brightness"),l=U("borderColor"),o=U("borderRadius"),i=U("borderSpacing"),u=U("borderWidth"),s=U("contrast"),c=U("grayscale"),h=U("hueRotate"),m=U("invert"),p=U("gap"),w=U("gradientColorStops"),k=U("gradientColorStopPositions"),y=U("inset"),N=U("margin"),f=U("opacity"),a=U("padding"),d=U("saturate"),v=U("scale"),S=U("sepia"),C=U("skew"),_=U("space"),P=U("translate"),A=()=>["auto","contain","none"],R=()=>["auto","hidden","clip","visible","scroll"],ue=()=>["auto",L,t],F=()=>[L,t],qe=()=>["",Ve,tt],xt=()=>["auto",on,L],ar=()=>["bottom","center","left","left-bottom","left-top","right","right-bottom","right-top","top"],be=()=>["solid","dashed","dotted","double","none"],Ut=()=>["normal","multiply","screen","overlay","darken","lighten","color-dodge","color-burn","hard-light","soft-light","difference","exclusion","hue","saturation","color","luminosity"],x=()=>["start","end","center","between","around","evenly","stretch"],z=()=>["","0",L],T=()=>["auto","avoid","all","avoid-page","page","left","right","column"],I=()=>[on,L];return{cacheSize:500,separator:":",theme:{colors:[zn],spacing:[Ve,tt],blur:["none","",nt,L],brightness:I(),borderColor:[e],borderRadius:["none","","full",nt,L],borderSpacing:F(),borderWidth:qe(),contrast:I(),grayscale:z(),hueRotate:I(),invert:z(),gap:F(),gradientColorStops:[e],gradientColorStopPositions:[vp,tt],inset:ue(),margin:ue(),opacity:I(),padding:F(),saturate:I(),scale:I(),sepia:z(),skew:I(),space:F(),translate:F()},classGroups:{aspect:[{aspect:["auto","square","video",L]}],container:["container"],columns:[{columns:[nt]}],"break-after":[{"break-after":T()}],"break-before":[{"break-before":T()}],"break-inside":[{"break-inside":["auto","avoid","avoid-page","avoid-column"]}],"box-decoration":[{"box-decoration":["slice","clone"]}],box:[{box:["border","content"]}],display:["block","inline-block","inline","flex","inline-flex","table","inline-table","table-caption","table-cell","table-column","table-column-group","table-footer-group","table-header-group","table-row-group","table-row","flow-root","grid","inline-grid","contents","list-item","hidden"],float:[{float:["right","left","none","start","end"]}],clear:[{clear:["left","right","both","none","start","end"]}],isolation:["isolate","isolation-auto"],"object-fit":[{object:["contain","cover","fill","none","scale-down"]}],"object-position":[{object:[...ar(),L]}],overflow:[{overflow:R()}],"overflow-x":[{"overflow-x":R()}],"overflow-y":[{"overflow-y":R()}],overscroll:[{overscroll:A()}],"overscroll-x":[{"overscroll-x":A()}],"overscroll-y":[{"overscroll-y":A()}],position:["static","fixed","absolute","relative","sticky"],inset:[{inset:[y]}],"inset-x":[{"inset-x":[y]}],"inset-y":[{"inset-y":[y]}],start:[{start:[y]}],end:[{end:[y]}],top:[{top:[y]}],right:[{right:[y]}],bottom:[{bottom:[y]}],left:[{left:[y]}],visibility:["visible","invisible","collapse"],z:[{z:["auto",Pn,L]}],basis:[{basis:ue()}],"flex-direction":[{flex:["row","row-reverse","col","col-reverse"]}],"flex-wrap":[{flex:["wrap","wrap-reverse","nowrap"]}],flex:[{flex:["1","auto","initial","none",L]}],grow:[{grow:z()}],shrink:[{shrink:z()}],order:[{order:["first","last","none",Pn,L]}],"grid-cols":[{"grid-cols":[zn]}],"col-start-end":[{col:["auto",{span:["full",Pn,L]},L]}],"col-start":[{"col-start":xt()}],"col-end":[{"col-end":xt()}],"grid-rows":[{"grid-rows":[zn]}],"row-start-end":[{row:["auto",{span:[Pn,L]},L]}],"row-start":[{"row-start":xt()}],"row-end":[{"row-end":xt()}],"grid-flow":[{"grid-flow":["row","col","dense","row-dense","col-dense"]}],"auto-cols":[{"auto-cols":["auto","min","max","fr",L]}],"auto-rows":[{"auto-rows":["auto","min","max","fr",L]}],gap:[{gap:[p]}],"gap-x":[{"gap-x":[p]}],"gap-y":[{"gap-y":[p]}],"justify-content":[{justify:["normal",...x()]}],"justify-items":[{"justify-items":["start","end","center","stretch"]}],"justify-self":[{"justify-self":["auto","start","end","center","stretch"]}],"align-content":[{content:["normal",...x(),"baseline"]}],"align-items":[{items:["start","end","center","baseline","stretch"]}],"align-self":[{self:["auto","start","end","center","stretch","baseline"]}],"place-content":[{"place-content":[...x(),"baseline"]}],"place-items":[{"place-items":["start","end","center","baseline","stretch"]}],"place-self":[{"place-self":["auto","start","end","center","stretch"]}],p:[{p:[a]}],px:[{px:[a]}],py:[{py:[a]}],ps:[{ps:[a]}],pe:[{pe:[a]}],pt:[{pt:[a]}],pr:[{pr:[a]}],pb:[{pb:[a]}],pl:[{pl:[a]}],m:[{m:[N]}],mx:[{mx:[N]}],my:[{my:[N]}],ms:[{ms:[N]}],me:[{me:[N]}],mt:[{mt:[N]}],mr:[{mr:[N]}],mb:[{mb:[N]}],ml:[{ml:[N]}],"space-x":[{"space-x":[_]}],"space-x-reverse":["space-x-reverse"],"space-y":[{"space-y":[_]}],"space-y-reverse":["space-y-reverse"],w:[{w:["auto","min","max","fit","svw","lvw","dvw",L,t]}],"min-w":[{"min-w":[L,t,"min","max","fit"]}],"max-w":[{"max-w":[L,t,"none","full","min","max","fit","prose",{screen:[nt]},nt]}],h:[{h:[L,t,"auto","min","max","fit","svh","lvh","dvh"]}],"min-h":[{"min-h":[L,t,"min","max","fit","svh","lvh","dvh"]}],"max-h":[{"max-h":[L,t,"min","max","fit","svh","lvh","dvh"]}],size:[{size:[L,t,"auto","min","max","fit"]}],"font-size":[{text:["base",nt,tt]}],"font-smoothing":["antialiased","subpixel-antialiased"],"font-style":["italic","not-italic"],"font-weight":[{font:["thin","extralight","light","normal","medium","semibold","bold","extrabold","black",eo]}],"font-family":[{font:[zn]}],"fvn-normal":["normal-nums"],"fvn-ordinal":["ordinal"],"fvn-slashed-zero":["slashed-zero"],"fvn-figure":["lining-nums","oldstyle-nums"],"fvn-spacing":["proportional-nums","tabular-nums"],"fvn-fraction":["diagonal-fractions","stacked-fractions"],tracking:[{tracking:["tighter","tight","normal","wide","wider","widest",L]}],"line-clamp":[{"line-clamp":["none",on,eo]}],leading:[{leading:["none","tight","snug","normal","relaxed","loose",Ve,L]}],"list-image":[{"list-image":["none",L]}],"list-style-type":[{list:["none","disc","decimal",L]}],"list-style-position":[{list:["inside","outside"]}],"placeholder-color":[{placeholder:[e]}],"placeholder-opacity":[{"placeholder-opacity":[f]}],"text-alignment":[{text:["left","center","right","justify","start","end"]}],"text-color":[{text:[e]}],"text-opacity":[{"text-opacity":[f]}],"text-decoration":["underline","overline","line-through","no-underline"],"text-decoration-style":[{decoration:[...be(),"wavy"]}],"text-decoration-thickness":[{decoration:["auto","from-font",Ve,tt]}],"underline-offset":[{"underline-offset":["auto",Ve,L]}],"text-decoration-color":[{decoration:[e]}],"text-transform":["uppercase","lowercase","capitalize","normal-case"],"text-overflow":["truncate","text-ellipsis","text-clip"],"text-wrap":[{text:["wrap","nowrap","balance","pretty"]}],indent:[{indent:F()}],"vertical-align":[{align:["baseline","top","middle","bottom","text-top","text-bottom","sub","super",L]}],whitespace:[{whitespace:["normal","nowrap","pre","pre-line","pre-wrap","break-spaces"]}],break:[{break:["normal","words","all","keep"]}],hyphens:[{hyphens:["none","manual","auto"]}],content:[{content:["none",L]}],"bg-attachment":[{bg:["fixed","local","scroll"]}],"bg-clip":[{"bg-clip":["border","padding","content","text"]}],"bg-opacity":[{"bg-opacity":[f]}],"bg-origin":[{"bg-origin":["border","padding","content"]}],"bg-position":[{bg:[...ar(),wp]}],"bg-repeat":[{bg:["no-repeat",{repeat:["","x","y","round","space"]}]}],"bg-size":[{bg:["auto","cover","contain",yp]}],"bg-image":[{bg:["none",{"gradient-to":["t","tr","r","br","b","bl","l","tl"]},Sp]}],"bg-color":[{bg:[e]}],"gradient-from-pos":[{from:[k]}],"gradient-via-pos":[{via:[k]}],"gradient-to-pos":[{to:[k]}],"gradient-from":[{from:[w]}],"gradient-via":[{via:[w]}],"gradient-to":[{to:[w]}],rounded:[{rounded:[o]}],"rounded-s":[{"rounded-s":[o]}],"rounded-e":[{"rounded-e":[o]}],"rounded-t":[{"rounded-t":[o]}],"rounded-r":[{"rounded-r":[o]}],"rounded-b":[{"rounded-b":[o]}],"rounded-l":[{"rounded-l":[o]}],"rounded-ss":[{"rounded-ss":[o]}],"rounded-se":[{"rounded-se":[o]}],"rounded-ee":[{"rounded-ee":[o]}],"rounded-es":[{"rounded-es":[o]}],"rounded-tl":[{"rounded-tl":[o]}],"rounded-tr":[{"rounded-tr":[o]}],"rounded-br":[{"rounded-br":[o]}],"rounded-bl":[{"rounded-bl":[o]}],"border-w":[{border:[u]}],"border-w-x":[{"border-x":[u]}],"border-w-y":[{"border-y":[u]}],"border-w-s":[{"border-s":[u]}],"border-w-e":[{"border-e":[u]}],"border-w-t":[{"border-t":[u]}],"border-w-r":[{"border-r":[u]}],"border-w-b":[{"border-b":[u]}],"border-w-l":[{"border-l":[u]}],"border-opacity":[{"border-opacity":[f]}],"border-style":[{border:[...be(),"hidden"]}],"divide-x":[{"divide-x":[u]}],"divide-x-reverse":["divide-x-reverse"],"divide-y":[{"divide-y":[u]}],"divide-y-reverse":["divide-y-reverse"],"divide-opacity":[{"divide-opacity":[f]}],"divide-style":[{divide:be()}],"border-color":[{border:[l]}],"border-color-x":[{"border-x":[l]}],"border-color-y":[{"border-y":[l]}],"border-color-s":[{"border-s":[l]}],"border-color-e":[{"border-e":[l]}],"border-color-t":[{"border-t":[l]}],"border-color-r":[{"border-r":[l]}],"border-color-b":[{"border-b":[l]}],"border-color-l":[{"border-l":[l]}],"divide-color":[{divide:[l]}],"outline-style":[{outline:["",...be()]}],"outline-offset":[{"outline-offset":[Ve,L]}],"outline-w":[{outline:[Ve,tt]}],"outline-color":[{outline:[e]}],"ring-w":[{ring:qe()}],"ring-w-inset":["ring-inset"],"ring-color":[{ring:[e]}],"ring-opacity":[{"ring-opacity":[f]}],"ring-offset-w":[{"ring-offset":[Ve,tt]}],"ring-offset-color":[{"ring-offset":[e]}],shadow:[{shadow:["","inner","none",nt,xp]}],"shadow-color":[{shadow:[zn]}],opacity:[{opacity:[f]}],"mix-blend":[{"mix-blend":[...Ut(),"plus-lighter","plus-darker"]}],"bg-blend":[{"bg-blend":Ut()}],filter:[{filter:["","none"]}],blur:[{blur:[n]}],brightness:[{brightness:[r]}],contrast:[{contrast:[s]}],"drop-shadow":[{"drop-shadow":["","none",nt,L]}],grayscale:[{grayscale:[c]}],"hue-rotate":[{"hue-rotate":[h]}],invert:[{invert:[m]}],saturate:[{saturate:[d]}],sepia:[{sepia:[S]}],"backdrop-filter":[{"backdrop-filter":["","none"]}],"backdrop-blur":[{"backdrop-blur":[n]}],"backdrop-brightness":[{"backdrop-brightness":[r]}],"backdrop-contrast":[{"backdrop-contrast":[s]}],"backdrop-grayscale":[{"backdrop-grayscale":[c]}],"backdrop-hue-rotate":[{"backdrop-hue-rotate":[h]}],"backdrop-invert":[{"backdrop-invert":[m]}],"backdrop-opacity":[{"backdrop-opacity":[f]}],"backdrop-saturate":[{"backdrop-saturate":[d]}],"backdrop-sepia":[{"backdrop-sepia":[S]}],"border-collapse":[{border:["collapse","separate"]}],"border-spacing":[{"border-spacing":[i]}],"border-spacing-x":[{"border-spacing-x":[i]}],"border-spacing-y":[{"border-spacing-y":[i]}],"table-layout":[{table:["auto","fixed"]}],caption:[{caption:["top","bottom"]}],transition:[{transition:["none","all","","colors","opacity","shadow","transform",L]}],duration:[{duration:I()}],ease:[{ease:["linear","in","out","in-out",L]}],delay:[{delay:I()}],animate:[{animate:["none","spin","ping","pulse","bounce",L]}],transform:[{transform:["","gpu","none"]}],scale:[{scale:[v]}],"scale-x":[{"scale-x":[v]}],"scale-y":[{"scale-y":[v]}],rotate:[{rotate:[Pn,L]}],"translate-x":[{"translate-x":[P]}],"translate-y":[{"translate-y":[P]}],"skew-x":[{"skew-x":[C]}],"skew-y":[{"skew-y":[C]}],"transform-origin":[{origin:["center","top","top-right","right","bottom-right","bottom","bottom-left","left","top-left",L]}],accent:[{accent:["auto",e]}],appearance:[{appearance:["none","auto"]}],cursor:[{cursor:["auto","default","pointer","wait","text","move","help","not-allowed","none","context-menu","progress","cell","crosshair","vertical-text","alias","copy","no-drop","grab","grabbing","all-scroll","col-resize","row-resize","n-resize","e-resize","s-resize","w-resize","ne-resize","nw-resize","se-resize","sw-resize","ew-resize","ns-resize","nesw-resize","nwse-resize","zoom-in","zoom-out",L]}],"caret-color":[{caret:[e]}],"pointer-events":[{"pointer-events":["none","auto"]}],resize:[{resize:["none","y","x",""]}],"scroll-behavior":[{scroll:["auto","smooth"]}],"scroll-m":[{"scroll-m":F()}],"scroll-mx":[{"scroll-mx":F()}],"scroll-my":[{"scroll-my":F()}],"scroll-ms":[{"scroll-ms":F()}],"scroll-me":[{"scroll-me":F()}],"scroll-mt":[{"scroll-mt":F()}],"scroll-mr":[{"scroll-mr":F()}],"scroll-mb":[{"scroll-mb":F()}],"scroll-ml":[{"scroll-ml":F()}],"scroll-p":[{"scroll-p":F()}],"scroll-px":[{"scroll-px":F()}],"scroll-py":[{"scroll-py":F()}],"scroll-ps":[{"scroll-ps":F()}],"scroll-pe":[{"scroll-pe":F()}],"scroll-pt":[{"scroll-pt":F()}],"scroll-pr":[{"scroll-pr":F()}],"scroll-pb":[{"scroll-pb":F()}],"scroll-pl":[{"scroll-pl":F()}],"snap-align":[{snap:["start","end","center","align-none"]}],"snap-stop":[{snap:["normal","always"]}],"snap-type":[{snap:["none","x","y","both"]}],"snap-strictness":[{snap:["mandatory","proximity"]}],touch:[{touch:["auto","none","manipulation"]}],"touch-x":[{"touch-pan":["x","left","right"]}],"touch-y":[{"touch-pan":["y","up","down"]}],"touch-pz":["touch-pinch-zoom"],select:[{select:["none","text","all","auto"]}],"will-change":[{"will-change":["auto","scroll","contents","transform",L]}],fill:[{fill:[e,"none"]}],"stroke-w":[{stroke:[Ve,tt,eo]}],stroke:[{stroke:[e,"none"]}],sr:["sr-only","not-sr-only"],"forced-color-adjust":[{"forced-color-adjust":["auto","none"]}]},conflictingClassGroups:{overflow:["overflow-x","overflow-y"],overscroll:["overscroll-x","overscroll-y"],inset:["inset-x","inset-y","start","end","top","right","bottom","left"],"inset-x":["right","left"],"inset-y":["top","bottom"],flex:["basis","grow","shrink"],gap:["gap-x","gap-y"],p:["px","py","ps","pe","pt","pr","pb","pl"],px:["pr","pl"],py:["pt","pb"],m:["mx","my","ms","me","mt","mr","mb","ml"],mx:["mr","ml"],my:["mt","mb"],size:["w","h"],"font-size":["leading"],"fvn-normal":["fvn-ordinal","fvn-slashed-zero","fvn-figure","fvn-spacing","fvn-fraction"],"fvn-ordinal":["fvn-normal"],"fvn-slashed-zero":["fvn-normal"],"fvn-figure":["fvn-normal"],"fvn-spacing":["fvn-normal"],"fvn-fraction":["fvn-normal"],"line-clamp":["display","overflow"],rounded:["rounded-s","rounded-e","rounded-t","rounded-r","rounded-b","rounded-l","rounded-ss","rounded-se","rounded-ee","rounded-es","rounded-tl","rounded-tr","rounded-br","rounded-bl"],"rounded-s":["rounded-ss","rounded-es"],"rounded-e":["rounded-se","rounded-ee"],"rounded-t":["rounded-tl","rounded-tr"],"rounded-r":["rounded-tr","rounded-br"],"rounded-b":["rounded-br","rounded-bl"],"rounded-l":["rounded-tl","rounded-bl"],"border-spacing":["border-spacing-x","border-spacing-y"],"border-w":["border-w-s","border-w-e","border-w-t","border-w-r","border-w-b","border-w-l"],"border-w-x":["border-w-r","border-w-l"],"border-w-y":["border-w-t","border-w-b"],"border-color":["border-color-s","border-color-e","border-color-t","border-color-r","border-color-b","border-color-l"],"border-color-x":["border-color-r","border-color-l"],"border-color-y":["border-color-t","border-color-b"],"scroll-m":["scroll-mx","scroll-my","scroll-ms","scroll-me","scroll-mt","scroll-mr","scroll-mb","scroll-ml"],"scroll-mx":["scroll-mr","scroll-ml"],"scroll-my":["scroll-mt","scroll-mb"],"scroll-p":["scroll-px","scroll-py","scroll-ps","scroll-pe","scroll-pt","scroll-pr","scroll-pb","scroll-pl"],"scroll-px":["scroll-pr","scroll-pl"],"scroll-py":["scroll-pt","scroll-pb"],touch:["touch-x","touch-y","touch-pz"],"touch-x":["touch"],"touch-y":["touch"],"touch-pz":["touch"]},conflictingClassGroupModifiers:{"font-size":["leading"]}}},zp=sp(Pp);function Rp(...e){return zp(Xd(e))}export{Np as R,Rp as a,Yi as c,Tp as j,bo as r,Lp as u};
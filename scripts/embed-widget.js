@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 /**
- * This script reads the built widget HTML file and inlines all CSS and JS,
- * creating a self-contained HTML file that can be served by the worker.
+ * This script reads the built widget HTML files and inlines all CSS and JS,
+ * creating self-contained HTML files that can be served by the worker.
  */
 
 import fs from 'fs';
@@ -13,11 +13,14 @@ const ROOT_DIR = path.resolve(__dirname, '..');
 const ASSETS_DIR = path.resolve(ROOT_DIR, 'assets');
 const OUTPUT_DIR = path.resolve(ROOT_DIR, 'src', 'server');
 
-function embedWidget() {
-  const htmlPath = path.join(ASSETS_DIR, 'src', 'components', 'booking-search-results.html');
+// Keep in sync with the widget componentName values in src/server/core/widgets.ts
+const COMPONENTS = ['booking-search-results', 'booking-property-details'];
+
+function embedWidget(componentName) {
+  const htmlPath = path.join(ASSETS_DIR, 'src', 'components', `${componentName}.html`);
   
   if (!fs.existsSync(htmlPath)) {
-    console.error('❌ Widget HTML not found. Run "npm run build" first.');
+    console.error(`❌ Widget HTML for "${componentName}" not found. Run "npm run build" first.`);
     process.exit(1);
   }
 
@@ -96,25 +99,33 @@ function embedWidget() {
   htmlContent = htmlContent.replace(/<link[^>]*rel="modulepreload"[^>]*>/g, '');
   
   // Escape backticks and ${} in the HTML content for embedding in TypeScript
-  const escapedHtml = htmlContent
+  return htmlContent
     .replace(/\\/g, '\\\\')
     .replace(/`/g, '\\`')
     .replace(/\${/g, '\\${');
+}
+
+function embedWidgets() {
+  const entries = COMPONENTS.map((componentName) => {
+    console.log(`📄 Embedding ${componentName}`);
+    return `  "${componentName}": \`${embedWidget(componentName)}\`,`;
+  });
 
   const tsContent = `/**
  * Auto-generated file - DO NOT EDIT
  * Generated by scripts/embed-widget.js
  */
 
-export const WIDGET_HTML = \`${escapedHtml}\`;
+export const WIDGET_HTML_BY_COMPONENT: Record<string, string> = {
+${entries.join('\n')}
+};
 `;
 
   const outputPath = path.join(OUTPUT_DIR, 'widget-html.ts');
   fs.writeFileSync(outputPath, tsContent, 'utf8');
-  
+
   console.log('✅ Self-contained widget HTML generated successfully');
-  console.log(`📦 Total size: ${Buffer.byteLength(escapedHtml, 'utf8')} bytes`);
+  console.log(`📦 Total size: ${Buffer.byteLength(tsContent, 'utf8')} bytes`);
 }
 
-embedWidget();
-
+embedWidgets();
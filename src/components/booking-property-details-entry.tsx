@@ -0,0 +1,16 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { initializeTheme } from '../lib/theme';
+import BookingPropertyDetails from './booking-property-details';
+
+// Initialize theme before rendering
+initializeTheme();
+
+const root = document.getElementById('root');
+if (root) {
+  ReactDOM.createRoot(root).render(
+    <React.StrictMode>
+      <BookingPropertyDetails />
+    </React.StrictMode>
+  );
+}
@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { useWidgetProps } from '../hooks';
+import '../styles/index.css';
+import { cn } from '../lib/utils';
+
+interface Photo {
+  url: string;
+  thumbnailUrl: string;
+  caption?: string;
+}
+
+interface RoomType {
+  id: string;
+  name: string;
+  description: string;
+  bedConfiguration: string;
+  maxOccupancy?: number;
+  sizeSqm?: number;
+  photos: string[];
+  facilities: string[];
+}
+
+interface AccommodationDetails {
+  id: string;
+  name: string;
+  type: string;
+  stars?: number;
+  description: string;
+  url?: string;
+  photos: Photo[];
+  facilities: { name: string; category: string }[];
+  location: {
+    address: string;
+    city: string;
+    country: string;
+  };
+  policies: {
+    checkIn: { from?: string; until?: string };
+    checkOut: { from?: string; until?: string };
+    items: { type: string; title: string; text: string }[];
+  };
+  roomTypes: RoomType[];
+  reviews: {
+    score: number;
+    scoreWord: string;
+    count: number;
+    breakdown: { category: string; score: number }[];
+  };
+}
+
+interface Props extends Record<string, unknown> {
+  accommodation: AccommodationDetails | null;
+  checkIn?: string;
+  checkOut?: string;
+}
+
+const PLACEHOLDER_IMAGE = 'https://via.placeholder.com/800x600/e0e0e0/666666?text=Property';
+
+const formatTimeWindow = (window: { from?: string; until?: string }) => {
+  if (window.from && window.until) return `${window.from} – ${window.until}`;
+  if (window.from) return `From ${window.from}`;
+  if (window.until) return `Until ${window.until}`;
+  return 'Not specified';
+};
+
+const BookingPropertyDetails: React.FC = () => {
+  const { accommodation } = useWidgetProps<Props>({
+    accommodation: null,
+  });
+
+  const [activePhoto, setActivePhoto] = useState(0);
+  const [showAllFacilities, setShowAllFacilities] = useState(false);
+
+  if (!accommodation || !accommodation.photos) {
+    return (
+      <div className="w-full p-10 text-center text-muted-foreground">
+        Property details are not available
+      </div>
+    );
+  }
+
+  const photos = accommodation.photos.length > 0
+    ? accommodation.photos
+    : [{ url: PLACEHOLDER_IMAGE, thumbnailUrl: PLACEHOLDER_IMAGE }];
+  const currentPhoto = photos[Math.min(activePhoto, photos.length - 1)];
+
+  const facilitiesByCategory = accommodation.facilities.reduce<Record<string, string[]>>(
+    (groups, facility) => {
+      (groups[facility.category] ||= []).push(facility.name);
+      return groups;
+    },
+    {}
+  );
+  const categories = Object.keys(facilitiesByCategory);
+  const visibleCategories = showAllFacilities ? categories : categories.slice(0, 3);
+
+  return (
+    <div className="w-full h-full overflow-y-auto bg-transparent p-4 space-y-6 text-foreground">
+      {/* Photo gallery */}
+      <section>
+        <figure className="relative w-full h-[280px] overflow-hidden bg-gray-100 dark:bg-gray-700 rounded-3xl">
+          <img
+            alt={currentPhoto.caption || accommodation.name}
+            className="w-full h-full object-cover block"
+            src={currentPhoto.url}
+            onError={(e) => {
+              (e.target as HTMLImageElement).src = PLACEHOLDER_IMAGE;
+            }}
+          />
+        </figure>
+        {photos.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto scrollbar-none mt-2 p-1">
+            {photos.map((photo, index) => (
+              <button
+                key={`${photo.url}-${index}`}
+                onClick={() => setActivePhoto(index)}
+                className={cn(
+                  "flex-shrink-0 w-16 h-16 rounded-xl overflow-hidden border-2 transition-all duration-200",
+                  index === activePhoto ? "border-[#003b95] dark:border-blue-500" : "border-transparent opacity-70 hover:opacity-100"
+                )}
+                aria-label={`Show photo ${index + 1}`}
+              >
+                <img alt="" className="w-full h-full object-cover" src={photo.thumbnailUrl} loading="lazy" />
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* Header */}
+      <section className="flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-xl font-semibold leading-snug">{accommodation.name}</h2>
+          <div className="text-sm text-muted-foreground mt-1">
+            {[accommodation.location.address, accommodation.location.city, accommodation.location.country]
+              .filter(Boolean)
+              .join(', ')}
+          </div>
+        </div>
+        <div className="flex-shrink-0 text-right">
+          <span className="inline-flex items-center justify-center min-w-[40px] h-8 px-2 rounded-md text-[15px] font-bold bg-[#003b95] text-white dark:bg-blue-600">
+            {accommodation.reviews.score.toFixed(1)}
+          </span>
+          <div className="text-xs text-muted-foreground mt-1">
+            {accommodation.reviews.scoreWord} · {accommodation.reviews.count.toLocaleString()} reviews
+          </div>
+        </div>
+      </section>
+
+      {accommodation.description && (
+        <section>
+          <p className="text-sm leading-relaxed">{accommodation.description}</p>
+        </section>
+      )}
+
+      {/* Review breakdown */}
+      {accommodation.reviews.breakdown.length > 0 && (
+        <section>
+          <h3 className="text-base font-semibold mb-3">Guest reviews</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+            {accommodation.reviews.breakdown.map((item) => (
+              <div key={item.category}>
+                <div className="flex justify-between text-sm">
+                  <span>{item.category}</span>
+                  <span className="font-semibold">{item.score.toFixed(1)}</span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden mt-1">
+                  <div
+                    className="h-full rounded-full bg-[#003b95] dark:bg-blue-500"
+                    style={{ width: `${Math.min(100, item.score * 10)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Room types */}
+      {accommodation.roomTypes.length > 0 && (
+        <section>
+          <h3 className="text-base font-semibold mb-3">Room types</h3>
+          <div className="space-y-3">
+            {accommodation.roomTypes.map((room) => (
+              <div key={room.id} className="flex gap-3 rounded-2xl border border-gray-200 dark:border-gray-700 p-3">
+                {room.photos[0] && (
+                  <img
+                    alt={room.name}
+                    className="w-20 h-20 rounded-xl object-cover flex-shrink-0"
+                    src={room.photos[0]}
+                    loading="lazy"
+                  />
+                )}
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold">{room.name}</div>
+                  {room.bedConfiguration && (
+                    <div className="text-xs text-muted-foreground mt-0.5">{room.bedConfiguration}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-0.5">
+                    {[
+                      room.maxOccupancy ? `Sleeps ${room.maxOccupancy}` : null,
+                      room.sizeSqm ? `${room.sizeSqm} m²` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                  {room.facilities.length > 0 && (
+                    <div className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                      {room.facilities.join(' · ')}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Facilities */}
+      {categories.length > 0 && (
+        <section>
+          <h3 className="text-base font-semibold mb-3">Facilities</h3>
+          <div className="space-y-3">
+            {visibleCategories.map((category) => (
+              <div key={category}>
+                <div className="text-sm font-semibold mb-1">{category}</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {facilitiesByCategory[category].map((name) => (
+                    <span
+                      key={name}
+                      className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-muted-foreground"
+                    >
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          {categories.length > 3 && (
+            <button
+              onClick={() => setShowAllFacilities(!showAllFacilities)}
+              className="mt-3 text-sm font-semibold text-[#003b95] dark:text-blue-400 hover:underline"
+            >
+              {showAllFacilities ? 'Show fewer facilities' : `Show all ${accommodation.facilities.length} facilities`}
+            </button>
+          )}
+        </section>
+      )}
+
+      {/* Policies */}
+      <section>
+        <h3 className="text-base font-semibold mb-3">House rules</h3>
+        <dl className="text-sm space-y-2">
+          <div className="flex gap-4">
+            <dt className="w-32 flex-shrink-0 font-semibold">Check-in</dt>
+            <dd className="text-muted-foreground">{formatTimeWindow(accommodation.policies.checkIn)}</dd>
+          </div>
+          <div className="flex gap-4">
+            <dt className="w-32 flex-shrink-0 font-semibold">Check-out</dt>
+            <dd className="text-muted-foreground">{formatTimeWindow(accommodation.policies.checkOut)}</dd>
+          </div>
+          {accommodation.policies.items.map((policy) => (
+            <div key={`${policy.type}-${policy.title}`} className="flex gap-4">
+              <dt className="w-32 flex-shrink-0 font-semibold">{policy.title}</dt>
+              <dd className="text-muted-foreground">{policy.text}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      {accommodation.url && (
+        <button
+          onClick={() => window.openai?.openExternal({ href: accommodation.url! })}
+          className={cn(
+            "w-full bg-gray-900 text-white border-none rounded-3xl py-2.5 px-4",
+            "text-sm font-semibold cursor-pointer transition-colors duration-200",
+            "hover:bg-gray-800",
+            "dark:bg-white dark:text-gray-900 dark:hover:bg-gray-100"
+          )}
+        >
+          Book on Booking.com
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BookingPropertyDetails;
@@ -1,16 +1,32 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { useWidgetProps, useDisplayMode } from '../hooks';
+import { useWidgetProps, useDisplayMode, useOpenAiGlobal, useWidgetState } from '../hooks';
 import '../styles/index.css';
 import { cn } from '../lib/utils';
+import { formatMessage, getMessages, getTextDirection } from '../lib/i18n';
+
+interface PriceBreakdown {
+  currency: string;
+  gross: number;
+  net?: number;
+  includedTaxes: number;
+  excludedCharges: number;
+  allInclusive: number;
+  strikethrough?: number;
+  discount?: number;
+  items: { name: string; inclusion: 'included' | 'excluded'; amount: number; details?: string }[];
+}
 
 interface Accommodation {
   id: string;
   name: string;
   type: string;
   mainImage?: string;
-  rating: number;
+  rating?: number;
   reviewCount?: number;
   pricePerNight: number;
+  totalPrice?: number;
+  currency?: string;
+  priceBreakdown?: PriceBreakdown;
   location?: {
     distance?: string;
   };
@@ -27,10 +43,22 @@ interface Props extends Record<string, unknown> {
   checkIn: string;
   checkOut: string;
   nights: number;
+  adults?: number;
+  children?: number;
+  childrenAges?: number[];
+  rooms?: number;
   totalResults: number;
+  nextCursor?: string;
+  sortBy?: string;
   filters?: Record<string, unknown>;
 }
 
+// Pages loaded with "Show more", kept in widget state so they survive re-renders
+interface SearchWidgetState extends Record<string, unknown> {
+  moreAccommodations: Accommodation[];
+  nextCursor: string | null;
+}
+
 const BookingSearchResults: React.FC = () => {
   const props = useWidgetProps<Props>({
     accommodations: [],
@@ -42,8 +70,24 @@ const BookingSearchResults: React.FC = () => {
     filters: {}
   });
 
-  const { accommodations, destination, checkIn, checkOut, nights, totalResults } = props;
+  const { destination, checkIn, checkOut, nights, adults, children, childrenAges, rooms, totalResults, sortBy } = props;
   const displayMode = useDisplayMode();
+  const toolInput = useOpenAiGlobal('toolInput');
+  const locale = useOpenAiGlobal('locale');
+  const messages = getMessages(locale);
+  const dir = getTextDirection(locale);
+  // Horizontal scroll offsets run negative in right-to-left layouts
+  const scrollSign = dir === 'rtl' ? -1 : 1;
+  const [widgetState, setWidgetState] = useWidgetState<SearchWidgetState>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [expandedPriceId, setExpandedPriceId] = useState<string | null>(null);
+
+  const loadedIds = new Set(props.accommodations.map((acc) => acc.id));
+  const accommodations = [
+    ...props.accommodations,
+    ...(widgetState?.moreAccommodations ?? []).filter((acc) => !loadedIds.has(acc.id)),
+  ];
+  const nextCursor = widgetState ? widgetState.nextCursor : props.nextCursor;
   
   const containerRef = useRef<HTMLDivElement>(null);
   const [showPrevButton, setShowPrevButton] = useState(false);
@@ -52,7 +96,7 @@ const BookingSearchResults: React.FC = () => {
   const updateButtons = () => {
     if (!containerRef.current) return;
     
-    const scrollLeft = containerRef.current.scrollLeft;
+    const scrollLeft = containerRef.current.scrollLeft * scrollSign;
     const maxScroll = containerRef.current.scrollWidth - containerRef.current.clientWidth;
     
     setShowPrevButton(scrollLeft > 0);
@@ -72,23 +116,78 @@ const BookingSearchResults: React.FC = () => {
       container.removeEventListener('scroll', updateButtons);
       window.removeEventListener('resize', updateButtons);
     };
-  }, [accommodations]);
+  }, [accommodations.length, dir]);
 
   const scrollPrev = () => {
     if (containerRef.current) {
       const scrollAmount = containerRef.current.clientWidth;
-      containerRef.current.scrollBy({ left: -scrollAmount, behavior: 'smooth' });
+      containerRef.current.scrollBy({ left: -scrollAmount * scrollSign, behavior: 'smooth' });
     }
   };
 
   const scrollNext = () => {
     if (containerRef.current) {
       const scrollAmount = containerRef.current.clientWidth;
-      containerRef.current.scrollBy({ left: scrollAmount, behavior: 'smooth' });
+      containerRef.current.scrollBy({ left: scrollAmount * scrollSign, behavior: 'smooth' });
+    }
+  };
+
+  const formatPrice = (amount: number, currency = 'USD') => {
+    try {
+      return new Intl.NumberFormat(locale || undefined, {
+        style: 'currency',
+        currency,
+        maximumFractionDigits: 0,
+      }).format(amount);
+    } catch {
+      // Unknown currency code or locale
+      return `${amount.toLocaleString()} ${currency}`;
+    }
+  };
+
+  const handleShowMore = async () => {
+    if (!nextCursor || !window.openai?.callTool) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await window.openai.callTool('accommodations_search', {
+        ...(toolInput ?? {}),
+        cursor: nextCursor,
+      });
+      if (response.isError) {
+        // Keep the cursor so the user can try again
+        console.error('Failed to load more accommodations', response.structuredContent);
+        return;
+      }
+      const output = response.structuredContent as Partial<Props> | undefined;
+
+      setWidgetState((prev) => ({
+        moreAccommodations: [...(prev?.moreAccommodations ?? []), ...(output?.accommodations ?? [])],
+        nextCursor: output?.nextCursor ?? null,
+      }));
+    } catch (error) {
+      console.error('Failed to load more accommodations', error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
   const handleAccommodationClick = (acc: Accommodation) => {
+    if (window.openai?.callTool) {
+      window.openai.callTool('accommodation_details', {
+        hotelId: acc.id,
+        ...(checkIn ? { checkIn } : {}),
+        ...(checkOut ? { checkOut } : {}),
+        ...(adults ? { adults } : {}),
+        ...(children !== undefined ? { children } : {}),
+        ...(childrenAges?.length ? { childrenAges } : {}),
+        ...(rooms ? { rooms } : {}),
+      }).catch((error) => {
+        console.error('Failed to load accommodation details', error);
+      });
+      return;
+    }
+
     if (window.parent && window.parent.postMessage) {
       window.parent.postMessage({
         type: 'accommodation-selected',
@@ -96,6 +195,7 @@ const BookingSearchResults: React.FC = () => {
           id: acc.id, 
           name: acc.name,
           price: acc.pricePerNight,
+          currency: acc.currency,
           rating: acc.rating,
           type: acc.type
         }
@@ -311,15 +411,20 @@ const BookingSearchResults: React.FC = () => {
 
   if (accommodations.length === 0) {
     return (
-      <div className="w-full p-10 text-center text-muted-foreground">
-        No accommodations found
+      <div dir={dir} className="w-full p-10 text-center text-muted-foreground">
+        {messages.noResults}
       </div>
     );
   }
 
   return (
-    <div className="w-full h-full overflow-hidden bg-transparent">
+    <div dir={dir} className="w-full h-full overflow-hidden bg-transparent">
       <div className="relative w-full p-4 bg-transparent">
+        {sortBy && (
+          <div className="px-1 text-xs text-muted-foreground">
+            {formatMessage(messages.sortedBy, { sort: messages.sort[sortBy] || sortBy })}
+          </div>
+        )}
         <div
           ref={containerRef}
           className="flex gap-4 overflow-x-auto scroll-smooth p-1 bg-transparent"
@@ -365,17 +470,19 @@ const BookingSearchResults: React.FC = () => {
                     <div className="flex-1">
                       <div className="flex justify-between items-start mb-2">
                         <div className="flex items-center gap-1 mb-1">
-                          {renderStars(acc.rating)}
-                        </div>
-                        <div className="flex-shrink-0">
-                          <span className={cn(
-                            "inline-flex items-center justify-center min-w-[32px] h-6 px-2",
-                            "rounded-md text-[13px] font-bold",
-                            badgeClass
-                          )}>
-                            {acc.rating.toFixed(1)}
-                          </span>
+                          {acc.rating !== undefined && renderStars(acc.rating)}
                         </div>
+                        {acc.rating !== undefined && (
+                          <div className="flex-shrink-0">
+                            <span className={cn(
+                              "inline-flex items-center justify-center min-w-[32px] h-6 px-2",
+                              "rounded-md text-[13px] font-bold",
+                              badgeClass
+                            )}>
+                              {acc.rating.toFixed(1)}
+                            </span>
+                          </div>
+                        )}
                       </div>
                       
                       <h3 className="text-base font-semibold leading-snug text-foreground mb-1 line-clamp-2">
@@ -388,7 +495,9 @@ const BookingSearchResults: React.FC = () => {
                       </div>
                       
                       <div className="text-sm text-muted-foreground mb-2">
-                        {acc.reviewCount ? `${acc.reviewCount.toLocaleString()} reviews` : 'No reviews'}
+                        {acc.reviewCount
+                          ? formatMessage(messages.reviews, { count: acc.reviewCount.toLocaleString(locale || undefined) })
+                          : messages.noReviews}
                       </div>
                       
                       {topFacilities.length > 0 && (
@@ -408,13 +517,62 @@ const BookingSearchResults: React.FC = () => {
 
                     <div className="mt-auto pt-3">
                       <div className="flex items-baseline gap-1 mb-2">
+                        {acc.priceBreakdown?.strikethrough && nights > 0 && (
+                          <div className="text-sm text-muted-foreground line-through">
+                            {formatPrice(acc.priceBreakdown.strikethrough / nights, acc.priceBreakdown.currency)}
+                          </div>
+                        )}
                         <div className="text-2xl font-bold text-foreground">
-                          ${acc.pricePerNight.toLocaleString()}
+                          {formatPrice(acc.pricePerNight, acc.currency)}
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          per night
+                          {messages.perNight}
                         </div>
                       </div>
+                      {acc.priceBreakdown && (
+                        <div className="mb-2">
+                          <button
+                            onClick={(e) => {
+                              // Keep the card click (details) from firing
+                              e.stopPropagation();
+                              setExpandedPriceId(expandedPriceId === acc.id ? null : acc.id);
+                            }}
+                            className="text-xs font-semibold text-[#003b95] dark:text-blue-400 hover:underline"
+                            aria-expanded={expandedPriceId === acc.id}
+                          >
+                            {messages.priceDetails}
+                          </button>
+                          {expandedPriceId === acc.id && (
+                            <dl className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                              {acc.priceBreakdown.net !== undefined && (
+                                <div className="flex justify-between gap-2">
+                                  <dt>{messages.netPrice}</dt>
+                                  <dd>{formatPrice(acc.priceBreakdown.net, acc.priceBreakdown.currency)}</dd>
+                                </div>
+                              )}
+                              {acc.priceBreakdown.items.map((item) => (
+                                <div key={`${item.inclusion}-${item.name}`} className="flex justify-between gap-2">
+                                  <dt>
+                                    {item.details || item.name}
+                                    {item.inclusion === 'excluded' ? ` · ${messages.excludedCharges}` : ''}
+                                  </dt>
+                                  <dd>{formatPrice(item.amount, acc.priceBreakdown!.currency)}</dd>
+                                </div>
+                              ))}
+                              {acc.priceBreakdown.discount !== undefined && (
+                                <div className="flex justify-between gap-2 text-green-700 dark:text-green-400">
+                                  <dt>{messages.discount}</dt>
+                                  <dd>−{formatPrice(acc.priceBreakdown.discount, acc.priceBreakdown.currency)}</dd>
+                                </div>
+                              )}
+                              <div className="flex justify-between gap-2 font-semibold text-foreground">
+                                <dt>{formatMessage(messages.totalForNights, { nights })}</dt>
+                                <dd>{formatPrice(acc.priceBreakdown.allInclusive, acc.priceBreakdown.currency)}</dd>
+                              </div>
+                            </dl>
+                          )}
+                        </div>
+                      )}
                       <button
                         className={cn(
                           "w-full bg-gray-900 text-white border-none rounded-3xl py-2.5 px-4",
@@ -424,7 +582,7 @@ const BookingSearchResults: React.FC = () => {
                         )}
                         style={{ zIndex: 200 }}
                       >
-                        Book on Booking.com
+                        {messages.bookOnBooking}
                       </button>
                     </div>
                   </div>
@@ -432,6 +590,29 @@ const BookingSearchResults: React.FC = () => {
               </div>
             );
           })}
+
+          {nextCursor && (
+            <div className="flex-shrink-0 w-[160px] flex flex-col items-center justify-center gap-2">
+              <button
+                onClick={handleShowMore}
+                disabled={loadingMore}
+                className={cn(
+                  "bg-gray-900 text-white border-none rounded-3xl py-2.5 px-4",
+                  "text-sm font-semibold cursor-pointer transition-colors duration-200",
+                  "hover:bg-gray-800 disabled:opacity-60 disabled:cursor-wait",
+                  "dark:bg-white dark:text-gray-900 dark:hover:bg-gray-100"
+                )}
+              >
+                {loadingMore ? messages.loading : messages.showMore}
+              </button>
+              <div className="text-xs text-muted-foreground">
+                {formatMessage(messages.shownOfTotal, {
+                  shown: accommodations.length,
+                  total: totalResults.toLocaleString(locale || undefined),
+                })}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Carousel Controls */}
@@ -445,9 +626,9 @@ const BookingSearchResults: React.FC = () => {
               "hover:bg-gray-50 dark:hover:bg-gray-700 hover:scale-105 disabled:opacity-30 disabled:cursor-not-allowed",
               showPrevButton ? "opacity-100" : "opacity-0 pointer-events-none"
             )}
-            aria-label="Show previous card"
+            aria-label={messages.previousCard}
           >
-            <svg className="w-6 h-6 text-foreground" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <svg className="w-6 h-6 text-foreground rtl:-scale-x-100" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <polyline points="15 18 9 12 15 6"></polyline>
             </svg>
           </button>
@@ -460,9 +641,9 @@ const BookingSearchResults: React.FC = () => {
               "hover:bg-gray-50 dark:hover:bg-gray-700 hover:scale-105 disabled:opacity-30 disabled:cursor-not-allowed",
               showNextButton ? "opacity-100" : "opacity-0 pointer-events-none"
             )}
-            aria-label="Show next card"
+            aria-label={messages.nextCard}
           >
-            <svg className="w-6 h-6 text-foreground" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <svg className="w-6 h-6 text-foreground rtl:-scale-x-100" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <polyline points="9 18 15 12 9 6"></polyline>
             </svg>
           </button>
@@ -71,6 +71,8 @@ export type RequestDisplayMode = (args: { mode: DisplayMode }) => Promise<{
 
 export type CallToolResponse = {
   result: string;
+  structuredContent?: UnknownObject;
+  isError?: boolean;
 };
 
 /** Calling APIs */
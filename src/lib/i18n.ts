@@ -0,0 +1,231 @@
+export type Messages = {
+  noResults: string;
+  sortedBy: string;
+  sort: Record<string, string>;
+  reviews: string;
+  noReviews: string;
+  perNight: string;
+  bookOnBooking: string;
+  showMore: string;
+  loading: string;
+  shownOfTotal: string;
+  previousCard: string;
+  nextCard: string;
+  priceDetails: string;
+  netPrice: string;
+  excludedCharges: string;
+  totalForNights: string;
+  discount: string;
+};
+
+const en: Messages = {
+  noResults: 'No accommodations found',
+  sortedBy: 'Sorted by {sort}',
+  sort: {
+    popularity: 'Popularity',
+    distance: 'Distance',
+    class_descending: 'Stars (5 to 0)',
+    class_ascending: 'Stars (0 to 5)',
+    bayesian_review_score: 'Guest review score',
+    price: 'Price (low to high)',
+  },
+  reviews: '{count} reviews',
+  noReviews: 'No reviews',
+  perNight: 'per night',
+  bookOnBooking: 'Book on Booking.com',
+  showMore: 'Show more',
+  loading: 'Loading…',
+  shownOfTotal: '{shown} of {total}',
+  previousCard: 'Show previous card',
+  nextCard: 'Show next card',
+  priceDetails: 'Price details',
+  netPrice: 'Price before taxes',
+  excludedCharges: 'Paid at the property',
+  totalForNights: 'Total for {nights} nights',
+  discount: 'You save',
+};
+
+const de: Messages = {
+  noResults: 'Keine Unterkünfte gefunden',
+  sortedBy: 'Sortiert nach {sort}',
+  sort: {
+    popularity: 'Beliebtheit',
+    distance: 'Entfernung',
+    class_descending: 'Sterne (5 bis 0)',
+    class_ascending: 'Sterne (0 bis 5)',
+    bayesian_review_score: 'Gästebewertung',
+    price: 'Preis (niedrigster zuerst)',
+  },
+  reviews: '{count} Bewertungen',
+  noReviews: 'Keine Bewertungen',
+  perNight: 'pro Nacht',
+  bookOnBooking: 'Auf Booking.com buchen',
+  showMore: 'Mehr anzeigen',
+  loading: 'Wird geladen…',
+  shownOfTotal: '{shown} von {total}',
+  previousCard: 'Vorherige Karte anzeigen',
+  nextCard: 'Nächste Karte anzeigen',
+  priceDetails: 'Preisdetails',
+  netPrice: 'Preis vor Steuern',
+  excludedCharges: 'Zahlung in der Unterkunft',
+  totalForNights: 'Gesamt für {nights} Nächte',
+  discount: 'Sie sparen',
+};
+
+const fr: Messages = {
+  noResults: 'Aucun hébergement trouvé',
+  sortedBy: 'Trié par {sort}',
+  sort: {
+    popularity: 'Popularité',
+    distance: 'Distance',
+    class_descending: 'Étoiles (5 à 0)',
+    class_ascending: 'Étoiles (0 à 5)',
+    bayesian_review_score: 'Note des clients',
+    price: 'Prix (croissant)',
+  },
+  reviews: '{count} avis',
+  noReviews: 'Aucun avis',
+  perNight: 'par nuit',
+  bookOnBooking: 'Réserver sur Booking.com',
+  showMore: 'Afficher plus',
+  loading: 'Chargement…',
+  shownOfTotal: '{shown} sur {total}',
+  previousCard: 'Afficher la carte précédente',
+  nextCard: 'Afficher la carte suivante',
+  priceDetails: 'Détails du prix',
+  netPrice: 'Prix hors taxes',
+  excludedCharges: 'À payer sur place',
+  totalForNights: 'Total pour {nights} nuits',
+  discount: 'Vous économisez',
+};
+
+const es: Messages = {
+  noResults: 'No se han encontrado alojamientos',
+  sortedBy: 'Ordenado por {sort}',
+  sort: {
+    popularity: 'Popularidad',
+    distance: 'Distancia',
+    class_descending: 'Estrellas (de 5 a 0)',
+    class_ascending: 'Estrellas (de 0 a 5)',
+    bayesian_review_score: 'Puntuación de los clientes',
+    price: 'Precio (de menor a mayor)',
+  },
+  reviews: '{count} comentarios',
+  noReviews: 'Sin comentarios',
+  perNight: 'por noche',
+  bookOnBooking: 'Reservar en Booking.com',
+  showMore: 'Mostrar más',
+  loading: 'Cargando…',
+  shownOfTotal: '{shown} de {total}',
+  previousCard: 'Mostrar la tarjeta anterior',
+  nextCard: 'Mostrar la tarjeta siguiente',
+  priceDetails: 'Detalles del precio',
+  netPrice: 'Precio sin impuestos',
+  excludedCharges: 'A pagar en el alojamiento',
+  totalForNights: 'Total por {nights} noches',
+  discount: 'Ahorras',
+};
+
+const cs: Messages = {
+  noResults: 'Nenašli jsme žádné ubytování',
+  sortedBy: 'Seřazeno podle: {sort}',
+  sort: {
+    popularity: 'Oblíbenost',
+    distance: 'Vzdálenost',
+    class_descending: 'Hvězdičky (5 až 0)',
+    class_ascending: 'Hvězdičky (0 až 5)',
+    bayesian_review_score: 'Hodnocení hostů',
+    price: 'Cena (od nejnižší)',
+  },
+  reviews: 'Hodnocení: {count}',
+  noReviews: 'Bez hodnocení',
+  perNight: 'za noc',
+  bookOnBooking: 'Rezervovat na Booking.com',
+  showMore: 'Zobrazit další',
+  loading: 'Načítání…',
+  shownOfTotal: '{shown} z {total}',
+  previousCard: 'Zobrazit předchozí kartu',
+  nextCard: 'Zobrazit další kartu',
+  priceDetails: 'Podrobnosti ceny',
+  netPrice: 'Cena bez daní',
+  excludedCharges: 'Platí se v ubytování',
+  totalForNights: 'Celkem za noci: {nights}',
+  discount: 'Ušetříte',
+};
+
+const ar: Messages = {
+  noResults: 'لم يتم العثور على أماكن إقامة',
+  sortedBy: 'مرتبة حسب {sort}',
+  sort: {
+    popularity: 'الأكثر شعبية',
+    distance: 'المسافة',
+    class_descending: 'النجوم (من 5 إلى 0)',
+    class_ascending: 'النجوم (من 0 إلى 5)',
+    bayesian_review_score: 'تقييم الضيوف',
+    price: 'السعر (من الأقل إلى الأعلى)',
+  },
+  reviews: '{count} تقييمات',
+  noReviews: 'لا توجد تقييمات',
+  perNight: 'لكل ليلة',
+  bookOnBooking: 'احجز على Booking.com',
+  showMore: 'عرض المزيد',
+  loading: 'جارٍ التحميل…',
+  shownOfTotal: '{shown} من {total}',
+  previousCard: 'عرض البطاقة السابقة',
+  nextCard: 'عرض البطاقة التالية',
+  priceDetails: 'تفاصيل السعر',
+  netPrice: 'السعر قبل الضرائب',
+  excludedCharges: 'يُدفع في مكان الإقامة',
+  totalForNights: 'الإجمالي لعدد {nights} ليالٍ',
+  discount: 'توفر',
+};
+
+const he: Messages = {
+  noResults: 'לא נמצאו מקומות אירוח',
+  sortedBy: 'ממוין לפי {sort}',
+  sort: {
+    popularity: 'פופולריות',
+    distance: 'מרחק',
+    class_descending: 'כוכבים (5 עד 0)',
+    class_ascending: 'כוכבים (0 עד 5)',
+    bayesian_review_score: 'ציון אורחים',
+    price: 'מחיר (מהנמוך לגבוה)',
+  },
+  reviews: '{count} חוות דעת',
+  noReviews: 'אין חוות דעת',
+  perNight: 'ללילה',
+  bookOnBooking: 'הזמינו ב-Booking.com',
+  showMore: 'הצג עוד',
+  loading: 'טוען…',
+  shownOfTotal: '{shown} מתוך {total}',
+  previousCard: 'הצג את הכרטיס הקודם',
+  nextCard: 'הצג את הכרטיס הבא',
+  priceDetails: 'פירוט המחיר',
+  netPrice: 'מחיר לפני מיסים',
+  excludedCharges: 'לתשלום במקום האירוח',
+  totalForNights: 'סה"כ עבור {nights} לילות',
+  discount: 'אתם חוסכים',
+};
+
+const catalogs: Record<string, Messages> = { en, de, fr, es, cs, ar, he };
+
+// Only languages with a catalog: others fall back to English, laid out left to right
+const RTL_LANGUAGES = new Set(['ar', 'he']);
+
+const languageOf = (locale?: string | null) => (locale || 'en').toLowerCase().split(/[-_]/)[0];
+
+// Message catalog for a host locale, falling back to English
+export function getMessages(locale?: string | null): Messages {
+  return catalogs[languageOf(locale)] || en;
+}
+
+export function getTextDirection(locale?: string | null): 'rtl' | 'ltr' {
+  return RTL_LANGUAGES.has(languageOf(locale)) ? 'rtl' : 'ltr';
+}
+
+// Fill {placeholders} in a catalog message
+export function formatMessage(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (match, key) =>
+    key in values ? String(values[key]) : match
+  );
+}
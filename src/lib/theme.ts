@@ -0,0 +1,27 @@
+import type { Theme } from "../hooks/types";
+
+declare global {
+  interface Window {
+    /** Theme the host may set before the widget script runs */
+    __THEME__?: Theme;
+  }
+}
+
+function applyTheme(theme: Theme | undefined) {
+  document.documentElement.classList.toggle("dark", theme === "dark");
+}
+
+// Transparent background so the host's surface shows through, the initial
+// theme from window.__THEME__, and later changes posted by the parent
+export function initializeTheme() {
+  document.body.style.background = "transparent";
+  document.documentElement.style.background = "transparent";
+
+  applyTheme(window.__THEME__ ?? "light");
+
+  window.addEventListener("message", (event) => {
+    if (event.data?.type === "theme-changed") {
+      applyTheme(event.data.theme);
+    }
+  });
+}
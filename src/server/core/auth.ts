@@ -0,0 +1,314 @@
+/**
+ * Optional authentication for the MCP endpoints: static bearer API keys
+ * and/or OAuth 2.1 access tokens (JWTs) checked against an issuer's JWKS.
+ * Built on Web Crypto so the Node server and the Worker share it.
+ */
+
+export type OAuthConfig = {
+  /** Authorization server, must match the token's `iss` */
+  issuer: string;
+  /** Defaults to the jwks_uri of the issuer's OAuth metadata */
+  jwksUri?: string;
+  /** Expected `aud`; defaults to the resource URL */
+  audience?: string;
+  /** Scopes every token must carry */
+  requiredScopes?: string[];
+};
+
+export type AuthConfig = {
+  /** Static bearer keys, e.g. one per client */
+  apiKeys: string[];
+  oauth?: OAuthConfig;
+};
+
+/** Who made the request, for logs and quotas */
+export type Principal = {
+  kind: "api_key" | "oauth";
+  /**
+   * Stable id of the caller: a fingerprint of the API key, or the token's
+   * issuer, client and subject, so users of one OAuth client stay apart
+   */
+  id: string;
+  /** The API key or OAuth client, which client quotas count against */
+  clientId: string;
+  scopes: string[];
+};
+
+export type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; response: Response };
+
+export type Authenticator = {
+  /**
+   * Check the request's bearer token. `resourceUrl` is the public URL of the
+   * MCP endpoint, used as default audience and, with OAuth, in the 401 challenge.
+   */
+  authenticate(request: Request, resourceUrl: string): Promise<AuthResult>;
+  /** RFC 9728 metadata for /.well-known/oauth-protected-resource, null without OAuth */
+  protectedResourceMetadata(resourceUrl: string): Record<string, unknown> | null;
+};
+
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// How long fetched signing keys are trusted before they are refreshed
+const JWKS_TTL_MS = 10 * 60 * 1000;
+
+// Allowed clock difference for exp and nbf
+const CLOCK_SKEW_SECONDS = 60;
+
+const ALGORITHMS: Record<string, { import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | RsaPssParams | EcdsaParams }> = {
+  RS256: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  PS256: { import: { name: "RSA-PSS", hash: "SHA-256" }, verify: { name: "RSA-PSS", saltLength: 32 } },
+  ES256: { import: { name: "ECDSA", namedCurve: "P-256" }, verify: { name: "ECDSA", hash: "SHA-256" } },
+};
+
+// MCP_API_KEYS (comma separated) and OAUTH_ISSUER, OAUTH_JWKS_URI,
+// OAUTH_AUDIENCE, OAUTH_REQUIRED_SCOPES; undefined when neither is set
+export function authConfigFromEnv(env: Record<string, unknown>): AuthConfig | undefined {
+  const list = (value: unknown) =>
+    typeof value === "string" ? value.split(/[\s,]+/).filter(Boolean) : [];
+  const apiKeys = list(env.MCP_API_KEYS);
+  const issuer = typeof env.OAUTH_ISSUER === "string" && env.OAUTH_ISSUER ? env.OAUTH_ISSUER : undefined;
+
+  if (apiKeys.length === 0 && !issuer) {
+    return undefined;
+  }
+  return {
+    apiKeys,
+    oauth: issuer
+      ? {
+          issuer,
+          jwksUri: (env.OAUTH_JWKS_URI as string | undefined) || undefined,
+          audience: (env.OAUTH_AUDIENCE as string | undefined) || undefined,
+          requiredScopes: list(env.OAUTH_REQUIRED_SCOPES),
+        }
+      : undefined,
+  };
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function decodeJson(value: string): any {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function bearerToken(request: Request): string | undefined {
+  return /^Bearer\s+(\S+)$/i.exec(request.headers.get("Authorization") ?? "")?.[1];
+}
+
+/** Whether `request` carries `secret` as its bearer token, e.g. on admin endpoints */
+export async function hasBearerToken(request: Request, secret: string): Promise<boolean> {
+  const token = bearerToken(request);
+  return token !== undefined && (await sha256Hex(token)) === (await sha256Hex(secret));
+}
+
+/** Whether two requests were made by the same client; both unauthenticated counts as the same */
+export function isSamePrincipal(a: Principal | undefined, b: Principal | undefined): boolean {
+  return a?.kind === b?.kind && a?.id === b?.id;
+}
+
+// The metadata URL advertised in challenges sits at the origin of the resource;
+// it only exists with OAuth, so API-key-only challenges leave it out
+function metadataUrl(resourceUrl: string): string {
+  return new URL(PROTECTED_RESOURCE_METADATA_PATH, resourceUrl).toString();
+}
+
+function challenge(
+  status: 401 | 403,
+  resourceMetadataUrl: string | undefined,
+  error?: { code: "invalid_token" | "insufficient_scope"; description: string; scope?: string }
+): Response {
+  const params = resourceMetadataUrl ? [`resource_metadata="${resourceMetadataUrl}"`] : [];
+  if (error) {
+    params.push(`error="${error.code}"`, `error_description="${error.description}"`);
+    if (error.scope) {
+      params.push(`scope="${error.scope}"`);
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ error: error?.code ?? "unauthorized", error_description: error?.description ?? "Authentication required" }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "WWW-Authenticate": params.length > 0 ? `Bearer ${params.join(", ")}` : "Bearer",
+      },
+    }
+  );
+}
+
+class InvalidTokenError extends Error {}
+
+export function createAuthenticator(config: AuthConfig, options: { fetch?: typeof fetch } = {}): Authenticator {
+  const fetchImpl = options.fetch ?? fetch;
+  const oauth = config.oauth;
+  const issuer = oauth?.issuer.replace(/\/+$/, "");
+  // Compare digests so the lookup does not leak how much of a key matched
+  const apiKeyDigests = Promise.all(config.apiKeys.map(sha256Hex)).then((digests) => new Set(digests));
+
+  let jwks: { keys: Map<string, JsonWebKey & { kid?: string; alg?: string }>; fetchedAt: number } | undefined;
+
+  async function loadJwks(): Promise<NonNullable<typeof jwks>> {
+    let jwksUri = oauth!.jwksUri;
+    if (!jwksUri) {
+      const response = await fetchImpl(`${issuer}/.well-known/oauth-authorization-server`);
+      if (!response.ok) {
+        throw new Error(`Could not load the OAuth metadata of ${issuer}: HTTP ${response.status}`);
+      }
+      jwksUri = ((await response.json()) as { jwks_uri?: string }).jwks_uri;
+      if (!jwksUri) {
+        throw new Error(`OAuth metadata of ${issuer} has no jwks_uri`);
+      }
+    }
+
+    const response = await fetchImpl(jwksUri);
+    if (!response.ok) {
+      throw new Error(`Could not load JWKS from ${jwksUri}: HTTP ${response.status}`);
+    }
+    const { keys = [] } = (await response.json()) as { keys?: (JsonWebKey & { kid?: string })[] };
+    return {
+      keys: new Map(keys.map((key, index) => [key.kid ?? `#${index}`, key])),
+      fetchedAt: Date.now(),
+    };
+  }
+
+  // Refetch when the cache is stale or the token names a key we have not seen
+  // (the issuer rotated keys), at most once a minute for unknown kids
+  async function findKey(kid: string | undefined) {
+    const stale = !jwks || Date.now() - jwks.fetchedAt > JWKS_TTL_MS;
+    const unknown = kid !== undefined && !jwks?.keys.has(kid) && Date.now() - (jwks?.fetchedAt ?? 0) > 60_000;
+    if (stale || unknown) {
+      jwks = await loadJwks();
+    }
+    const key = kid !== undefined ? jwks!.keys.get(kid) : jwks!.keys.values().next().value;
+    if (!key) {
+      throw new InvalidTokenError("Unknown signing key");
+    }
+    return key;
+  }
+
+  async function verifyJwt(token: string, audience: string): Promise<Principal> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split(".");
+    let header: { alg?: string; kid?: string };
+    let payload: Record<string, any>;
+    try {
+      header = decodeJson(encodedHeader);
+      payload = decodeJson(encodedPayload);
+    } catch {
+      throw new InvalidTokenError("Malformed token");
+    }
+
+    const algorithm = ALGORITHMS[header.alg ?? ""];
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported algorithm ${header.alg}`);
+    }
+    const jwk = await findKey(header.kid);
+    const key = await crypto.subtle.importKey("jwk", jwk, algorithm.import, false, ["verify"]);
+    const valid = await crypto.subtle.verify(
+      algorithm.verify,
+      key,
+      base64UrlDecode(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) {
+      throw new InvalidTokenError("Invalid signature");
+    }
+
+    const now = Date.now() / 1000;
+    if (String(payload.iss).replace(/\/+$/, "") !== issuer) {
+      throw new InvalidTokenError("Token was issued by another authorization server");
+    }
+    const audiences: unknown[] = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(audience)) {
+      throw new InvalidTokenError("Token is not meant for this server");
+    }
+    if (typeof payload.exp !== "number" || payload.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new InvalidTokenError("Token expired");
+    }
+    if (typeof payload.nbf === "number" && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+      throw new InvalidTokenError("Token not valid yet");
+    }
+
+    const scopes: string[] = typeof payload.scope === "string"
+      ? payload.scope.split(" ").filter(Boolean)
+      : Array.isArray(payload.scp) ? payload.scp : [];
+    // Client credentials tokens have no subject: the client is the caller
+    const clientId = payload.client_id ?? payload.azp;
+    const subject = payload.sub;
+    if (clientId === undefined && subject === undefined) {
+      throw new InvalidTokenError("Token names neither a client nor a subject");
+    }
+    const client = String(clientId ?? subject);
+    const id = subject !== undefined ? `${issuer}|${clientId ?? ""}|${subject}` : `${issuer}|${client}`;
+    return { kind: "oauth", id, clientId: client, scopes };
+  }
+
+  return {
+    async authenticate(request, resourceUrl) {
+      const resourceMetadataUrl = oauth ? metadataUrl(resourceUrl) : undefined;
+      const token = bearerToken(request);
+      if (!token) {
+        return { ok: false, response: challenge(401, resourceMetadataUrl) };
+      }
+
+      const digest = await sha256Hex(token);
+      if ((await apiKeyDigests).has(digest)) {
+        const id = `key:${digest.slice(0, 12)}`;
+        return { ok: true, principal: { kind: "api_key", id, clientId: id, scopes: [] } };
+      }
+
+      if (!oauth || token.split(".").length !== 3) {
+        return {
+          ok: false,
+          response: challenge(401, resourceMetadataUrl, { code: "invalid_token", description: "Unknown API key or token" }),
+        };
+      }
+
+      let principal: Principal;
+      try {
+        principal = await verifyJwt(token, oauth.audience ?? resourceUrl);
+      } catch (error) {
+        if (!(error instanceof InvalidTokenError)) {
+          console.error("[auth] --> Failed to verify token:", error);
+        }
+        const description = error instanceof InvalidTokenError ? error.message : "Token could not be verified";
+        return { ok: false, response: challenge(401, resourceMetadataUrl, { code: "invalid_token", description }) };
+      }
+
+      const missing = (oauth.requiredScopes ?? []).filter((scope) => !principal.scopes.includes(scope));
+      if (missing.length > 0) {
+        return {
+          ok: false,
+          response: challenge(403, resourceMetadataUrl, {
+            code: "insufficient_scope",
+            description: `Missing scopes: ${missing.join(" ")}`,
+            scope: oauth.requiredScopes!.join(" "),
+          }),
+        };
+      }
+      return { ok: true, principal };
+    },
+
+    protectedResourceMetadata(resourceUrl) {
+      if (!oauth) {
+        return null;
+      }
+      return {
+        resource: resourceUrl,
+        authorization_servers: [oauth.issuer],
+        bearer_methods_supported: ["header"],
+        scopes_supported: oauth.requiredScopes?.length ? oauth.requiredScopes : undefined,
+        resource_name: "Booking.com MCP Server",
+      };
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import type { AccommodationProvider } from "./providers/index.js";
+
+/** Storage behind the response cache; values must survive a JSON round trip */
+export type CacheStore = {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry, ttlSeconds: number): Promise<void>;
+};
+
+export type CacheEntry = {
+  value: unknown;
+  /** Epoch milliseconds */
+  storedAt: number;
+};
+
+export type CacheTtls = {
+  /** Destination lookups rarely change (default one day) */
+  destinations: number;
+  /** Prices and availability move quickly (default five minutes) */
+  searches: number;
+};
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  destinations: 24 * 60 * 60,
+  searches: 5 * 60,
+};
+
+export type CacheStatus = "hit" | "miss" | "bypass";
+
+export type CacheEvent = {
+  operation: "lookupDestinations" | "searchAccommodations";
+  status: CacheStatus;
+  /** Age of the cached value, on hits */
+  ageSeconds?: number;
+};
+
+/**
+ * In-memory LRU for long-lived Node processes: the least recently used entry
+ * is evicted once `maxEntries` is reached.
+ */
+export function createMemoryCache({ maxEntries = 500 } = {}): CacheStore {
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const item = entries.get(key);
+      if (!item) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (item.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      // Re-insert to mark as most recently used
+      entries.set(key, item);
+      // Callers may decorate results, so never hand out the stored object
+      return structuredClone(item.entry);
+    },
+    async set(key, entry, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { entry: structuredClone(entry), expiresAt: Date.now() + ttlSeconds * 1000 });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
+
+// The subset of a Cloudflare KV namespace binding the cache needs
+type KvNamespaceLike = {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(key: string, value: string, options: { expirationTtl: number }): Promise<void>;
+};
+
+// KV refuses expirations shorter than a minute
+const KV_MIN_TTL_SECONDS = 60;
+
+/** Cache shared by all Worker isolates, backed by a KV namespace */
+export function createKvCache(namespace: KvNamespaceLike, prefix = "booking-cache:"): CacheStore {
+  return {
+    async get(key) {
+      return ((await namespace.get(`${prefix}${key}`, "json")) as CacheEntry | null) ?? undefined;
+    },
+    async set(key, entry, ttlSeconds) {
+      await namespace.put(`${prefix}${key}`, JSON.stringify(entry), {
+        expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.round(ttlSeconds)),
+      });
+    },
+  };
+}
+
+// Drop undefined fields, sort object keys and unordered lists, and trim free
+// text so equivalent requests share a key
+function normalize(value: unknown, key = ""): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => normalize(item));
+    return key === "facilities" || key === "types" ? [...items].sort() : items;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, item]) => [name, normalize(item, name)])
+    );
+  }
+  return typeof value === "string" ? value.trim() : value;
+}
+
+// SHA-256 keeps keys short enough for KV whatever the parameters
+async function cacheKey(operation: string, params: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(normalize(params)))
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${operation}:${hex}`;
+}
+
+/**
+ * Wrap a provider so destination lookups and searches are answered from
+ * `store` when possible. Every lookup is reported through `onEvent`; with
+ * `bypass` the provider is always called and the fresh result stored.
+ */
+export function withCache(
+  provider: AccommodationProvider,
+  store: CacheStore,
+  options: { ttls: CacheTtls; bypass?: boolean; onEvent?: (event: CacheEvent) => void }
+): AccommodationProvider {
+  async function cached<P, R>(
+    operation: CacheEvent["operation"],
+    ttlSeconds: number,
+    params: P,
+    load: (params: P) => Promise<R>
+  ): Promise<R> {
+    const key = await cacheKey(`${provider.name}:${operation}`, params);
+
+    if (!options.bypass) {
+      try {
+        const entry = await store.get(key);
+        if (entry) {
+          options.onEvent?.({
+            operation,
+            status: "hit",
+            ageSeconds: Math.round((Date.now() - entry.storedAt) / 1000),
+          });
+          return entry.value as R;
+        }
+      } catch (error) {
+        console.warn("[cache] --> Failed to read", operation, error);
+      }
+    }
+
+    options.onEvent?.({ operation, status: options.bypass ? "bypass" : "miss" });
+    const value = await load(params);
+
+    try {
+      await store.set(key, { value, storedAt: Date.now() }, ttlSeconds);
+    } catch (error) {
+      console.warn("[cache] --> Failed to write", operation, error);
+    }
+    return value;
+  }
+
+  return {
+    ...provider,
+    lookupDestinations: (params) =>
+      cached("lookupDestinations", options.ttls.destinations, params, provider.lookupDestinations),
+    searchAccommodations: (params) =>
+      cached("searchAccommodations", options.ttls.searches, params, provider.searchAccommodations),
+  };
+}
+
+// BOOKING_CACHE_TTL_DESTINATIONS and BOOKING_CACHE_TTL_SEARCHES, in seconds
+export function cacheTtlsFromEnv(env: Record<string, unknown>): CacheTtls {
+  const seconds = (value: unknown, fallback: number) =>
+    value !== undefined && value !== "" && Number(value) >= 0 ? Number(value) : fallback;
+
+  return {
+    destinations: seconds(env.BOOKING_CACHE_TTL_DESTINATIONS, DEFAULT_CACHE_TTLS.destinations),
+    searches: seconds(env.BOOKING_CACHE_TTL_SEARCHES, DEFAULT_CACHE_TTLS.searches),
+  };
+}
+
+// Summarize the lookups of one tool call for the result _meta
+export function toCacheMeta(events: CacheEvent[]) {
+  const status: CacheStatus = events.some((event) => event.status === "bypass")
+    ? "bypass"
+    : events.every((event) => event.status === "hit") ? "hit" : "miss";
+
+  return { status, operations: events };
+}
@@ -0,0 +1,127 @@
+/**
+ * CORS policy shared by the Node server and the Worker. Only listed origins
+ * get CORS headers; the runtimes refuse MCP requests from any other browser
+ * origin, which also guards against DNS rebinding.
+ */
+
+export type CorsConfig = {
+  /**
+   * Exact origins ("https://app.example.com"), wildcard subdomains
+   * ("https://*.example.com", which does not match the bare domain) or "*"
+   * for any origin
+   */
+  allowedOrigins: string[];
+  allowedMethods: string[];
+  allowedHeaders: string[];
+  /** Response headers scripts may read */
+  exposedHeaders: string[];
+  /** How long browsers may cache a preflight */
+  maxAgeSeconds: number;
+  /** Allow cookies; never sent together with a "*" origin */
+  allowCredentials: boolean;
+};
+
+export type CorsPolicy = {
+  /** Whether a browser on `origin` may call the server */
+  isAllowed(origin: string): boolean;
+  /** Headers for a response to `origin`; none without an Origin or for unknown origins */
+  responseHeaders(origin: string | null | undefined): Record<string, string>;
+  /** Headers answering a preflight (OPTIONS) from `origin` */
+  preflightHeaders(origin: string | null | undefined): Record<string, string>;
+};
+
+export const DEFAULT_CORS_CONFIG: CorsConfig = {
+  allowedOrigins: ["https://zerotwo.ai", "http://localhost:3000", "http://localhost:5173"],
+  allowedMethods: ["GET", "POST", "DELETE", "OPTIONS"],
+  allowedHeaders: ["content-type", "authorization", "mcp-session-id", "mcp-protocol-version"],
+  exposedHeaders: ["mcp-session-id", "www-authenticate"],
+  maxAgeSeconds: 600,
+  allowCredentials: false,
+};
+
+// "https://*.example.com" matches any depth of subdomain, on the same scheme and port
+function originMatcher(pattern: string): (origin: string) => boolean {
+  const normalized = pattern.trim().toLowerCase().replace(/\/+$/, "");
+  if (normalized === "*") {
+    return () => true;
+  }
+  if (!normalized.includes("*")) {
+    return (origin) => origin === normalized;
+  }
+
+  const [scheme, host] = normalized.split("://");
+  if (!host?.startsWith("*.") || host.lastIndexOf("*") !== 0) {
+    throw new Error(`Invalid CORS origin pattern: ${pattern}`);
+  }
+  const domain = host.slice(2).replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  const regex = new RegExp(`^${scheme}://([a-z0-9-]+\\.)+${domain}$`);
+  return (origin) => regex.test(origin);
+}
+
+export function createCorsPolicy(config: CorsConfig = DEFAULT_CORS_CONFIG): CorsPolicy {
+  const matchers = config.allowedOrigins.map(originMatcher);
+  const anyOrigin = config.allowedOrigins.some((origin) => origin.trim() === "*");
+
+  function isAllowed(origin: string): boolean {
+    const normalized = origin.toLowerCase();
+    return matchers.some((matches) => matches(normalized));
+  }
+
+  // A wildcard cannot carry credentials; listed origins are echoed back instead
+  const echoOrigin = !anyOrigin || config.allowCredentials;
+
+  function responseHeaders(origin: string | null | undefined): Record<string, string> {
+    // Echoed headers differ by origin, so shared caches must key on it
+    const vary: Record<string, string> = echoOrigin ? { Vary: "Origin" } : {};
+    if (!origin || !isAllowed(origin)) {
+      return vary;
+    }
+    const headers: Record<string, string> = {
+      ...vary,
+      "Access-Control-Allow-Origin": echoOrigin ? origin : "*",
+    };
+    if (config.allowCredentials) {
+      headers["Access-Control-Allow-Credentials"] = "true";
+    }
+    if (config.exposedHeaders.length > 0) {
+      headers["Access-Control-Expose-Headers"] = config.exposedHeaders.join(", ");
+    }
+    return headers;
+  }
+
+  return {
+    isAllowed,
+    responseHeaders,
+    preflightHeaders(origin) {
+      const headers = responseHeaders(origin);
+      if (!headers["Access-Control-Allow-Origin"]) {
+        return headers;
+      }
+      return {
+        ...headers,
+        "Access-Control-Allow-Methods": config.allowedMethods.join(", "),
+        "Access-Control-Allow-Headers": config.allowedHeaders.join(", "),
+        "Access-Control-Max-Age": String(config.maxAgeSeconds),
+      };
+    },
+  };
+}
+
+// CORS_ALLOWED_ORIGINS, CORS_ALLOWED_METHODS and CORS_ALLOWED_HEADERS (comma
+// separated), CORS_MAX_AGE_SECONDS and CORS_ALLOW_CREDENTIALS; unset keeps the default
+export function corsConfigFromEnv(env: Record<string, unknown>): CorsConfig {
+  const list = (value: unknown, fallback: string[]) =>
+    typeof value === "string" && value.trim() ? value.split(",").map((item) => item.trim()).filter(Boolean) : fallback;
+  const maxAge = Number(env.CORS_MAX_AGE_SECONDS);
+
+  return {
+    allowedOrigins: list(env.CORS_ALLOWED_ORIGINS, DEFAULT_CORS_CONFIG.allowedOrigins),
+    allowedMethods: list(env.CORS_ALLOWED_METHODS, DEFAULT_CORS_CONFIG.allowedMethods).map((method) => method.toUpperCase()),
+    allowedHeaders: list(env.CORS_ALLOWED_HEADERS, DEFAULT_CORS_CONFIG.allowedHeaders).map((header) => header.toLowerCase()),
+    exposedHeaders: DEFAULT_CORS_CONFIG.exposedHeaders,
+    maxAgeSeconds: env.CORS_MAX_AGE_SECONDS !== undefined && env.CORS_MAX_AGE_SECONDS !== "" && maxAge >= 0
+      ? Math.floor(maxAge)
+      : DEFAULT_CORS_CONFIG.maxAgeSeconds,
+    allowCredentials: env.CORS_ALLOW_CREDENTIALS === "true",
+  };
+}
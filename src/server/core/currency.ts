@@ -0,0 +1,53 @@
+const DEFAULT_CURRENCY = "USD";
+
+const EURO_REGIONS = [
+  "AT", "BE", "CY", "DE", "EE", "ES", "FI", "FR", "GR", "HR", "IE", "IT",
+  "LT", "LU", "LV", "MT", "NL", "PT", "SI", "SK",
+];
+
+// Currency per ISO 3166 region for the locales hosts commonly send
+const CURRENCY_BY_REGION: Record<string, string> = {
+  ...Object.fromEntries(EURO_REGIONS.map((region) => [region, "EUR"])),
+  AE: "AED",
+  AU: "AUD",
+  BR: "BRL",
+  CA: "CAD",
+  CH: "CHF",
+  CN: "CNY",
+  CZ: "CZK",
+  DK: "DKK",
+  GB: "GBP",
+  HK: "HKD",
+  HU: "HUF",
+  IL: "ILS",
+  IN: "INR",
+  JP: "JPY",
+  KR: "KRW",
+  MX: "MXN",
+  NO: "NOK",
+  NZ: "NZD",
+  PL: "PLN",
+  RO: "RON",
+  SA: "SAR",
+  SE: "SEK",
+  SG: "SGD",
+  TH: "THB",
+  TR: "TRY",
+  TW: "TWD",
+  US: "USD",
+  ZA: "ZAR",
+};
+
+// Best guess currency for a BCP 47 locale such as "cs-CZ" or "fr"
+export function currencyForLocale(locale?: string): string {
+  if (!locale) {
+    return DEFAULT_CURRENCY;
+  }
+
+  try {
+    const region = new Intl.Locale(locale).maximize().region;
+    return (region && CURRENCY_BY_REGION[region]) || DEFAULT_CURRENCY;
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+}
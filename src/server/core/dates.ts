@@ -0,0 +1,267 @@
+import { BookingError } from "./errors.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Number of nights between two YYYY-MM-DD dates (at least one)
+export function countNights(checkIn: string, checkOut: string): number {
+  const nights = Math.round(
+    (Date.parse(`${checkOut}T00:00:00Z`) - Date.parse(`${checkIn}T00:00:00Z`)) / DAY_MS
+  );
+  return Number.isFinite(nights) && nights > 0 ? nights : 1;
+}
+
+// Booking.com does not take reservations longer than this
+export const MAX_NIGHTS = 30;
+
+const DEFAULT_LEAD_DAYS = 7;
+const DEFAULT_NIGHTS = 3;
+
+/** A date the user gave that cannot be searched, e.g. in the past */
+export class StayDateError extends BookingError {
+  constructor(
+    message: string,
+    readonly field: "checkIn" | "checkOut" | "dates"
+  ) {
+    super("INVALID_DATES", message, { field });
+    this.name = "StayDateError";
+  }
+}
+
+export type ResolvedStay = {
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  timeZone: string;
+  /** True when no dates were given and the default stay was used */
+  assumed: boolean;
+};
+
+function addDays(isoDate: string, days: number): string {
+  return toIsoDate(new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS));
+}
+
+function dayOfWeek(isoDate: string): number {
+  return new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar date in the given IANA time zone
+export function todayIn(timeZone: string, now = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+// Build a YYYY-MM-DD date, or null when the day does not exist in that month
+function calendarDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return toIsoDate(date);
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+function monthIndex(name: string): number {
+  const month = MONTHS.findIndex((candidate) => candidate.startsWith(name.slice(0, 3)));
+  return month >= 0 && MONTHS[month].startsWith(name.replace(/\.$/, "")) ? month + 1 : 0;
+}
+
+const MONTH_PATTERN = "([a-z]{3,9}\\.?)";
+const DAY_PATTERN = "(\\d{1,2})(?:st|nd|rd|th)?";
+const YEAR_PATTERN = "(?:\\s+(\\d{4}))?";
+
+const MONTH_FIRST = new RegExp(`^${MONTH_PATTERN}\\s+${DAY_PATTERN}${YEAR_PATTERN}$`);
+const DAY_FIRST = new RegExp(`^${DAY_PATTERN}\\s+(?:of\\s+)?${MONTH_PATTERN}${YEAR_PATTERN}$`);
+
+// A month and day without a year means the next occurrence after the reference date
+function monthDay(month: number, day: number, year: string | undefined, reference: string): string | null {
+  if (!month) {
+    return null;
+  }
+  if (year) {
+    return calendarDate(Number(year), month, day);
+  }
+
+  const referenceYear = Number(reference.slice(0, 4));
+  const date = calendarDate(referenceYear, month, day);
+  if (date && date >= reference) {
+    return date;
+  }
+  return calendarDate(referenceYear + 1, month, day);
+}
+
+/**
+ * Resolve one date: strict YYYY-MM-DD, or an English expression like
+ * "tomorrow", "next Friday", "in 3 days" or "Dec 20", relative to `reference`.
+ * Returns null when the text is not a date we understand.
+ */
+export function parseDateExpression(text: string, reference: string): string | null {
+  const input = text.trim().toLowerCase().replace(/,/g, " ").replace(/\s+/g, " ");
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input);
+  if (iso) {
+    return calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  if (input === "today" || input === "tonight") return reference;
+  if (input === "tomorrow") return addDays(reference, 1);
+  if (input === "day after tomorrow" || input === "the day after tomorrow") return addDays(reference, 2);
+
+  const offset = /^in (\d+|a|one) (day|days|week|weeks)$/.exec(input);
+  if (offset) {
+    const count = /^\d+$/.test(offset[1]) ? Number(offset[1]) : 1;
+    return addDays(reference, offset[2].startsWith("week") ? count * 7 : count);
+  }
+
+  if (input === "next week") {
+    return addDays(reference, ((8 - dayOfWeek(reference)) % 7) || 7);
+  }
+
+  const weekend = /^(this |next )?weekend$/.exec(input);
+  if (weekend) {
+    // Weekend stays start on Friday
+    const untilFriday = (5 - dayOfWeek(reference) + 7) % 7;
+    return addDays(reference, untilFriday + (weekend[1] === "next " && untilFriday < 2 ? 7 : 0));
+  }
+
+  const weekday = /^(this |next |on )?([a-z]+)$/.exec(input);
+  const weekdayIndex = weekday
+    ? WEEKDAYS.findIndex((name) => name.startsWith(weekday[2]) && weekday[2].length >= 3)
+    : -1;
+  if (weekday && weekdayIndex >= 0) {
+    const ahead = (weekdayIndex - dayOfWeek(reference) + 7) % 7;
+    return addDays(reference, ahead === 0 && weekday[1] !== "this " ? 7 : ahead);
+  }
+
+  const monthFirst = MONTH_FIRST.exec(input);
+  if (monthFirst) {
+    return monthDay(monthIndex(monthFirst[1]), Number(monthFirst[2]), monthFirst[3], reference);
+  }
+
+  const dayFirst = DAY_FIRST.exec(input);
+  if (dayFirst) {
+    return monthDay(monthIndex(dayFirst[2]), Number(dayFirst[1]), dayFirst[3], reference);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a whole stay written in words, e.g. "for 4 nights from Dec 20",
+ * "Dec 20 to Dec 24", "Dec 20-24" or just "next Friday".
+ */
+export function parseStayExpression(
+  text: string,
+  reference: string
+): { checkIn: string; checkOut?: string; nights?: number } | null {
+  const input = text.trim().toLowerCase().replace(/\s+/g, " ");
+
+  const nightsFirst = /^(?:for )?(\d+) nights? (?:from|starting|starting on|on) (.+)$/.exec(input);
+  const nightsLast = /^(?:from )?(.+?),? for (\d+) nights?$/.exec(input);
+  if (nightsFirst || nightsLast) {
+    const [count, start] = nightsFirst ? [nightsFirst[1], nightsFirst[2]] : [nightsLast![2], nightsLast![1]];
+    const checkIn = parseDateExpression(start, reference);
+    return checkIn ? { checkIn, nights: Number(count) } : null;
+  }
+
+  const sameMonth = new RegExp(`^(?:from )?${MONTH_PATTERN}\\s+${DAY_PATTERN}\\s*(?:-|–|to|until)\\s*${DAY_PATTERN}${YEAR_PATTERN}$`).exec(input);
+  if (sameMonth) {
+    const checkIn = monthDay(monthIndex(sameMonth[1]), Number(sameMonth[2]), sameMonth[4], reference);
+    const checkOut = checkIn && calendarDate(Number(checkIn.slice(0, 4)), Number(checkIn.slice(5, 7)), Number(sameMonth[3]));
+    return checkIn && checkOut ? { checkIn, checkOut } : null;
+  }
+
+  const range = /^(?:from |between )?(.+?)\s+(?:to|until|till|through|and|-|–)\s+(.+)$/.exec(input);
+  if (range) {
+    const checkIn = parseDateExpression(range[1], reference);
+    const checkOut = checkIn && parseDateExpression(range[2], checkIn);
+    return checkIn && checkOut ? { checkIn, checkOut } : null;
+  }
+
+  const checkIn = parseDateExpression(input.replace(/^(?:from|on|starting) /, ""), reference);
+  if (!checkIn) {
+    return null;
+  }
+  // A weekend is Friday and Saturday night
+  return input.endsWith("weekend") ? { checkIn, nights: 2 } : { checkIn };
+}
+
+/**
+ * Turn the date inputs of a tool call into a concrete, searchable stay.
+ * Relative expressions are resolved against today in `timeZone`; missing
+ * dates default to three nights starting a week from today.
+ */
+export function resolveStay(
+  params: { checkIn?: string; checkOut?: string; nights?: number; dates?: string },
+  timeZone: string,
+  now = new Date()
+): ResolvedStay {
+  const today = todayIn(timeZone, now);
+  let checkIn: string | undefined;
+  let checkOut: string | undefined;
+  let nights = params.nights;
+
+  if (params.dates) {
+    const stay = parseStayExpression(params.dates, today);
+    if (!stay) {
+      throw new StayDateError(`Could not understand the dates "${params.dates}"`, "dates");
+    }
+    checkIn = stay.checkIn;
+    checkOut = stay.checkOut;
+    nights = nights ?? stay.nights;
+  }
+
+  if (params.checkIn) {
+    checkIn = parseDateExpression(params.checkIn, today) ?? undefined;
+    if (!checkIn) {
+      throw new StayDateError(`Invalid check-in date "${params.checkIn}", use YYYY-MM-DD`, "checkIn");
+    }
+  }
+
+  if (params.checkOut) {
+    checkOut = parseDateExpression(params.checkOut, checkIn ?? today) ?? undefined;
+    if (!checkOut) {
+      throw new StayDateError(`Invalid check-out date "${params.checkOut}", use YYYY-MM-DD`, "checkOut");
+    }
+  }
+
+  const assumed = !checkIn && !checkOut;
+  checkIn = checkIn ?? (checkOut ? addDays(checkOut, -(nights || DEFAULT_NIGHTS)) : addDays(today, DEFAULT_LEAD_DAYS));
+  checkOut = checkOut ?? addDays(checkIn, nights || DEFAULT_NIGHTS);
+
+  if (checkIn < today) {
+    throw new StayDateError(`Check-in ${checkIn} is in the past (today is ${today} in ${timeZone})`, "checkIn");
+  }
+  if (checkOut <= checkIn) {
+    throw new StayDateError(`Check-out ${checkOut} must be after check-in ${checkIn}`, "checkOut");
+  }
+
+  const stayNights = countNights(checkIn, checkOut);
+  if (stayNights > MAX_NIGHTS) {
+    throw new StayDateError(`Stays are limited to ${MAX_NIGHTS} nights, got ${stayNights}`, "checkOut");
+  }
+
+  return { checkIn, checkOut, nights: stayNights, timeZone, assumed };
+}
@@ -0,0 +1,109 @@
+import { ZodError } from "zod";
+
+export type BookingErrorCode =
+  | "NOT_CONFIGURED"
+  | "AUTH_FAILED"
+  | "QUOTA_EXCEEDED"
+  | "CLIENT_QUOTA_EXCEEDED"
+  | "DESTINATION_NOT_FOUND"
+  | "ACCOMMODATION_NOT_FOUND"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_ERROR"
+  | "UPSTREAM_UNAVAILABLE"
+  | "VALIDATION_ERROR"
+  | "INVALID_DATES";
+
+// Worth retrying the same call later without changing the arguments
+const RETRYABLE_CODES = new Set<BookingErrorCode>([
+  "QUOTA_EXCEEDED",
+  "CLIENT_QUOTA_EXCEEDED",
+  "UPSTREAM_TIMEOUT",
+  "UPSTREAM_ERROR",
+  "UPSTREAM_UNAVAILABLE",
+]);
+
+// What the model should do next, appended to the error text
+const NEXT_STEPS: Record<BookingErrorCode, string> = {
+  NOT_CONFIGURED: "Tell the user the accommodation search is not available right now.",
+  AUTH_FAILED: "Tell the user the accommodation search is not available right now.",
+  QUOTA_EXCEEDED: "Tell the user the search is busy and try again in a minute.",
+  CLIENT_QUOTA_EXCEEDED: "Tell the user they reached their usage limit and can search again after retryAfterSeconds.",
+  DESTINATION_NOT_FOUND: "Call destination_lookup or ask the user for a different destination.",
+  ACCOMMODATION_NOT_FOUND: "Search again with accommodations_search and use a hotel id from its results.",
+  UPSTREAM_TIMEOUT: "Try again; if it keeps failing, tell the user Booking.com is not responding.",
+  UPSTREAM_ERROR: "Try again; if it keeps failing, tell the user Booking.com is not responding.",
+  UPSTREAM_UNAVAILABLE: "Tell the user Booking.com is temporarily unavailable and to try again in a few minutes.",
+  VALIDATION_ERROR: "Fix the arguments and call the tool again.",
+  INVALID_DATES: "Ask the user to confirm the dates and try again.",
+};
+
+/** An expected failure that is reported to the model as an `isError` tool result */
+export class BookingError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    readonly code: BookingErrorCode,
+    message: string,
+    /** Extra machine-readable fields merged into structuredContent.error */
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "BookingError";
+    this.retryable = RETRYABLE_CODES.has(code);
+  }
+}
+
+export type ToolErrorResult = {
+  content: { type: "text"; text: string }[];
+  structuredContent: {
+    error: { code: BookingErrorCode; message: string; retryable: boolean } & Record<string, unknown>;
+  };
+  isError: true;
+};
+
+// Map an HTTP status from Booking.com to the error the model sees
+export function upstreamError(status: number, what: string, retryAfterMs?: number): BookingError {
+  if (status === 401 || status === 403) {
+    return new BookingError("AUTH_FAILED", `Booking.com rejected the API key while trying to ${what}`, { status });
+  }
+  if (status === 429) {
+    return new BookingError("QUOTA_EXCEEDED", `Booking.com rate limit reached while trying to ${what}`, {
+      status,
+      ...(retryAfterMs !== undefined && { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }),
+    });
+  }
+  return new BookingError("UPSTREAM_ERROR", `Booking.com returned HTTP ${status} while trying to ${what}`, { status });
+}
+
+/**
+ * Tool result for an expected failure, or null when `error` is a bug that
+ * should surface as a protocol error instead.
+ */
+export function toToolErrorResult(error: unknown): ToolErrorResult | null {
+  let bookingError: BookingError;
+
+  if (error instanceof BookingError) {
+    bookingError = error;
+  } else if (error instanceof ZodError) {
+    bookingError = new BookingError(
+      "VALIDATION_ERROR",
+      `Invalid arguments: ${error.issues.map((issue) => `${issue.path.join(".") || "input"}: ${issue.message}`).join("; ")}`,
+      { issues: error.issues.map((issue) => ({ path: issue.path, message: issue.message })) }
+    );
+  } else {
+    return null;
+  }
+
+  return {
+    content: [{ type: "text", text: `${bookingError.message}. ${NEXT_STEPS[bookingError.code]}` }],
+    structuredContent: {
+      error: {
+        ...bookingError.details,
+        code: bookingError.code,
+        message: bookingError.message,
+        retryable: bookingError.retryable,
+      },
+    },
+    isError: true,
+  };
+}
@@ -0,0 +1,75 @@
+import type { SortOption } from "./schemas.js";
+import type {
+  Accommodation,
+  AccommodationSearchParams,
+  DestinationCandidate,
+  DestinationLookupParams,
+} from "./types.js";
+
+// Apply the optional search filters to a list of accommodations
+export function applyAccommodationFilters(
+  accommodations: Accommodation[],
+  params: AccommodationSearchParams
+): Accommodation[] {
+  let filtered = accommodations;
+
+  if (params.accommodationType) {
+    filtered = filtered.filter((acc) => acc.type === params.accommodationType);
+  }
+  if (params.minPrice) {
+    filtered = filtered.filter((acc) => acc.pricePerNight >= params.minPrice!);
+  }
+  if (params.maxPrice) {
+    filtered = filtered.filter((acc) => acc.pricePerNight <= params.maxPrice!);
+  }
+  if (params.rating) {
+    filtered = filtered.filter((acc) => (acc.rating ?? 0) >= params.rating!);
+  }
+  if (params.freeCancellation) {
+    filtered = filtered.filter((acc) => acc.cancellation.startsWith("Free cancellation"));
+  }
+  if (params.facilities && params.facilities.length > 0) {
+    filtered = filtered.filter((acc) =>
+      params.facilities!.every((facility) =>
+        acc.facilities.some((f) => f.toLowerCase().includes(facility.replace(/-/g, " ")))
+      )
+    );
+  }
+
+  return filtered;
+}
+
+// Kilometers from the search origin when known, otherwise from the city center
+function distanceOf(acc: Accommodation): number {
+  return acc.distanceFromOrigin?.kilometers ?? acc.location.distanceKm ?? Number.POSITIVE_INFINITY;
+}
+
+const comparators: Record<SortOption, ((a: Accommodation, b: Accommodation) => number) | null> = {
+  // Keep the upstream (or sample data) order
+  popularity: null,
+  distance: (a, b) => distanceOf(a) - distanceOf(b),
+  class_descending: (a, b) => (b.stars ?? 0) - (a.stars ?? 0),
+  class_ascending: (a, b) => (a.stars ?? 0) - (b.stars ?? 0),
+  bayesian_review_score: (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+  price: (a, b) => a.pricePerNight - b.pricePerNight,
+};
+
+// Order accommodations the way Booking.com would for the given sort option
+export function sortAccommodations(
+  accommodations: Accommodation[],
+  sortBy: SortOption
+): Accommodation[] {
+  const compare = comparators[sortBy];
+  return compare ? [...accommodations].sort(compare) : accommodations;
+}
+
+// Filter candidates by type and re-number them, keeping the upstream relevance order
+export function rankDestinations(
+  candidates: DestinationCandidate[],
+  params: DestinationLookupParams
+): DestinationCandidate[] {
+  return candidates
+    .filter((candidate) => !params.types || params.types.includes(candidate.destType))
+    .slice(0, params.limit ?? 8)
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+}
@@ -0,0 +1,41 @@
+import type { Accommodation, Coordinates } from "./schemas.js";
+
+export type SearchOrigin = {
+  kind: "coordinates" | "landmark";
+  label: string;
+  coordinates: Coordinates;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance between two points (haversine formula)
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Annotate each accommodation with its distance from the origin
+export function annotateDistances(
+  accommodations: Accommodation[],
+  origin: SearchOrigin
+): Accommodation[] {
+  return accommodations.map((acc) => {
+    const kilometers = Math.round(distanceKm(origin.coordinates, acc.location.coordinates) * 10) / 10;
+
+    return {
+      ...acc,
+      location: {
+        ...acc.location,
+        distance: `${kilometers} km from ${origin.label}`,
+        landmark: origin.kind === "landmark" ? origin.label : acc.location.landmark,
+      },
+      distanceFromOrigin: { kilometers, origin: origin.label },
+    };
+  });
+}
@@ -0,0 +1,248 @@
+import { BookingError } from "./errors.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type HttpClientOptions = {
+  /** Upstream name used in error messages, e.g. "Booking.com" */
+  upstream?: string;
+  /** Defaults to the global fetch of the current runtime */
+  fetch?: typeof fetch;
+  /** Give up on a single attempt after this long (default 15 s) */
+  timeoutMs?: number;
+  /** Never spend longer than this on one request, retries and waits included (default 30 s) */
+  deadlineMs?: number;
+  /** Extra attempts after a 429, a 5xx, a timeout or a network error (default 2) */
+  retries?: number;
+  /** First backoff delay, doubled on every retry and jittered (default 500 ms) */
+  backoffMs?: number;
+  /** Longest single wait, whether from backoff or Retry-After (default 8 s) */
+  maxBackoffMs?: number;
+  /** Client-side token bucket, false disables (default 5 requests per second) */
+  rateLimit?: { requestsPerSecond: number; burst?: number } | false;
+  /** Fail fast after repeated upstream failures, false disables (default 5 failures, 30 s) */
+  circuitBreaker?: { failureThreshold: number; resetAfterMs: number } | false;
+};
+
+export type HttpRequestInit = RequestInit & {
+  /** Completes "while trying to ..." in error messages */
+  what: string;
+};
+
+/**
+ * fetch with the guards every upstream call needs. Resolves with the final
+ * response, which may still be an error status once retries are exhausted;
+ * throws BookingError when no response could be obtained at all.
+ */
+export type HttpClient = {
+  request(url: string, init: HttpRequestInit): Promise<Response>;
+  readonly circuitState: CircuitState;
+};
+
+// Statuses that usually clear up on their own
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either delta seconds or an HTTP date; returns milliseconds
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Classic token bucket: `burst` requests at once, refilled at `requestsPerSecond`
+function createTokenBucket({ requestsPerSecond, burst = requestsPerSecond }: { requestsPerSecond: number; burst?: number }) {
+  let tokens = burst;
+  let refilledAt = Date.now();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - refilledAt) / 1000) * requestsPerSecond);
+    refilledAt = now;
+  }
+
+  return {
+    /** Milliseconds until a token is free; the token is reserved either way */
+    reserve(): number {
+      refill();
+      tokens -= 1;
+      return tokens >= 0 ? 0 : (-tokens / requestsPerSecond) * 1000;
+    },
+    release() {
+      tokens = Math.min(burst, tokens + 1);
+    },
+  };
+}
+
+function createCircuitBreaker({ failureThreshold, resetAfterMs }: { failureThreshold: number; resetAfterMs: number }) {
+  let failures = 0;
+  let openedAt = 0;
+  let state: CircuitState = "closed";
+  let probing = false;
+
+  return {
+    get state(): CircuitState {
+      if (state === "open" && Date.now() - openedAt >= resetAfterMs) {
+        state = "half-open";
+      }
+      return state;
+    },
+    /** Milliseconds until calls are allowed again, 0 when this call may proceed */
+    blockedFor(): number {
+      const current = this.state;
+      if (current === "closed") {
+        return 0;
+      }
+      // Half-open lets a single probe through to test the upstream
+      if (current === "half-open" && !probing) {
+        probing = true;
+        return 0;
+      }
+      return Math.max(1000, resetAfterMs - (Date.now() - openedAt));
+    },
+    // The call never reached the upstream, so a half-open probe is still owed
+    released() {
+      probing = false;
+    },
+    succeeded() {
+      failures = 0;
+      probing = false;
+      state = "closed";
+    },
+    failed() {
+      failures += 1;
+      probing = false;
+      if (state === "half-open" || failures >= failureThreshold) {
+        if (state !== "open") {
+          console.warn(`[http-client] --> Circuit opened after ${failures} failures`);
+        }
+        state = "open";
+        openedAt = Date.now();
+      }
+    },
+  };
+}
+
+export function createHttpClient(options: HttpClientOptions = {}): HttpClient {
+  const upstream = options.upstream ?? "The upstream service";
+  const fetchImpl = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? 15_000;
+  const deadlineMs = options.deadlineMs ?? 30_000;
+  const retries = options.retries ?? 2;
+  const backoffMs = options.backoffMs ?? 500;
+  const maxBackoffMs = options.maxBackoffMs ?? 8_000;
+  const bucket = options.rateLimit === false
+    ? undefined
+    : createTokenBucket(options.rateLimit ?? { requestsPerSecond: 5 });
+  const breaker = options.circuitBreaker === false
+    ? undefined
+    : createCircuitBreaker(options.circuitBreaker ?? { failureThreshold: 5, resetAfterMs: 30_000 });
+
+  // Full jitter keeps concurrent callers from retrying in lockstep
+  function backoff(attempt: number): number {
+    return Math.random() * Math.min(maxBackoffMs, backoffMs * 2 ** attempt);
+  }
+
+  async function attempt(url: string, init: HttpRequestInit, remainingMs: number): Promise<Response> {
+    const wait = bucket?.reserve() ?? 0;
+    if (wait > Math.min(maxBackoffMs, remainingMs)) {
+      bucket?.release();
+      throw new BookingError(
+        "QUOTA_EXCEEDED",
+        `Too many requests to ${upstream} at once while trying to ${init.what}`,
+        { retryAfterSeconds: Math.ceil(wait / 1000) }
+      );
+    }
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    const { what: _what, ...fetchInit } = init;
+    return fetchImpl(url, {
+      ...fetchInit,
+      signal: AbortSignal.timeout(Math.max(1, Math.min(timeoutMs, remainingMs - wait))),
+    });
+  }
+
+  return {
+    get circuitState() {
+      return breaker?.state ?? "closed";
+    },
+
+    async request(url, init) {
+      const blockedFor = breaker?.blockedFor() ?? 0;
+      if (blockedFor > 0) {
+        throw new BookingError(
+          "UPSTREAM_UNAVAILABLE",
+          `Skipped calling ${upstream} to ${init.what} after repeated failures`,
+          { retryAfterSeconds: Math.ceil(blockedFor / 1000) }
+        );
+      }
+
+      const startedAt = Date.now();
+      for (let attemptNumber = 0; ; attemptNumber++) {
+        const remainingMs = deadlineMs - (Date.now() - startedAt);
+        let delayMs = backoff(attemptNumber);
+
+        try {
+          const response = await attempt(url, init, remainingMs);
+          if (!RETRYABLE_STATUSES.has(response.status)) {
+            breaker?.succeeded();
+            return response;
+          }
+
+          const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+          if (retryAfterMs !== undefined) {
+            delayMs = retryAfterMs;
+          }
+          const canRetry = attemptNumber < retries
+            && delayMs <= maxBackoffMs
+            && Date.now() - startedAt + delayMs < deadlineMs;
+          if (!canRetry) {
+            // A rate limit means the upstream is up; only outages trip the breaker
+            if (response.status === 429) {
+              breaker?.succeeded();
+            } else {
+              breaker?.failed();
+            }
+            return response;
+          }
+
+          console.warn(`[http-client] --> HTTP ${response.status}, retrying in ${Math.round(delayMs)}ms:`, init.what);
+          await response.body?.cancel();
+        } catch (error) {
+          if (error instanceof BookingError) {
+            breaker?.released();
+            throw error;
+          }
+          let failure: BookingError;
+          if (error instanceof Error && error.name === "TimeoutError") {
+            failure = new BookingError(
+              "UPSTREAM_TIMEOUT",
+              `${upstream} did not answer within ${Math.min(timeoutMs, remainingMs) / 1000}s while trying to ${init.what}`
+            );
+          } else {
+            console.error(`[http-client] --> Request failed while trying to ${init.what}:`, error);
+            failure = new BookingError("UPSTREAM_ERROR", `Could not reach ${upstream} while trying to ${init.what}`);
+          }
+
+          if (attemptNumber >= retries || Date.now() - startedAt + delayMs >= deadlineMs) {
+            breaker?.failed();
+            throw failure;
+          }
+          console.warn(`[http-client] --> ${failure.code}, retrying in ${Math.round(delayMs)}ms:`, init.what);
+        }
+
+        await sleep(delayMs);
+      }
+    },
+  };
+}
@@ -0,0 +1,215 @@
+import type {
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  createMemoryCache,
+  DEFAULT_CACHE_TTLS,
+  toCacheMeta,
+  withCache,
+  type CacheEvent,
+  type CacheStore,
+  type CacheTtls,
+} from "./cache.js";
+import { isValidTimeZone } from "./dates.js";
+import type { HttpClient } from "./http-client.js";
+import { toToolErrorResult } from "./errors.js";
+import {
+  createAccommodationProvider,
+  type AccommodationProvider,
+  type ProviderName,
+} from "./providers/index.js";
+import type { Caller, QuotaGuard } from "./quotas.js";
+import { toolDefinitions, type ToolResult } from "./tools.js";
+import {
+  widgetMeta,
+  widgets,
+  widgetsByUri,
+  type BookingWidget,
+} from "./widgets.js";
+
+export { widgets, type BookingWidget } from "./widgets.js";
+export type { ToolResult } from "./tools.js";
+export {
+  cacheTtlsFromEnv,
+  createKvCache,
+  createMemoryCache,
+  type CacheStore,
+} from "./cache.js";
+export { createHttpClient, type HttpClient } from "./http-client.js";
+export {
+  createKvUsageStore,
+  createMemoryUsageStore,
+  createQuotaGuard,
+  quotaConfigFromEnv,
+  type Caller,
+  type QuotaGuard,
+} from "./quotas.js";
+export { createRapidApiHttpClient } from "./providers/rapidapi.js";
+export {
+  providerNameFromEnv,
+  type AccommodationProvider,
+  type ProviderName,
+} from "./providers/index.js";
+
+export type BookingCoreOptions = {
+  rapidApiKey?: string;
+  /** Base URL of the RapidAPI Booking.com endpoints, e.g. a local fake server */
+  rapidApiBaseUrl?: string;
+  /** Client-side limit on RapidAPI requests per second (default 5, the Basic plan) */
+  rapidApiRequestsPerSecond?: number;
+  /**
+   * Inventory source: a bundled provider by name (default "rapidapi";
+   * "fixtures" serves sample data for demos) or a custom implementation
+   */
+  provider?: ProviderName | AccommodationProvider;
+  fetch?: typeof fetch;
+  /**
+   * Upstream client with timeouts, retries, rate limiting and a circuit
+   * breaker; pass one that outlives the core to keep their state
+   */
+  httpClient?: HttpClient;
+  /** Where destination lookups and searches are cached (default in-memory LRU, false disables) */
+  cache?: CacheStore | false;
+  cacheTtls?: Partial<CacheTtls>;
+  /** Counts tool calls per session and client and enforces their quotas */
+  quotas?: QuotaGuard;
+  /** IANA time zone for relative dates when the host does not send the user's (default UTC) */
+  timeZone?: string;
+  /** Runtime specific lookup of the widget markup (file system or embedded) */
+  getWidgetHtml: (widget: BookingWidget) => string;
+};
+
+export type BookingCore = {
+  tools: Tool[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  readResource(uri: string): {
+    contents: {
+      uri: string;
+      mimeType: string;
+      text: string;
+      _meta: ReturnType<typeof widgetMeta>;
+    }[];
+  };
+  /**
+   * `meta` is the request's `params._meta`, carrying host hints such as
+   * openai/locale and openai/userLocation. Pass `refresh: true` in `args` to
+   * skip cached results. `caller` identifies the session and client the
+   * call is counted against.
+   */
+  callTool(
+    name: string,
+    args: Record<string, unknown>,
+    meta?: Record<string, unknown>,
+    caller?: Caller
+  ): Promise<ToolResult>;
+};
+
+const toolsByName = new Map(
+  toolDefinitions.map((definition) => [definition.tool.name, definition])
+);
+
+// The user's own time zone wins over the configured default
+function resolveTimeZone(meta: Record<string, unknown> | undefined, fallback: string): string {
+  const userLocation = meta?.["openai/userLocation"] as { timezone?: unknown } | undefined;
+  const timeZone = userLocation?.timezone;
+
+  return typeof timeZone === "string" && isValidTimeZone(timeZone) ? timeZone : fallback;
+}
+
+const tools: Tool[] = toolDefinitions.map((definition) => definition.tool);
+
+const resources: Resource[] = widgets.map((widget) => ({
+  uri: widget.templateUri,
+  name: widget.title,
+  description: `${widget.title} widget markup`,
+  mimeType: "text/html+skybridge",
+  _meta: widgetMeta(widget),
+}));
+
+const resourceTemplates: ResourceTemplate[] = widgets.map((widget) => ({
+  uriTemplate: widget.templateUri,
+  name: widget.title,
+  description: `${widget.title} widget markup`,
+  mimeType: "text/html+skybridge",
+  _meta: widgetMeta(widget),
+}));
+
+/**
+ * Runtime-agnostic tool core shared by the Node server and the Cloudflare
+ * Worker, so both deployments advertise and answer with the same payloads.
+ */
+export function createBookingCore(options: BookingCoreOptions): BookingCore {
+  const provider = typeof options.provider === "object"
+    ? options.provider
+    : createAccommodationProvider(options.provider ?? "rapidapi", options);
+  const cache = options.cache === false ? undefined : options.cache ?? createMemoryCache();
+  const cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cacheTtls };
+  const defaultTimeZone = options.timeZone || "UTC";
+  if (!isValidTimeZone(defaultTimeZone)) {
+    throw new Error(`Invalid time zone: ${defaultTimeZone}`);
+  }
+
+  return {
+    tools,
+    resources,
+    resourceTemplates,
+    readResource(uri) {
+      const widget = widgetsByUri.get(uri);
+
+      if (!widget) {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: widget.templateUri,
+            mimeType: "text/html+skybridge",
+            text: options.getWidgetHtml(widget),
+            _meta: widgetMeta(widget),
+          },
+        ],
+      };
+    },
+    async callTool(name, args, meta, caller = {}) {
+      const definition = toolsByName.get(name);
+
+      if (!definition) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      const locale = typeof meta?.["openai/locale"] === "string" ? meta["openai/locale"] : undefined;
+
+      const timeZone = resolveTimeZone(meta, defaultTimeZone);
+      const cacheEvents: CacheEvent[] = [];
+      const callProvider = cache
+        ? withCache(provider, cache, {
+            ttls: cacheTtls,
+            bypass: args.refresh === true,
+            onEvent: (event) => cacheEvents.push(event),
+          })
+        : provider;
+
+      try {
+        await options.quotas?.consume(caller);
+        const result = await definition.handle(args, { provider: callProvider, locale, timeZone });
+
+        if (cacheEvents.length === 0) {
+          return result;
+        }
+        return { ...result, _meta: { ...result._meta, "booking/cache": toCacheMeta(cacheEvents) } };
+      } catch (error) {
+        const result = toToolErrorResult(error);
+        if (!result) {
+          throw error;
+        }
+        console.warn(`[tools] --> ${name} failed:`, result.structuredContent.error.code, result.structuredContent.error.message);
+        return result;
+      }
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ZodSchema } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+export type ToolJsonSchema = Tool["inputSchema"];
+
+/**
+ * Convert a Zod object schema into the inline JSON Schema advertised in
+ * `tools/list`. Descriptions, enums and bounds come straight from the Zod
+ * declaration so the advertised schema cannot drift from the parser.
+ */
+export function toToolJsonSchema(schema: ZodSchema): ToolJsonSchema {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+
+  if (jsonSchema.type !== "object") {
+    throw new Error("Tool schemas must be Zod objects");
+  }
+
+  return jsonSchema as ToolJsonSchema;
+}
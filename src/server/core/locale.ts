@@ -0,0 +1,28 @@
+const DEFAULT_BOOKING_LOCALE = "en-gb";
+
+// Languages Booking.com only serves in a regional variant
+const REGIONAL_LANGUAGES: Record<string, string> = {
+  en: "en-gb",
+  pt: "pt-pt",
+  zh: "zh-cn",
+};
+
+const REGIONAL_LOCALES = new Set(["en-gb", "en-us", "pt-br", "pt-pt", "zh-cn", "zh-tw", "es-ar"]);
+
+// Map a BCP 47 host locale ("de-AT", "pt-BR") to a Booking.com locale ("de", "pt-br")
+export function toBookingLocale(locale?: string): string {
+  if (!locale) {
+    return DEFAULT_BOOKING_LOCALE;
+  }
+
+  const normalized = locale.toLowerCase().replace("_", "-");
+  const [language, region] = normalized.split("-");
+
+  if (region && REGIONAL_LOCALES.has(`${language}-${region}`)) {
+    return `${language}-${region}`;
+  }
+  if (!/^[a-z]{2}$/.test(language)) {
+    return DEFAULT_BOOKING_LOCALE;
+  }
+  return REGIONAL_LANGUAGES[language] || language;
+}
@@ -0,0 +1,86 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type ServerResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z, type ZodLiteral, type ZodObject } from "zod";
+
+import type { BookingCore } from "./index.js";
+import type { Caller } from "./quotas.js";
+
+type RequestSchema = ZodObject<{ method: ZodLiteral<string> }>;
+
+// Register `handler` for the method of `schema`. The SDK would report params
+// failing the schema as an internal error; answer with invalid params instead
+function setRequestHandler<T extends RequestSchema>(
+  server: Server,
+  schema: T,
+  handler: (request: z.infer<T>) => Promise<ServerResult>
+) {
+  server.setRequestHandler(
+    z.object({ method: schema.shape.method, params: z.unknown().optional() }),
+    async (request) => {
+      const parsed = schema.safeParse(request);
+      if (!parsed.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          parsed.error.issues.map((issue) => `${issue.path.join(".") || "request"}: ${issue.message}`).join("; ")
+        );
+      }
+      return handler(parsed.data);
+    }
+  );
+}
+
+// Wire the shared tool core into an MCP SDK server instance; tool calls are
+// counted against `caller`
+export function createBookingServer(core: BookingCore, caller: Caller = {}): Server {
+  const server = new Server(
+    {
+      name: "booking-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        resources: {},
+        tools: {},
+      },
+    }
+  );
+
+  setRequestHandler(server, ListResourcesRequestSchema, async () => ({
+    resources: core.resources,
+  }));
+
+  setRequestHandler(server, ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!core.resources.some((resource) => resource.uri === uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    return core.readResource(uri);
+  });
+
+  setRequestHandler(server, ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: core.resourceTemplates,
+  }));
+
+  setRequestHandler(server, ListToolsRequestSchema, async () => ({
+    tools: core.tools,
+  }));
+
+  setRequestHandler(server, CallToolRequestSchema, async (request) => {
+    const { name } = request.params;
+    if (!core.tools.some((tool) => tool.name === name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+    return core.callTool(name, request.params.arguments ?? {}, request.params._meta, caller);
+  });
+
+  return server;
+}
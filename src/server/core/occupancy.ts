@@ -0,0 +1,52 @@
+// Age used for children whose age the user has not given yet
+export const ASSUMED_CHILD_AGE = 8;
+
+export type RoomOccupancy = {
+  adults: number;
+  childrenAges: number[];
+};
+
+// Ages of every child, padding missing ones with ASSUMED_CHILD_AGE
+export function resolveChildrenAges(params: {
+  children?: number;
+  childrenAges?: number[];
+}): number[] {
+  const children = params.children ?? params.childrenAges?.length ?? 0;
+  const ages = (params.childrenAges || []).slice(0, children);
+
+  while (ages.length < children) {
+    ages.push(ASSUMED_CHILD_AGE);
+  }
+  return ages;
+}
+
+// Spread guests over the rooms: adults as evenly as possible (every room gets
+// at least one), then children one room at a time
+export function distributeRooms(params: {
+  adults?: number;
+  children?: number;
+  childrenAges?: number[];
+  rooms?: number;
+}): RoomOccupancy[] {
+  const adults = params.adults || 2;
+  const roomCount = Math.max(1, Math.min(params.rooms || 1, adults));
+  const rooms: RoomOccupancy[] = Array.from({ length: roomCount }, (_, index) => ({
+    adults: Math.floor(adults / roomCount) + (index < adults % roomCount ? 1 : 0),
+    childrenAges: [],
+  }));
+
+  resolveChildrenAges(params).forEach((age, index) => {
+    rooms[index % roomCount].childrenAges.push(age);
+  });
+
+  return rooms;
+}
+
+// Booking.com's per-room query params, e.g. adults "2,1" and children "1,0"
+export function toRoomQueryParams(rooms: RoomOccupancy[]) {
+  return {
+    adults_number_by_rooms: rooms.map((room) => room.adults).join(","),
+    children_number_by_rooms: rooms.map((room) => room.childrenAges.length).join(","),
+    children_ages: rooms.flatMap((room) => room.childrenAges).join(","),
+  };
+}
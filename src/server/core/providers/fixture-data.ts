@@ -0,0 +1,314 @@
+import type { Accommodation, DestinationCandidate } from "../types.js";
+
+// Search results as Booking.com returned them for Prague; the fixture provider
+// fills in the stay dependent fields (destination, city and total price)
+export type FixtureAccommodation = Omit<Accommodation, "destination" | "totalPrice" | "location" | "rating" | "reviewScore"> & {
+  location: Omit<Accommodation["location"], "city">;
+  // Every sample property has reviews
+  rating: number;
+  reviewScore: string;
+};
+
+export const fixtureAccommodations: FixtureAccommodation[] = [
+  {
+    id: "7696424",
+    name: "STAGES HOTEL Prague, a Tribute Portfolio Hotel",
+    type: "hotel",
+    pricePerNight: 220,
+    currency: "USD",
+    images: [
+      "https://cf.bstatic.com/xdata/images/hotel/max1280x900/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",
+      "https://cf.bstatic.com/xdata/images/hotel/1440x1440/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",
+    ],
+    mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",
+    stars: 4,
+    rating: 9.4,
+    reviewScore: "Superb",
+    reviewCount: 15982,
+    location: {
+      address: "Ceskomoravska 19a",
+      distance: "5.6 km from city center",
+      distanceKm: 5.6,
+      landmark: "Prague 9",
+      coordinates: { latitude: 50.104384958882, longitude: 14.4953591788171 },
+    },
+    facilities: [
+      "WiFi",
+      "Parking",
+      "Restaurant",
+      "24-hour front desk",
+      "Fitness centre",
+      "Bar",
+      "Spa and wellness centre",
+      "Room service",
+    ],
+    cancellation: "Free cancellation",
+    breakfast: "Breakfast included",
+    sustainability: {
+      certified: false,
+      level: 0,
+    },
+  },
+  {
+    id: "77320",
+    name: "Hotel Duo & Wellness",
+    type: "hotel",
+    pricePerNight: 165,
+    currency: "USD",
+    images: [
+      "https://cf.bstatic.com/xdata/images/hotel/max1280x900/493721137.jpg?k=058b6988395d2c397c8da154e92d9ab4022b0f3c4a6e59703e69c242fb2e9fdd&o=",
+    ],
+    mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/493721137.jpg?k=058b6988395d2c397c8da154e92d9ab4022b0f3c4a6e59703e69c242fb2e9fdd&o=",
+    stars: 4,
+    rating: 8.7,
+    reviewScore: "Excellent",
+    reviewCount: 11781,
+    location: {
+      address: "Teplická 492",
+      distance: "6.8 km from city center",
+      distanceKm: 6.8,
+      landmark: "Prague 9",
+      coordinates: { latitude: 50.1203, longitude: 14.5156 },
+    },
+    facilities: [
+      "WiFi",
+      "Swimming pool",
+      "Spa and wellness centre",
+      "Parking",
+      "Restaurant",
+      "Bar",
+      "Fitness centre",
+      "Room service",
+    ],
+    cancellation: "Free cancellation",
+    breakfast: "Breakfast available",
+    sustainability: {
+      certified: false,
+      level: 0,
+    },
+  },
+  {
+    id: "mock_resort",
+    name: "Luxury Beach Resort & Spa",
+    type: "resort",
+    pricePerNight: 389,
+    currency: "USD",
+    images: [
+      "https://cf.bstatic.com/xdata/images/hotel/max1280x900/400000000.jpg",
+    ],
+    mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/400000000.jpg",
+    stars: 5,
+    rating: 9.5,
+    reviewScore: "Exceptional",
+    reviewCount: 1523,
+    location: {
+      address: "789 Beachfront Drive",
+      distance: "3.2 km from city center",
+      distanceKm: 3.2,
+      landmark: "Beach",
+      coordinates: { latitude: 40.7128, longitude: -74.006 },
+    },
+    facilities: [
+      "WiFi",
+      "Swimming pool",
+      "Spa and wellness centre",
+      "Restaurant",
+      "Beach access",
+      "Bar",
+      "Fitness centre",
+      "Airport shuttle",
+    ],
+    cancellation: "Non-refundable",
+    breakfast: "All-inclusive (all meals included)",
+    sustainability: {
+      certified: true,
+      level: 3,
+    },
+  },
+  {
+    id: "mock_apartment",
+    name: "Modern City Center Apartment",
+    type: "apartment",
+    pricePerNight: 145,
+    currency: "USD",
+    images: [
+      "https://cf.bstatic.com/xdata/images/hotel/max1280x900/300000000.jpg",
+    ],
+    mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/300000000.jpg",
+    rating: 9.1,
+    reviewScore: "Superb",
+    reviewCount: 456,
+    location: {
+      address: "45 Park Avenue",
+      distance: "0.2 km from city center",
+      distanceKm: 0.2,
+      landmark: "Main Square",
+      coordinates: { latitude: 40.7128, longitude: -74.006 },
+    },
+    facilities: [
+      "WiFi",
+      "Kitchen",
+      "Parking",
+      "Family rooms",
+      "Laundry",
+      "Heating",
+      "Air conditioning",
+    ],
+    cancellation: "Free cancellation until 3 days before check-in",
+    breakfast: "Self-catering",
+    sustainability: {
+      certified: false,
+      level: 0,
+    },
+  },
+  {
+    id: "mock_villa",
+    name: "Secluded Mountain Villa",
+    type: "villa",
+    pricePerNight: 475,
+    currency: "USD",
+    images: [
+      "https://cf.bstatic.com/xdata/images/hotel/max1280x900/500000000.jpg",
+    ],
+    mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/500000000.jpg",
+    rating: 9.8,
+    reviewScore: "Exceptional",
+    reviewCount: 287,
+    location: {
+      address: "Mountain Ridge Road 15",
+      distance: "12 km from city center",
+      distanceKm: 12,
+      landmark: "Mountain View",
+      coordinates: { latitude: 40.7128, longitude: -74.006 },
+    },
+    facilities: [
+      "WiFi",
+      "Swimming pool",
+      "Kitchen",
+      "Parking",
+      "Terrace",
+      "BBQ facilities",
+      "Heating",
+      "Family rooms",
+    ],
+    cancellation: "Free cancellation until 7 days before check-in",
+    breakfast: "Self-catering",
+    sustainability: {
+      certified: true,
+      level: 2,
+    },
+  },
+];
+
+export const fixtureDestinations: DestinationCandidate[] = [
+  {
+    destId: "-1456928",
+    destType: "city",
+    name: "Paris",
+    label: "Paris, Ile de France, France",
+    region: "Ile de France",
+    country: "France",
+    countryCode: "fr",
+    coordinates: { latitude: 48.85661, longitude: 2.351499 },
+    hotelCount: 8723,
+    rank: 1,
+  },
+  {
+    destId: "20131398",
+    destType: "city",
+    name: "Paris",
+    label: "Paris, Texas, United States",
+    region: "Texas",
+    country: "United States",
+    countryCode: "us",
+    coordinates: { latitude: 33.66094, longitude: -95.55551 },
+    hotelCount: 21,
+    rank: 2,
+  },
+  {
+    destId: "935",
+    destType: "landmark",
+    name: "Eiffel Tower",
+    label: "Eiffel Tower, Paris, Ile de France, France",
+    region: "Ile de France",
+    country: "France",
+    countryCode: "fr",
+    coordinates: { latitude: 48.858353, longitude: 2.294464 },
+    hotelCount: 1864,
+    rank: 3,
+  },
+  {
+    destId: "26",
+    destType: "airport",
+    name: "Paris - Charles de Gaulle Airport",
+    label: "Paris - Charles de Gaulle Airport, Roissy-en-France, France",
+    region: "Ile de France",
+    country: "France",
+    countryCode: "fr",
+    coordinates: { latitude: 49.009592, longitude: 2.555675 },
+    hotelCount: 132,
+    rank: 4,
+  },
+  {
+    destId: "-553173",
+    destType: "city",
+    name: "Prague",
+    label: "Prague, Czech Republic",
+    region: "Prague",
+    country: "Czech Republic",
+    countryCode: "cz",
+    coordinates: { latitude: 50.0874, longitude: 14.4213 },
+    hotelCount: 3808,
+    rank: 1,
+  },
+  {
+    destId: "263",
+    destType: "district",
+    name: "Prague 9",
+    label: "Prague 9, Prague, Czech Republic",
+    region: "Prague",
+    country: "Czech Republic",
+    countryCode: "cz",
+    coordinates: { latitude: 50.1108, longitude: 14.5033 },
+    hotelCount: 74,
+    rank: 2,
+  },
+  {
+    destId: "900040497",
+    destType: "landmark",
+    name: "Charles Bridge",
+    label: "Charles Bridge, Prague, Czech Republic",
+    region: "Prague",
+    country: "Czech Republic",
+    countryCode: "cz",
+    coordinates: { latitude: 50.0865, longitude: 14.4114 },
+    hotelCount: 1297,
+    rank: 3,
+  },
+  {
+    destId: "900048262",
+    destType: "landmark",
+    name: "O2 Arena",
+    label: "O2 Arena, Prague, Czech Republic",
+    region: "Prague",
+    country: "Czech Republic",
+    countryCode: "cz",
+    coordinates: { latitude: 50.1047, longitude: 14.4934 },
+    hotelCount: 86,
+    rank: 4,
+  },
+  {
+    destId: "7696424",
+    destType: "hotel",
+    name: "STAGES HOTEL Prague, a Tribute Portfolio Hotel",
+    label: "STAGES HOTEL Prague, a Tribute Portfolio Hotel, Prague, Czech Republic",
+    region: "Prague",
+    country: "Czech Republic",
+    countryCode: "cz",
+    coordinates: { latitude: 50.104384958882, longitude: 14.4953591788171 },
+    rank: 5,
+  },
+];
+
+// Where made-up destinations are placed: central Prague, near the sample hotels
+export const FALLBACK_DESTINATION_COORDINATES = { latitude: 50.0874, longitude: 14.4213 };
@@ -0,0 +1,256 @@
+import { countNights } from "../dates.js";
+import { BookingError } from "../errors.js";
+import { applyAccommodationFilters, rankDestinations } from "../filters.js";
+import type {
+  Accommodation,
+  AccommodationDetails,
+  AccommodationSearchParams,
+  DestinationCandidate,
+  DestinationLookupParams,
+  RoomAvailabilityParams,
+  RoomBlock,
+} from "../types.js";
+import {
+  FALLBACK_DESTINATION_COORDINATES,
+  fixtureAccommodations,
+  fixtureDestinations,
+  type FixtureAccommodation,
+} from "./fixture-data.js";
+import type { AccommodationProvider } from "./index.js";
+
+/**
+ * Sample inventory for demo mode and development: a handful of properties
+ * from a real Booking.com response, served whatever the destination.
+ */
+export function createFixtureProvider(): AccommodationProvider {
+  return {
+    name: "fixtures",
+    sampleData: true,
+    async lookupDestinations(params) {
+      return findDestinations(params);
+    },
+    async searchAccommodations(params) {
+      const accommodations = searchFixtures(params);
+
+      // The sample data fits on a single page
+      return {
+        accommodations: (params.page || 0) === 0 ? accommodations : [],
+        totalResults: accommodations.length,
+        hasMore: false,
+        // Sample prices cannot be converted; budgets are compared in their currency too
+        currency: SAMPLE_CURRENCY,
+      };
+    },
+    async getAccommodationDetails(params) {
+      return fixtureDetails(params);
+    },
+    async getRoomAvailability(params) {
+      return fixtureRoomBlocks(params);
+    },
+    async getReviews(params) {
+      return fixtureDetails(params).reviews;
+    },
+  };
+}
+
+const SAMPLE_CURRENCY = "USD";
+
+// Fill in the stay dependent fields of a fixture
+function toAccommodation(fixture: FixtureAccommodation, destination: string, nights: number): Accommodation {
+  return withSamplePriceBreakdown({
+    ...fixture,
+    destination,
+    totalPrice: fixture.pricePerNight * nights,
+    location: { ...fixture.location, city: destination },
+  });
+}
+
+function searchFixtures(params: AccommodationSearchParams): Accommodation[] {
+  const nights = countNights(params.checkIn, params.checkOut);
+
+  return applyAccommodationFilters(
+    fixtureAccommodations.map((fixture) => toAccommodation(fixture, params.destination, nights)),
+    params
+  );
+}
+
+function findFixture(hotelId: string): FixtureAccommodation {
+  const fixture = fixtureAccommodations.find((candidate) => candidate.id === hotelId);
+
+  if (!fixture) {
+    throw new BookingError("ACCOMMODATION_NOT_FOUND", `No accommodation found with id ${hotelId}`, { hotelId });
+  }
+  return fixture;
+}
+
+// Sample prices include 12 % VAT, like the Prague properties they are based on
+function withSamplePriceBreakdown(accommodation: Accommodation): Accommodation {
+  const gross = accommodation.totalPrice;
+  const vat = Math.round((gross - gross / 1.12) * 100) / 100;
+
+  return {
+    ...accommodation,
+    priceBreakdown: {
+      currency: accommodation.currency,
+      gross,
+      net: Math.round((gross - vat) * 100) / 100,
+      includedTaxes: vat,
+      excludedCharges: 0,
+      allInclusive: gross,
+      items: [{ name: "VAT", inclusion: "included", amount: vat, details: "12 % VAT" }],
+    },
+  };
+}
+
+// Property details built on top of the fixture search results, so the
+// details widget can be exercised without a RapidAPI key
+function fixtureDetails(params: { hotelId: string }): AccommodationDetails {
+  const fixture = findFixture(params.hotelId);
+  const accommodation = toAccommodation(fixture, "Prague", 1);
+
+  return {
+    id: accommodation.id,
+    name: accommodation.name,
+    type: accommodation.type,
+    stars: accommodation.stars,
+    description: `${accommodation.name} is located ${accommodation.location.distance} in ${accommodation.location.landmark}. ${accommodation.breakfast}. ${accommodation.cancellation}.`,
+    url: undefined,
+    photos: accommodation.images.map((url) => ({ url, thumbnailUrl: url })),
+    facilities: accommodation.facilities.map((name) => ({ name, category: "Most popular facilities" })),
+    location: {
+      address: accommodation.location.address,
+      city: accommodation.location.city,
+      country: "Czech Republic",
+      coordinates: accommodation.location.coordinates,
+    },
+    policies: {
+      checkIn: { from: "15:00", until: "00:00" },
+      checkOut: { from: "06:00", until: "12:00" },
+      items: [
+        {
+          type: "cancellation",
+          title: "Cancellation/prepayment",
+          text: accommodation.cancellation,
+        },
+        {
+          type: "children",
+          title: "Children and beds",
+          text: "Children of any age are welcome. Cribs are available on request.",
+        },
+        {
+          type: "pets",
+          title: "Pets",
+          text: "Pets are not allowed.",
+        },
+      ],
+    },
+    roomTypes: [
+      {
+        id: `${accommodation.id}01`,
+        name: "Double Room",
+        description: "Air-conditioned room with a private bathroom and city views.",
+        bedConfiguration: "1 large double bed",
+        maxOccupancy: 2,
+        sizeSqm: 24,
+        photos: [accommodation.mainImage],
+        facilities: ["Private bathroom", "Air conditioning", "Free WiFi"],
+      },
+      {
+        id: `${accommodation.id}02`,
+        name: "Family Room",
+        description: "Spacious room with a seating area, suitable for families.",
+        bedConfiguration: "1 large double bed, 2 single beds",
+        maxOccupancy: 4,
+        sizeSqm: 38,
+        photos: [accommodation.mainImage],
+        facilities: ["Private bathroom", "Sofa", "Free WiFi"],
+      },
+    ],
+    reviews: {
+      score: fixture.rating,
+      scoreWord: fixture.reviewScore,
+      count: accommodation.reviewCount,
+      breakdown: [
+        { category: "Staff", score: Math.min(10, fixture.rating + 0.2) },
+        { category: "Cleanliness", score: fixture.rating },
+        { category: "Comfort", score: fixture.rating },
+        { category: "Location", score: Math.max(0, fixture.rating - 0.6) },
+        { category: "Value for money", score: Math.max(0, fixture.rating - 0.3) },
+      ],
+    },
+  };
+}
+
+// Room blocks: a flexible and a cheaper non-refundable rate for every
+// fixture room type
+function fixtureRoomBlocks(params: RoomAvailabilityParams): RoomBlock[] {
+  const details = fixtureDetails(params);
+  const basePrice = findFixture(params.hotelId).pricePerNight;
+  const nights = countNights(params.checkIn, params.checkOut);
+  const deadline = `${new Date(Date.parse(`${params.checkIn}T00:00:00Z`) - 24 * 60 * 60 * 1000).toISOString().split("T")[0]}T23:59:59`;
+
+  return details.roomTypes.flatMap((room, roomIndex) => {
+    const perNight = Math.round(basePrice * (1 + roomIndex * 0.4));
+    const rates = [
+      { id: "flex", perNight, freeCancellation: true },
+      { id: "nonref", perNight: Math.round(perNight * 0.9), freeCancellation: false },
+    ];
+
+    return rates.map((rate) => {
+      const blockId = `${room.id}_${rate.id}_${room.maxOccupancy ?? 2}_0_0`;
+
+      return {
+        blockId,
+        roomId: room.id,
+        roomName: room.name,
+        bedConfiguration: room.bedConfiguration,
+        maxOccupancy: room.maxOccupancy ?? 2,
+        mealPlan: roomIndex === 0 ? "Breakfast included" : "Room only",
+        cancellation: {
+          freeCancellation: rate.freeCancellation,
+          deadline: rate.freeCancellation ? deadline : undefined,
+          description: rate.freeCancellation
+            ? `Free cancellation until ${deadline}`
+            : "Non-refundable",
+        },
+        prepayment: {
+          required: !rate.freeCancellation,
+          description: rate.freeCancellation
+            ? "No prepayment needed – pay at the property"
+            : "Prepayment required",
+        },
+        price: {
+          currency: SAMPLE_CURRENCY,
+          perNight: rate.perNight,
+          total: rate.perNight * nights,
+        },
+        roomsLeft: 3 - roomIndex,
+        matchesSearch: params.blockIds?.includes(blockId) ?? false,
+      };
+    });
+  });
+}
+
+
+// Destination lookup: known sample destinations matching the query, or a
+// single made-up city so searches still resolve to something
+function findDestinations(params: DestinationLookupParams): DestinationCandidate[] {
+  const query = params.query.trim().toLowerCase();
+  const matches = fixtureDestinations.filter((candidate) =>
+    candidate.label.toLowerCase().includes(query)
+  );
+
+  if (matches.length === 0) {
+    matches.push({
+      destId: `mock-${query.replace(/[^a-z0-9]+/g, "-")}`,
+      destType: "city",
+      name: params.query,
+      label: params.query,
+      country: "",
+      coordinates: FALLBACK_DESTINATION_COORDINATES,
+      rank: 1,
+    });
+  }
+
+  return rankDestinations(matches, params);
+}
@@ -0,0 +1,78 @@
+import type { HttpClient } from "../http-client.js";
+import type {
+  AccommodationDetails,
+  AccommodationDetailsParams,
+  AccommodationReviews,
+  AccommodationReviewsParams,
+  AccommodationSearchParams,
+  AccommodationSearchResult,
+  DestinationCandidate,
+  DestinationLookupParams,
+  RoomAvailabilityParams,
+  RoomBlock,
+} from "../types.js";
+import { createFixtureProvider } from "./fixtures.js";
+import { createRapidApiProvider } from "./rapidapi.js";
+
+/**
+ * An inventory source the MCP tools search. Implementations throw
+ * BookingError for expected failures (unknown destination or hotel, upstream
+ * outage) so the tools can report them to the model.
+ */
+export type AccommodationProvider = {
+  /** Name used in configuration and logs, e.g. "rapidapi" */
+  name: string;
+  /** True when results are canned sample data rather than live inventory */
+  sampleData: boolean;
+  lookupDestinations(params: DestinationLookupParams): Promise<DestinationCandidate[]>;
+  searchAccommodations(params: AccommodationSearchParams): Promise<AccommodationSearchResult>;
+  getAccommodationDetails(params: AccommodationDetailsParams): Promise<AccommodationDetails>;
+  getRoomAvailability(params: RoomAvailabilityParams): Promise<RoomBlock[]>;
+  getReviews(params: AccommodationReviewsParams): Promise<AccommodationReviews>;
+};
+
+export const PROVIDER_NAMES = ["rapidapi", "fixtures"] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export type ProviderOptions = {
+  rapidApiKey?: string;
+  rapidApiBaseUrl?: string;
+  /** RapidAPI plan limit, see createRapidApiHttpClient */
+  rapidApiRequestsPerSecond?: number;
+  fetch?: typeof fetch;
+  httpClient?: HttpClient;
+};
+
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// BOOKING_PROVIDER picks the provider; BOOKING_DEMO_MODE=true is shorthand for "fixtures"
+export function providerNameFromEnv(env: Record<string, unknown>): ProviderName {
+  const name = String(env.BOOKING_PROVIDER || (env.BOOKING_DEMO_MODE === "true" ? "fixtures" : "rapidapi"));
+
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown BOOKING_PROVIDER "${name}", expected one of ${PROVIDER_NAMES.join(", ")}`);
+  }
+  return name;
+}
+
+// Build one of the bundled providers by its configuration name
+export function createAccommodationProvider(
+  name: ProviderName,
+  options: ProviderOptions
+): AccommodationProvider {
+  switch (name) {
+    case "rapidapi":
+      return createRapidApiProvider({
+        apiKey: options.rapidApiKey ?? "",
+        baseUrl: options.rapidApiBaseUrl,
+        fetch: options.fetch,
+        httpClient: options.httpClient,
+        requestsPerSecond: options.rapidApiRequestsPerSecond,
+      });
+    case "fixtures":
+      return createFixtureProvider();
+  }
+}
@@ -0,0 +1,717 @@
+import { countNights } from "../dates.js";
+import { BookingError, upstreamError } from "../errors.js";
+import { rankDestinations } from "../filters.js";
+import { createHttpClient, parseRetryAfter, type HttpClient } from "../http-client.js";
+import { toBookingLocale } from "../locale.js";
+import { distributeRooms, resolveChildrenAges, toRoomQueryParams } from "../occupancy.js";
+import { DESTINATION_TYPES } from "../schemas.js";
+import type {
+  Accommodation,
+  AccommodationDetails,
+  AccommodationDetailsParams,
+  AccommodationReviews,
+  AccommodationReviewsParams,
+  AccommodationSearchParams,
+  AccommodationSearchResult,
+  DestinationCandidate,
+  DestinationLookupParams,
+  PriceBreakdown,
+  RoomAvailabilityParams,
+  RoomBlock,
+  UnappliedFilters,
+} from "../types.js";
+import type { AccommodationProvider } from "./index.js";
+
+export const RAPIDAPI_HOST = "booking-com.p.rapidapi.com";
+
+// Results per page_number of /v1/hotels/search
+export const SEARCH_PAGE_SIZE = 20;
+
+// Requests per second of the RapidAPI Basic plan
+export const DEFAULT_REQUESTS_PER_SECOND = 5;
+
+export type RapidApiProviderOptions = {
+  apiKey: string;
+  /** Defaults to https://booking-com.p.rapidapi.com, point it at a fake server to test offline */
+  baseUrl?: string;
+  /** Defaults to the global fetch of the current runtime */
+  fetch?: typeof fetch;
+  /**
+   * Client with timeouts, retries, rate limiting and a circuit breaker. Share
+   * one between providers so they draw on the same RapidAPI rate limit.
+   */
+  httpClient?: HttpClient;
+  /** Client-side rate limit of the client created when `httpClient` is not given */
+  requestsPerSecond?: number;
+};
+
+// Client for RapidAPI calls, throttled to the plan's requests per second
+export function createRapidApiHttpClient(
+  options: Pick<RapidApiProviderOptions, "fetch" | "requestsPerSecond"> = {}
+): HttpClient {
+  return createHttpClient({
+    upstream: "Booking.com",
+    fetch: options.fetch,
+    rateLimit: { requestsPerSecond: options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND },
+  });
+}
+
+/**
+ * Booking.com inventory through RapidAPI. Only depends on `fetch`, so the same
+ * code runs under Node and on Cloudflare Workers. Failures are thrown as
+ * BookingError.
+ */
+export function createRapidApiProvider(
+  options: RapidApiProviderOptions
+): AccommodationProvider {
+  const { apiKey } = options;
+  const baseUrl = (options.baseUrl || `https://${RAPIDAPI_HOST}`).replace(/\/+$/, "");
+  const http = options.httpClient ?? createRapidApiHttpClient(options);
+
+  // `what` completes "while trying to ..." in error messages
+  async function get(pathname: string, params: Record<string, string>, what: string): Promise<any> {
+    if (!apiKey) {
+      throw new BookingError("NOT_CONFIGURED", "RAPIDAPI_KEY is not set");
+    }
+
+    const response = await http.request(`${baseUrl}${pathname}?${new URLSearchParams(params)}`, {
+      method: "GET",
+      headers: {
+        "x-rapidapi-key": apiKey,
+        "x-rapidapi-host": RAPIDAPI_HOST,
+      },
+      what,
+    });
+
+    if (!response.ok) {
+      console.error(`[booking-api] --> Failed to ${what}:`, response.status, response.statusText);
+      throw upstreamError(response.status, what, parseRetryAfter(response.headers.get("Retry-After")));
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new BookingError("UPSTREAM_ERROR", `Booking.com sent an unreadable response while trying to ${what}`);
+    }
+  }
+
+  async function getRoomList(params: AccommodationDetailsParams) {
+    return get("/v1/hotels/room-list", {
+      hotel_id: params.hotelId,
+      locale: toBookingLocale(params.locale),
+      checkin_date: params.checkIn,
+      checkout_date: params.checkOut,
+      ...toRoomQueryParams(distributeRooms(params)),
+      currency: params.currency || "USD",
+      units: "metric",
+    }, "load the room list");
+  }
+
+  async function lookupDestinations(params: DestinationLookupParams) {
+    const locations = await get("/v1/hotels/locations", {
+      name: params.query,
+      locale: toBookingLocale(params.locale),
+    }, "look up the destination");
+
+    return Array.isArray(locations) ? rankDestinations(locations.map(mapLocation), params) : [];
+  }
+
+  async function searchAccommodations(params: AccommodationSearchParams) {
+    const { checkIn, checkOut } = params;
+    const page = params.page || 0;
+    const currency = params.currency || "USD";
+    const childrenAges = resolveChildrenAges(params);
+    const stayParams: Record<string, string> = {
+      checkout_date: checkOut,
+      units: "metric",
+      locale: toBookingLocale(params.locale),
+      adults_number: String(params.adults || 2),
+      order_by: params.sortBy || "popularity",
+      filter_by_currency: currency,
+      checkin_date: checkIn,
+      room_number: String(params.rooms || 1),
+      children_number: String(childrenAges.length),
+      page_number: String(page),
+      include_adjacency: "true",
+    };
+    if (childrenAges.length > 0) {
+      stayParams.children_ages = childrenAges.join(",");
+    }
+    const { categoryFilterIds, unappliedFilters } = toCategoryFilters(params, currency);
+    if (categoryFilterIds.length > 0) {
+      stayParams.categories_filter_ids = categoryFilterIds.join(",");
+    }
+
+    // Coordinates win over names; otherwise use the explicit destination
+    // when given and resolve the name as a last resort
+    let destination: DestinationCandidate | undefined;
+    let searchData: any;
+
+    if (params.coordinates) {
+      searchData = await get("/v1/hotels/search-by-coordinates", {
+        ...stayParams,
+        latitude: String(params.coordinates.latitude),
+        longitude: String(params.coordinates.longitude),
+      }, "search accommodations");
+    } else {
+      if (params.destId) {
+        destination = {
+          destId: params.destId,
+          destType: toDestinationType(params.destType),
+          name: params.destination,
+          label: params.destination,
+          country: "",
+          rank: 1,
+        };
+      } else {
+        const candidates = await lookupDestinations({ query: params.destination, locale: params.locale });
+        if (candidates.length === 0) {
+          throw new BookingError("DESTINATION_NOT_FOUND", `No destination found for "${params.destination}"`, {
+            destination: params.destination,
+          });
+        }
+        destination = candidates[0];
+      }
+
+      searchData = await get("/v1/hotels/search", {
+        ...stayParams,
+        dest_id: destination.destId,
+        dest_type: destination.destType,
+      }, "search accommodations");
+    }
+
+    // Transform API response to our format
+    const hotels: any[] = searchData.result || [];
+    const nights = countNights(checkIn, checkOut);
+    const totalResults = Number(searchData.total_count_with_filters ?? searchData.count ?? hotels.length);
+    const accommodations: Accommodation[] = hotels.map((hotel: any) => ({
+      id: String(hotel.hotel_id),
+      name: hotel.hotel_name_trans || hotel.hotel_name,
+      type: determineAccommodationType(hotel.accommodation_type_name || "hotel"),
+      destination: params.destination,
+      ...extractSearchPrices(hotel, nights, currency),
+      images: [hotel.max_1440_photo_url || hotel.max_photo_url],
+      mainImage: hotel.max_1440_photo_url || hotel.max_photo_url || "https://via.placeholder.com/800x600",
+      stars: hotel.class || undefined,
+      rating: Number(hotel.review_score) || undefined,
+      reviewScore: hotel.review_score_word || (Number(hotel.review_score) ? getReviewScore(Number(hotel.review_score)) : undefined),
+      reviewCount: hotel.review_nr || 0,
+      location: {
+        address: hotel.address_trans || hotel.address || "N/A",
+        city: hotel.city_trans || hotel.city || params.destination,
+        distance: hotel.distance_to_cc_formatted || `${hotel.distance || 0} km from city center`,
+        distanceKm: Number.isFinite(parseFloat(hotel.distance_to_cc)) ? parseFloat(hotel.distance_to_cc) : undefined,
+        landmark: hotel.district || "City center",
+        coordinates: {
+          latitude: hotel.latitude || 0,
+          longitude: hotel.longitude || 0,
+        },
+      },
+      facilities: extractFacilitiesFromIds(hotel.hotel_facilities),
+      cancellation: hotel.is_free_cancellable ? "Free cancellation" : "Non-refundable",
+      breakfast: hotel.ribbon_text || "Breakfast options available",
+      sustainability: {
+        certified: false,
+        level: 0,
+      },
+      blockIds: Array.isArray(hotel.block_ids) ? hotel.block_ids.map(String) : undefined,
+    }));
+
+    // Nothing is filtered locally, so the page and the totals agree; filters
+    // Booking.com could not apply are reported instead
+    return {
+      accommodations,
+      destination,
+      totalResults,
+      hasMore: (page + 1) * SEARCH_PAGE_SIZE < totalResults,
+      sortedBy: params.sortBy || "popularity",
+      unappliedFilters,
+      roomDistribution: Array.isArray(searchData.room_distribution)
+        ? searchData.room_distribution.map((room: any) => ({
+            adults: Number(room.adults) || 1,
+            childrenAges: (room.children || []).map(Number),
+          }))
+        : undefined,
+    };
+  }
+
+  async function getAccommodationDetails(params: AccommodationDetailsParams) {
+    const hotelParams = { hotel_id: params.hotelId, locale: toBookingLocale(params.locale) };
+
+    const what = "load the hotel details";
+    const [hotel, photos, description, facilities, policies, reviews, roomList]: any[] =
+      await Promise.all([
+        get("/v1/hotels/data", hotelParams, what),
+        get("/v1/hotels/photos", hotelParams, what),
+        get("/v1/hotels/description", hotelParams, what),
+        get("/v1/hotels/facilities", hotelParams, what),
+        get("/v1/hotels/policies", hotelParams, what),
+        getReviews(params),
+        getRoomList(params),
+      ]);
+
+    if (!hotel || !hotel.hotel_id) {
+      throw new BookingError("ACCOMMODATION_NOT_FOUND", `No accommodation found with id ${params.hotelId}`, {
+        hotelId: params.hotelId,
+      });
+    }
+
+    const details: AccommodationDetails = {
+      id: String(hotel.hotel_id),
+      name: hotel.name || hotel.hotel_name,
+      type: determineAccommodationType(hotel.accommodation_type_name || "hotel"),
+      stars: hotel.class || undefined,
+      description: description?.description || "",
+      url: hotel.url,
+      photos: (Array.isArray(photos) ? photos : []).map((photo: any) => ({
+        url: photo.url_1440 || photo.url_max,
+        thumbnailUrl: photo.url_square60 || photo.url_max,
+        caption: photo.tags?.[0]?.tag,
+      })),
+      facilities: (Array.isArray(facilities) ? facilities : []).map((facility: any) => ({
+        name: facility.facility_name,
+        category: facility.facilitytype_name || "General",
+      })),
+      location: {
+        address: hotel.address || "N/A",
+        city: hotel.city || "",
+        country: hotel.country || "",
+        coordinates: {
+          latitude: hotel.location?.latitude ?? hotel.latitude ?? 0,
+          longitude: hotel.location?.longitude ?? hotel.longitude ?? 0,
+        },
+      },
+      policies: {
+        checkIn: { from: hotel.checkin?.from, until: hotel.checkin?.to },
+        checkOut: { from: hotel.checkout?.from, until: hotel.checkout?.to },
+        items: extractPolicies(policies),
+      },
+      roomTypes: extractRoomTypes(roomList),
+      // The hotel record is fresher than the review-scores aggregate
+      reviews: {
+        ...reviews,
+        score: hotel.review_score || reviews.score,
+        scoreWord: hotel.review_score_word || getReviewScore(hotel.review_score || reviews.score),
+        count: hotel.review_nr || reviews.count,
+      },
+    };
+
+    return details;
+  }
+
+  async function getReviews(params: AccommodationReviewsParams): Promise<AccommodationReviews> {
+    const reviewScores = await get("/v1/hotels/review-scores", {
+      hotel_id: params.hotelId,
+      locale: toBookingLocale(params.locale),
+    }, "load the guest reviews");
+    const total = reviewScores?.score_breakdown?.[0];
+    const score = Number(total?.average_score) || 0;
+
+    return {
+      score,
+      scoreWord: getReviewScore(score),
+      count: Number(total?.count) || 0,
+      breakdown: extractReviewBreakdown(reviewScores),
+    };
+  }
+
+  async function getRoomAvailability(params: RoomAvailabilityParams) {
+    const roomList = await getRoomList(params);
+
+    return extractRoomBlocks(roomList, countNights(params.checkIn, params.checkOut), params.currency || "USD", params.blockIds);
+  }
+
+  return {
+    name: "rapidapi",
+    sampleData: false,
+    lookupDestinations,
+    searchAccommodations,
+    getAccommodationDetails,
+    getRoomAvailability,
+    getReviews,
+  };
+}
+
+// Helper to flatten the /v1/hotels/policies payload into titled paragraphs
+function extractPolicies(policies: any): AccommodationDetails["policies"]["items"] {
+  const list = Array.isArray(policies?.policy) ? policies.policy : Array.isArray(policies) ? policies : [];
+
+  return list
+    .map((policy: any) => ({
+      type: String(policy.type || "general").replace(/^POLICY_/, "").toLowerCase(),
+      title: policy.name || policy.title || policy.type || "Policy",
+      text: (policy.content || [])
+        .map((item: any) => item.text)
+        .filter(Boolean)
+        .join(" "),
+    }))
+    .filter((policy: { text: string }) => policy.text.length > 0);
+}
+
+// Helper to map the /v1/hotels/room-list payload to room types
+function extractRoomTypes(roomList: any): AccommodationDetails["roomTypes"] {
+  const entry = Array.isArray(roomList) ? roomList[0] : roomList;
+  const rooms: Record<string, any> = entry?.rooms || {};
+  const blocks: any[] = entry?.block || [];
+
+  return Object.entries(rooms).map(([roomId, room]) => {
+    const block = blocks.find((candidate) => String(candidate.room_id) === roomId);
+
+    return {
+      id: roomId,
+      name: block?.room_name || block?.name_without_policy || `Room ${roomId}`,
+      description: room.description || "",
+      bedConfiguration: formatBedConfiguration(room),
+      maxOccupancy: block?.max_occupancy ? Number(block.max_occupancy) : undefined,
+      sizeSqm: block?.room_surface_in_m2 || undefined,
+      photos: (room.photos || []).map((photo: any) => photo.url_original || photo.url_max300).filter(Boolean),
+      facilities: (room.facilities || []).map((facility: any) => facility.name).filter(Boolean),
+    };
+  });
+}
+
+// Helper to map the room-list blocks (one per room and rate plan) to bookable offers
+function extractRoomBlocks(roomList: any, nights: number, currency: string, blockIds?: string[]): RoomBlock[] {
+  const entry = Array.isArray(roomList) ? roomList[0] : roomList;
+  const rooms: Record<string, any> = entry?.rooms || {};
+  const blocks: any[] = entry?.block || [];
+
+  return blocks.map((block) => {
+    const blockId = String(block.block_id);
+    const room = rooms[String(block.room_id)] || {};
+    const price = parseCompositePrice(block.product_price_breakdown, nights) ?? {
+      currency: block.min_price?.currency || currency,
+      total: Number(block.min_price?.price) || 0,
+      perNight: Math.round(((Number(block.min_price?.price) || 0) / nights) * 100) / 100,
+    };
+    const cancellation = block.paymentterms?.cancellation || {};
+    const prepayment = block.paymentterms?.prepayment || {};
+    const freeCancellation = cancellation.type === "free_cancellation" || Boolean(block.refundable);
+    const deadline = freeCancellation && block.refundable_until
+      ? String(block.refundable_until).replace(" ", "T")
+      : undefined;
+    const prepaymentRequired = prepayment.type
+      ? prepayment.type !== "no_prepayment"
+      : !block.is_no_prepayment_block;
+
+    return {
+      blockId,
+      roomId: String(block.room_id),
+      roomName: block.room_name || block.name_without_policy || `Room ${block.room_id}`,
+      bedConfiguration: formatBedConfiguration(room),
+      maxOccupancy: Number(block.max_occupancy) || 0,
+      mealPlan: block.mealplan || (block.breakfast_included ? "Breakfast included" : "Room only"),
+      cancellation: {
+        freeCancellation,
+        deadline,
+        description: cancellation.description
+          || (freeCancellation ? `Free cancellation${deadline ? ` until ${deadline}` : ""}` : "Non-refundable"),
+      },
+      prepayment: {
+        required: prepaymentRequired,
+        description: prepayment.description
+          || (prepaymentRequired ? "Prepayment required" : "No prepayment needed – pay at the property"),
+      },
+      price,
+      roomsLeft: block.room_count != null ? Number(block.room_count) : undefined,
+      matchesSearch: blockIds?.includes(blockId) ?? false,
+    };
+  });
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Helper to read the all-inclusive total and nightly price from a composite_price_breakdown
+function parseCompositePrice(breakdown: any, nights: number): RoomBlock["price"] | null {
+  const gross = breakdown?.all_inclusive_amount || breakdown?.gross_amount;
+  if (!gross || typeof gross.value !== "number") {
+    return null;
+  }
+
+  // The nightly gross leaves out excluded charges, so only use it without them
+  const perNight = breakdown.all_inclusive_amount
+    ? gross.value / nights
+    : breakdown.gross_amount_per_night?.value ?? gross.value / nights;
+
+  return {
+    currency: gross.currency || "USD",
+    total: roundAmount(gross.value),
+    perNight: roundAmount(perNight),
+  };
+}
+
+// Helper to map a composite_price_breakdown to gross, net, taxes and discounts
+function extractPriceBreakdown(breakdown: any): PriceBreakdown | undefined {
+  const gross = breakdown?.gross_amount;
+  if (!gross || typeof gross.value !== "number") {
+    return undefined;
+  }
+
+  const excluded = Number(breakdown.excluded_amount?.value) || 0;
+  const strikethrough = Number(breakdown.strikethrough_amount?.value) || undefined;
+  const discount = Number(breakdown.discounted_amount?.value)
+    || (strikethrough && strikethrough > gross.value ? strikethrough - gross.value : undefined);
+
+  return {
+    currency: gross.currency || "USD",
+    gross: roundAmount(gross.value),
+    net: typeof breakdown.net_amount?.value === "number" ? roundAmount(breakdown.net_amount.value) : undefined,
+    includedTaxes: roundAmount(Number(breakdown.included_taxes_and_charges_amount?.value) || 0),
+    excludedCharges: roundAmount(excluded),
+    allInclusive: roundAmount(Number(breakdown.all_inclusive_amount?.value) || gross.value + excluded),
+    strikethrough: strikethrough ? roundAmount(strikethrough) : undefined,
+    discount: discount ? roundAmount(discount) : undefined,
+    items: (breakdown.items || [])
+      .filter((item: any) => typeof item.item_amount?.value === "number")
+      .map((item: any) => ({
+        name: item.name || item.kind || "Charge",
+        inclusion: item.inclusion_type === "excluded" ? "excluded" : "included",
+        amount: roundAmount(item.item_amount.value),
+        details: item.details || undefined,
+      })),
+  };
+}
+
+// Helper to read search prices in the requested currency, keeping the
+// property's own currency when Booking.com converted them
+function extractSearchPrices(hotel: any, nights: number, currency: string) {
+  const breakdown = hotel.composite_price_breakdown;
+  const converted = parseCompositePrice(breakdown, nights);
+  const hotelTotal = breakdown?.gross_amount_hotel_currency?.value ?? hotel.min_total_price ?? 0;
+  const hotelCurrency = breakdown?.gross_amount_hotel_currency?.currency || hotel.currency_code || currency;
+
+  const prices = {
+    pricePerNight: Math.round(converted?.perNight ?? hotelTotal / nights),
+    totalPrice: Math.round(converted?.total ?? hotelTotal),
+    currency: converted?.currency || hotelCurrency,
+  };
+
+  return {
+    ...prices,
+    priceBreakdown: extractPriceBreakdown(breakdown),
+    hotelCurrency: hotelCurrency !== prices.currency
+      ? {
+          currency: hotelCurrency,
+          pricePerNight: Math.round(hotelTotal / nights),
+          totalPrice: Math.round(hotelTotal),
+        }
+      : undefined,
+  };
+}
+
+// Helper to describe the beds of a room-list room, e.g. "1 large double bed"
+function formatBedConfiguration(room: any): string {
+  return (room?.bed_configurations || [])
+    .flatMap((config: any) => config.bed_types || [])
+    .map((bed: any) => bed.name_with_count || bed.name)
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Helper to map /v1/hotels/review-scores to per category scores
+function extractReviewBreakdown(reviewScores: any): AccommodationDetails["reviews"]["breakdown"] {
+  const questions: any[] = reviewScores?.score_breakdown?.[0]?.question || [];
+
+  return questions.map((question) => ({
+    category: question.localized_question || question.question,
+    score: Number(question.score) || 0,
+  }));
+}
+
+// Helper to map a /v1/hotels/locations entry to a destination candidate
+function mapLocation(location: any, index: number): DestinationCandidate {
+  const hasCoordinates = typeof location.latitude === "number" && typeof location.longitude === "number";
+
+  return {
+    destId: String(location.dest_id),
+    destType: toDestinationType(location.dest_type),
+    name: location.name || location.city_name || "",
+    label: location.label || location.name || "",
+    region: location.region || undefined,
+    country: location.country || "",
+    countryCode: location.cc1 || undefined,
+    coordinates: hasCoordinates
+      ? { latitude: location.latitude, longitude: location.longitude }
+      : undefined,
+    hotelCount: location.nr_hotels ?? location.hotels ?? undefined,
+    rank: index + 1,
+  };
+}
+
+// Helper to normalize dest_type values, unknown ones are treated as cities
+function toDestinationType(type: unknown): DestinationCandidate["destType"] {
+  return (DESTINATION_TYPES as readonly string[]).includes(String(type))
+    ? (type as DestinationCandidate["destType"])
+    : "city";
+}
+
+// Helper to determine accommodation type
+export function determineAccommodationType(type: string): string {
+  const typeMap: Record<string, string> = {
+    hotel: "hotel",
+    apartment: "apartment",
+    hostel: "hostel",
+    "guest house": "guest-house",
+    "vacation home": "vacation-home",
+    resort: "resort",
+    villa: "villa",
+    chalet: "chalet",
+    "bed and breakfast": "bed-and-breakfast",
+    lodge: "lodge",
+  };
+  return typeMap[type.toLowerCase()] || "hotel";
+}
+
+// Booking.com property type ids for the property_type:: search filter
+const PROPERTY_TYPE_FILTER_IDS: Record<string, string> = {
+  apartment: "201",
+  hostel: "203",
+  hotel: "204",
+  resort: "206",
+  "bed-and-breakfast": "208",
+  villa: "213",
+  "guest-house": "216",
+  "vacation-home": "220",
+  lodge: "221",
+  chalet: "228",
+};
+
+// Search filter ids per facility. These are the ids of the search filters,
+// not the hotel_facilities ids decoded by extractFacilitiesFromIds
+const FACILITY_FILTER_IDS: Record<string, string> = {
+  pool: "facility::433",
+  parking: "facility::2",
+  "free-breakfast": "mealplan::1",
+  gym: "facility::11",
+  "all-inclusive": "mealplan::4",
+  "family-friendly": "facility::28",
+  wifi: "facility::107",
+  spa: "facility::54",
+  restaurant: "facility::3",
+  "airport-shuttle": "facility::17",
+  "pet-friendly": "facility::4",
+};
+
+// Review score buckets offered by the review_score:: search filter
+const REVIEW_SCORE_BUCKETS = [90, 80, 70, 60];
+
+// Translate search params into Booking.com categories_filter_ids. Facilities
+// without a search filter and ratings between buckets are reported back.
+export function toCategoryFilters(
+  params: AccommodationSearchParams,
+  currency: string
+): { categoryFilterIds: string[]; unappliedFilters?: UnappliedFilters } {
+  const categoryFilterIds: string[] = [];
+  const unappliedFacilities: string[] = [];
+  let ratingFloor: number | undefined;
+
+  if (params.minPrice || params.maxPrice) {
+    categoryFilterIds.push(`price::${currency}-${params.minPrice || 0}-${params.maxPrice || "max"}`);
+  }
+
+  if (params.accommodationType && PROPERTY_TYPE_FILTER_IDS[params.accommodationType]) {
+    categoryFilterIds.push(`property_type::${PROPERTY_TYPE_FILTER_IDS[params.accommodationType]}`);
+  }
+
+  if (params.rating) {
+    const bucket = REVIEW_SCORE_BUCKETS.find((score) => params.rating! * 10 >= score);
+    if (bucket) {
+      categoryFilterIds.push(`review_score::${bucket}`);
+    }
+    if ((bucket ?? 0) / 10 < params.rating) {
+      ratingFloor = (bucket ?? 0) / 10;
+    }
+  }
+
+  for (const facility of params.facilities || []) {
+    const filterId = FACILITY_FILTER_IDS[facility];
+    if (filterId) {
+      categoryFilterIds.push(filterId);
+    } else {
+      unappliedFacilities.push(facility);
+    }
+  }
+
+  if (params.freeCancellation) {
+    categoryFilterIds.push("free_cancellation::1");
+  }
+
+  if (unappliedFacilities.length === 0 && ratingFloor === undefined) {
+    return { categoryFilterIds };
+  }
+  return {
+    categoryFilterIds,
+    unappliedFilters: {
+      facilities: unappliedFacilities.length > 0 ? unappliedFacilities : undefined,
+      ratingFloor,
+    },
+  };
+}
+
+// Helper to get review score text
+export function getReviewScore(score: number): string {
+  if (score >= 9.5) return "Exceptional";
+  if (score >= 9.0) return "Superb";
+  if (score >= 8.5) return "Wonderful";
+  if (score >= 8.0) return "Very Good";
+  if (score >= 7.5) return "Good";
+  return "Pleasant";
+}
+
+// Helper to name the facility IDs (Booking.com v1 API) we know; unknown IDs
+// are left out rather than guessed
+export function extractFacilitiesFromIds(facilityIds: string): string[] {
+  if (!facilityIds) return [];
+
+  // Common facility mappings based on Booking.com facility IDs
+  const facilityMap: Record<string, string> = {
+    "2": "Parking",
+    "3": "Restaurant",
+    "4": "24-hour front desk",
+    "6": "Non-smoking rooms",
+    "7": "Facilities for disabled guests",
+    "8": "Family rooms",
+    "11": "Airport shuttle",
+    "14": "Spa and wellness centre",
+    "16": "Bar",
+    "17": "Breakfast",
+    "20": "Free toiletries",
+    "22": "Hairdryer",
+    "28": "Car rental",
+    "47": "Safety deposit box",
+    "48": "Heating",
+    "51": "Soundproof rooms",
+    "53": "Express check-in/check-out",
+    "54": "Packed lunches",
+    "75": "Designated smoking area",
+    "81": "Sun terrace",
+    "91": "VIP room facilities",
+    "96": "Bridal suite",
+    "107": "Private check-in/check-out",
+    "108": "Swimming pool",
+    "109": "Terrace",
+    "111": "Ironing facilities",
+    "121": "Hot tub",
+    "124": "Fitness centre",
+    "158": "Gift shop",
+    "160": "Ticket service",
+    "163": "Business centre",
+    "177": "Air conditioning",
+    "181": "Electric kettle",
+    "184": "WiFi",
+    "421": "Mini golf",
+    "436": "BBQ facilities",
+    "439": "Meeting/banquet facilities",
+    "449": "Bicycle rental",
+    "455": "Massage",
+    "459": "Concierge service",
+    "466": "Lift",
+    "490": "Room service",
+    "491": "Currency exchange",
+    "495": "Laundry",
+    "517": "Shops on site",
+  };
+
+  const ids = facilityIds.split(",").map(id => id.trim());
+  return [...new Set(ids.filter((id) => facilityMap[id]).map((id) => facilityMap[id]))];
+}
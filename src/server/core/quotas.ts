@@ -0,0 +1,259 @@
+import type { Principal } from "./auth.js";
+import { BookingError } from "./errors.js";
+
+/** Tool calls allowed per fixed window; undefined is unlimited */
+export type QuotaLimits = {
+  perMinute?: number;
+  /** Per UTC day */
+  perDay?: number;
+};
+
+export type QuotaConfig = {
+  /** Each MCP session, roughly one conversation */
+  session: QuotaLimits;
+  /** Each API key or OAuth client, across all its sessions */
+  client: QuotaLimits;
+};
+
+/** Who is calling a tool, as far as the transport knows */
+export type Caller = {
+  /** A session the server issued; never an id the client chose */
+  sessionId?: string;
+  principal?: Principal;
+  /** Client network address, counted in place of a missing session or principal */
+  address?: string;
+};
+
+export type UsageRecord = {
+  kind: "session" | Principal["kind"] | "address";
+  id: string;
+  /** Calls in the current minute and UTC day; a window that has passed counts 0 */
+  minute: { startsAt: number; calls: number };
+  day: { startsAt: number; calls: number };
+  totalCalls: number;
+  /** Calls refused because a quota was reached */
+  rejectedCalls: number;
+  /** Epoch milliseconds */
+  lastCallAt: number;
+};
+
+/** Storage behind the usage counters; records must survive a JSON round trip */
+export type UsageStore = {
+  get(key: string): Promise<UsageRecord | undefined>;
+  set(key: string, record: UsageRecord): Promise<void>;
+  list(): Promise<UsageRecord[]>;
+};
+
+export type UsageReport = {
+  limits: QuotaConfig;
+  clients: UsageRecord[];
+};
+
+export type QuotaGuard = {
+  /** Count one tool call; throws CLIENT_QUOTA_EXCEEDED when the caller is over a quota */
+  consume(caller: Caller): Promise<void>;
+  report(): Promise<UsageReport>;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * In-memory counters for long-lived Node processes. Every session gets a
+ * record, so the least recently active ones are dropped past `maxEntries`.
+ */
+export function createMemoryUsageStore({ maxEntries = 10_000 } = {}): UsageStore {
+  const records = new Map<string, UsageRecord>();
+
+  return {
+    async get(key) {
+      const record = records.get(key);
+      return record && structuredClone(record);
+    },
+    async set(key, record) {
+      // Re-insert to mark as most recently active
+      records.delete(key);
+      records.set(key, structuredClone(record));
+
+      while (records.size > maxEntries) {
+        records.delete(records.keys().next().value!);
+      }
+    },
+    async list() {
+      return [...records.values()].map((record) => structuredClone(record));
+    },
+  };
+}
+
+// The subset of a Cloudflare KV namespace binding the counters need
+type KvNamespaceLike = {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(key: string, value: string, options: { expirationTtl: number }): Promise<void>;
+  list(options: { prefix: string; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+};
+
+/**
+ * Counters shared by all Worker isolates, backed by a KV namespace. KV is
+ * eventually consistent and has no atomic increment, so concurrent calls
+ * from one client may be undercounted; quotas are enforced approximately.
+ */
+export function createKvUsageStore(namespace: KvNamespaceLike, prefix = "booking-usage:"): UsageStore {
+  return {
+    async get(key) {
+      return ((await namespace.get(`${prefix}${key}`, "json")) as UsageRecord | null) ?? undefined;
+    },
+    async set(key, record) {
+      // Only today's counts matter; keep idle records until the next day is over
+      await namespace.put(`${prefix}${key}`, JSON.stringify(record), { expirationTtl: (2 * DAY_MS) / 1000 });
+    },
+    async list() {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await namespace.list({ prefix, cursor });
+        names.push(...page.keys.map((key) => key.name));
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+
+      const records = await Promise.all(names.map((name) => namespace.get(name, "json")));
+      return records.filter((record): record is UsageRecord => !!record);
+    },
+  };
+}
+
+// Reset the counts of windows that have passed
+function current(record: UsageRecord | undefined, kind: UsageRecord["kind"], id: string, now: number): UsageRecord {
+  const minuteStartsAt = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  const dayStartsAt = Math.floor(now / DAY_MS) * DAY_MS;
+  const base = record ?? { kind, id, totalCalls: 0, rejectedCalls: 0, lastCallAt: now };
+
+  return {
+    ...base,
+    minute: record?.minute.startsAt === minuteStartsAt ? record.minute : { startsAt: minuteStartsAt, calls: 0 },
+    day: record?.day.startsAt === dayStartsAt ? record.day : { startsAt: dayStartsAt, calls: 0 },
+  };
+}
+
+function strictest(a: QuotaLimits, b: QuotaLimits): QuotaLimits {
+  const lower = (x?: number, y?: number) => (x === undefined ? y : y === undefined ? x : Math.min(x, y));
+  return { perMinute: lower(a.perMinute, b.perMinute), perDay: lower(a.perDay, b.perDay) };
+}
+
+const CLIENT_LABELS: Record<UsageRecord["kind"], string> = {
+  session: "This session",
+  api_key: "This API key",
+  oauth: "This OAuth client",
+  address: "This network address",
+};
+
+/**
+ * Per-session and per-client quotas on tool calls, counted in fixed windows
+ * (the current minute and UTC day). Every call is counted, limits or not, so
+ * the usage report covers all clients. Calls without a server-issued session
+ * (stateless transports) or a principal (no auth) count against the client's
+ * address instead, so dropping or changing a header does not reset a quota.
+ * Store failures let the call through.
+ */
+export function createQuotaGuard(store: UsageStore, limits: QuotaConfig): QuotaGuard {
+  return {
+    async consume(caller) {
+      const now = Date.now();
+      const counted: { key: string; limits: QuotaLimits; record: UsageRecord }[] = [];
+
+      // An anonymous stateless caller is one record under the stricter of both limits
+      const subjects = new Map<string, { kind: UsageRecord["kind"]; id: string; limits: QuotaLimits }>();
+      const count = (kind: UsageRecord["kind"], id: string, quota: QuotaLimits) => {
+        const key = `${kind}:${id}`;
+        const subject = subjects.get(key);
+        subjects.set(key, { kind, id, limits: subject ? strictest(subject.limits, quota) : quota });
+      };
+      if (caller.sessionId) {
+        count("session", caller.sessionId, limits.session);
+      } else if (caller.address) {
+        count("address", caller.address, limits.session);
+      }
+      if (caller.principal) {
+        count(caller.principal.kind, caller.principal.clientId, limits.client);
+      } else if (caller.address) {
+        count("address", caller.address, limits.client);
+      }
+
+      try {
+        for (const [key, { kind, id, limits }] of subjects) {
+          counted.push({ key, limits, record: current(await store.get(key), kind, id, now) });
+        }
+      } catch (error) {
+        console.warn("[quotas] --> Failed to read usage", error);
+        return;
+      }
+
+      let exceeded: BookingError | undefined;
+      for (const { limits, record } of counted) {
+        const window = limits.perMinute !== undefined && record.minute.calls >= limits.perMinute
+          ? { name: "minute", limit: limits.perMinute, resetsAt: record.minute.startsAt + MINUTE_MS }
+          : limits.perDay !== undefined && record.day.calls >= limits.perDay
+            ? { name: "day", limit: limits.perDay, resetsAt: record.day.startsAt + DAY_MS }
+            : undefined;
+        if (window) {
+          exceeded = new BookingError(
+            "CLIENT_QUOTA_EXCEEDED",
+            `${CLIENT_LABELS[record.kind]} reached its limit of ${window.limit} tool calls per ${window.name}`,
+            { quota: window.name, limit: window.limit, retryAfterSeconds: Math.ceil((window.resetsAt - now) / 1000) }
+          );
+          break;
+        }
+      }
+
+      for (const { record } of counted) {
+        if (exceeded) {
+          record.rejectedCalls += 1;
+        } else {
+          record.minute.calls += 1;
+          record.day.calls += 1;
+          record.totalCalls += 1;
+        }
+        record.lastCallAt = now;
+      }
+
+      try {
+        await Promise.all(counted.map(({ key, record }) => store.set(key, record)));
+      } catch (error) {
+        console.warn("[quotas] --> Failed to write usage", error);
+      }
+
+      if (exceeded) {
+        throw exceeded;
+      }
+    },
+
+    async report() {
+      const now = Date.now();
+      const clients = (await store.list())
+        .map((record) => current(record, record.kind, record.id, now))
+        .sort((a, b) => b.day.calls - a.day.calls || b.lastCallAt - a.lastCallAt);
+
+      return { limits, clients };
+    },
+  };
+}
+
+// MCP_SESSION_QUOTA_PER_MINUTE, MCP_SESSION_QUOTA_PER_DAY,
+// MCP_CLIENT_QUOTA_PER_MINUTE and MCP_CLIENT_QUOTA_PER_DAY; unset is unlimited
+export function quotaConfigFromEnv(env: Record<string, unknown>): QuotaConfig {
+  const limit = (value: unknown) => (Number(value) > 0 ? Math.floor(Number(value)) : undefined);
+
+  return {
+    session: {
+      perMinute: limit(env.MCP_SESSION_QUOTA_PER_MINUTE),
+      perDay: limit(env.MCP_SESSION_QUOTA_PER_DAY),
+    },
+    client: {
+      perMinute: limit(env.MCP_CLIENT_QUOTA_PER_MINUTE),
+      perDay: limit(env.MCP_CLIENT_QUOTA_PER_DAY),
+    },
+  };
+}
@@ -0,0 +1,544 @@
+import { z } from "zod";
+
+import { MAX_NIGHTS } from "./dates.js";
+import { toToolJsonSchema } from "./json-schema.js";
+
+export const ACCOMMODATION_TYPES = [
+  "hotel",
+  "apartment",
+  "hostel",
+  "guest-house",
+  "vacation-home",
+  "resort",
+  "villa",
+  "chalet",
+  "bed-and-breakfast",
+  "lodge",
+] as const;
+
+export const FACILITIES = [
+  "pool",
+  "parking",
+  "free-breakfast",
+  "gym",
+  "all-inclusive",
+  "family-friendly",
+  "wifi",
+  "spa",
+  "restaurant",
+  "airport-shuttle",
+  "pet-friendly",
+  "beach-access",
+  "kitchen",
+] as const;
+
+export const DESTINATION_TYPES = [
+  "city",
+  "district",
+  "landmark",
+  "airport",
+  "hotel",
+  "region",
+  "country",
+] as const;
+
+// Sort orders supported by the Booking.com search endpoint
+export const SORT_OPTIONS = [
+  "popularity",
+  "distance",
+  "class_descending",
+  "class_ascending",
+  "bayesian_review_score",
+  "price",
+] as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[number];
+
+const coordinatesParser = z.object({
+  latitude: z.number().min(-90).max(90).describe("Latitude in decimal degrees"),
+  longitude: z.number().min(-180).max(180).describe("Longitude in decimal degrees"),
+});
+
+export type Coordinates = z.infer<typeof coordinatesParser>;
+
+const childrenAgesParser = z
+  .array(z.number().int().min(0).max(17))
+  .describe("Age of each child at check-in (0-17), one entry per child. Prices depend on them, so ask the user when travelling with children")
+  .optional();
+
+// Children ages must match the children count, and every room needs an adult
+function checkOccupancy(
+  occupancy: { adults?: number; children?: number; childrenAges?: number[]; rooms?: number },
+  ctx: z.RefinementCtx
+) {
+  if (
+    occupancy.childrenAges &&
+    occupancy.children !== undefined &&
+    occupancy.childrenAges.length !== occupancy.children
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["childrenAges"],
+      message: `Expected ${occupancy.children} children ages, got ${occupancy.childrenAges.length}`,
+    });
+  }
+  if (occupancy.rooms && occupancy.rooms > (occupancy.adults || 2)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["rooms"],
+      message: "Every room needs at least one adult",
+    });
+  }
+}
+
+const roomOccupancyParser = z.object({
+  adults: z.number().int().min(1),
+  childrenAges: z.array(z.number().int().min(0)),
+});
+
+// Dates are validated and resolved by the tool handlers (see dates.ts) so that
+// relative expressions can use the user's time zone
+const checkInParser = z
+  .string()
+  .describe('Check-in date in YYYY-MM-DD format; relative English expressions such as "tomorrow", "next Friday" or "Dec 20" are resolved in the user\'s time zone')
+  .optional();
+
+const checkOutParser = z
+  .string()
+  .describe('Check-out date in YYYY-MM-DD format; relative expressions such as "in 3 days" count from check-in')
+  .optional();
+
+const currencyParser = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/)
+  .describe("ISO 4217 currency code for prices and budgets, e.g. EUR. Defaults to the currency of the user's locale")
+  .optional();
+
+// Zod parser
+export const accommodationSearchInputParser = z.object({
+  destination: z.string().describe("City name or destination"),
+  destId: z
+    .string()
+    .describe("Exact Booking.com destination id from destination_lookup; skips name resolution")
+    .optional(),
+  destType: z
+    .enum(DESTINATION_TYPES)
+    .describe("Type of destId, as returned by destination_lookup (defaults to city)")
+    .optional(),
+  coordinates: coordinatesParser
+    .describe("Geographic coordinates if city is not available")
+    .optional(),
+  checkIn: checkInParser,
+  checkOut: checkOutParser,
+  nights: z.number().int().min(1).max(MAX_NIGHTS).describe("Number of nights").optional(),
+  dates: z
+    .string()
+    .describe('The stay in the user\'s words when no exact dates are known, e.g. "next weekend", "for 4 nights from Dec 20" or "Dec 20-24"')
+    .optional(),
+  adults: z.number().int().min(1).describe("Number of adults").optional(),
+  children: z.number().int().min(0).describe("Number of children").optional(),
+  childrenAges: childrenAgesParser,
+  rooms: z.number().int().min(1).describe("Number of rooms").optional(),
+  minPrice: z.number().min(0).describe("Minimum budget per night").optional(),
+  maxPrice: z.number().min(0).describe("Maximum budget per night").optional(),
+  accommodationType: z
+    .enum(ACCOMMODATION_TYPES)
+    .describe("Type of accommodation")
+    .optional(),
+  facilities: z
+    .array(z.enum(FACILITIES))
+    .describe("Required facilities/amenities")
+    .optional(),
+  landmark: z.string().describe("Nearby landmark or point of interest").optional(),
+  rating: z.number().min(0).max(10).describe("Minimum guest rating (0-10)").optional(),
+  freeCancellation: z.boolean().describe("Only show options with free cancellation").optional(),
+  currency: currencyParser,
+  sortBy: z
+    .enum(SORT_OPTIONS)
+    .describe(
+      "Result order: popularity, distance (from the city centre, or from the landmark/coordinates when given), class_descending/class_ascending (stars), bayesian_review_score (guest reviews) or price (low to high). Defaults to popularity, or distance for landmark and coordinate searches"
+    )
+    .optional(),
+  cursor: z
+    .string()
+    .describe("nextCursor from a previous accommodations_search call with the same arguments, to fetch the next page")
+    .optional(),
+  refresh: z
+    .boolean()
+    .describe("Skip cached results, e.g. when the user asks for up-to-date prices")
+    .optional(),
+}).superRefine(checkOccupancy);
+
+export type AccommodationSearchInput = z.infer<typeof accommodationSearchInputParser>;
+
+export const priceBreakdownParser = z.object({
+  currency: z.string().describe("ISO 4217 currency code of the amounts"),
+  gross: z.number().describe("Price for the whole stay including included taxes and charges"),
+  net: z.number().describe("Price before taxes and charges").optional(),
+  includedTaxes: z.number().describe("Taxes and charges already part of gross"),
+  excludedCharges: z.number().describe("Taxes and charges paid on top of gross, usually at the property"),
+  allInclusive: z.number().describe("What the guest pays in total: gross plus excluded charges"),
+  strikethrough: z.number().describe("Original price before a discount").optional(),
+  discount: z.number().describe("Amount saved compared to the strikethrough price").optional(),
+  items: z.array(
+    z.object({
+      name: z.string(),
+      inclusion: z.enum(["included", "excluded"]),
+      amount: z.number(),
+      details: z.string().optional(),
+    })
+  ),
+});
+
+export type PriceBreakdown = z.infer<typeof priceBreakdownParser>;
+
+export const accommodationParser = z.object({
+  id: z.string().describe("Booking.com hotel id"),
+  name: z.string(),
+  type: z.string().describe("Normalized accommodation type"),
+  destination: z.string(),
+  pricePerNight: z.number().describe("All-inclusive price per night of the stay"),
+  totalPrice: z.number().describe("All-inclusive price for the whole stay"),
+  currency: z.string().describe("ISO 4217 currency code of the prices"),
+  priceBreakdown: priceBreakdownParser
+    .describe("Taxes, charges and discounts behind totalPrice")
+    .optional(),
+  hotelCurrency: z
+    .object({
+      currency: z.string().describe("ISO 4217 currency code the property charges in"),
+      pricePerNight: z.number(),
+      totalPrice: z.number(),
+    })
+    .describe("Original prices in the property's own currency, when it differs")
+    .optional(),
+  images: z.array(z.string()),
+  mainImage: z.string(),
+  stars: z.number().min(0).max(5).describe("Official star class, when known").optional(),
+  rating: z.number().min(0).max(10).describe("Guest rating; absent when the property has none yet").optional(),
+  reviewScore: z.string().describe("Review score word, e.g. Superb").optional(),
+  reviewCount: z.number().int().min(0),
+  location: z.object({
+    address: z.string(),
+    city: z.string(),
+    distance: z.string().describe("Formatted distance from the city center"),
+    distanceKm: z.number().describe("Kilometers from the city center, when known").optional(),
+    landmark: z.string(),
+    coordinates: coordinatesParser,
+  }),
+  facilities: z.array(z.string()),
+  cancellation: z.string(),
+  breakfast: z.string(),
+  sustainability: z.object({
+    certified: z.boolean(),
+    level: z.number().int().min(0),
+  }),
+  blockIds: z
+    .array(z.string())
+    .describe("Bookable room blocks matching the search, usable with room_availability")
+    .optional(),
+  distanceFromOrigin: z
+    .object({
+      kilometers: z.number().min(0),
+      origin: z.string().describe("The landmark or coordinates the distance is measured from"),
+    })
+    .describe("Straight-line distance for landmark and coordinate searches")
+    .optional(),
+});
+
+export type Accommodation = z.infer<typeof accommodationParser>;
+
+export const destinationCandidateParser = z.object({
+  destId: z.string().describe("Booking.com destination id, pass to accommodations_search as destId"),
+  destType: z.enum(DESTINATION_TYPES).describe("Pass to accommodations_search as destType"),
+  name: z.string(),
+  label: z.string().describe("Full display name, e.g. Paris, Ile de France, France"),
+  region: z.string().optional(),
+  country: z.string(),
+  countryCode: z.string().optional(),
+  coordinates: coordinatesParser.optional(),
+  hotelCount: z.number().int().min(0).optional(),
+  rank: z.number().int().min(1).describe("1 is the most relevant match"),
+});
+
+export type DestinationCandidate = z.infer<typeof destinationCandidateParser>;
+
+export const destinationLookupInputParser = z.object({
+  query: z.string().min(1).describe("Free text destination, e.g. Paris or Eiffel Tower"),
+  types: z
+    .array(z.enum(DESTINATION_TYPES))
+    .describe("Only return candidates of these types")
+    .optional(),
+  limit: z.number().int().min(1).max(20).describe("Maximum number of candidates (default 8)").optional(),
+  refresh: z.boolean().describe("Skip cached results").optional(),
+});
+
+export type DestinationLookupInput = z.infer<typeof destinationLookupInputParser>;
+
+export const destinationLookupOutputParser = z.object({
+  query: z.string(),
+  candidates: z.array(destinationCandidateParser),
+  ambiguous: z
+    .boolean()
+    .describe("True when several cities or regions match; ask the user which one they mean"),
+  usingMockData: z.boolean().describe("True when candidates come from the built-in sample data"),
+});
+
+export type DestinationLookupOutput = z.infer<typeof destinationLookupOutputParser>;
+
+export const accommodationSearchOutputParser = z.object({
+  destination: z.string(),
+  resolvedDestination: destinationCandidateParser
+    .describe("The destination that was actually searched")
+    .optional(),
+  searchOrigin: z
+    .object({
+      kind: z.enum(["coordinates", "landmark"]),
+      label: z.string(),
+      coordinates: coordinatesParser,
+    })
+    .describe("Point results are ordered by distance from, for landmark and coordinate searches")
+    .optional(),
+  landmarkNotFound: z
+    .string()
+    .describe("The requested landmark, when it could not be located and the whole destination was searched instead")
+    .optional(),
+  checkIn: z.string().describe("Resolved check-in date (YYYY-MM-DD)"),
+  checkOut: z.string().describe("Resolved check-out date (YYYY-MM-DD)"),
+  nights: z.number().int(),
+  timeZone: z.string().describe("IANA time zone relative dates were resolved in"),
+  datesAssumed: z
+    .boolean()
+    .describe("True when no dates were given and a default stay was searched; confirm the dates with the user"),
+  adults: z.number().int(),
+  children: z.number().int(),
+  childrenAges: z.array(z.number().int()).describe("Ages the prices are based on"),
+  childrenAgesAssumed: z
+    .boolean()
+    .describe("True when some ages were not given and a default was used; ask the user and search again"),
+  rooms: z.number().int(),
+  roomDistribution: z.array(roomOccupancyParser).describe("How the guests are spread over the rooms"),
+  accommodations: z.array(accommodationParser),
+  currency: z
+    .string()
+    .describe("Currency prices and budgets are in: the requested one, unless the provider cannot convert (sample data is in USD)"),
+  totalResults: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Total number of matching accommodations across all pages"),
+  page: z.number().int().min(0).describe("Zero-based page returned in accommodations"),
+  nextCursor: z
+    .string()
+    .describe("Pass as cursor to fetch the next page; absent on the last page")
+    .optional(),
+  sortBy: z.enum(SORT_OPTIONS).describe("The order results are listed in"),
+  filters: z.object({
+    accommodationType: z.enum(ACCOMMODATION_TYPES).optional(),
+    facilities: z.array(z.enum(FACILITIES)).optional(),
+    minPrice: z.number().optional(),
+    maxPrice: z.number().optional(),
+    rating: z.number().optional(),
+    freeCancellation: z.boolean().optional(),
+  }),
+  unappliedFilters: z
+    .object({
+      facilities: z
+        .array(z.enum(FACILITIES))
+        .describe("Facilities results were not filtered by; check each result's facilities")
+        .optional(),
+      ratingFloor: z
+        .number()
+        .describe("Guest rating results were filtered by instead of the requested one (0: not filtered)")
+        .optional(),
+    })
+    .describe("Requested filters Booking.com could not apply exactly")
+    .optional(),
+  usingMockData: z.boolean().describe("True when results come from the built-in sample data"),
+});
+
+export type AccommodationSearchOutput = z.infer<typeof accommodationSearchOutputParser>;
+
+export const accommodationDetailsInputParser = z.object({
+  hotelId: z.string().describe("Booking.com hotel id, as returned by accommodations_search"),
+  checkIn: checkInParser,
+  checkOut: checkOutParser,
+  adults: z.number().int().min(1).describe("Number of adults").optional(),
+  children: z.number().int().min(0).describe("Number of children").optional(),
+  childrenAges: childrenAgesParser,
+  rooms: z.number().int().min(1).describe("Number of rooms").optional(),
+  currency: currencyParser,
+}).superRefine(checkOccupancy);
+
+export type AccommodationDetailsInput = z.infer<typeof accommodationDetailsInputParser>;
+
+const timeWindowParser = z.object({
+  from: z.string().optional(),
+  until: z.string().optional(),
+});
+
+export const accommodationReviewsParser = z.object({
+  score: z.number().min(0).max(10),
+  scoreWord: z.string(),
+  count: z.number().int().min(0),
+  breakdown: z.array(
+    z.object({
+      category: z.string().describe("Review category, e.g. Cleanliness"),
+      score: z.number().min(0).max(10),
+    })
+  ),
+});
+
+export type AccommodationReviews = z.infer<typeof accommodationReviewsParser>;
+
+export const accommodationDetailsParser = z.object({
+  id: z.string().describe("Booking.com hotel id"),
+  name: z.string(),
+  type: z.string().describe("Normalized accommodation type"),
+  stars: z.number().min(0).max(5).optional(),
+  description: z.string(),
+  url: z.string().optional(),
+  photos: z.array(
+    z.object({
+      url: z.string(),
+      thumbnailUrl: z.string(),
+      caption: z.string().optional(),
+    })
+  ),
+  facilities: z.array(
+    z.object({
+      name: z.string(),
+      category: z.string().describe("Facility group, e.g. Bathroom or Outdoors"),
+    })
+  ),
+  location: z.object({
+    address: z.string(),
+    city: z.string(),
+    country: z.string(),
+    coordinates: coordinatesParser,
+  }),
+  policies: z.object({
+    checkIn: timeWindowParser,
+    checkOut: timeWindowParser,
+    items: z.array(
+      z.object({
+        type: z.string().describe("Policy kind, e.g. children, pets, cancellation"),
+        title: z.string(),
+        text: z.string(),
+      })
+    ),
+  }),
+  roomTypes: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string(),
+      bedConfiguration: z.string(),
+      maxOccupancy: z.number().int().min(0).optional(),
+      sizeSqm: z.number().min(0).optional(),
+      photos: z.array(z.string()),
+      facilities: z.array(z.string()),
+    })
+  ),
+  reviews: accommodationReviewsParser,
+});
+
+export type AccommodationDetails = z.infer<typeof accommodationDetailsParser>;
+
+export const accommodationDetailsOutputParser = z.object({
+  checkIn: z.string().describe("Resolved check-in date (YYYY-MM-DD)"),
+  checkOut: z.string().describe("Resolved check-out date (YYYY-MM-DD)"),
+  adults: z.number().int(),
+  children: z.number().int(),
+  rooms: z.number().int(),
+  accommodation: accommodationDetailsParser,
+  usingMockData: z.boolean().describe("True when details come from the built-in sample data"),
+});
+
+export type AccommodationDetailsOutput = z.infer<typeof accommodationDetailsOutputParser>;
+
+export const roomAvailabilityInputParser = z.object({
+  hotelId: z.string().describe("Booking.com hotel id, as returned by accommodations_search"),
+  checkIn: checkInParser,
+  checkOut: checkOutParser,
+  adults: z.number().int().min(1).describe("Number of adults").optional(),
+  children: z.number().int().min(0).describe("Number of children").optional(),
+  childrenAges: childrenAgesParser,
+  rooms: z.number().int().min(1).describe("Number of rooms").optional(),
+  currency: currencyParser,
+  blockIds: z
+    .array(z.string())
+    .describe("Block ids from accommodations_search; matching blocks are flagged in the result")
+    .optional(),
+}).superRefine(checkOccupancy);
+
+export type RoomAvailabilityInput = z.infer<typeof roomAvailabilityInputParser>;
+
+export const roomBlockParser = z.object({
+  blockId: z.string(),
+  roomId: z.string(),
+  roomName: z.string(),
+  bedConfiguration: z.string(),
+  maxOccupancy: z.number().int().min(0),
+  mealPlan: z.string().describe("Meals included in the rate, e.g. Breakfast included"),
+  cancellation: z.object({
+    freeCancellation: z.boolean(),
+    deadline: z
+      .string()
+      .describe("Last moment for free cancellation (ISO 8601), when free cancellation applies")
+      .optional(),
+    description: z.string(),
+  }),
+  prepayment: z.object({
+    required: z.boolean(),
+    description: z.string(),
+  }),
+  price: z.object({
+    currency: z.string().describe("ISO 4217 currency code"),
+    perNight: z.number(),
+    total: z.number(),
+  }),
+  roomsLeft: z.number().int().min(0).optional(),
+  matchesSearch: z.boolean().describe("True when the block was part of the accommodations_search result"),
+});
+
+export type RoomBlock = z.infer<typeof roomBlockParser>;
+
+export const roomAvailabilityOutputParser = z.object({
+  hotelId: z.string(),
+  checkIn: z.string(),
+  checkOut: z.string(),
+  nights: z.number().int().min(1),
+  adults: z.number().int(),
+  children: z.number().int(),
+  rooms: z.number().int(),
+  blocks: z.array(roomBlockParser),
+  usingMockData: z.boolean().describe("True when availability comes from the built-in sample data"),
+});
+
+export type RoomAvailabilityOutput = z.infer<typeof roomAvailabilityOutputParser>;
+
+// JSON schemas advertised in tools/list, generated from the parsers above
+export const accommodationSearchInputSchema = toToolJsonSchema(
+  accommodationSearchInputParser
+);
+export const accommodationSearchOutputSchema = toToolJsonSchema(
+  accommodationSearchOutputParser
+);
+export const accommodationDetailsInputSchema = toToolJsonSchema(
+  accommodationDetailsInputParser
+);
+export const accommodationDetailsOutputSchema = toToolJsonSchema(
+  accommodationDetailsOutputParser
+);
+export const roomAvailabilityInputSchema = toToolJsonSchema(
+  roomAvailabilityInputParser
+);
+export const roomAvailabilityOutputSchema = toToolJsonSchema(
+  roomAvailabilityOutputParser
+);
+export const destinationLookupInputSchema = toToolJsonSchema(
+  destinationLookupInputParser
+);
+export const destinationLookupOutputSchema = toToolJsonSchema(
+  destinationLookupOutputParser
+);
@@ -0,0 +1,381 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  JSONRPCMessageSchema,
+  type JSONRPCMessage,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { isSamePrincipal, type Principal } from "./auth.js";
+import type { Caller } from "./quotas.js";
+
+export const SESSION_HEADER = "Mcp-Session-Id";
+
+// Not in the SDK's ErrorCode enum; what newer SDKs answer for unknown sessions
+const SESSION_NOT_FOUND = -32001;
+
+const encoder = new TextEncoder();
+
+// SSE comment line: ignored by clients, but keeps proxies from timing out the stream
+const KEEP_ALIVE_EVENT = encoder.encode(": ping\n\n");
+
+// What goes back to the client: a message from the server, or the error for a
+// batch entry that was not valid JSON-RPC (whose id may be unknown)
+type OutgoingMessage = JSONRPCMessage | { jsonrpc: "2.0"; id: RequestId | null; error: { code: number; message: string } };
+
+function toSseEvent(message: OutgoingMessage): Uint8Array {
+  return encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+function jsonRpcError(status: number, code: number, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }), {
+    status,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
+
+// Per JSON-RPC 2.0, answer each malformed batch entry with its own error
+function invalidEntry(entry: unknown): OutgoingMessage {
+  const id = entry && typeof entry === "object" ? (entry as { id?: unknown }).id : undefined;
+  return {
+    jsonrpc: "2.0",
+    id: typeof id === "string" || typeof id === "number" ? id : null,
+    error: { code: ErrorCode.InvalidRequest, message: "Invalid JSON-RPC message" },
+  };
+}
+
+function isResponse(message: JSONRPCMessage): boolean {
+  return "id" in message && ("result" in message || "error" in message);
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId; method: string } {
+  return "method" in message && "id" in message;
+}
+
+/** True for a single (non-batch) JSON-RPC initialize request */
+export function isInitializeMessage(message: unknown): boolean {
+  return !!message && typeof message === "object" && !Array.isArray(message)
+    && (message as { method?: unknown }).method === "initialize";
+}
+
+/**
+ * One Streamable HTTP session as seen by the MCP SDK. Responses are routed
+ * back to the POST that carried their request; anything else the server
+ * sends goes out on the session's GET streams.
+ */
+class StreamableHttpTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private responders = new Map<RequestId, (message: JSONRPCMessage) => void>();
+  private streams = new Set<ReadableStreamDefaultController<Uint8Array>>();
+
+  constructor(readonly sessionId: string | undefined) {}
+
+  async start() {}
+
+  async send(message: JSONRPCMessage) {
+    if (isResponse(message)) {
+      const respond = this.responders.get((message as { id: RequestId }).id);
+      if (respond) {
+        this.responders.delete((message as { id: RequestId }).id);
+        respond(message);
+        return;
+      }
+    }
+
+    for (const stream of this.streams) {
+      stream.enqueue(toSseEvent(message));
+    }
+  }
+
+  async close() {
+    for (const stream of this.streams) {
+      stream.close();
+    }
+    this.streams.clear();
+    this.onclose?.();
+  }
+
+  /** Hand `messages` to the server; resolves with the response to each request among them */
+  receive(messages: JSONRPCMessage[]): Promise<JSONRPCMessage>[] {
+    const responses = messages
+      .filter(isRequest)
+      .map((request) => new Promise<JSONRPCMessage>((resolve) => this.responders.set(request.id, resolve)));
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+    return responses;
+  }
+
+  keepAlive() {
+    for (const stream of this.streams) {
+      stream.enqueue(KEEP_ALIVE_EVENT);
+    }
+  }
+
+  /** Standalone SSE stream for server-initiated messages (GET) */
+  openStream(): ReadableStream<Uint8Array> {
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+
+    return new ReadableStream({
+      start: (streamController) => {
+        controller = streamController;
+        this.streams.add(controller);
+      },
+      cancel: () => {
+        this.streams.delete(controller);
+      },
+    });
+  }
+}
+
+type Session = {
+  server: Server;
+  transport: StreamableHttpTransport;
+  /** Who opened the session; only they may use it */
+  principal?: Principal;
+  /** Epoch milliseconds of the last request */
+  lastActivityAt: number;
+};
+
+export type StreamableHttpOptions = {
+  /** A new MCP server, connected to each session's transport */
+  createServer(caller: Caller): Server;
+  /**
+   * Keep sessions in memory between requests. Without it (Workers, where
+   * requests of one session may reach different isolates) every POST is
+   * served by a fresh server and GET streams are not offered.
+   */
+  stateful: boolean;
+  /** Checked before a stateful session is opened; false answers 503 */
+  acceptSession?: () => boolean;
+};
+
+export type StreamableHttpHandler = {
+  /**
+   * Serve POST, GET and DELETE on the MCP endpoint. `principal` is the
+   * authenticated client; a stateful session keeps the one it started with
+   * and answers 404 to any other. `address` is the client's network address,
+   * which quotas count against without a server-issued session or principal.
+   */
+  handle(request: Request, principal?: Principal, address?: string): Promise<Response>;
+  /** Open sessions (stateful mode) */
+  readonly sessionCount: number;
+  /** Close sessions without a request for `idleMs`; resolves with how many were closed */
+  closeIdleSessions(idleMs: number): Promise<number>;
+  /** Send a keep-alive comment on every open GET stream */
+  keepAlive(): void;
+  closeAll(): Promise<void>;
+};
+
+/**
+ * MCP Streamable HTTP transport (protocol revision 2025-03-26) on the Fetch
+ * API, so the Node server and the Worker share it. An initialize request
+ * starts a session whose id is returned in the Mcp-Session-Id header; later
+ * requests must send it back. POST answers with JSON, or with an SSE stream
+ * when the client does not accept application/json.
+ */
+export function createStreamableHttpHandler(options: StreamableHttpOptions): StreamableHttpHandler {
+  const sessions = new Map<string, Session>();
+
+  async function openSession(
+    sessionId: string | undefined,
+    principal: Principal | undefined,
+    address: string | undefined
+  ): Promise<Session> {
+    // A stateless session id is the client's own choice, so quotas cannot key on it
+    const server = options.createServer({ sessionId: options.stateful ? sessionId : undefined, principal, address });
+    const transport = new StreamableHttpTransport(sessionId);
+    await server.connect(transport);
+    return { server, transport, principal, lastActivityAt: Date.now() };
+  }
+
+  function findSession(request: Request, principal: Principal | undefined): Session | Response {
+    const sessionId = request.headers.get(SESSION_HEADER);
+    if (!sessionId) {
+      return jsonRpcError(400, ErrorCode.InvalidRequest, `Missing ${SESSION_HEADER} header`);
+    }
+    // Another client's session is reported as unknown, so ids cannot be probed
+    const session = sessions.get(sessionId);
+    if (!session || !isSamePrincipal(session.principal, principal)) {
+      return jsonRpcError(404, SESSION_NOT_FOUND, "Session not found");
+    }
+    session.lastActivityAt = Date.now();
+    return session;
+  }
+
+  async function handlePost(
+    request: Request,
+    principal: Principal | undefined,
+    address: string | undefined
+  ): Promise<Response> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonRpcError(400, ErrorCode.ParseError, "Parse error");
+    }
+
+    const batch = Array.isArray(body);
+    const entries = batch ? (body as unknown[]) : [body];
+    const messages: JSONRPCMessage[] = [];
+    const invalid: OutgoingMessage[] = [];
+    for (const entry of entries) {
+      const parsed = JSONRPCMessageSchema.safeParse(entry);
+      if (parsed.success) {
+        messages.push(parsed.data);
+      } else {
+        invalid.push(invalidEntry(entry));
+      }
+    }
+    if (entries.length === 0 || (!batch && invalid.length > 0)) {
+      return jsonRpcError(400, ErrorCode.InvalidRequest, "Invalid JSON-RPC message");
+    }
+    const initialize = isInitializeMessage(body);
+    if (!initialize && messages.some((message) => "method" in message && message.method === "initialize")) {
+      return jsonRpcError(400, ErrorCode.InvalidRequest, "initialize must be sent on its own");
+    }
+
+    let session: Session;
+    let sessionId: string | null;
+    if (initialize && options.stateful && options.acceptSession?.() === false) {
+      return jsonRpcError(503, ErrorCode.InternalError, "Too many open sessions, try again later", {
+        "Retry-After": "30",
+      });
+    }
+
+    if (initialize) {
+      const newSessionId = crypto.randomUUID();
+      sessionId = newSessionId;
+      session = await openSession(newSessionId, principal, address);
+      if (options.stateful) {
+        sessions.set(newSessionId, session);
+        session.server.onclose = () => sessions.delete(newSessionId);
+      }
+    } else if (options.stateful) {
+      const found = findSession(request, principal);
+      if (found instanceof Response) {
+        return found;
+      }
+      session = found;
+      sessionId = session.transport.sessionId!;
+    } else {
+      // Stateless: the id cannot be checked, so it is only echoed back
+      sessionId = request.headers.get(SESSION_HEADER);
+      session = await openSession(sessionId ?? undefined, principal, address);
+    }
+
+    const headers: Record<string, string> = sessionId ? { [SESSION_HEADER]: sessionId } : {};
+    const responses = session.transport.receive(messages);
+    const done = () => {
+      if (!options.stateful) {
+        void session.server.close();
+      }
+    };
+
+    // Only notifications and responses: nothing to answer
+    if (responses.length === 0 && invalid.length === 0) {
+      done();
+      return new Response(null, { status: 202, headers });
+    }
+
+    const accept = request.headers.get("Accept") ?? "";
+    if (accept.includes("application/json") || !accept.includes("text/event-stream")) {
+      const results: OutgoingMessage[] = [...(await Promise.all(responses)), ...invalid];
+      done();
+      return new Response(JSON.stringify(batch ? results : results[0]), {
+        status: 200,
+        headers: { ...headers, "Content-Type": "application/json" },
+      });
+    }
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        invalid.forEach((message) => controller.enqueue(toSseEvent(message)));
+        await Promise.all(responses.map(async (response) => controller.enqueue(toSseEvent(await response))));
+        controller.close();
+        done();
+      },
+    });
+    return new Response(stream, {
+      status: 200,
+      headers: { ...headers, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+
+  function handleGet(request: Request, principal: Principal | undefined): Response {
+    if (!options.stateful) {
+      return new Response(null, { status: 405, headers: { Allow: "POST" } });
+    }
+    if (!(request.headers.get("Accept") ?? "").includes("text/event-stream")) {
+      return jsonRpcError(406, ErrorCode.InvalidRequest, "GET requires Accept: text/event-stream");
+    }
+    const session = findSession(request, principal);
+    if (session instanceof Response) {
+      return session;
+    }
+
+    return new Response(session.transport.openStream(), {
+      status: 200,
+      headers: {
+        [SESSION_HEADER]: session.transport.sessionId!,
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  async function handleDelete(request: Request, principal: Principal | undefined): Promise<Response> {
+    if (!options.stateful) {
+      return new Response(null, { status: 405, headers: { Allow: "POST" } });
+    }
+    const session = findSession(request, principal);
+    if (session instanceof Response) {
+      return session;
+    }
+    await session.server.close();
+    return new Response(null, { status: 204 });
+  }
+
+  return {
+    get sessionCount() {
+      return sessions.size;
+    },
+
+    async handle(request, principal, address) {
+      switch (request.method) {
+        case "POST":
+          return handlePost(request, principal, address);
+        case "GET":
+          return handleGet(request, principal);
+        case "DELETE":
+          return handleDelete(request, principal);
+        default:
+          return new Response(null, {
+            status: 405,
+            headers: { Allow: options.stateful ? "GET, POST, DELETE" : "POST" },
+          });
+      }
+    },
+
+    async closeIdleSessions(idleMs) {
+      const idle = [...sessions.values()].filter((session) => Date.now() - session.lastActivityAt >= idleMs);
+      await Promise.all(idle.map((session) => session.server.close()));
+      return idle.length;
+    },
+
+    keepAlive() {
+      for (const session of sessions.values()) {
+        session.transport.keepAlive();
+      }
+    },
+
+    async closeAll() {
+      await Promise.all([...sessions.values()].map((session) => session.server.close()));
+    },
+  };
+}
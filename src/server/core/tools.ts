@@ -0,0 +1,408 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+import { currencyForLocale } from "./currency.js";
+import { resolveStay } from "./dates.js";
+import { BookingError } from "./errors.js";
+import { sortAccommodations } from "./filters.js";
+import { annotateDistances, type SearchOrigin } from "./geo.js";
+import { ASSUMED_CHILD_AGE, distributeRooms, resolveChildrenAges } from "./occupancy.js";
+import type { AccommodationProvider } from "./providers/index.js";
+import {
+  accommodationDetailsInputParser,
+  accommodationDetailsInputSchema,
+  accommodationDetailsOutputSchema,
+  accommodationSearchInputParser,
+  accommodationSearchInputSchema,
+  accommodationSearchOutputSchema,
+  destinationLookupInputParser,
+  destinationLookupInputSchema,
+  destinationLookupOutputSchema,
+  roomAvailabilityInputParser,
+  roomAvailabilityInputSchema,
+  roomAvailabilityOutputSchema,
+  type AccommodationDetailsOutput,
+  type AccommodationSearchInput,
+  type AccommodationSearchOutput,
+  type DestinationLookupOutput,
+  type RoomAvailabilityOutput,
+  type SortOption,
+} from "./schemas.js";
+import type { DestinationCandidate, UnappliedFilters } from "./types.js";
+import { widgetMeta, widgetsById, type BookingWidget } from "./widgets.js";
+
+export type ToolContext = {
+  provider: AccommodationProvider;
+  /** Host locale from the request _meta, e.g. "en-US" */
+  locale?: string;
+  /** IANA time zone relative dates are resolved in */
+  timeZone: string;
+};
+
+export type ToolResult = {
+  content: { type: "text"; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+};
+
+export type ToolDefinition = {
+  tool: Tool;
+  widget?: BookingWidget;
+  handle(args: Record<string, unknown>, context: ToolContext): Promise<ToolResult>;
+};
+
+const DEMO_MODE_NOTE = " (Demo mode: sample data from a real Booking.com response, not live availability)";
+
+const accommodationsSearchWidget = widgetsById.get("accommodations_search")!;
+
+const SORT_LABELS: Record<SortOption, string> = {
+  popularity: "popularity",
+  distance: "distance",
+  class_descending: "stars (high to low)",
+  class_ascending: "stars (low to high)",
+  bayesian_review_score: "guest review score",
+  price: "price (low to high)",
+};
+
+// Cursors are opaque to the model; today they only carry the upstream page
+function encodeCursor(page: number): string {
+  return btoa(`page:${page}`);
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) {
+    return 0;
+  }
+
+  let match: RegExpExecArray | null = null;
+  try {
+    match = /^page:(\d+)$/.exec(atob(cursor));
+  } catch {
+    // Not base64, reported below
+  }
+  if (!match) {
+    throw new BookingError("VALIDATION_ERROR", `Invalid cursor: ${cursor}`, { field: "cursor" });
+  }
+  return Number(match[1]);
+}
+
+// Tell the model which filters results are not restricted by, so it does not
+// present them as matching
+function describeUnappliedFilters(filters: UnappliedFilters | undefined): string {
+  let note = "";
+  if (filters?.facilities?.length) {
+    const names = filters.facilities.map((facility) => facility.replace(/-/g, " ")).join(", ");
+    note += ` Booking.com cannot filter by ${names}, so results may not have it: check each result's facilities before recommending it.`;
+  }
+  if (filters?.ratingFloor !== undefined) {
+    note += filters.ratingFloor > 0
+      ? ` Booking.com filters guest ratings in whole steps, so results start at ${filters.ratingFloor}.`
+      : " Booking.com cannot filter guest ratings below 6, so results are not filtered by rating.";
+  }
+  return note;
+}
+
+// Explicit coordinates win; otherwise resolve the landmark to a point,
+// preferring a match inside the requested destination. Only landmarks and
+// districts count: a city match would silently mean "from the city center".
+async function resolveSearchOrigin(
+  args: AccommodationSearchInput,
+  { provider, locale }: Pick<ToolContext, "provider" | "locale">
+): Promise<SearchOrigin | undefined> {
+  if (args.coordinates) {
+    return {
+      kind: "coordinates",
+      label: `${args.coordinates.latitude}, ${args.coordinates.longitude}`,
+      coordinates: args.coordinates,
+    };
+  }
+
+  if (!args.landmark) {
+    return undefined;
+  }
+
+  const lookup = { query: args.landmark, locale };
+  const candidates = (await provider.lookupDestinations(lookup))
+    .filter((candidate) => candidate.coordinates);
+  const destination = args.destination.toLowerCase();
+  const landmark =
+    candidates.find(
+      (candidate) =>
+        candidate.destType === "landmark" && candidate.label.toLowerCase().includes(destination)
+    ) ??
+    candidates.find((candidate) => candidate.destType === "landmark") ??
+    candidates.find(
+      (candidate) =>
+        candidate.destType === "district" && candidate.label.toLowerCase().includes(destination)
+    );
+
+  if (!landmark?.coordinates) {
+    console.warn("[tools] --> Could not resolve landmark:", args.landmark);
+    return undefined;
+  }
+
+  return { kind: "landmark", label: landmark.name, coordinates: landmark.coordinates };
+}
+
+// Resolve a destination name up front so the lookup goes through the
+// provider's (cached) lookupDestinations rather than inside the search
+async function resolveDestination(
+  args: AccommodationSearchInput,
+  { provider, locale }: Pick<ToolContext, "provider" | "locale">
+): Promise<DestinationCandidate | undefined> {
+  if (args.destId) {
+    return undefined;
+  }
+  const [candidate] = await provider.lookupDestinations({ query: args.destination, locale });
+  return candidate;
+}
+
+const accommodationsSearch: ToolDefinition = {
+  tool: {
+    name: "accommodations_search",
+    description:
+      "Use this when the user wants to find, search, view or compare different accommodation types for their trip, for example, hotels, hostels, apartments, homes, guest houses, lodging, chalets, amongst many more. The user can find accommodations by destination, dates, number of nights, guests, budget, landmarks, and/or facilities (e.g., pool, parking, free breakfast, gym, all‑inclusive, family‑friendly). LLM must provide a city or, if a city is not available, resolve the destination to coordinates. When a destination name is ambiguous (for example Paris, France vs. Paris, Texas), call destination_lookup first, ask the user to choose and pass the chosen destId and destType. Use sortBy to order results by popularity, distance, stars, guest review score or price; when coordinates or a landmark are given, results default to straight-line distance from that point. Dates may be given as YYYY-MM-DD or as relative expressions (for example 'next weekend' or 'for 4 nights from Dec 20'), which are resolved in the user's time zone; the resolved dates are returned in the result. When travelling with children, ask for each child's age and pass childrenAges, since prices depend on them. Results are paginated: pass nextCursor from the previous result as cursor to load more. Returns available accommodation options with price, photos, guest ratings, and facilities.",
+    inputSchema: accommodationSearchInputSchema,
+    outputSchema: accommodationSearchOutputSchema,
+    _meta: widgetMeta(accommodationsSearchWidget),
+    annotations: {
+      destructiveHint: false,
+      openWorldHint: false,
+      readOnlyHint: true,
+    },
+  },
+  widget: accommodationsSearchWidget,
+  async handle(rawArgs, { provider, locale, timeZone }) {
+    const { refresh: _refresh, ...args } = accommodationSearchInputParser.parse(rawArgs);
+    const stay = resolveStay(args, timeZone);
+    const currency = (args.currency || currencyForLocale(locale)).toUpperCase();
+    const page = decodeCursor(args.cursor);
+    const searchOrigin = await resolveSearchOrigin(args, { provider, locale });
+    const landmarkNotFound = args.landmark && !searchOrigin ? args.landmark : undefined;
+    const sortBy = args.sortBy ?? (searchOrigin ? "distance" : "popularity");
+    const destination = searchOrigin ? undefined : await resolveDestination(args, { provider, locale });
+
+    const result = await provider.searchAccommodations({
+      ...args,
+      destId: destination?.destId ?? args.destId,
+      destType: destination?.destType ?? args.destType,
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      locale,
+      coordinates: searchOrigin?.coordinates,
+      currency,
+      sortBy,
+      page,
+    });
+    const usingMockData = provider.sampleData;
+    const totalResults = result.totalResults;
+    const nextCursor = result.hasMore ? encodeCursor(page + 1) : undefined;
+    const annotated = searchOrigin ? annotateDistances(result.accommodations, searchOrigin) : result.accommodations;
+    // Keep an order the provider already applied (Booking.com's review score
+    // order is weighted); distances measured here from the origin are re-sorted
+    const accommodations = result.sortedBy === sortBy && !(searchOrigin && sortBy === "distance")
+      ? annotated
+      : sortAccommodations(annotated, sortBy);
+    const resolvedDestination = destination ?? result.destination;
+    const childrenAges = resolveChildrenAges(args);
+    const childrenAgesAssumed = (args.childrenAges?.length ?? 0) < childrenAges.length;
+
+    const structuredContent: AccommodationSearchOutput = {
+      destination: args.destination,
+      resolvedDestination,
+      searchOrigin,
+      landmarkNotFound,
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      nights: stay.nights,
+      timeZone: stay.timeZone,
+      datesAssumed: stay.assumed,
+      adults: args.adults || 2,
+      children: childrenAges.length,
+      childrenAges,
+      childrenAgesAssumed,
+      rooms: args.rooms || 1,
+      roomDistribution: result.roomDistribution ?? distributeRooms(args),
+      accommodations: accommodations,
+      currency: result.currency ?? currency,
+      totalResults,
+      page,
+      nextCursor,
+      sortBy,
+      filters: {
+        accommodationType: args.accommodationType,
+        facilities: args.facilities,
+        minPrice: args.minPrice,
+        maxPrice: args.maxPrice,
+        rating: args.rating,
+        freeCancellation: args.freeCancellation,
+      },
+      unappliedFilters: result.unappliedFilters as AccommodationSearchOutput["unappliedFilters"],
+      usingMockData,
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${totalResults} accommodation options in ${resolvedDestination?.label || args.destination}${searchOrigin ? ` around ${searchOrigin.label}` : ""} from ${stay.checkIn} to ${stay.checkOut} (${stay.nights} nights${stay.assumed ? ", no dates given so a default stay was searched" : ""}), sorted by ${SORT_LABELS[sortBy]}.${landmarkNotFound ? ` Could not locate "${landmarkNotFound}", so the whole destination was searched: ask the user for a better-known landmark nearby or pass coordinates.` : ""}${accommodations.length < totalResults ? ` Showing ${accommodations.length} on page ${page + 1}.` : ""}${nextCursor ? " Pass nextCursor as cursor for more results." : ""}${result.currency && result.currency !== currency ? ` Prices and budgets are in ${result.currency}, not ${currency}.` : ""}${describeUnappliedFilters(result.unappliedFilters)}${childrenAgesAssumed ? ` Prices assume children aged ${ASSUMED_CHILD_AGE} where no age was given: ask the user how old each child will be at check-in and search again with childrenAges.` : ""}${usingMockData ? DEMO_MODE_NOTE : ""}`,
+        },
+      ],
+      structuredContent,
+      _meta: widgetMeta(accommodationsSearchWidget),
+    };
+  },
+};
+
+const accommodationDetailsWidget = widgetsById.get("accommodation_details")!;
+
+const accommodationDetails: ToolDefinition = {
+  tool: {
+    name: "accommodation_details",
+    description:
+      "Use this when the user wants more information about one specific accommodation, typically one returned by accommodations_search, for example its photos, full list of facilities, description, house policies, room types or guest review breakdown. Requires the hotel id from the search results; pass the same dates and occupancy as the search when known.",
+    inputSchema: accommodationDetailsInputSchema,
+    outputSchema: accommodationDetailsOutputSchema,
+    _meta: widgetMeta(accommodationDetailsWidget),
+    annotations: {
+      destructiveHint: false,
+      openWorldHint: false,
+      readOnlyHint: true,
+    },
+  },
+  widget: accommodationDetailsWidget,
+  async handle(rawArgs, { provider, locale, timeZone }) {
+    const args = accommodationDetailsInputParser.parse(rawArgs);
+    const { checkIn, checkOut } = resolveStay(args, timeZone);
+    const currency = (args.currency || currencyForLocale(locale)).toUpperCase();
+    const stay = { ...args, checkIn, checkOut, locale, currency };
+
+    const accommodation = await provider.getAccommodationDetails(stay);
+    const usingMockData = provider.sampleData;
+
+    const structuredContent: AccommodationDetailsOutput = {
+      checkIn,
+      checkOut,
+      adults: args.adults || 2,
+      children: args.children || 0,
+      rooms: args.rooms || 1,
+      accommodation,
+      usingMockData,
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${accommodation.name}: rated ${accommodation.reviews.score.toFixed(1)} (${accommodation.reviews.scoreWord}) from ${accommodation.reviews.count} reviews, ${accommodation.roomTypes.length} room types and ${accommodation.facilities.length} facilities.${usingMockData ? DEMO_MODE_NOTE : ""}`,
+        },
+      ],
+      structuredContent,
+      _meta: widgetMeta(accommodationDetailsWidget),
+    };
+  },
+};
+
+const roomAvailability: ToolDefinition = {
+  tool: {
+    name: "room_availability",
+    description:
+      "Use this when the user wants to know which rooms of a specific accommodation can actually be booked for their stay, or compare rate plans. Requires the hotel id from accommodations_search and the stay dates and occupancy. Returns every available room and rate with bed configuration, maximum occupancy, meal plan, cancellation deadline, prepayment requirement and price per night and in total.",
+    inputSchema: roomAvailabilityInputSchema,
+    outputSchema: roomAvailabilityOutputSchema,
+    annotations: {
+      destructiveHint: false,
+      openWorldHint: false,
+      readOnlyHint: true,
+    },
+  },
+  async handle(rawArgs, { provider, locale, timeZone }) {
+    const args = roomAvailabilityInputParser.parse(rawArgs);
+    const { checkIn, checkOut, nights } = resolveStay(args, timeZone);
+    const currency = (args.currency || currencyForLocale(locale)).toUpperCase();
+    const stay = { ...args, checkIn, checkOut, locale, currency };
+
+    const blocks = await provider.getRoomAvailability(stay);
+    const usingMockData = provider.sampleData;
+
+    const structuredContent: RoomAvailabilityOutput = {
+      hotelId: args.hotelId,
+      checkIn,
+      checkOut,
+      nights,
+      adults: args.adults || 2,
+      children: args.children || 0,
+      rooms: args.rooms || 1,
+      blocks,
+      usingMockData,
+    };
+
+    const cheapest = blocks.reduce<(typeof blocks)[number] | null>(
+      (best, block) => (!best || block.price.total < best.price.total ? block : best),
+      null
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${blocks.length} room options available from ${checkIn} to ${checkOut}${cheapest ? `, cheapest ${cheapest.roomName} at ${cheapest.price.total} ${cheapest.price.currency} in total` : ""}.${usingMockData ? DEMO_MODE_NOTE : ""}`,
+        },
+      ],
+      structuredContent,
+    };
+  },
+};
+
+const destinationLookup: ToolDefinition = {
+  tool: {
+    name: "destination_lookup",
+    description:
+      "Use this to resolve a place name to Booking.com destinations before searching, especially when the name could mean several places (for example Paris, France vs. Paris, Texas) or refers to a district, landmark, airport or a specific hotel. Returns ranked candidates with dest_id, dest_type, country and coordinates. If the result is ambiguous, ask the user which one they mean and pass its destId and destType to accommodations_search.",
+    inputSchema: destinationLookupInputSchema,
+    outputSchema: destinationLookupOutputSchema,
+    annotations: {
+      destructiveHint: false,
+      openWorldHint: false,
+      readOnlyHint: true,
+    },
+  },
+  async handle(rawArgs, { provider, locale }) {
+    const { refresh: _refresh, ...args } = destinationLookupInputParser.parse(rawArgs);
+
+    const candidates = await provider.lookupDestinations({ ...args, locale });
+    const usingMockData = provider.sampleData;
+
+    // Several cities or regions for one name means the user has to pick
+    const places = candidates.filter(
+      (candidate) => candidate.destType === "city" || candidate.destType === "region"
+    );
+    const ambiguous = new Set(places.map((candidate) => candidate.label)).size > 1;
+
+    const structuredContent: DestinationLookupOutput = {
+      query: args.query,
+      candidates,
+      ambiguous,
+      usingMockData,
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: candidates.length === 0
+            ? `No destinations found for "${args.query}".`
+            : `Found ${candidates.length} destinations for "${args.query}": ${candidates.map((candidate) => `${candidate.rank}. ${candidate.label} (${candidate.destType}, dest_id ${candidate.destId})`).join("; ")}.${ambiguous ? " The name is ambiguous, ask the user which destination they mean." : ""}`,
+        },
+      ],
+      structuredContent,
+    };
+  },
+};
+
+export const toolDefinitions: ToolDefinition[] = [
+  destinationLookup,
+  accommodationsSearch,
+  accommodationDetails,
+  roomAvailability,
+];
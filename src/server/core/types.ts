@@ -0,0 +1,98 @@
+export type {
+  Accommodation,
+  AccommodationDetails,
+  AccommodationReviews,
+  DestinationCandidate,
+  PriceBreakdown,
+  RoomBlock,
+} from "./schemas.js";
+
+import type {
+  Accommodation,
+  Coordinates,
+  DestinationCandidate,
+  SortOption,
+} from "./schemas.js";
+import type { RoomOccupancy } from "./occupancy.js";
+
+export type AccommodationSearchParams = {
+  destination: string;
+  /** Host locale; names and addresses are translated when available */
+  locale?: string;
+  destId?: string;
+  destType?: string;
+  coordinates?: Coordinates;
+  /** YYYY-MM-DD; resolved by the tool layer, providers never pick dates */
+  checkIn: string;
+  checkOut: string;
+  adults?: number;
+  children?: number;
+  childrenAges?: number[];
+  rooms?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  accommodationType?: string;
+  facilities?: string[];
+  landmark?: string;
+  rating?: number;
+  freeCancellation?: boolean;
+  /** ISO 4217 code prices and budgets are expressed in */
+  currency?: string;
+  sortBy?: SortOption;
+  /** Zero-based result page */
+  page?: number;
+};
+
+export type AccommodationDetailsParams = {
+  hotelId: string;
+  locale?: string;
+  /** YYYY-MM-DD, as for the search */
+  checkIn: string;
+  checkOut: string;
+  adults?: number;
+  children?: number;
+  childrenAges?: number[];
+  rooms?: number;
+  /** ISO 4217 code room prices are expressed in */
+  currency?: string;
+};
+
+export type RoomAvailabilityParams = AccommodationDetailsParams & {
+  blockIds?: string[];
+};
+
+export type AccommodationReviewsParams = {
+  hotelId: string;
+  locale?: string;
+};
+
+export type DestinationLookupParams = {
+  query: string;
+  locale?: string;
+  types?: string[];
+  limit?: number;
+};
+
+export type UnappliedFilters = {
+  /** Facilities the provider has no filter for */
+  facilities?: string[];
+  /** Guest rating actually filtered by, lower than the requested minimum (0: none) */
+  ratingFloor?: number;
+};
+
+export type AccommodationSearchResult = {
+  accommodations: Accommodation[];
+  /** Resolved destination, absent for coordinate searches */
+  destination?: DestinationCandidate;
+  /** Matches across all pages, as reported upstream */
+  totalResults: number;
+  hasMore: boolean;
+  /** Currency prices and budgets are in, when the provider could not use the requested one */
+  currency?: string;
+  /** Order the provider already returned the page in; other orders are applied locally */
+  sortedBy?: SortOption;
+  /** Requested filters the provider could not apply exactly; results are not restricted by them */
+  unappliedFilters?: UnappliedFilters;
+  /** Guests per room as Booking.com distributed them */
+  roomDistribution?: RoomOccupancy[];
+};
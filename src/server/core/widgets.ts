@@ -0,0 +1,49 @@
+export type BookingWidget = {
+  id: string;
+  title: string;
+  templateUri: string;
+  /** Name of the built component HTML in assets/ (and of the embedded copy) */
+  componentName: string;
+  invoking: string;
+  invoked: string;
+  responseText: string;
+};
+
+export const widgets: BookingWidget[] = [
+  {
+    id: "accommodations_search",
+    title: "Booking.com Accommodation Search",
+    templateUri: "ui://widget/booking-search-results.html",
+    componentName: "booking-search-results",
+    invoking: "Searching for stays on Booking.com...",
+    invoked: "Results from Booking.com ready",
+    responseText: "Found matching accommodations",
+  },
+  {
+    id: "accommodation_details",
+    title: "Booking.com Property Details",
+    templateUri: "ui://widget/booking-property-details.html",
+    componentName: "booking-property-details",
+    invoking: "Loading property details from Booking.com...",
+    invoked: "Property details ready",
+    responseText: "Loaded property details",
+  },
+];
+
+export const widgetsById = new Map<string, BookingWidget>();
+export const widgetsByUri = new Map<string, BookingWidget>();
+
+widgets.forEach((widget) => {
+  widgetsById.set(widget.id, widget);
+  widgetsByUri.set(widget.templateUri, widget);
+});
+
+export function widgetMeta(widget: BookingWidget) {
+  return {
+    "openai/outputTemplate": widget.templateUri,
+    "openai/toolInvocation/invoking": widget.invoking,
+    "openai/toolInvocation/invoked": widget.invoked,
+    "openai/widgetAccessible": true,
+    "openai/resultCanProduceWidget": true,
+  } as const;
+}
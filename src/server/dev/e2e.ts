@@ -0,0 +1,121 @@
+/**
+ * Offline end-to-end run of the tools against the fake Booking.com:
+ *
+ *   npm run test:e2e
+ *
+ * Starts the fake on a free port and drives the real RapidAPI provider
+ * through it over HTTP: search, paging, filters, details, room list and
+ * upstream errors. Exits non-zero when a check fails.
+ */
+
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+
+import { createBookingCore } from "../core/index.js";
+import { createFakeBookingApi } from "./fake-booking-api.js";
+import { createFakeBookingServer, loadRecordings } from "./fake-booking-server.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(daysFromNow: number): string {
+  return new Date(Date.now() + daysFromNow * DAY_MS).toISOString().slice(0, 10);
+}
+
+const fake = createFakeBookingApi(loadRecordings());
+const server = createFakeBookingServer(fake);
+await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+const { port } = server.address() as AddressInfo;
+
+const core = createBookingCore({
+  rapidApiKey: "fake",
+  rapidApiBaseUrl: `http://127.0.0.1:${port}`,
+  cache: false,
+  getWidgetHtml: () => "",
+});
+
+const stay = { checkIn: isoDate(30), checkOut: isoDate(33), currency: "EUR" };
+
+async function call(name: string, args: Record<string, unknown>): Promise<any> {
+  const result = await core.callTool(name, args);
+  return result.structuredContent;
+}
+
+const checks: [string, () => Promise<void>][] = [
+  ["search sorted by price, in the requested currency", async () => {
+    const output = await call("accommodations_search", { destination: "Prague", ...stay, sortBy: "price" });
+    assert.equal(output.error, undefined);
+    assert.ok(output.accommodations.length > 0);
+    const prices = output.accommodations.map((accommodation: any) => accommodation.totalPrice);
+    assert.deepEqual(prices, [...prices].sort((a, b) => a - b));
+    assert.ok(output.accommodations.every((accommodation: any) => accommodation.currency === "EUR"));
+    assert.ok(output.nextCursor);
+  }],
+  ["next page has other hotels", async () => {
+    const first = await call("accommodations_search", { destination: "Prague", ...stay });
+    const second = await call("accommodations_search", { destination: "Prague", ...stay, cursor: first.nextCursor });
+    const firstIds = new Set(first.accommodations.map((accommodation: any) => accommodation.id));
+    assert.ok(second.accommodations.length > 0);
+    assert.ok(second.accommodations.every((accommodation: any) => !firstIds.has(accommodation.id)));
+  }],
+  ["filters narrow the results", async () => {
+    const output = await call("accommodations_search", {
+      destination: "Prague",
+      ...stay,
+      rating: 9,
+      freeCancellation: true,
+    });
+    assert.ok(output.accommodations.length > 0);
+    assert.ok(output.accommodations.every((accommodation: any) => accommodation.rating >= 9));
+    assert.ok(output.totalResults < 390);
+  }],
+  ["details of a found hotel", async () => {
+    const search = await call("accommodations_search", { destination: "Prague", ...stay });
+    const output = await call("accommodation_details", { hotelId: search.accommodations[0].id, ...stay });
+    assert.equal(output.error, undefined);
+    assert.ok(output.accommodation.name);
+    assert.ok(output.accommodation.photos.length > 0);
+    assert.ok(output.accommodation.facilities.length > 0);
+  }],
+  ["room list in the requested currency", async () => {
+    const search = await call("accommodations_search", { destination: "Prague", ...stay });
+    const output = await call("room_availability", { hotelId: search.accommodations[0].id, ...stay });
+    assert.equal(output.error, undefined);
+    assert.ok(output.blocks.length > 0);
+    assert.ok(output.blocks.every((block: any) => block.price.currency === "EUR"));
+  }],
+  ["rejected key is reported as such", async () => {
+    fake.scenario = { status: 403 };
+    try {
+      const output = await call("accommodations_search", { destination: "Prague", ...stay });
+      assert.equal(output.error?.code, "AUTH_FAILED");
+    } finally {
+      fake.scenario = {};
+    }
+  }],
+  ["a rate limited call is retried", async () => {
+    fake.scenario = { status: 429, failRequests: 1, retryAfterSeconds: 0 };
+    try {
+      const output = await call("accommodations_search", { destination: "Prague", ...stay, refresh: true });
+      assert.equal(output.error, undefined);
+      assert.ok(output.accommodations.length > 0);
+    } finally {
+      fake.scenario = {};
+    }
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    await check();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`✗ ${name}`);
+    console.error(error);
+  }
+}
+
+server.close();
+console.log(`${checks.length - failed}/${checks.length} checks passed, ${fake.requests.length} upstream requests`);
+process.exitCode = failed > 0 ? 1 : 0;
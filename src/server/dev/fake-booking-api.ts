@@ -0,0 +1,275 @@
+/**
+ * Offline stand-in for the RapidAPI Booking.com endpoints, answering from
+ * recorded responses. Use `fetch` in-process or serve `handle` over HTTP
+ * (see fake-booking-server.ts) and point RAPIDAPI_BASE_URL at it.
+ *
+ * Searches honour order_by and the categories_filter_ids the provider sends
+ * (unknown ids are ignored). Prices are not converted: amounts are relabelled
+ * with the requested currency, enough to check it is passed through.
+ */
+
+// Results per page, as upstream
+const PAGE_SIZE = 20;
+
+// Hotels on later pages reuse the recorded ones under shifted ids
+const PAGE_ID_OFFSET = 100_000_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Requests kept for `requests`, so a long-running dev server does not grow
+const MAX_LOGGED_REQUESTS = 500;
+
+export type FakeRecordings = {
+  /** /v1/hotels/search payload, e.g. sample-response.json */
+  search: any;
+  locations: any[];
+  photos: any;
+  description: any;
+  facilities: any;
+  policies: any;
+  reviewScores: any;
+  roomList: any;
+};
+
+export type FakeScenario = {
+  /** Delay before every response */
+  latencyMs?: number;
+  /** Answer every request with this HTTP status, e.g. 429 or 503 */
+  status?: number;
+  /** Per endpoint status, e.g. { "/v1/hotels/search": 500 } */
+  statusByPath?: Record<string, number>;
+  /** Only the next N requests get the error status, then the upstream recovers */
+  failRequests?: number;
+  /** Sent as Retry-After with simulated errors */
+  retryAfterSeconds?: number;
+  /** Override the recorded total_count_with_filters to shape pagination */
+  totalResults?: number;
+};
+
+export type FakeBookingApi = {
+  handle(request: Request): Promise<Response>;
+  /** Drop-in for the provider's `fetch` option */
+  fetch: typeof fetch;
+  scenario: FakeScenario;
+  /** Path and query of the last requests served, oldest first */
+  requests: string[];
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Resolve after `ms`, or reject like fetch does when the caller gives up
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+function countNights(query: URLSearchParams): number {
+  const nights = Math.round(
+    (Date.parse(`${query.get("checkout_date")}T00:00:00Z`) - Date.parse(`${query.get("checkin_date")}T00:00:00Z`)) / DAY_MS
+  );
+  return Number.isFinite(nights) && nights > 0 ? nights : 1;
+}
+
+// Relabel converted amounts ({ currency, value }) with `currency`, keeping the
+// ones in the property's own currency
+function inCurrency(breakdown: any, currency: string | null): any {
+  if (!currency || !breakdown || typeof breakdown !== "object") {
+    return breakdown;
+  }
+  return Object.fromEntries(
+    Object.entries(breakdown).map(([key, amount]: [string, any]) => [
+      key,
+      !key.endsWith("_hotel_currency") && typeof amount?.value === "number" ? { ...amount, currency } : amount,
+    ])
+  );
+}
+
+// The categories_filter_ids the provider sends, as predicates on recorded hotels
+function matchesFilter(hotel: any, filterId: string): boolean {
+  const [category, value = ""] = filterId.split("::");
+  switch (category) {
+    case "class":
+      return Number(hotel.class) === Number(value);
+    case "review_score":
+      return Number(hotel.review_score) * 10 >= Number(value);
+    case "free_cancellation":
+      return Boolean(hotel.is_free_cancellable);
+    case "property_type":
+      return String(hotel.accommodation_type) === value;
+    case "facility":
+      return String(hotel.hotel_facilities || "").split(",").includes(value);
+    case "price": {
+      // "EUR-100-max": per night, in the requested currency
+      const [, min, max] = value.split("-");
+      const perNight = Number(hotel.composite_price_breakdown?.gross_amount_per_night?.value ?? hotel.min_total_price);
+      return perNight >= Number(min) && (max === "max" || perNight <= Number(max));
+    }
+    default:
+      return true;
+  }
+}
+
+const SORT_KEYS: Record<string, (hotel: any) => number> = {
+  distance: (hotel) => parseFloat(hotel.distance_to_cc),
+  class_descending: (hotel) => -Number(hotel.class),
+  class_ascending: (hotel) => Number(hotel.class),
+  bayesian_review_score: (hotel) => -Number(hotel.review_score),
+  price: (hotel) => Number(hotel.min_total_price),
+};
+
+export function createFakeBookingApi(
+  recordings: FakeRecordings,
+  scenario: FakeScenario = {}
+): FakeBookingApi {
+  const hotels: any[] = recordings.search.result || [];
+  const requests: string[] = [];
+
+  function findHotel(hotelId: string | null) {
+    const id = Number(hotelId) % PAGE_ID_OFFSET;
+    return hotels.find((hotel) => hotel.hotel_id === id);
+  }
+
+  // Without filters the recorded total is kept and later pages repeat the
+  // recorded hotels; with filters only the matching recorded hotels exist
+  function search(query: URLSearchParams) {
+    const page = Number(query.get("page_number")) || 0;
+    const filterIds = (query.get("categories_filter_ids") || "").split(",").filter(Boolean);
+    const sortKey = SORT_KEYS[query.get("order_by") || "popularity"];
+    const matching = hotels.filter((hotel) => filterIds.every((filterId) => matchesFilter(hotel, filterId)));
+    const sorted = sortKey ? [...matching].sort((a, b) => sortKey(a) - sortKey(b)) : matching;
+    const total = fake.scenario.totalResults
+      ?? (filterIds.length > 0 ? matching.length : Number(recordings.search.total_count_with_filters ?? hotels.length));
+    const remaining = Math.max(0, total - page * PAGE_SIZE);
+
+    return {
+      ...recordings.search,
+      total_count_with_filters: total,
+      count: total,
+      result: sorted.slice(0, Math.min(PAGE_SIZE, remaining)).map((hotel) => ({
+        ...hotel,
+        hotel_id: hotel.hotel_id + page * PAGE_ID_OFFSET,
+        composite_price_breakdown: inCurrency(hotel.composite_price_breakdown, query.get("filter_by_currency")),
+      })),
+    };
+  }
+
+  function locations(query: URLSearchParams) {
+    const name = (query.get("name") || "").trim().toLowerCase();
+    return recordings.locations.filter((location) => location.label.toLowerCase().includes(name));
+  }
+
+  // Hotel record in the /v1/hotels/data shape, derived from the search result
+  function hotelData(query: URLSearchParams) {
+    const hotel = findHotel(query.get("hotel_id"));
+    if (!hotel) {
+      return {};
+    }
+
+    return {
+      hotel_id: Number(query.get("hotel_id")),
+      name: hotel.hotel_name,
+      url: hotel.url,
+      address: hotel.address,
+      city: hotel.city,
+      country: hotel.country_trans,
+      class: hotel.class,
+      accommodation_type_name: hotel.accommodation_type_name,
+      review_score: hotel.review_score,
+      review_score_word: hotel.review_score_word,
+      review_nr: hotel.review_nr,
+      location: { latitude: hotel.latitude, longitude: hotel.longitude },
+      checkin: { from: hotel.checkin?.from, to: hotel.checkin?.until },
+      checkout: { from: hotel.checkout?.from, to: hotel.checkout?.until },
+    };
+  }
+
+  // Recorded prices are for one night
+  function roomList(query: URLSearchParams) {
+    const nights = countNights(query);
+    const currency = query.get("currency");
+
+    return (Array.isArray(recordings.roomList) ? recordings.roomList : [recordings.roomList]).map((entry: any) => ({
+      ...entry,
+      hotel_id: Number(query.get("hotel_id")),
+      block: (entry.block || []).map((block: any) => {
+        const breakdown = block.product_price_breakdown || {};
+        return {
+          ...block,
+          product_price_breakdown: inCurrency(
+            Object.fromEntries(
+              Object.entries(breakdown).map(([key, amount]: [string, any]) => [
+                key,
+                typeof amount?.value === "number" ? { ...amount, value: amount.value * nights } : amount,
+              ])
+            ),
+            currency
+          ),
+        };
+      }),
+    }));
+  }
+
+  const routes: Record<string, (query: URLSearchParams) => unknown> = {
+    "/v1/hotels/locations": locations,
+    "/v1/hotels/search": search,
+    "/v1/hotels/search-by-coordinates": search,
+    "/v1/hotels/data": hotelData,
+    "/v1/hotels/photos": () => recordings.photos,
+    "/v1/hotels/description": (query) => ({ ...recordings.description, hotel_id: Number(query.get("hotel_id")) }),
+    "/v1/hotels/facilities": () => recordings.facilities,
+    "/v1/hotels/policies": () => recordings.policies,
+    "/v1/hotels/review-scores": () => recordings.reviewScores,
+    "/v1/hotels/room-list": roomList,
+  };
+
+  const fake: FakeBookingApi = {
+    scenario,
+    requests,
+    async handle(request) {
+      const url = new URL(request.url);
+      requests.push(`${url.pathname}${url.search}`);
+      if (requests.length > MAX_LOGGED_REQUESTS) {
+        requests.splice(0, requests.length - MAX_LOGGED_REQUESTS);
+      }
+
+      if (fake.scenario.latencyMs) {
+        await delay(fake.scenario.latencyMs, request.signal);
+      }
+
+      const status = fake.scenario.statusByPath?.[url.pathname] ?? fake.scenario.status;
+      if (status && status >= 400 && fake.scenario.failRequests !== 0) {
+        if (fake.scenario.failRequests) {
+          fake.scenario.failRequests -= 1;
+        }
+        const response = json({ message: `Simulated HTTP ${status}` }, status);
+        if (fake.scenario.retryAfterSeconds !== undefined) {
+          response.headers.set("Retry-After", String(fake.scenario.retryAfterSeconds));
+        }
+        return response;
+      }
+
+      const route = routes[url.pathname];
+      if (!route) {
+        return json({ message: `Endpoint ${url.pathname} does not exist` }, 404);
+      }
+      return json(route(url.searchParams));
+    },
+    fetch: (input, init) => fake.handle(new Request(input, init)),
+  };
+
+  return fake;
+}
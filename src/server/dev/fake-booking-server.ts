@@ -0,0 +1,94 @@
+/**
+ * Local fake of the RapidAPI Booking.com backend for offline end-to-end runs:
+ *
+ *   npm run dev:fake-api
+ *   RAPIDAPI_BASE_URL=http://localhost:8787 RAPIDAPI_KEY=fake npm run dev
+ *
+ * The scenario can be changed while running:
+ *   curl -X POST localhost:8787/__fake/scenario -d '{"status":429}'
+ *   curl localhost:8787/__fake/requests
+ *
+ * npm run test:e2e starts one in-process through createFakeBookingServer.
+ */
+
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+import {
+  createFakeBookingApi,
+  type FakeBookingApi,
+  type FakeRecordings,
+  type FakeScenario,
+} from "./fake-booking-api.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, "..", "..", "..");
+const RECORDINGS_DIR = path.resolve(ROOT_DIR, "fixtures", "rapidapi");
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function loadRecordings(dir = RECORDINGS_DIR): FakeRecordings {
+  return {
+    search: readJson(path.join(ROOT_DIR, "sample-response.json")),
+    locations: readJson(path.join(dir, "locations.json")),
+    photos: readJson(path.join(dir, "photos.json")),
+    description: readJson(path.join(dir, "description.json")),
+    facilities: readJson(path.join(dir, "facilities.json")),
+    policies: readJson(path.join(dir, "policies.json")),
+    reviewScores: readJson(path.join(dir, "review-scores.json")),
+    roomList: readJson(path.join(dir, "room-list.json")),
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk.toString();
+  }
+  return body;
+}
+
+/** HTTP server for `fake`, with the /__fake control endpoints; not listening yet */
+export function createFakeBookingServer(fake: FakeBookingApi): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (url.pathname === "/__fake/scenario" && req.method === "POST") {
+        fake.scenario = JSON.parse((await readBody(req)) || "{}") as FakeScenario;
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(fake.scenario));
+        return;
+      }
+
+      if (url.pathname === "/__fake/requests") {
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(fake.requests));
+        return;
+      }
+
+      const response = await fake.handle(new Request(url, { method: req.method }));
+      res.writeHead(response.status, Object.fromEntries(response.headers)).end(await response.text());
+    } catch (error) {
+      console.error("[fake-booking] --> Failed to handle request", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end("Fake server error");
+      }
+    }
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.FAKE_BOOKING_PORT ?? 8787);
+  const fake = createFakeBookingApi(loadRecordings(), {
+    latencyMs: Number(process.env.FAKE_LATENCY_MS) || undefined,
+    status: Number(process.env.FAKE_STATUS) || undefined,
+  });
+
+  createFakeBookingServer(fake).listen(port, () => {
+    console.log(`Fake Booking.com API listening on http://localhost:${port}`);
+    console.log(`  Use RAPIDAPI_BASE_URL=http://localhost:${port} with any RAPIDAPI_KEY`);
+  });
+}
@@ -7,38 +7,66 @@ import fs from "node:fs";
 import path from "node:path";
 import { URL, fileURLToPath } from "node:url";
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+import {
+  cacheTtlsFromEnv,
+  createBookingCore,
+  createMemoryUsageStore,
+  createQuotaGuard,
+  createRapidApiHttpClient,
+  providerNameFromEnv,
+  quotaConfigFromEnv,
+  widgets,
+  type BookingWidget,
+} from "./core/index.js";
+import {
+  authConfigFromEnv,
+  createAuthenticator,
+  hasBearerToken,
+  isSamePrincipal,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  type Principal,
+} from "./core/auth.js";
+import { corsConfigFromEnv, createCorsPolicy } from "./core/cors.js";
+import { createBookingServer } from "./core/mcp-server.js";
 import {
-  CallToolRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ListResourcesRequestSchema,
-  ListToolsRequestSchema,
-  ReadResourceRequestSchema,
-  type CallToolRequest,
-  type ListResourceTemplatesRequest,
-  type ListResourcesRequest,
-  type ListToolsRequest,
-  type ReadResourceRequest,
-  type Resource,
-  type ResourceTemplate,
-  type Tool,
-} from "@modelcontextprotocol/sdk/types.js";
-import { z } from "zod";
+  createStreamableHttpHandler,
+  isInitializeMessage,
+  type StreamableHttpHandler,
+} from "./core/streamable-http.js";
 
 // Environment configuration
 const RAPIDAPI_KEY = process.env.RAPIDAPI_KEY || "";
-const RAPIDAPI_HOST = "booking-com.p.rapidapi.com";
-
-type BookingWidget = {
-  id: string;
-  title: string;
-  templateUri: string;
-  invoking: string;
-  invoked: string;
-  html: string;
-  responseText: string;
-};
+// Override to run against the fake Booking.com server (npm run dev:fake-api)
+const RAPIDAPI_BASE_URL = process.env.RAPIDAPI_BASE_URL;
+// Client-side limit matching the RapidAPI plan (Basic allows 5 requests per second)
+const RAPIDAPI_REQUESTS_PER_SECOND = Number(process.env.RAPIDAPI_REQUESTS_PER_SECOND) || undefined;
+// Inventory source: "rapidapi" (default) or "fixtures" for bundled sample hotels
+const PROVIDER = providerNameFromEnv(process.env);
+// Time zone for "tomorrow" and friends when the host does not send the user's
+const BOOKING_TIMEZONE = process.env.BOOKING_TIMEZONE || "UTC";
+// Seconds destination lookups and searches stay cached in memory
+const CACHE_TTLS = cacheTtlsFromEnv(process.env);
+// Close MCP sessions that have not sent a request for this long
+const SESSION_IDLE_TIMEOUT_MS = (Number(process.env.MCP_SESSION_IDLE_TIMEOUT_SECONDS) || 30 * 60) * 1000;
+// Interval of the keep-alive comments on open SSE streams
+const KEEP_ALIVE_INTERVAL_MS = (Number(process.env.MCP_KEEPALIVE_SECONDS) || 25) * 1000;
+// Open SSE and Streamable HTTP sessions together; more are refused with 503
+const MAX_SESSIONS = Number(process.env.MCP_MAX_SESSIONS) || 100;
+// Public URL of the server, e.g. behind a proxy; defaults to the request's origin
+const BASE_URL = process.env.BASE_URL;
+// Optional auth: MCP_API_KEYS and/or OAUTH_ISSUER (see README)
+const AUTH = authConfigFromEnv(process.env);
+// Tool calls allowed per session and per API key or OAuth client (unset: unlimited)
+const QUOTAS = quotaConfigFromEnv(process.env);
+// Bearer token for GET /admin/usage; the endpoint is off without it
+const ADMIN_KEY = process.env.MCP_ADMIN_KEY;
+// Browser origins allowed to call the server (see README)
+const CORS = corsConfigFromEnv(process.env);
+// How long SIGTERM waits for open connections before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 10_000;
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT_DIR = path.resolve(__dirname, "..", "..");
@@ -86,854 +114,185 @@ function readWidgetHtml(componentName: string): string {
   return htmlContents;
 }
 
-function widgetMeta(widget: BookingWidget) {
-  return {
-    "openai/outputTemplate": widget.templateUri,
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-    "openai/widgetAccessible": true,
-    "openai/resultCanProduceWidget": true,
-  } as const;
-}
-
-const widgets: BookingWidget[] = [
-  {
-    id: "accommodations_search",
-    title: "Booking.com Accommodation Search",
-    templateUri: "ui://widget/booking-search-results.html",
-    invoking: "Searching for stays on Booking.com...",
-    invoked: "Results from Booking.com ready",
-    html: readWidgetHtml("booking-search-results"),
-    responseText: "Found matching accommodations",
-  },
-];
-
-const widgetsById = new Map<string, BookingWidget>();
-const widgetsByUri = new Map<string, BookingWidget>();
-
-widgets.forEach((widget) => {
-  widgetsById.set(widget.id, widget);
-  widgetsByUri.set(widget.templateUri, widget);
-});
-
-// Tool input schema
-const accommodationSearchInputSchema = {
-  type: "object",
-  properties: {
-    destination: {
-      type: "string",
-      description: "City name or destination",
-    },
-    coordinates: {
-      type: "object",
-      description: "Geographic coordinates if city is not available",
-      properties: {
-        latitude: { type: "number" },
-        longitude: { type: "number" },
-      },
-    },
-    checkIn: {
-      type: "string",
-      description: "Check-in date (YYYY-MM-DD format)",
-    },
-    checkOut: {
-      type: "string",
-      description: "Check-out date (YYYY-MM-DD format)",
-    },
-    nights: {
-      type: "number",
-      description: "Number of nights",
-      minimum: 1,
-    },
-    adults: {
-      type: "number",
-      description: "Number of adults",
-      minimum: 1,
-    },
-    children: {
-      type: "number",
-      description: "Number of children",
-      minimum: 0,
-    },
-    rooms: {
-      type: "number",
-      description: "Number of rooms",
-      minimum: 1,
-    },
-    minPrice: {
-      type: "number",
-      description: "Minimum budget per night",
-    },
-    maxPrice: {
-      type: "number",
-      description: "Maximum budget per night",
-    },
-    accommodationType: {
-      type: "string",
-      description: "Type of accommodation",
-      enum: [
-        "hotel",
-        "apartment",
-        "hostel",
-        "guest-house",
-        "vacation-home",
-        "resort",
-        "villa",
-        "chalet",
-        "bed-and-breakfast",
-        "lodge",
-      ],
-    },
-    facilities: {
-      type: "array",
-      description: "Required facilities/amenities",
-      items: {
-        type: "string",
-        enum: [
-          "pool",
-          "parking",
-          "free-breakfast",
-          "gym",
-          "all-inclusive",
-          "family-friendly",
-          "wifi",
-          "spa",
-          "restaurant",
-          "airport-shuttle",
-          "pet-friendly",
-          "beach-access",
-          "kitchen",
-        ],
-      },
-    },
-    landmark: {
-      type: "string",
-      description: "Nearby landmark or point of interest",
-    },
-    rating: {
-      type: "number",
-      description: "Minimum guest rating (0-10)",
-      minimum: 0,
-      maximum: 10,
-    },
-  },
-  required: ["destination"],
-  additionalProperties: false,
-} as const;
-
-// Zod parser
-const accommodationSearchInputParser = z.object({
-  destination: z.string(),
-  coordinates: z
-    .object({
-      latitude: z.number(),
-      longitude: z.number(),
-    })
-    .optional(),
-  checkIn: z.string().optional(),
-  checkOut: z.string().optional(),
-  nights: z.number().min(1).optional(),
-  adults: z.number().min(1).optional(),
-  children: z.number().min(0).optional(),
-  rooms: z.number().min(1).optional(),
-  minPrice: z.number().optional(),
-  maxPrice: z.number().optional(),
-  accommodationType: z
-    .enum([
-      "hotel",
-      "apartment",
-      "hostel",
-      "guest-house",
-      "vacation-home",
-      "resort",
-      "villa",
-      "chalet",
-      "bed-and-breakfast",
-      "lodge",
-    ])
-    .optional(),
-  facilities: z.array(z.string()).optional(),
-  landmark: z.string().optional(),
-  rating: z.number().min(0).max(10).optional(),
-});
+const widgetHtml = new Map<string, string>();
 
-// Helper function to search accommodations using RapidAPI
-async function searchAccommodationsAPI(params: {
-  destination: string;
-  checkIn?: string;
-  checkOut?: string;
-  nights?: number;
-  adults?: number;
-  children?: number;
-  rooms?: number;
-  minPrice?: number;
-  maxPrice?: number;
-  accommodationType?: string;
-  facilities?: string[];
-  rating?: number;
-}) {
-  if (!RAPIDAPI_KEY) {
-    console.warn("[server.ts] --> RAPIDAPI_KEY not set, using mock data");
-    return null;
+// Read on first use, so a missing widget only fails its own resources/read
+function getWidgetHtml(widget: BookingWidget): string {
+  let html = widgetHtml.get(widget.id);
+  if (html === undefined) {
+    html = readWidgetHtml(widget.componentName);
+    widgetHtml.set(widget.id, html);
   }
+  return html;
+}
 
+// Still report a missing build at startup
+for (const widget of widgets) {
   try {
-    // First, search for destination to get dest_id
-    const locationsUrl = `https://${RAPIDAPI_HOST}/v1/hotels/locations`;
-    const locationsParams = new URLSearchParams({
-      name: params.destination,
-      locale: 'en-gb',
-    });
+    getWidgetHtml(widget);
+  } catch (error) {
+    console.warn(`[widgets] --> ${(error as Error).message}`);
+  }
+}
 
-    const locationsResponse = await fetch(`${locationsUrl}?${locationsParams}`, {
-      method: "GET",
-      headers: {
-        "x-rapidapi-key": RAPIDAPI_KEY,
-        "x-rapidapi-host": RAPIDAPI_HOST,
-      },
-    });
+// Created here so /readyz can report the circuit breaker
+const httpClient = createRapidApiHttpClient({ requestsPerSecond: RAPIDAPI_REQUESTS_PER_SECOND });
+
+// Usage counters live in memory, so they reset on restart
+const quotas = createQuotaGuard(createMemoryUsageStore(), QUOTAS);
+
+const core = createBookingCore({
+  rapidApiKey: RAPIDAPI_KEY,
+  rapidApiBaseUrl: RAPIDAPI_BASE_URL,
+  httpClient,
+  provider: PROVIDER,
+  timeZone: BOOKING_TIMEZONE,
+  cacheTtls: CACHE_TTLS,
+  quotas,
+  getWidgetHtml,
+});
 
-    if (!locationsResponse.ok) {
-      console.error("[server.ts] --> Failed to search location:", locationsResponse.statusText);
-      return null;
-    }
 
-    const locationsData: any = await locationsResponse.json();
-    if (!locationsData || !Array.isArray(locationsData) || locationsData.length === 0) {
-      console.warn("[server.ts] --> No location found for:", params.destination);
-      return null;
-    }
+type SessionRecord = {
+  server: Server;
+  transport: SSEServerTransport;
+  /** The open SSE stream, for keep-alive comments */
+  response: ServerResponse;
+  /** Who opened the session; only they may post to it */
+  principal?: Principal;
+  /** Epoch milliseconds of the last message posted */
+  lastActivityAt: number;
+};
 
-    const destId = locationsData[0].dest_id;
-    const destType = locationsData[0].dest_type || 'city';
-
-    // Calculate dates if not provided
-    let checkIn = params.checkIn;
-    let checkOut = params.checkOut;
-    
-    if (!checkIn || !checkOut) {
-      const today = new Date();
-      checkIn = checkIn || new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-      checkOut = checkOut || new Date(today.getTime() + (7 + (params.nights || 3)) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    }
+const sessions = new Map<string, SessionRecord>();
 
-    // Search for hotels
-    const searchUrl = `https://${RAPIDAPI_HOST}/v1/hotels/search`;
-    const searchParams = new URLSearchParams({
-      checkout_date: checkOut,
-      units: 'metric',
-      dest_id: String(destId),
-      dest_type: destType,
-      locale: 'en-gb',
-      adults_number: String(params.adults || 2),
-      order_by: 'popularity',
-      filter_by_currency: 'USD',
-      checkin_date: checkIn,
-      room_number: String(params.rooms || 1),
-      children_number: String(params.children || 0),
-      page_number: '0',
-      include_adjacency: 'true',
-      children_ages: '5,0',
-      categories_filter_ids: 'class::2,class::4,free_cancellation::1',
-    });
+const authenticator = AUTH ? createAuthenticator(AUTH) : undefined;
 
-    const searchResponse = await fetch(`${searchUrl}?${searchParams}`, {
-      method: "GET",
-      headers: {
-        "x-rapidapi-key": RAPIDAPI_KEY,
-        "x-rapidapi-host": RAPIDAPI_HOST,
-      },
-    });
+const cors = createCorsPolicy(CORS);
 
-    if (!searchResponse.ok) {
-      console.error("[server.ts] --> Failed to search accommodations:", searchResponse.statusText);
-      return null;
-    }
+const startedAt = Date.now();
+let shuttingDown = false;
 
-    const searchData: any = await searchResponse.json();
-    
-    // Transform API response to our format
-    const accommodations = (searchData.result || [])
-      .slice(0, 10)
-      .map((hotel: any) => ({
-        id: String(hotel.hotel_id),
-        name: hotel.hotel_name || hotel.hotel_name_trans,
-        type: determineAccommodationType(hotel.accommodation_type_name || 'hotel'),
-        destination: params.destination,
-        pricePerNight: Math.round(hotel.min_total_price / (params.nights || 1)),
-        totalPrice: Math.round(hotel.min_total_price || 0),
-        currency: hotel.currency_code || 'USD',
-        images: [hotel.max_1440_photo_url || hotel.max_photo_url],
-        mainImage: hotel.max_1440_photo_url || hotel.max_photo_url || 'https://via.placeholder.com/800x600',
-        rating: hotel.review_score || 8.0,
-        reviewScore: hotel.review_score_word || getReviewScore(hotel.review_score || 8.0),
-        reviewCount: hotel.review_nr || 0,
-        location: {
-          address: hotel.address || hotel.address_trans || 'N/A',
-          city: hotel.city || params.destination,
-          distance: hotel.distance_to_cc_formatted || `${hotel.distance || 0} km from city center`,
-          landmark: hotel.district || 'City center',
-          coordinates: {
-            latitude: hotel.latitude || 0,
-            longitude: hotel.longitude || 0,
-          },
-        },
-        facilities: extractFacilitiesFromIds(hotel.hotel_facilities),
-        cancellation: hotel.is_free_cancellable ? 'Free cancellation' : 'Non-refundable',
-        breakfast: hotel.ribbon_text || 'Breakfast options available',
-        sustainability: {
-          certified: false,
-          level: 0,
-        },
-      }));
-
-    // Apply filters
-    let filtered = accommodations;
-    
-    if (params.accommodationType) {
-      filtered = filtered.filter((acc: any) => acc.type === params.accommodationType);
-    }
-    if (params.minPrice) {
-      filtered = filtered.filter((acc: any) => acc.pricePerNight >= params.minPrice!);
-    }
-    if (params.maxPrice) {
-      filtered = filtered.filter((acc: any) => acc.pricePerNight <= params.maxPrice!);
-    }
-    if (params.rating) {
-      filtered = filtered.filter((acc: any) => acc.rating >= params.rating!);
-    }
-    if (params.facilities && params.facilities.length > 0) {
-      filtered = filtered.filter((acc: any) =>
-        params.facilities!.every((facility) =>
-          acc.facilities.some((f: string) => f.toLowerCase().includes(facility.toLowerCase()))
-        )
-      );
-    }
+const ssePath = "/mcp";
+const postPath = "/mcp/messages";
 
-    return filtered;
-  } catch (error) {
-    console.error("[server.ts] --> Error searching accommodations:", error);
-    return null;
-  }
-}
+// Streamable HTTP shares /mcp with the legacy SSE endpoints: requests that
+// carry Mcp-Session-Id or initialize a session are routed to it
+const streamableHttp = createStreamableHttpHandler({
+  createServer: (caller) => createBookingServer(core, caller),
+  stateful: true,
+  acceptSession: () => canOpenSession(),
+});
 
-// Helper to determine accommodation type
-function determineAccommodationType(type: string): string {
-  const typeMap: Record<string, string> = {
-    hotel: "hotel",
-    apartment: "apartment",
-    hostel: "hostel",
-    "guest house": "guest-house",
-    "vacation home": "vacation-home",
-    resort: "resort",
-    villa: "villa",
-    chalet: "chalet",
-    "bed and breakfast": "bed-and-breakfast",
-    lodge: "lodge",
-  };
-  return typeMap[type.toLowerCase()] || "hotel";
+function openSessionCount(): number {
+  return sessions.size + streamableHttp.sessionCount;
 }
 
-// Helper to get review score text
-function getReviewScore(score: number): string {
-  if (score >= 9.5) return "Exceptional";
-  if (score >= 9.0) return "Superb";
-  if (score >= 8.5) return "Wonderful";
-  if (score >= 8.0) return "Very Good";
-  if (score >= 7.5) return "Good";
-  return "Pleasant";
+function canOpenSession(): boolean {
+  return !shuttingDown && openSessionCount() < MAX_SESSIONS;
 }
 
-// Helper to extract facilities from API response
-function extractFacilities(facilities: any): string[] {
-  if (Array.isArray(facilities)) {
-    return facilities.map((f: any) => f.name || f).filter(Boolean);
-  }
-  return ["Wifi", "Parking"];
-}
+// Direct JSON-RPC POSTs to /mcp without a session are served statelessly by
+// a fresh server, through the same request handlers as the sessions
+const directJsonRpc = createStreamableHttpHandler({
+  createServer: (caller) => createBookingServer(core, caller),
+  stateful: false,
+});
 
-// Helper to extract facilities from facility IDs (Booking.com v1 API)
-function extractFacilitiesFromIds(facilityIds: string): string[] {
-  if (!facilityIds) return ["Wifi", "Parking"];
-  
-  // Common facility mappings based on Booking.com facility IDs
-  const facilityMap: Record<string, string> = {
-    '2': 'Parking',
-    '3': 'Restaurant',
-    '4': '24-hour front desk',
-    '6': 'Non-smoking rooms',
-    '7': 'Facilities for disabled guests',
-    '8': 'Family rooms',
-    '11': 'Airport shuttle',
-    '14': 'Spa and wellness centre',
-    '16': 'Bar',
-    '17': 'Breakfast',
-    '20': 'Free toiletries',
-    '22': 'Hairdryer',
-    '28': 'Car rental',
-    '47': 'Safety deposit box',
-    '48': 'Heating',
-    '51': 'Soundproof rooms',
-    '53': 'Express check-in/check-out',
-    '54': 'Packed lunches',
-    '75': 'Designated smoking area',
-    '81': 'Sun terrace',
-    '91': 'VIP room facilities',
-    '96': 'Bridal suite',
-    '107': 'Private check-in/check-out',
-    '108': 'Swimming pool',
-    '109': 'Terrace',
-    '111': 'Ironing facilities',
-    '121': 'Hot tub',
-    '124': 'Fitness centre',
-    '158': 'Gift shop',
-    '160': 'Ticket service',
-    '163': 'Business centre',
-    '177': 'Air conditioning',
-    '181': 'Electric kettle',
-    '184': 'WiFi',
-    '421': 'Mini golf',
-    '436': 'BBQ facilities',
-    '439': 'Meeting/banquet facilities',
-    '449': 'Bicycle rental',
-    '455': 'Massage',
-    '459': 'Concierge service',
-    '466': 'Lift',
-    '490': 'Room service',
-    '491': 'Currency exchange',
-    '495': 'Laundry',
-    '517': 'Shops on site',
-  };
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
 
-  const ids = facilityIds.split(',').map(id => id.trim());
-  const facilities: string[] = [];
-  
-  // Get first 6 matched facilities
-  for (const id of ids) {
-    if (facilityMap[id]) {
-      facilities.push(facilityMap[id]);
-      if (facilities.length >= 6) break;
+function toFetchRequest(req: IncomingMessage, url: URL, body?: string): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") {
+      headers.set(name, value);
+    } else if (value) {
+      value.forEach((item) => headers.append(name, item));
     }
   }
-  
-  // Ensure we have at least some facilities
-  if (facilities.length === 0) {
-    return ['WiFi', 'Parking', '24-hour front desk'];
-  }
-  
-  return facilities;
+  return new Request(url, { method: req.method, headers, body });
 }
 
-const tools: Tool[] = [
-  {
-    name: "accommodations_search",
-    description:
-      "Use this when the user wants to find, search, view or compare different accommodation types for their trip, for example, hotels, hostels, apartments, homes, guest houses, lodging, chalets, amongst many more. The user can find accommodations by destination, dates, number of nights, guests, budget, landmarks, and/or facilities (e.g., pool, parking, free breakfast, gym, all‑inclusive, family‑friendly). LLM must provide a city or, if a city is not available, resolve the destination to coordinates. Returns available accommodation options with price, photos, guest ratings, and facilities.",
-    inputSchema: accommodationSearchInputSchema,
-    _meta: widgetMeta(widgetsById.get("accommodations_search")!),
-    annotations: {
-      destructiveHint: false,
-      openWorldHint: false,
-      readOnlyHint: true,
-    },
-  },
-];
-
-const resources: Resource[] = Array.from(widgetsById.values()).map((widget) => ({
-  uri: widget.templateUri,
-  name: widget.title,
-  description: `${widget.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetMeta(widget),
-}));
-
-const resourceTemplates: ResourceTemplate[] = Array.from(widgetsById.values()).map(
-  (widget) => ({
-    uriTemplate: widget.templateUri,
-    name: widget.title,
-    description: `${widget.title} widget markup`,
-    mimeType: "text/html+skybridge",
-    _meta: widgetMeta(widget),
-  })
-);
-
-function createBookingServer(): Server {
-  const server = new Server(
-    {
-      name: "booking-mcp",
-      version: "1.0.0",
-    },
-    {
-      capabilities: {
-        resources: {},
-        tools: {},
-      },
-    }
-  );
-
-  server.setRequestHandler(
-    ListResourcesRequestSchema,
-    async (_request: ListResourcesRequest) => ({
-      resources,
-    })
-  );
-
-  server.setRequestHandler(
-    ReadResourceRequestSchema,
-    async (request: ReadResourceRequest) => {
-      const widget = widgetsByUri.get(request.params.uri);
+// Copy a Fetch API response onto `res`, streaming the body (SSE included)
+async function writeFetchResponse(response: Response, res: ServerResponse) {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (!response.body) {
+    res.end();
+    return;
+  }
+  // An SSE stream may stay quiet for a while; let the client see the headers
+  res.flushHeaders();
 
-      if (!widget) {
-        throw new Error(`Unknown resource: ${request.params.uri}`);
+  const reader = response.body.getReader();
+  res.on("close", () => {
+    void reader.cancel();
+  });
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
       }
-
-      return {
-        contents: [
-          {
-            uri: widget.templateUri,
-            mimeType: "text/html+skybridge",
-            text: widget.html,
-            _meta: widgetMeta(widget),
-          },
-        ],
-      };
+      res.write(value);
     }
-  );
-
-  server.setRequestHandler(
-    ListResourceTemplatesRequestSchema,
-    async (_request: ListResourceTemplatesRequest) => ({
-      resourceTemplates,
-    })
-  );
-
-  server.setRequestHandler(
-    ListToolsRequestSchema,
-    async (_request: ListToolsRequest) => ({
-      tools,
-    })
-  );
-
-  server.setRequestHandler(
-    CallToolRequestSchema,
-    async (request: CallToolRequest) => {
-      const toolName = request.params.name;
-
-      if (toolName === "accommodations_search") {
-        const args = accommodationSearchInputParser.parse(
-          request.params.arguments ?? {}
-        );
-        const widget = widgetsById.get(toolName)!;
-
-        // Try to use real API, fall back to mock data if API fails or key not set
-        let accommodations = await searchAccommodationsAPI({
-          destination: args.destination,
-          checkIn: args.checkIn,
-          checkOut: args.checkOut,
-          nights: args.nights,
-          adults: args.adults,
-          children: args.children,
-          rooms: args.rooms,
-          minPrice: args.minPrice,
-          maxPrice: args.maxPrice,
-          accommodationType: args.accommodationType,
-          facilities: args.facilities,
-          rating: args.rating,
-        });
+  } finally {
+    res.end();
+  }
+}
 
-        // Fallback to mock data if API call fails
-        if (!accommodations || accommodations.length === 0) {
-          console.warn("[server.ts][550] --> Using mock accommodation data from real Booking.com sample");
-          const mockAccommodations = [
-            {
-              id: "7696424",
-              name: "STAGES HOTEL Prague, a Tribute Portfolio Hotel",
-              type: "hotel",
-              destination: args.destination,
-              pricePerNight: 220,
-              totalPrice: (args.nights || 3) * 220,
-              currency: "USD",
-              images: [
-                "https://cf.bstatic.com/xdata/images/hotel/max1280x900/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",
-                "https://cf.bstatic.com/xdata/images/hotel/1440x1440/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",
-              ],
-              mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/430825435.jpg?k=3e8a521794862527b7c7ab2316a108088ddb3c23e39d861aa63322e7d0534c7d&o=",
-              rating: 9.4,
-              reviewScore: "Superb",
-              reviewCount: 15982,
-              location: {
-                address: "Ceskomoravska 19a",
-                city: args.destination,
-                distance: "5.6 km from city center",
-                landmark: args.landmark || "Prague 9",
-                coordinates: { latitude: 50.104384958882, longitude: 14.4953591788171 },
-              },
-              facilities: [
-                "WiFi",
-                "Parking",
-                "Restaurant",
-                "24-hour front desk",
-                "Fitness centre",
-                "Bar",
-                "Spa and wellness centre",
-                "Room service",
-              ],
-              cancellation: "Free cancellation",
-              breakfast: "Breakfast included",
-              sustainability: {
-                certified: false,
-                level: 0,
-              },
-            },
-            {
-              id: "77320",
-              name: "Hotel Duo & Wellness",
-              type: "hotel",
-              destination: args.destination,
-              pricePerNight: 165,
-              totalPrice: (args.nights || 3) * 165,
-              currency: "USD",
-              images: [
-                "https://cf.bstatic.com/xdata/images/hotel/max1280x900/493721137.jpg?k=058b6988395d2c397c8da154e92d9ab4022b0f3c4a6e59703e69c242fb2e9fdd&o=",
-              ],
-              mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/493721137.jpg?k=058b6988395d2c397c8da154e92d9ab4022b0f3c4a6e59703e69c242fb2e9fdd&o=",
-              rating: 8.7,
-              reviewScore: "Excellent",
-              reviewCount: 11781,
-              location: {
-                address: "Teplická 492",
-                city: args.destination,
-                distance: "6.8 km from city center",
-                landmark: args.landmark || "Prague 9",
-                coordinates: { latitude: 50.1203, longitude: 14.5156 },
-              },
-              facilities: [
-                "WiFi",
-                "Swimming pool",
-                "Spa and wellness centre",
-                "Parking",
-                "Restaurant",
-                "Bar",
-                "Fitness centre",
-                "Room service",
-              ],
-              cancellation: "Free cancellation",
-              breakfast: "Breakfast available",
-              sustainability: {
-                certified: false,
-                level: 0,
-              },
-            },
-            {
-              id: "mock_resort",
-              name: "Luxury Beach Resort & Spa",
-              type: "resort",
-              destination: args.destination,
-              pricePerNight: 389,
-              totalPrice: (args.nights || 3) * 389,
-              currency: "USD",
-              images: [
-                "https://cf.bstatic.com/xdata/images/hotel/max1280x900/400000000.jpg",
-              ],
-              mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/400000000.jpg",
-              rating: 9.5,
-              reviewScore: "Exceptional",
-              reviewCount: 1523,
-              location: {
-                address: "789 Beachfront Drive",
-                city: args.destination,
-                distance: "3.2 km from city center",
-                landmark: args.landmark || "Beach",
-                coordinates: { latitude: 40.7128, longitude: -74.006 },
-              },
-              facilities: [
-                "WiFi",
-                "Swimming pool",
-                "Spa and wellness centre",
-                "Restaurant",
-                "Beach access",
-                "Bar",
-                "Fitness centre",
-                "Airport shuttle",
-              ],
-              cancellation: "Non-refundable",
-              breakfast: "All-inclusive (all meals included)",
-              sustainability: {
-                certified: true,
-                level: 3,
-              },
-            },
-            {
-              id: "mock_apartment",
-              name: "Modern City Center Apartment",
-              type: "apartment",
-              destination: args.destination,
-              pricePerNight: 145,
-              totalPrice: (args.nights || 3) * 145,
-              currency: "USD",
-              images: [
-                "https://cf.bstatic.com/xdata/images/hotel/max1280x900/300000000.jpg",
-              ],
-              mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/300000000.jpg",
-              rating: 9.1,
-              reviewScore: "Superb",
-              reviewCount: 456,
-              location: {
-                address: "45 Park Avenue",
-                city: args.destination,
-                distance: "0.2 km from city center",
-                landmark: args.landmark || "Main Square",
-                coordinates: { latitude: 40.7128, longitude: -74.006 },
-              },
-              facilities: [
-                "WiFi",
-                "Kitchen",
-                "Parking",
-                "Family rooms",
-                "Laundry",
-                "Heating",
-                "Air conditioning",
-              ],
-              cancellation: "Free cancellation until 3 days before check-in",
-              breakfast: "Self-catering",
-              sustainability: {
-                certified: false,
-                level: 0,
-              },
-            },
-            {
-              id: "mock_villa",
-              name: "Secluded Mountain Villa",
-              type: "villa",
-              destination: args.destination,
-              pricePerNight: 475,
-              totalPrice: (args.nights || 3) * 475,
-              currency: "USD",
-              images: [
-                "https://cf.bstatic.com/xdata/images/hotel/max1280x900/500000000.jpg",
-              ],
-              mainImage: "https://cf.bstatic.com/xdata/images/hotel/max1280x900/500000000.jpg",
-              rating: 9.8,
-              reviewScore: "Exceptional",
-              reviewCount: 287,
-              location: {
-                address: "Mountain Ridge Road 15",
-                city: args.destination,
-                distance: "12 km from city center",
-                landmark: args.landmark || "Mountain View",
-                coordinates: { latitude: 40.7128, longitude: -74.006 },
-              },
-              facilities: [
-                "WiFi",
-                "Swimming pool",
-                "Kitchen",
-                "Parking",
-                "Terrace",
-                "BBQ facilities",
-                "Heating",
-                "Family rooms",
-              ],
-              cancellation: "Free cancellation until 7 days before check-in",
-              breakfast: "Self-catering",
-              sustainability: {
-                certified: true,
-                level: 2,
-              },
-            },
-          ];
-
-          // Apply filters to mock data
-          accommodations = mockAccommodations;
-          
-          if (args.accommodationType) {
-            accommodations = accommodations      .filter(
-              (acc: any) => acc.type === args.accommodationType
-            );
-          }
-          if (args.minPrice) {
-            accommodations = accommodations      .filter(
-              (acc: any) => acc.pricePerNight >= args.minPrice!
-            );
-          }
-          if (args.maxPrice) {
-            accommodations = accommodations      .filter(
-              (acc: any) => acc.pricePerNight <= args.maxPrice!
-            );
-          }
-          if (args.rating) {
-            accommodations = accommodations      .filter(
-              (acc: any) => acc.rating >= args.rating!
-            );
-          }
-          if (args.facilities && args.facilities.length > 0) {
-            accommodations = accommodations.filter((acc: any) =>
-              args.facilities!.every((facility: string) =>
-                acc.facilities.some((f: string) => f.includes(facility.toLowerCase()))
-              )
-            );
-          }
-        }
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Found ${accommodations.length} accommodation options in ${args.destination}${args.checkIn ? ` from ${args.checkIn}` : ""}${args.checkOut ? ` to ${args.checkOut}` : ""}.${!RAPIDAPI_KEY ? " (Using mock data - set RAPIDAPI_KEY for real results)" : ""}`,
-            },
-          ],
-          structuredContent: {
-            destination: args.destination,
-            checkIn: args.checkIn,
-            checkOut: args.checkOut,
-            nights: args.nights || 3,
-            adults: args.adults || 2,
-            children: args.children || 0,
-            rooms: args.rooms || 1,
-            accommodations: accommodations,
-            totalResults: accommodations.length,
-            filters: {
-              accommodationType: args.accommodationType,
-              facilities: args.facilities,
-              minPrice: args.minPrice,
-              maxPrice: args.maxPrice,
-              rating: args.rating,
-            },
-            usingMockData: !RAPIDAPI_KEY,
-          },
-          _meta: widgetMeta(widget),
-        };
-      }
+function startsStreamableSession(body: string): boolean {
+  try {
+    return isInitializeMessage(JSON.parse(body));
+  } catch {
+    return false;
+  }
+}
 
-      throw new Error(`Unknown tool: ${toolName}`);
+async function handleStreamableHttp(
+  handler: StreamableHttpHandler,
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  body: string | undefined,
+  principal: Principal | undefined
+) {
+  try {
+    await writeFetchResponse(
+      await handler.handle(toFetchRequest(req, url, body), principal, req.socket.remoteAddress),
+      res
+    );
+  } catch (error) {
+    console.error("Failed to handle Streamable HTTP request", error);
+    if (!res.headersSent) {
+      res.writeHead(500).end("Failed to handle request");
     }
-  );
-
-  return server;
+  }
 }
 
-type SessionRecord = {
-  server: Server;
-  transport: SSEServerTransport;
-};
-
-const sessions = new Map<string, SessionRecord>();
-
-const ssePath = "/mcp";
-const postPath = "/mcp/messages";
+async function handleSseRequest(req: IncomingMessage, res: ServerResponse, principal: Principal | undefined) {
+  if (!canOpenSession()) {
+    res.writeHead(503, { "Retry-After": "30" }).end("Too many open sessions, try again later");
+    return;
+  }
 
-async function handleSseRequest(res: ServerResponse) {
-  // CORS headers are already set by main handler, but SSE needs them early
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Credentials", "true");
-  const server = createBookingServer();
   const transport = new SSEServerTransport(postPath, res);
   const sessionId = transport.sessionId;
+  const server = createBookingServer(core, { sessionId, principal, address: req.socket.remoteAddress });
 
-  sessions.set(sessionId, { server, transport });
+  sessions.set(sessionId, { server, transport, response: res, principal, lastActivityAt: Date.now() });
 
-  transport.onclose = async () => {
+  // connect() takes over transport.onclose, so clean up from the server's
+  server.onclose = () => {
     sessions.delete(sessionId);
-    await server.close();
   };
 
   transport.onerror = (error) => {
@@ -954,12 +313,9 @@ async function handleSseRequest(res: ServerResponse) {
 async function handlePostMessage(
   req: IncomingMessage,
   res: ServerResponse,
-  url: URL
+  url: URL,
+  principal: Principal | undefined
 ) {
-  // CORS headers are already set by main handler
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Headers", "content-type, authorization");
-  res.setHeader("Access-Control-Allow-Credentials", "true");
   const sessionId = url.searchParams.get("sessionId");
 
   if (!sessionId) {
@@ -967,12 +323,14 @@ async function handlePostMessage(
     return;
   }
 
+  // Another client's session is reported as unknown, so ids cannot be probed
   const session = sessions.get(sessionId);
 
-  if (!session) {
+  if (!session || !isSamePrincipal(session.principal, principal)) {
     res.writeHead(404).end("Unknown session");
     return;
   }
+  session.lastActivityAt = Date.now();
 
   try {
     await session.transport.handlePostMessage(req, res);
@@ -984,152 +342,160 @@ async function handlePostMessage(
   }
 }
 
-// Handle direct JSON-RPC requests without SSE (for resource fetching)
-async function handleDirectJsonRpc(
-  req: IncomingMessage,
-  res: ServerResponse
-) {
-  let body = "";
-  
-  req.on("data", (chunk) => {
-    body += chunk.toString();
-  });
+// Usage by client, for operators holding MCP_ADMIN_KEY
+async function handleAdminUsage(req: IncomingMessage, res: ServerResponse, url: URL) {
+  if (!ADMIN_KEY) {
+    res.writeHead(404).end("Not Found");
+    return;
+  }
+  if (!(await hasBearerToken(toFetchRequest(req, url), ADMIN_KEY))) {
+    res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end("Unauthorized");
+    return;
+  }
+  sendJson(res, 200, await quotas.report());
+}
 
-  req.on("end", async () => {
-    try {
-      const request = JSON.parse(body);
-      console.log("[handleDirectJsonRpc] Request:", request);
-
-      // Handle resources/read for widget fetching
-      if (request.method === "resources/read") {
-        const uri = request.params?.uri;
-        const widget = widgetsByUri.get(uri);
-
-        if (!widget) {
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({
-            jsonrpc: "2.0",
-            id: request.id,
-            error: {
-              code: -32602,
-              message: `Unknown resource: ${uri}`,
-            },
-          }));
-          return;
-        }
-
-        res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({
-          jsonrpc: "2.0",
-          id: request.id,
-          result: {
-            contents: [
-              {
-                uri: widget.templateUri,
-                mimeType: "text/html+skybridge",
-                text: widget.html,
-                _meta: widgetMeta(widget),
-              },
-            ],
-          },
-        }));
-        return;
-      }
+// The MCP endpoint as clients address it: the OAuth resource and token audience
+function resourceUrlFor(url: URL): string {
+  return `${(BASE_URL || url.origin).replace(/\/+$/, "")}${ssePath}`;
+}
 
-      // Handle resources/list
-      if (request.method === "resources/list") {
-        res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({
-          jsonrpc: "2.0",
-          id: request.id,
-          result: {
-            resources: resources,
-          },
-        }));
-        return;
-      }
+// Both the root and the path-specific well-known URL of RFC 9728
+function isProtectedResourceMetadataPath(pathname: string): boolean {
+  return pathname === PROTECTED_RESOURCE_METADATA_PATH || pathname === `${PROTECTED_RESOURCE_METADATA_PATH}${ssePath}`;
+}
 
-      // Method not supported in direct mode
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({
-        jsonrpc: "2.0",
-        id: request.id,
-        error: {
-          code: -32601,
-          message: `Method not supported in direct mode: ${request.method}`,
-        },
-      }));
-    } catch (error: any) {
-      console.error("[handleDirectJsonRpc] Error:", error);
-      res.writeHead(400, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({
-        jsonrpc: "2.0",
-        id: null,
-        error: {
-          code: -32700,
-          message: "Parse error",
-        },
-      }));
-    }
-  });
+function healthReport() {
+  return {
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    sessions: {
+      sse: sessions.size,
+      streamableHttp: streamableHttp.sessionCount,
+      max: MAX_SESSIONS,
+    },
+    upstream: {
+      provider: PROVIDER,
+      // The fixture provider makes no upstream calls
+      circuit: PROVIDER === "rapidapi" ? httpClient.circuitState : undefined,
+    },
+  };
 }
 
-const portEnv = Number(process.env.PORT ?? 8000);
-const port = Number.isFinite(portEnv) ? portEnv : 8000;
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
 
-// Helper function to set CORS headers
-function setCorsHeaders(res: ServerResponse, origin?: string) {
-  const allowedOrigins = [
-    'https://zerotwo.ai',
-    'http://localhost:3000',
-    'http://localhost:5173', // Vite dev server
-  ];
-  
-  const requestOrigin = origin || '*';
-  const allowOrigin = allowedOrigins.includes(requestOrigin) ? requestOrigin : '*';
-  
-  res.setHeader("Access-Control-Allow-Origin", allowOrigin);
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "content-type, authorization");
-  res.setHeader("Access-Control-Allow-Credentials", "true");
+// Liveness: the process is up and serving requests
+function handleHealthz(res: ServerResponse) {
+  sendJson(res, 200, { status: "ok", ...healthReport() });
 }
 
+// Readiness: whether new sessions should be routed here. An open circuit
+// breaker only degrades the status, as every instance shares the upstream
+function handleReadyz(res: ServerResponse) {
+  const report = healthReport();
+  const status = shuttingDown
+    ? "shutting_down"
+    : openSessionCount() >= MAX_SESSIONS
+      ? "at_capacity"
+      : report.upstream.circuit === "open" ? "degraded" : "ready";
+
+  sendJson(res, status === "ready" || status === "degraded" ? 200 : 503, { status, ...report });
+}
+
+const portEnv = Number(process.env.PORT ?? 8000);
+const port = Number.isFinite(portEnv) ? portEnv : 8000;
+
 const httpServer = createServer(
   async (req: IncomingMessage, res: ServerResponse) => {
-    const origin = req.headers.origin;
-    
-    // Set CORS headers on all responses
-    setCorsHeaders(res, origin);
-    
     if (!req.url) {
       res.writeHead(400).end("Missing URL");
       return;
     }
 
     const url = new URL(req.url, `http://${req.headers.host ?? "localhost"}`);
+    const origin = req.headers.origin;
+    const isMcpPath = url.pathname === ssePath || url.pathname === postPath;
+
+    // Browsers on unknown origins get no CORS headers, and no MCP access at all
+    if (isMcpPath && origin && !cors.isAllowed(origin)) {
+      res.writeHead(403, cors.responseHeaders(origin)).end("Origin not allowed");
+      return;
+    }
 
-    if (
-      req.method === "OPTIONS" &&
-      (url.pathname === ssePath || url.pathname === postPath)
-    ) {
-      res.writeHead(204);
+    if (req.method === "OPTIONS" && isMcpPath) {
+      res.writeHead(204, cors.preflightHeaders(origin));
       res.end();
       return;
     }
 
+    for (const [name, value] of Object.entries(cors.responseHeaders(origin))) {
+      res.setHeader(name, value);
+    }
+
+    if (req.method === "GET" && isProtectedResourceMetadataPath(url.pathname)) {
+      const metadata = authenticator?.protectedResourceMetadata(resourceUrlFor(url));
+      if (metadata) {
+        sendJson(res, 200, metadata);
+      } else {
+        res.writeHead(404).end("Not Found");
+      }
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/admin/usage") {
+      await handleAdminUsage(req, res, url);
+      return;
+    }
+
+    let principal: Principal | undefined;
+    if (authenticator && isMcpPath) {
+      const auth = await authenticator.authenticate(toFetchRequest(req, url), resourceUrlFor(url));
+      if (!auth.ok) {
+        await writeFetchResponse(auth.response, res);
+        return;
+      }
+      principal = auth.principal;
+    }
+
+    if (req.headers["mcp-session-id"] && url.pathname === ssePath) {
+      const body = req.method === "POST" ? await readBody(req) : undefined;
+      await handleStreamableHttp(streamableHttp, req, res, url, body, principal);
+      return;
+    }
+
     if (req.method === "GET" && url.pathname === ssePath) {
-      await handleSseRequest(res);
+      await handleSseRequest(req, res, principal);
       return;
     }
 
     if (req.method === "POST" && url.pathname === postPath) {
-      await handlePostMessage(req, res, url);
+      await handlePostMessage(req, res, url, principal);
       return;
     }
 
-    // Handle direct JSON-RPC POST to /mcp (for resource fetching without SSE)
+    // Direct JSON-RPC POST to /mcp without a session, unless it opens one
     if (req.method === "POST" && url.pathname === ssePath) {
-      await handleDirectJsonRpc(req, res);
+      const body = await readBody(req);
+      await handleStreamableHttp(
+        startsStreamableSession(body) ? streamableHttp : directJsonRpc,
+        req,
+        res,
+        url,
+        body,
+        principal
+      );
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/healthz") {
+      handleHealthz(res);
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/readyz") {
+      handleReadyz(res);
       return;
     }
 
@@ -1165,7 +531,6 @@ const httpServer = createServer(
         
         res.writeHead(200, {
           "Content-Type": contentType,
-          "Access-Control-Allow-Origin": "*",
           "Cache-Control": "public, max-age=3600",
         });
         fs.createReadStream(resolvedPath).pipe(res);
@@ -1184,9 +549,64 @@ httpServer.on("clientError", (err: Error, socket: any) => {
 
 httpServer.listen(port, '0.0.0.0', () => {
   console.log(`Booking.com MCP server listening on http://0.0.0.0:${port}`);
+  console.log(`  Streamable HTTP: POST/GET/DELETE http://0.0.0.0:${port}${ssePath} with Mcp-Session-Id`);
   console.log(`  SSE stream: GET http://0.0.0.0:${port}${ssePath}`);
   console.log(
     `  Message post endpoint: POST http://localhost:${port}${postPath}?sessionId=...`
   );
+  console.log(`  CORS origins: ${CORS.allowedOrigins.join(", ")}`);
+  console.log(
+    AUTH
+      ? `  Auth: ${[AUTH.apiKeys.length > 0 && "API keys", AUTH.oauth && `OAuth (${AUTH.oauth.issuer})`].filter(Boolean).join(" and ")}`
+      : "  Auth: disabled, set MCP_API_KEYS or OAUTH_ISSUER to require it"
+  );
+  if (PROVIDER === "fixtures") {
+    console.log("  Demo mode: answering from the bundled sample data");
+  } else if (!RAPIDAPI_KEY) {
+    console.warn("  RAPIDAPI_KEY is not set: tool calls will fail, set BOOKING_DEMO_MODE=true to use sample data");
+  }
 });
 
+// Keep-alive comments stop proxies from cutting quiet streams, and writing to
+// a client that vanished surfaces the dead socket
+const keepAliveTimer = setInterval(() => {
+  for (const { response } of sessions.values()) {
+    response.write(": ping\n\n");
+  }
+  streamableHttp.keepAlive();
+}, KEEP_ALIVE_INTERVAL_MS);
+
+const idleTimer = setInterval(async () => {
+  const idle = [...sessions.values()].filter(
+    (session) => Date.now() - session.lastActivityAt >= SESSION_IDLE_TIMEOUT_MS
+  );
+  await Promise.all(idle.map(({ server }) => server.close()));
+  const closed = idle.length + (await streamableHttp.closeIdleSessions(SESSION_IDLE_TIMEOUT_MS));
+  if (closed > 0) {
+    console.log(`Closed ${closed} idle sessions`);
+  }
+}, Math.min(60_000, SESSION_IDLE_TIMEOUT_MS));
+
+// Stop accepting connections, close every session and exit once the open
+// requests are done (or after SHUTDOWN_TIMEOUT_MS)
+async function shutdown(signal: string) {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  console.log(`${signal} received, closing ${openSessionCount()} sessions`);
+  clearInterval(keepAliveTimer);
+  clearInterval(idleTimer);
+  setTimeout(() => {
+    console.warn("Connections still open, exiting anyway");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  httpServer.close(() => process.exit(0));
+  await Promise.all([...sessions.values()].map(({ server }) => server.close()));
+  await streamableHttp.closeAll();
+  httpServer.closeIdleConnections();
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
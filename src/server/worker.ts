@@ -3,112 +3,184 @@
  * This worker handles MCP protocol for ChatGPT integration
  */
 
-import { z } from "zod";
-import { WIDGET_HTML } from "./widget-html.js";
-
-// Widget definition
-const WIDGET = {
-  id: "accommodations_search",
-  title: "Booking.com Accommodation Search",
-  templateUri: "ui://widget/booking-search-results.html",
-  invoking: "Searching for stays on Booking.com...",
-  invoked: "Results from Booking.com ready",
+import {
+  cacheTtlsFromEnv,
+  createBookingCore,
+  createKvCache,
+  createKvUsageStore,
+  createMemoryCache,
+  createMemoryUsageStore,
+  createQuotaGuard,
+  createRapidApiHttpClient,
+  providerNameFromEnv,
+  quotaConfigFromEnv,
+  type HttpClient,
+} from "./core/index.js";
+import {
+  authConfigFromEnv,
+  createAuthenticator,
+  hasBearerToken,
+  PROTECTED_RESOURCE_METADATA_PATH,
+  type Authenticator,
+  type Principal,
+} from "./core/auth.js";
+import { corsConfigFromEnv, createCorsPolicy } from "./core/cors.js";
+import { createBookingServer } from "./core/mcp-server.js";
+import { createStreamableHttpHandler } from "./core/streamable-http.js";
+import { WIDGET_HTML_BY_COMPONENT } from "./widget-html.js";
+
+type Env = {
+  RAPIDAPI_KEY?: string;
+  RAPIDAPI_BASE_URL?: string;
+  RAPIDAPI_REQUESTS_PER_SECOND?: string;
+  BASE_URL?: string;
+  BOOKING_PROVIDER?: string;
+  BOOKING_DEMO_MODE?: string;
+  BOOKING_TIMEZONE?: string;
+  BOOKING_CACHE_TTL_DESTINATIONS?: string;
+  BOOKING_CACHE_TTL_SEARCHES?: string;
+  /** Optional KV namespace shared by all isolates for cached lookups and searches */
+  BOOKING_CACHE?: KVNamespace;
+  /** Comma separated bearer keys; set with `wrangler secret put` */
+  MCP_API_KEYS?: string;
+  OAUTH_ISSUER?: string;
+  OAUTH_JWKS_URI?: string;
+  OAUTH_AUDIENCE?: string;
+  OAUTH_REQUIRED_SCOPES?: string;
+  MCP_SESSION_QUOTA_PER_MINUTE?: string;
+  MCP_SESSION_QUOTA_PER_DAY?: string;
+  MCP_CLIENT_QUOTA_PER_MINUTE?: string;
+  MCP_CLIENT_QUOTA_PER_DAY?: string;
+  /** Bearer token for GET /admin/usage; set with `wrangler secret put` */
+  MCP_ADMIN_KEY?: string;
+  /** Optional KV namespace for usage counters shared by all isolates */
+  BOOKING_USAGE?: KVNamespace;
+  /** Comma separated browser origins, "https://*.example.com" for subdomains */
+  CORS_ALLOWED_ORIGINS?: string;
+  CORS_ALLOWED_METHODS?: string;
+  CORS_ALLOWED_HEADERS?: string;
+  CORS_MAX_AGE_SECONDS?: string;
+  CORS_ALLOW_CREDENTIALS?: string;
 };
 
-function widgetDescriptorMeta() {
-  return {
-    "openai/outputTemplate": WIDGET.templateUri,
-    "openai/toolInvocation/invoking": WIDGET.invoking,
-    "openai/toolInvocation/invoked": WIDGET.invoked,
-    "openai/widgetAccessible": true,
-    "openai/resultCanProduceWidget": true,
-  } as const;
-}
+// Without a KV binding each isolate keeps its own cache; it has to outlive
+// the per-request core
+const isolateCache = createMemoryCache({ maxEntries: 200 });
 
-function widgetInvocationMeta() {
-  return {
-    "openai/toolInvocation/invoking": WIDGET.invoking,
-    "openai/toolInvocation/invoked": WIDGET.invoked,
-  } as const;
-}
+// Likewise for usage counters without a BOOKING_USAGE binding, which makes
+// quotas per isolate
+const isolateUsage = createMemoryUsageStore({ maxEntries: 1_000 });
 
-// Zod parser
-const accommodationSearchInputParser = z.object({
-  destination: z.string(),
-  coordinates: z.object({ latitude: z.number(), longitude: z.number() }).optional(),
-  checkIn: z.string().optional(),
-  checkOut: z.string().optional(),
-  nights: z.number().min(1).optional(),
-  adults: z.number().min(1).optional(),
-  children: z.number().min(0).optional(),
-  rooms: z.number().min(1).optional(),
-  minPrice: z.number().optional(),
-  maxPrice: z.number().optional(),
-  accommodationType: z.enum(["hotel", "apartment", "hostel", "guest-house", "vacation-home", "resort", "villa", "chalet", "bed-and-breakfast", "lodge"]).optional(),
-  facilities: z.array(z.string()).optional(),
-  landmark: z.string().optional(),
-  rating: z.number().min(0).max(10).optional(),
-});
+// Rate limit and circuit breaker state likewise lives per isolate
+let httpClient: HttpClient | undefined;
 
-// Define tool
-const tool = {
-  name: WIDGET.id,
-  description: "Use this when the user wants to find, search, view or compare different accommodation types for their trip, for example, hotels, hostels, apartments, homes, guest houses, lodging, chalets, amongst many more. The user can find accommodations by destination, dates, number of nights, guests, budget, landmarks, and/or facilities (e.g., pool, parking, free breakfast, gym, all‑inclusive, family‑friendly). LLM must provide a city or, if a city is not available, resolve the destination to coordinates. Returns available accommodation options with price, photos, guest ratings, and facilities.",
-  inputSchema: {
-    type: "object",
-    properties: {
-      destination: { type: "string", description: "City name or destination" },
-      coordinates: { type: "object", properties: { latitude: { type: "number" }, longitude: { type: "number" } } },
-      checkIn: { type: "string", description: "Check-in date (YYYY-MM-DD)" },
-      checkOut: { type: "string", description: "Check-out date (YYYY-MM-DD)" },
-      nights: { type: "number", minimum: 1 },
-      adults: { type: "number", minimum: 1 },
-      children: { type: "number", minimum: 0 },
-      rooms: { type: "number", minimum: 1 },
-      minPrice: { type: "number" },
-      maxPrice: { type: "number" },
-      accommodationType: { type: "string", enum: ["hotel", "apartment", "hostel", "guest-house", "vacation-home", "resort", "villa", "chalet", "bed-and-breakfast", "lodge"] },
-      facilities: { type: "array", items: { type: "string" } },
-      landmark: { type: "string" },
-      rating: { type: "number", minimum: 0, maximum: 10 },
-    },
-    required: ["destination"],
-  },
-  _meta: widgetDescriptorMeta(),
-  annotations: { destructiveHint: false, openWorldHint: false, readOnlyHint: true },
-};
-
-const resource = {
-  uri: WIDGET.templateUri,
-  name: WIDGET.title,
-  description: `${WIDGET.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetDescriptorMeta(),
-};
-
-const resourceTemplate = {
-  uriTemplate: WIDGET.templateUri,
-  name: WIDGET.title,
-  description: `${WIDGET.title} widget markup`,
-  mimeType: "text/html+skybridge",
-  _meta: widgetDescriptorMeta(),
-};
+// Created once per isolate so fetched signing keys are reused; null when auth is off
+let authenticator: Authenticator | null | undefined;
 
 // Cloudflare Worker handler
 export default {
-  async fetch(request: Request, env: any): Promise<Response> {
+  async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
+    if (authenticator === undefined) {
+      const authConfig = authConfigFromEnv(env);
+      authenticator = authConfig ? createAuthenticator(authConfig) : null;
+    }
+    httpClient ??= createRapidApiHttpClient({
+      requestsPerSecond: Number(env.RAPIDAPI_REQUESTS_PER_SECOND) || undefined,
+    });
+    const quotas = createQuotaGuard(
+      env.BOOKING_USAGE ? createKvUsageStore(env.BOOKING_USAGE) : isolateUsage,
+      quotaConfigFromEnv(env)
+    );
+    const core = createBookingCore({
+      rapidApiKey: env.RAPIDAPI_KEY,
+      rapidApiBaseUrl: env.RAPIDAPI_BASE_URL,
+      httpClient,
+      provider: providerNameFromEnv(env),
+      timeZone: env.BOOKING_TIMEZONE,
+      cache: env.BOOKING_CACHE ? createKvCache(env.BOOKING_CACHE) : isolateCache,
+      cacheTtls: cacheTtlsFromEnv(env),
+      quotas,
+      getWidgetHtml: (widget) => {
+        const html = WIDGET_HTML_BY_COMPONENT[widget.componentName];
+        if (!html) {
+          throw new Error(`Widget "${widget.componentName}" is not embedded. Run "npm run build" before deploying.`);
+        }
+        return html;
+      },
+    });
     
-    const corsHeaders = {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "content-type",
-    };
+    const cors = createCorsPolicy(corsConfigFromEnv(env));
+    const origin = request.headers.get("Origin");
+    const corsHeaders = cors.responseHeaders(origin);
+
+    // Browsers on unknown origins get no CORS headers, and no MCP access at all
+    if (origin && !cors.isAllowed(origin) && (url.pathname === "/mcp" || url.pathname.startsWith("/mcp/"))) {
+      return new Response("Origin not allowed", { status: 403, headers: corsHeaders });
+    }
 
     if (request.method === "OPTIONS") {
-      return new Response(null, { status: 204, headers: corsHeaders });
+      return new Response(null, { status: 204, headers: cors.preflightHeaders(origin) });
+    }
+
+    const resourceUrl = `${(env.BASE_URL || url.origin).replace(/\/+$/, "")}/mcp`;
+
+    if (
+      request.method === "GET" &&
+      (url.pathname === PROTECTED_RESOURCE_METADATA_PATH || url.pathname === `${PROTECTED_RESOURCE_METADATA_PATH}/mcp`)
+    ) {
+      const metadata = authenticator?.protectedResourceMetadata(resourceUrl);
+      return metadata
+        ? new Response(JSON.stringify(metadata), {
+            status: 200,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          })
+        : new Response("Not Found", { status: 404, headers: corsHeaders });
+    }
+
+    // Usage by client, for operators holding MCP_ADMIN_KEY
+    if (url.pathname === "/admin/usage" && request.method === "GET") {
+      if (!env.MCP_ADMIN_KEY) {
+        return new Response("Not Found", { status: 404 });
+      }
+      if (!(await hasBearerToken(request, env.MCP_ADMIN_KEY))) {
+        return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+      }
+      return new Response(JSON.stringify(await quotas.report()), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+      });
     }
 
+    // Set by Cloudflare and not by the client; quotas count anonymous stateless calls against it
+    const address = request.headers.get("CF-Connecting-IP") ?? undefined;
+
+    let principal: Principal | undefined;
+    if (authenticator && (url.pathname === "/mcp" || url.pathname === "/mcp/rpc")) {
+      const auth = await authenticator.authenticate(request, resourceUrl);
+      if (!auth.ok) {
+        for (const [name, value] of Object.entries(corsHeaders)) {
+          auth.response.headers.set(name, value);
+        }
+        return auth.response;
+      }
+      principal = auth.principal;
+    }
+
+    // Streamable HTTP. Isolates share no memory, so sessions are stateless:
+    // each POST gets a fresh server and there is no GET stream
+    if (url.pathname === "/mcp") {
+      const response = await createStreamableHttpHandler({
+        createServer: (caller) => createBookingServer(core, caller),
+        stateful: false,
+      }).handle(request, principal, address);
+      for (const [name, value] of Object.entries(corsHeaders)) {
+        response.headers.set(name, value);
+      }
+      return response;
+    }
+
+    // Legacy endpoint answering with bare results, kept for existing clients
     if (url.pathname === "/mcp/rpc" && request.method === "POST") {
       try {
         const body = await request.json() as any;
@@ -118,35 +190,27 @@ export default {
 
         switch (method) {
           case "tools/list":
-            response = { tools: [tool] };
+            response = { tools: core.tools };
             break;
 
           case "resources/list":
-            response = { resources: [resource] };
+            response = { resources: core.resources };
             break;
 
           case "resources/templates/list":
-            response = { resourceTemplates: [resourceTemplate] };
+            response = { resourceTemplates: core.resourceTemplates };
             break;
 
           case "resources/read": {
             const uri = body.params?.uri;
-            if (uri !== WIDGET.templateUri) {
+            if (!core.resources.some((resource) => resource.uri === uri)) {
               return new Response(JSON.stringify({ error: "Resource not found" }), {
                 status: 404,
                 headers: { ...corsHeaders, "Content-Type": "application/json" },
               });
             }
 
-            // Return the widget HTML just like server.ts does
-            response = {
-              contents: [{
-                uri: WIDGET.templateUri,
-                mimeType: "text/html+skybridge",
-                text: WIDGET_HTML,
-                _meta: widgetDescriptorMeta(),
-              }],
-            };
+            response = core.readResource(uri);
             break;
           }
 
@@ -154,14 +218,14 @@ export default {
             const toolName = body.params?.name;
             const args = body.params?.arguments || {};
 
-            if (toolName !== WIDGET.id) {
+            if (!core.tools.some((tool) => tool.name === toolName)) {
               return new Response(JSON.stringify({ error: "Unknown tool" }), {
                 status: 400,
                 headers: { ...corsHeaders, "Content-Type": "application/json" },
               });
             }
 
-            response = await handleToolCall(args);
+            response = await core.callTool(toolName, args, body.params?._meta, { principal, address });
             break;
           }
 
@@ -187,104 +251,3 @@ export default {
     return new Response("Not Found", { status: 404, headers: corsHeaders });
   },
 };
-
-async function handleToolCall(args: any) {
-  const parsed = accommodationSearchInputParser.parse(args);
-  
-  // Mock Booking.com data
-  const mockAccommodations = [
-    {
-      id: "b1",
-      name: "Grand Hotel & Spa",
-      type: "hotel",
-      destination: parsed.destination,
-      pricePerNight: 185,
-      totalPrice: (parsed.nights || 3) * 185,
-      currency: "USD",
-      mainImage: "https://via.placeholder.com/800x600",
-      rating: 8.9,
-      reviewScore: "Excellent",
-      reviewCount: 2847,
-      location: {
-        distance: "0.5 km from city center",
-      },
-      facilities: ["free-wifi", "pool", "spa", "gym", "restaurant", "parking"],
-      cancellation: "Free cancellation until 24 hours before check-in",
-      sustainability: { certified: true, level: 2 },
-    },
-    {
-      id: "b2",
-      name: "Cozy Downtown Apartment",
-      type: "apartment",
-      destination: parsed.destination,
-      pricePerNight: 120,
-      totalPrice: (parsed.nights || 3) * 120,
-      currency: "USD",
-      mainImage: "https://via.placeholder.com/800x600",
-      rating: 9.2,
-      reviewScore: "Superb",
-      reviewCount: 456,
-      location: {
-        distance: "0.2 km from city center",
-      },
-      facilities: ["free-wifi", "kitchen", "parking", "family-friendly"],
-      cancellation: "Free cancellation until 3 days before check-in",
-      sustainability: { certified: false, level: 0 },
-    },
-    {
-      id: "b3",
-      name: "Luxury Beach Resort",
-      type: "resort",
-      destination: parsed.destination,
-      pricePerNight: 389,
-      totalPrice: (parsed.nights || 3) * 389,
-      currency: "USD",
-      mainImage: "https://via.placeholder.com/800x600",
-      rating: 9.5,
-      reviewScore: "Exceptional",
-      reviewCount: 1523,
-      location: {
-        distance: "3.2 km from city center",
-      },
-      facilities: ["free-wifi", "pool", "spa", "beach-access", "all-inclusive"],
-      cancellation: "Non-refundable",
-      sustainability: { certified: true, level: 3 },
-    },
-  ];
-
-  let filteredAccommodations = mockAccommodations;
-
-  if (parsed.accommodationType) {
-    filteredAccommodations = filteredAccommodations.filter(acc => acc.type === parsed.accommodationType);
-  }
-  if (parsed.minPrice) {
-    filteredAccommodations = filteredAccommodations.filter(acc => acc.pricePerNight >= parsed.minPrice!);
-  }
-  if (parsed.maxPrice) {
-    filteredAccommodations = filteredAccommodations.filter(acc => acc.pricePerNight <= parsed.maxPrice!);
-  }
-  if (parsed.rating) {
-    filteredAccommodations = filteredAccommodations.filter(acc => acc.rating >= parsed.rating!);
-  }
-
-  return {
-    content: [{ type: "text", text: `Found ${filteredAccommodations.length} accommodations in ${parsed.destination}` }],
-    structuredContent: {
-      destination: parsed.destination,
-      checkIn: parsed.checkIn,
-      checkOut: parsed.checkOut,
-      nights: parsed.nights || 3,
-      accommodations: filteredAccommodations,
-      totalResults: filteredAccommodations.length,
-      filters: {
-        accommodationType: parsed.accommodationType,
-        facilities: parsed.facilities,
-        minPrice: parsed.minPrice,
-        maxPrice: parsed.maxPrice,
-        rating: parsed.rating,
-      },
-    },
-    _meta: widgetInvocationMeta(),
-  };
-}
-
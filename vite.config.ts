@@ -11,6 +11,7 @@ export default defineConfig({
     rollupOptions: {
       input: {
         'booking-search-results': resolve(__dirname, 'src/components/booking-search-results.html'),
+        'booking-property-details': resolve(__dirname, 'src/components/booking-property-details.html'),
         'preview': resolve(__dirname, 'src/dev/preview.html'),
       },
       output: {